@@ -68,7 +68,7 @@ export class MemoryEngine {
      * Store memory with security validation and real database persistence
      * Phase 1 Sprint 1.3: Real SQLite implementation
      */
-    async storeMemory(content: string, context: string = 'cli-command', type: string = 'general'): Promise<number> {
+    async storeMemory(content: string, context: string = 'cli-command', type: string = 'general', tags: string[] = []): Promise<number> {
         // Ensure database is initialized
         await this.initialize();
 
@@ -103,7 +103,7 @@ export class MemoryEngine {
                 content.trim(),
                 context || 'unknown',
                 type || 'general',
-                [], // tags - can be extended later
+                tags,
                 {} // metadata - can be extended later
             );
 
@@ -120,7 +120,7 @@ export class MemoryEngine {
      * Search memories with real database full-text search
      * Phase 1 Sprint 1.3: Real SQLite FTS implementation
      */
-    async searchMemories(query: string, limit: number = 10): Promise<SearchResult[]> {
+    async searchMemories(query: string, limit: number = 10, filters: Omit<SearchOptions, 'limit'> = {}): Promise<SearchResult[]> {
         // Ensure database is initialized
         await this.initialize();
 
@@ -143,8 +143,9 @@ export class MemoryEngine {
         try {
             // Use real database search with FTS5
             const results = await this.database.searchMemories(query, {
-                limit,
-                minRelevance: 0.1
+                minRelevance: 0.1,
+                ...filters,
+                limit
             });
 
             console.log(`✅ Search completed: "${query}" - Found ${results.length} results`);
@@ -0,0 +1,96 @@
+/**
+ * Line windows for chunking: at most `maxLines` per window, `overlap` lines repeated at the start of the next one,
+ * and cuts moved back to a natural boundary — the lowest brace depth, preferring blank lines — within the second
+ * half of the window. An optional `fits` check (the embedding tokenizer) shrinks windows further.
+ */
+
+export interface LineWindowOptions {
+  maxLines: number;
+  /** Lines shared by consecutive windows (at most half of the window they follow). */
+  overlap?: number;
+  /** Extra size limit: does lines[start, end) fit? A single line is always accepted. */
+  fits?: (start: number, end: number) => boolean;
+}
+
+/** Half-open [start, end) line ranges covering every line, in order. */
+export function lineWindows(lines: string[], opts: LineWindowOptions): Array<{ start: number; end: number }> {
+  const n = lines.length;
+  const maxLines = Math.max(1, opts.maxLines);
+  const overlap = Math.max(0, Math.min(opts.overlap || 0, maxLines - 1));
+  const depth = braceDepths(lines);
+  const windows: Array<{ start: number; end: number }> = [];
+  let start = 0;
+  while (start < n) {
+    let end = Math.min(n, start + maxLines);
+    if (opts.fits && end - start > 1 && !opts.fits(start, end)) {
+      let lo = start + 1, hi = end - 1;
+      end = start + 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (opts.fits(start, mid)) { end = mid; lo = mid + 1; } else hi = mid - 1;
+      }
+    }
+    // A window must cover at least half of the lines past the previous one, or it would mostly repeat them
+    const prevEnd = windows.length ? windows[windows.length - 1].end : start;
+    if (end < n) end = snapEnd(lines, depth, start, end, prevEnd + Math.ceil((end - prevEnd) / 2));
+    windows.push({ start, end });
+    if (end >= n) break;
+    // Repeat at most half of the window just emitted (snapping can shrink it well below maxLines), so every step
+    // covers new lines, and never step back to (or before) the previous start
+    start = Math.max(end - Math.min(overlap, Math.floor((end - start) / 2)), start + 1);
+  }
+  return windows;
+}
+
+/**
+ * Best cut in (start + half, end], and not before `floor`: lowest brace depth after the cut, then a blank line on
+ * either side of it, then the latest line.
+ */
+function snapEnd(lines: string[], depth: number[], start: number, end: number, floor: number): number {
+  const min = Math.max(start + Math.max(1, Math.ceil((end - start) / 2)), floor);
+  let best = end;
+  let bestScore = score(end);
+  for (let cut = end - 1; cut >= min; cut--) {
+    const s = score(cut);
+    if (s[0] < bestScore[0] || (s[0] === bestScore[0] && s[1] > bestScore[1])) { best = cut; bestScore = s; }
+  }
+  return best;
+
+  function score(cut: number): [number, number] {
+    const blank = !lines[cut - 1].trim() || !(lines[cut] ?? '').trim() ? 1 : 0;
+    return [depth[cut], blank];
+  }
+}
+
+/** depth[i] = open `{`/`(`/`[` before line i (string literals and // comments ignored; never negative). */
+export function braceDepths(lines: string[]): number[] {
+  const depth = [0];
+  let d = 0;
+  for (const line of lines) {
+    const code = line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""').replace(/\/\/.*$/, '');
+    for (const ch of code) {
+      if (ch === '{' || ch === '(' || ch === '[') d++;
+      else if ((ch === '}' || ch === ')' || ch === ']') && d > 0) d--;
+    }
+    depth.push(d);
+  }
+  return depth;
+}
+
+/**
+ * Split a chunk whose text exceeds `maxTokens` into line windows that fit (same snapping and overlap), adjusting
+ * lineStart/lineEnd and numbering the parts. Returns the chunk unchanged when it fits; a single line that is still
+ * too long stays one (truncated by the model) part.
+ */
+export function fitChunkToTokens<T extends { text: string; meta: any }>(chunk: T, maxTokens: number, countTokens: (text: string) => number, overlap: number = 0): T[] {
+  if (countTokens(chunk.text) <= maxTokens) return [chunk];
+  const lines = chunk.text.split('\n');
+  const windows = lineWindows(lines, { maxLines: lines.length, overlap, fits: (s, e) => countTokens(lines.slice(s, e).join('\n')) <= maxTokens });
+  if (windows.length <= 1) return [chunk];
+  const base = typeof chunk.meta?.lineStart === 'number' ? chunk.meta.lineStart : 1;
+  return windows.map((w, i) => ({
+    ...chunk,
+    text: lines.slice(w.start, w.end).join('\n'),
+    meta: { ...chunk.meta, lineStart: base + w.start, lineEnd: base + w.end - 1, part: i + 1 },
+  }));
+}
@@ -1,5 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { IgnoreMatcher, IgnoreRule } from './IgnoreRules';
+import { FileFilterOptions, SkipReason, classifyPath } from './FileFilters';
+import { documentLanguage } from './DocumentChunker';
+import { lineWindows } from './ChunkWindows';
 
 export interface CodeChunkMetadata {
   file: string;
@@ -10,28 +14,36 @@ export interface CodeChunkMetadata {
   tags?: string[];
 }
 
-export interface IndexOptions {
+export interface IndexOptions extends FileFilterOptions {
   include?: string[]; // glob-like (simple ** and * only)
-  exclude?: string[];
+  exclude?: string[]; // gitignore syntax, applied after .gitignore/.agmignore (see IgnoreRules)
   maxChunkLines?: number; // simple line-based chunking for now
   context?: string; // memory context label
+  /** Called for each excluded path (directories once; their contents are not visited). */
+  onExclude?: (relPath: string, rule: IgnoreRule, isDir: boolean) => void;
+  /**
+   * Called for each included file skipped by name or size (generated, minified, oversized). Listing reads no file
+   * contents; callers run classifyContent on the bytes they read for chunking (see runIndexTask).
+   */
+  onSkip?: (relPath: string, reason: SkipReason) => void;
+}
+
+function isIncluded(relUnix: string, include: string[]): boolean {
+  return include.some(p => {
+    const pattern = p.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*\*/g, '.*')
+      .replace(/\*/g, '[^/]*');
+    const re = new RegExp('^' + pattern + '$');
+    if (re.test(relUnix)) return true;
+    // Special case: pattern like **/* should also match root-level files (no slash)
+    if (p === '**/*' && !relUnix.includes('/')) return true;
+    return false;
+  });
 }
 
 export class CodeIndexer {
   constructor(private projectRoot: string) {}
 
-  private shouldExclude(rel: string, patterns: string[]): boolean {
-    // very small globbing: ** for any dirs; * for filename part
-    // convert to Regex conservatively
-    return patterns.some((p) => {
-      const re = new RegExp('^' + p
-        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
-        .replace(/\*\*/g, '.*')
-        .replace(/\*/g, '[^/]*') + '$');
-      return re.test(rel.replace(/\\/g, '/'));
-    });
-  }
-
   private detectLanguage(file: string): string | undefined {
     const ext = path.extname(file).toLowerCase();
     const map: Record<string, string> = {
@@ -40,14 +52,12 @@ export class CodeIndexer {
       '.cs': 'csharp', '.php': 'php', '.cpp': 'cpp', '.c': 'c', '.h': 'c-header',
       '.md': 'markdown'
     };
-    return map[ext];
+    return map[ext] ?? documentLanguage(file);
   }
 
   private* walkFiles(root: string, opts: IndexOptions): Generator<string> {
     const include = opts.include && opts.include.length ? opts.include : ['**/*'];
-    const exclude = opts.exclude && opts.exclude.length ? opts.exclude : [
-      '**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/.next/**', '**/.cache/**'
-    ];
+    const ignore = new IgnoreMatcher(root, { exclude: opts.exclude });
 
     const stack = [root];
     while (stack.length) {
@@ -58,50 +68,66 @@ export class CodeIndexer {
         const rel = path.relative(root, full);
         const relUnix = rel.replace(/\\/g, '/');
         if (e.isDirectory()) {
-          if (this.shouldExclude(relUnix + '/', exclude)) continue;
+          const res = ignore.check(relUnix, true);
+          if (res.ignored) { opts.onExclude?.(relUnix + '/', res.rule!, true); continue; }
           stack.push(full);
         } else if (e.isFile()) {
           // must match include and not excluded
-          const included = include.some(p => {
-            const pattern = p.replace(/[.+^${}()|[\]\\]/g, '\\$&')
-              .replace(/\*\*/g, '.*')
-              .replace(/\*/g, '[^/]*');
-            const re = new RegExp('^' + pattern + '$');
-            if (re.test(relUnix)) return true;
-            // Special case: pattern like **/* should also match root-level files (no slash)
-            if (p === '**/*' && !relUnix.includes('/')) return true;
-            return false;
-          });
-          if (!included) continue;
-          if (this.shouldExclude(relUnix, exclude)) continue;
-          if (relUnix.endsWith('.lock') || relUnix.endsWith('.min.js')) continue;
+          if (!isIncluded(relUnix, include)) continue;
+          const res = ignore.check(relUnix, false);
+          if (res.ignored) { opts.onExclude?.(relUnix, res.rule!, false); continue; }
+          const reason = classifyPath(full, opts);
+          if (reason) { opts.onSkip?.(relUnix, reason); continue; }
           yield full;
         }
       }
     }
   }
 
+  /**
+   * Apply the same include, ignore, name and size rules as listFiles to an explicit list of root-relative paths
+   * (e.g. the files git reports as changed). Paths that no longer exist are dropped silently.
+   */
+  public selectFiles(relPaths: string[], opts: IndexOptions): string[] {
+    const include = opts.include && opts.include.length ? opts.include : ['**/*'];
+    const ignore = new IgnoreMatcher(this.projectRoot, { exclude: opts.exclude });
+    const files: string[] = [];
+    for (const rel of relPaths) {
+      const relUnix = rel.replace(/\\/g, '/');
+      const full = path.join(this.projectRoot, relUnix);
+      if (!isIncluded(relUnix, include)) continue;
+      const res = ignore.check(relUnix, false);
+      if (res.ignored) { opts.onExclude?.(relUnix, res.rule!, false); continue; }
+      try { if (!fs.statSync(full).isFile()) continue; } catch { continue; }
+      const reason = classifyPath(full, opts);
+      if (reason) { opts.onSkip?.(relUnix, reason); continue; }
+      files.push(relUnix);
+    }
+    return files.sort();
+  }
+
   public listFiles(opts: IndexOptions): string[] {
     const files: string[] = [];
     for (const file of this.walkFiles(this.projectRoot, opts)) files.push(file);
     return files.map(f => path.relative(this.projectRoot, f).replace(/\\/g, '/')).sort();
   }
 
-  chunkFile(fullPath: string, maxChunkLines: number): Array<{ text: string; meta: CodeChunkMetadata }> {
+  /**
+   * Windows of at most `maxChunkLines` lines, cut at blank lines / low brace depth where possible (see lineWindows),
+   * with `overlap` lines repeated from the previous chunk.
+   */
+  chunkFile(fullPath: string, maxChunkLines: number, overlap: number = 0): Array<{ text: string; meta: CodeChunkMetadata }> {
     const text = fs.readFileSync(fullPath, 'utf8');
     const lines = text.split(/\r?\n/);
-    const chunks: Array<{ text: string; meta: CodeChunkMetadata }> = [];
-    for (let i = 0; i < lines.length; i += maxChunkLines) {
-      const slice = lines.slice(i, Math.min(i + maxChunkLines, lines.length));
-      const meta: CodeChunkMetadata = {
+    return lineWindows(lines, { maxLines: maxChunkLines, overlap }).map(w => ({
+      text: lines.slice(w.start, w.end).join('\n'),
+      meta: {
         file: path.relative(this.projectRoot, fullPath).replace(/\\/g, '/'),
         language: this.detectLanguage(fullPath),
-        lineStart: i + 1,
-        lineEnd: Math.min(i + maxChunkLines, lines.length),
-      };
-      chunks.push({ text: slice.join('\n'), meta });
-    }
-    return chunks;
+        lineStart: w.start + 1,
+        lineEnd: w.end,
+      },
+    }));
   }
 
   indexFiles(opts: IndexOptions, onChunk: (chunk: { text: string; meta: CodeChunkMetadata }) => Promise<void> | void): number {
@@ -0,0 +1,367 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeChunkMetadata } from './CodeIndexer';
+
+/**
+ * Structure-aware chunking for documentation and config files, used by every indexing strategy in place of
+ * line windows or symbol parsing:
+ *
+ * - Markdown: one chunk per heading (ATX or setext; fenced code is not scanned) with the enclosing headings in
+ *   `headingPath`; text before the first heading is a preamble chunk.
+ * - OpenAPI / Swagger (YAML or JSON): one chunk per operation (`paths./pets.get`), one per schema
+ *   (`components.schemas`, `definitions`), and one per remaining top-level key or components group.
+ * - JSON Schema (`$schema` mentioning json-schema, or `*.schema.json|yaml`): one chunk per `definitions`/`$defs`
+ *   entry, the rest per top-level key.
+ * - Other YAML, JSON (comments and trailing commas allowed) and TOML: one chunk per top-level key (TOML: per
+ *   root key and per first segment of `[table]` headers). Runs of one-line keys share a chunk.
+ *
+ * Sections longer than max-chunk lines are split into parts. Unparseable JSON returns null so the caller can fall
+ * back to its usual chunking.
+ */
+
+export type DocumentFormat = 'markdown' | 'openapi' | 'json-schema' | 'config';
+
+export interface DocumentChunkMetadata extends CodeChunkMetadata {
+  document: DocumentFormat;
+  /** `section` (Markdown heading), `operation`, `schema` or `key`. Also in `tags`. */
+  symbolType: 'section' | 'operation' | 'schema' | 'key';
+  /** Markdown: enclosing heading titles, outermost first, ending with this section's own title (empty for the preamble). */
+  headingPath?: string[];
+  /** Top-level key(s) of a config / spec section; several when one-line keys were grouped. */
+  keys?: string[];
+  /** Operations: the HTTP method (upper case) and path. The chunk text starts with a `METHOD /path` line. */
+  httpMethod?: string;
+  httpPath?: string;
+  /** 1-based part number when a long section was split to fit max-chunk lines. */
+  part?: number;
+}
+
+export interface DocumentChunk { text: string; meta: DocumentChunkMetadata }
+
+const DOCUMENT_LANGUAGES: Record<string, string> = {
+  '.md': 'markdown', '.markdown': 'markdown', '.mdx': 'markdown',
+  '.yaml': 'yaml', '.yml': 'yaml', '.json': 'json', '.toml': 'toml',
+};
+
+const HTTP_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']);
+
+/** `markdown`, `yaml`, `json` or `toml` for files handled here; undefined otherwise. */
+export function documentLanguage(file: string): string | undefined {
+  return DOCUMENT_LANGUAGES[path.extname(file).toLowerCase()];
+}
+
+/** A mapping key with its 1-based line span (key line to the end of its value) and nested keys. */
+export interface OutlineNode {
+  key: string;
+  line: number;
+  endLine: number;
+  /** Inline scalar value, unquoted (absent for nested mappings, lists and block scalars). */
+  value?: string;
+  children: OutlineNode[];
+}
+
+interface Section {
+  lineStart: number;
+  lineEnd: number;
+  header?: string;
+  meta: Omit<DocumentChunkMetadata, 'file' | 'language' | 'lineStart' | 'lineEnd'>;
+}
+
+/**
+ * Chunk a documentation/config file. Returns null for other file types and for files that can't be parsed.
+ * `meta.file` is relative to `root`.
+ */
+export function chunkDocument(fullPath: string, root: string, maxChunkLines: number): DocumentChunk[] | null {
+  const language = documentLanguage(fullPath);
+  if (!language) return null;
+  let text: string;
+  try { text = fs.readFileSync(fullPath, 'utf8'); } catch { return null; }
+  const file = path.relative(root, fullPath).replace(/\\/g, '/');
+  const lines = text.split(/\r?\n/);
+  let sections: Section[];
+  if (language === 'markdown') {
+    sections = markdownSections(lines);
+  } else {
+    const outline = language === 'json' ? jsonOutline(text) : language === 'yaml' ? yamlOutline(lines) : tomlOutline(lines);
+    if (!outline) return null;
+    sections = outlineSections(outline, lines, language, file);
+  }
+  const chunks: DocumentChunk[] = [];
+  const limit = Math.max(1, maxChunkLines);
+  for (const s of sections) {
+    let end = s.lineEnd;
+    while (end > s.lineStart && !lines[end - 1].trim()) end--;
+    const parts = Math.ceil((end - s.lineStart + 1) / limit);
+    for (let p = 0; p < parts; p++) {
+      const lineStart = s.lineStart + p * limit;
+      const lineEnd = Math.min(end, lineStart + limit - 1);
+      const body = lines.slice(lineStart - 1, lineEnd).join('\n');
+      chunks.push({
+        text: s.header ? `${s.header}\n${body}` : body,
+        meta: { file, language, lineStart, lineEnd, ...s.meta, ...(parts > 1 ? { part: p + 1 } : {}), tags: [s.meta.symbolType] },
+      });
+    }
+  }
+  return chunks;
+}
+
+// --- Markdown ---
+
+function markdownSections(lines: string[]): Section[] {
+  const headings: Array<{ line: number; level: number; title: string }> = [];
+  let first = 0;
+  // YAML front matter belongs to the preamble
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(l));
+    if (close > 0) first = close + 1;
+  }
+  let fence: string | null = null;
+  for (let i = first; i < lines.length; i++) {
+    const line = lines[i];
+    const f = /^ {0,3}(`{3,}|~{3,})/.exec(line);
+    if (f) {
+      if (!fence) fence = f[1];
+      else if (f[1][0] === fence[0] && f[1].length >= fence.length && !line.trim().slice(f[1].length).trim()) fence = null;
+      continue;
+    }
+    if (fence) continue;
+    const atx = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/.exec(line);
+    if (atx) { headings.push({ line: i + 1, level: atx[1].length, title: (atx[2] || '').trim() }); continue; }
+    // Setext: a paragraph line underlined with === (h1) or --- (h2)
+    const prev = lines[i - 1];
+    if (i > first && /^ {0,3}(=+|-+)[ \t]*$/.test(line) && prev && prev.trim() && !/^ {0,3}([-*+>#|]|\d+[.)]|`{3,}|~{3,})/.test(prev)
+        && headings[headings.length - 1]?.line !== i) {
+      headings.push({ line: i, level: line.trim()[0] === '=' ? 1 : 2, title: prev.trim() });
+    }
+  }
+  const sections: Section[] = [];
+  const firstHeading = headings.length ? headings[0].line : lines.length + 1;
+  if (lines.slice(0, firstHeading - 1).some(l => l.trim())) {
+    sections.push({ lineStart: 1, lineEnd: firstHeading - 1, meta: { document: 'markdown', symbolType: 'section', headingPath: [] } });
+  }
+  const stack: Array<{ level: number; title: string }> = [];
+  headings.forEach((h, k) => {
+    while (stack.length && stack[stack.length - 1].level >= h.level) stack.pop();
+    stack.push(h);
+    const lineEnd = k + 1 < headings.length ? headings[k + 1].line - 1 : lines.length;
+    const bodyStart = /^ {0,3}(=+|-+)[ \t]*$/.test(lines[h.line] || '') && lines[h.line - 1].trim() === h.title ? h.line + 2 : h.line + 1;
+    // Headings that only introduce sub-sections are represented by their children's headingPath
+    if (!lines.slice(bodyStart - 1, lineEnd).some(l => l.trim())) return;
+    sections.push({ lineStart: h.line, lineEnd, meta: { document: 'markdown', symbolType: 'section', headingPath: stack.map(s => s.title) } });
+  });
+  return sections;
+}
+
+// --- OpenAPI / JSON Schema / config ---
+
+function outlineSections(outline: OutlineNode[], lines: string[], language: string, file: string): Section[] {
+  const find = (nodes: OutlineNode[], key: string) => nodes.find(n => n.key === key);
+  const openapi = !!(find(outline, 'openapi') || find(outline, 'swagger'));
+  const schema = !openapi && (/json-schema/i.test(find(outline, '$schema')?.value || '') || /\.schema\.(json|ya?ml)$/i.test(file));
+  const document: DocumentFormat = openapi ? 'openapi' : schema ? 'json-schema' : 'config';
+  const sections: Section[] = [];
+  const schemaSection = (n: OutlineNode): Section => ({ lineStart: n.line, lineEnd: n.endLine, meta: { document, symbolType: 'schema', symbol: n.key } });
+  const comment = language === 'json' ? /^\s*(\/\/|\/\*|\*)/ : /^\s*#/;
+  let run: Section | null = null;
+  for (const node of outline) {
+    if (openapi && node.key === 'paths') {
+      run = null;
+      for (const p of node.children) {
+        for (const op of p.children) {
+          if (!HTTP_METHODS.has(op.key.toLowerCase())) continue;
+          const method = op.key.toUpperCase();
+          const operationId = find(op.children, 'operationId')?.value;
+          sections.push({
+            lineStart: op.line, lineEnd: op.endLine, header: `${method} ${p.key}`,
+            meta: { document, symbolType: 'operation', symbol: operationId || `${method} ${p.key}`, httpMethod: method, httpPath: p.key },
+          });
+        }
+      }
+      continue;
+    }
+    if (openapi && node.key === 'components') {
+      run = null;
+      for (const group of node.children) {
+        if (group.key === 'schemas') sections.push(...group.children.map(schemaSection));
+        else sections.push({ lineStart: group.line, lineEnd: group.endLine, meta: { document, symbolType: 'key', keys: [`components.${group.key}`] } });
+      }
+      continue;
+    }
+    if ((openapi && node.key === 'definitions') || (schema && (node.key === 'definitions' || node.key === '$defs'))) {
+      run = null;
+      sections.push(...node.children.map(schemaSection));
+      continue;
+    }
+    // Top-level key, with the comment lines directly above it
+    let lineStart = node.line;
+    const prevEnd = sections.length ? sections[sections.length - 1].lineEnd : 0;
+    while (lineStart - 1 > prevEnd && lines[lineStart - 2].trim() && comment.test(lines[lineStart - 2])) lineStart--;
+    if (node.endLine === node.line && run && run.lineEnd === prevEnd) {
+      run.lineEnd = node.endLine;
+      run.meta.keys!.push(node.key);
+      continue;
+    }
+    const section: Section = { lineStart, lineEnd: node.endLine, meta: { document, symbolType: 'key', keys: [node.key] } };
+    sections.push(section);
+    run = node.endLine === node.line ? section : null;
+  }
+  return sections;
+}
+
+/** Mapping keys by indentation (block style). List items, flow collections and block scalars are values. */
+export function yamlOutline(lines: string[]): OutlineNode[] {
+  const KEY = /^( *)("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:{}[\],&*!|>%@`][^#]*?|[-?:][^\s#][^#]*?)[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+  const roots: OutlineNode[] = [];
+  const stack: Array<{ indent: number; node: OutlineNode }> = [];
+  let lastContent = 0;
+  let blockIndent: number | null = null;
+  const close = (indent: number) => {
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop()!.node.endLine = lastContent;
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    if (blockIndent !== null) {
+      if (indent > blockIndent) { lastContent = i + 1; continue; }
+      blockIndent = null;
+    }
+    if (line.trimStart().startsWith('#')) continue;
+    if (/^(---|\.\.\.)([ \t].*)?$/.test(line)) { close(0); continue; }
+    const m = KEY.exec(line);
+    if (m) {
+      close(indent);
+      const value = m[3] ? unquote(m[3].replace(/[ \t]+#.*$/, '')) : undefined;
+      const node: OutlineNode = { key: unquote(m[2]), line: i + 1, endLine: i + 1, ...(value && !/^[|>]/.test(value) ? { value } : {}), children: [] };
+      (stack.length ? stack[stack.length - 1].node.children : roots).push(node);
+      stack.push({ indent, node });
+      if (value && /^[|>]/.test(value)) blockIndent = indent;
+    }
+    lastContent = i + 1;
+  }
+  close(0);
+  return roots;
+}
+
+function unquote(s: string): string {
+  const t = s.trim();
+  if (t.length >= 2 && t[0] === '"' && t[t.length - 1] === '"') { try { return JSON.parse(t); } catch { return t.slice(1, -1); } }
+  if (t.length >= 2 && t[0] === "'" && t[t.length - 1] === "'") return t.slice(1, -1).replace(/''/g, "'");
+  return t;
+}
+
+/** Object members of a JSON (or JSONC) document. Null when the text isn't a JSON object. */
+export function jsonOutline(text: string): OutlineNode[] | null {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  const lineOf = (offset: number) => {
+    let lo = 0, hi = lineStarts.length - 1;
+    while (lo < hi) { const mid = (lo + hi + 1) >> 1; if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1; }
+    return lo + 1;
+  };
+  let pos = 0;
+  const fail = (): never => { throw new SyntaxError(`Unexpected JSON at ${pos}`); };
+  const ws = () => {
+    for (;;) {
+      while (pos < text.length && /\s/.test(text[pos])) pos++;
+      if (text.startsWith('//', pos)) { const nl = text.indexOf('\n', pos); pos = nl < 0 ? text.length : nl + 1; }
+      else if (text.startsWith('/*', pos)) { const end = text.indexOf('*/', pos + 2); if (end < 0) fail(); pos = end + 2; }
+      else return;
+    }
+  };
+  const str = (): string => {
+    const start = pos++;
+    while (pos < text.length && text[pos] !== '"') pos += text[pos] === '\\' ? 2 : 1;
+    if (pos >= text.length) fail();
+    pos++;
+    return JSON.parse(text.slice(start, pos));
+  };
+  // Returns the members of an object value, the text of a scalar, or nothing for arrays
+  const value = (): { members?: OutlineNode[]; scalar?: string } => {
+    ws();
+    const ch = text[pos];
+    if (ch === '{') {
+      pos++;
+      const members: OutlineNode[] = [];
+      for (;;) {
+        ws();
+        if (text[pos] === '}') { pos++; return { members }; }
+        if (text[pos] !== '"') fail();
+        const keyStart = pos;
+        const key = str();
+        ws();
+        if (text[pos++] !== ':') fail();
+        const v = value();
+        members.push({ key, line: lineOf(keyStart), endLine: lineOf(pos - 1), ...(v.scalar !== undefined ? { value: v.scalar } : {}), children: v.members || [] });
+        ws();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== '}') fail();
+      }
+    }
+    if (ch === '[') {
+      pos++;
+      for (;;) {
+        ws();
+        if (text[pos] === ']') { pos++; return {}; }
+        value();
+        ws();
+        if (text[pos] === ',') pos++;
+        else if (text[pos] !== ']') fail();
+      }
+    }
+    if (ch === '"') return { scalar: str() };
+    const m = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos, pos + 64));
+    if (!m) fail();
+    pos += m![0].length;
+    return { scalar: m![0] };
+  };
+  try {
+    ws();
+    if (text[pos] !== '{') return null;
+    const root = value();
+    ws();
+    return pos === text.length ? root.members! : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Root keys and `[table]` / `[[array]]` headers grouped by their first segment. */
+export function tomlOutline(lines: string[]): OutlineNode[] {
+  const nodes: OutlineNode[] = [];
+  let inTable = false;
+  let multiline: string | null = null;
+  let lastContent = 0;
+  const open = (key: string, line: number) => {
+    const prev = nodes[nodes.length - 1];
+    if (prev) prev.endLine = lastContent;
+    if (prev && prev.key === key && inTable) return;
+    nodes.push({ key, line, endLine: line, children: [] });
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (multiline) {
+      if (line.includes(multiline)) multiline = null;
+      lastContent = i + 1;
+      continue;
+    }
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+    const table = /^\s*\[\[?\s*("[^"]*"|'[^']*'|[^.\]\s]+)[^\]]*\]\]?\s*(#.*)?$/.exec(line);
+    if (table) {
+      open(unquote(table[1]), i + 1);
+      inTable = true;
+    } else if (!inTable) {
+      const kv = /^\s*("[^"]*"|'[^']*'|[A-Za-z0-9_-]+)\s*(?:\.[^=]*)?=\s*(.*)$/.exec(line);
+      if (kv) {
+        open(unquote(kv[1]), i + 1);
+        const value = kv[2].replace(/\s+#.*$/, '').trim();
+        if (!/^("""|''')/.test(value) && !/^[[{]/.test(value)) nodes[nodes.length - 1].value = unquote(value);
+      }
+    }
+    const delim = /("""|''')/.exec(line);
+    if (delim && line.split(delim[1]).length === 2) multiline = delim[1];
+    lastContent = i + 1;
+  }
+  if (nodes.length) nodes[nodes.length - 1].endLine = lastContent;
+  return nodes;
+}
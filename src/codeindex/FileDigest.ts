@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * The one content digest used for incremental indexing (index-code --diff, watch-code, reindex-*). Stored in the
+ * `file_digests` table together with how the file was chunked, so a different strategy or --max-chunk re-indexes.
+ */
+
+export const DIGEST_ALGORITHM = 'sha256';
+
+/** How a file's chunks were produced: Tree-sitter symbols, heuristic symbols, or fixed-size line windows. */
+export type ChunkStrategy = 'treesitter-ast' | 'heuristic-symbols' | 'lines';
+
+export interface FileDigestRecord {
+  file: string;
+  digest: string;
+  /** Null for entries written before strategies were recorded. */
+  strategy: ChunkStrategy | null;
+  /** Lines per chunk for the `lines` strategy; null otherwise. */
+  maxChunk: number | null;
+  /** Other chunking parameters, e.g. `overlap=20,max-tokens=512`; null when none apply. */
+  options: string | null;
+  updatedAt?: string;
+}
+
+export function digestBuffer(buf: Buffer): string {
+  return crypto.createHash(DIGEST_ALGORITHM).update(buf).digest('hex');
+}
+
+/** Digest of a file's contents, or null when it can't be read. */
+export function digestFile(fullPath: string): string | null {
+  try { return digestBuffer(fs.readFileSync(fullPath)); } catch { return null; }
+}
+
+export interface Chunking {
+  strategy: ChunkStrategy;
+  maxChunk: number | null;
+  options: string | null;
+}
+
+/**
+ * The chunking parameters recorded with a digest. Max-chunk and overlap only matter for line chunking; the token
+ * limit applies to every strategy.
+ */
+export function chunkingOf(strategy: ChunkStrategy, maxChunk: number, extra: { overlap?: number; maxTokens?: number | null } = {}): Chunking {
+  const options = [
+    ...(strategy === 'lines' && extra.overlap ? [`overlap=${extra.overlap}`] : []),
+    ...(extra.maxTokens ? [`max-tokens=${extra.maxTokens}`] : []),
+  ];
+  return { strategy, maxChunk: strategy === 'lines' ? maxChunk : null, options: options.length ? options.join(',') : null };
+}
+
+/** True when a stored record says the file is already indexed with this content and these chunking parameters. */
+export function isUpToDate(record: FileDigestRecord | null | undefined, digest: string, chunking: Chunking): boolean {
+  return !!record && record.digest === digest && record.strategy === chunking.strategy && record.maxChunk === chunking.maxChunk
+    && (record.options ?? null) === chunking.options;
+}
+
+/** `lines/200`, `treesitter-ast (max-tokens=512)`, or `unknown` for legacy entries. */
+export function describeChunking(record: Pick<FileDigestRecord, 'strategy' | 'maxChunk'> & { options?: string | null }): string {
+  if (!record.strategy) return 'unknown';
+  const base = record.maxChunk ? `${record.strategy}/${record.maxChunk}` : record.strategy;
+  return record.options ? `${base} (${record.options})` : base;
+}
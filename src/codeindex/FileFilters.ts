@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Checks applied to every candidate file before it is chunked (index-code, watch-code, reindex-*),
+ * so bundles, binaries and generated code don't waste vectors or crowd real code out of search results.
+ * classifyPath needs only the name and size; classifyContent runs on bytes the caller has already read
+ * (index-code does this on its workers, so listing never reads file contents).
+ */
+
+export type SkipReason = 'binary' | 'oversized' | 'minified' | 'generated';
+
+export const SKIP_REASONS: SkipReason[] = ['binary', 'oversized', 'minified', 'generated'];
+
+export interface FileFilterOptions {
+  /** Files larger than this are skipped unread (default 1 MiB). */
+  maxFileBytes?: number;
+  /** Lines longer than this mark the file as minified once they hold most of its characters (default 1000). */
+  maxLineLength?: number;
+}
+
+export const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+export const DEFAULT_MAX_LINE_LENGTH = 1000;
+
+/** Bytes inspected for binary content (same window git uses). */
+const BINARY_SNIFF_BYTES = 8000;
+/** Lines of the file header searched for generated-code markers. */
+const HEADER_LINES = 10;
+
+const MINIFIED_NAME = /\.min\.(js|mjs|cjs|css)$/i;
+const LOCKFILE_NAME = /(\.lock|^package-lock\.json|^npm-shrinkwrap\.json|^pnpm-lock\.yaml)$/i;
+/** Protobuf / gRPC / codegen outputs recognisable by name alone. */
+const GENERATED_NAME = /(\.pb\.go|\.pb\.gw\.go|_pb2(_grpc)?\.pyi?|_pb\.(js|d\.ts)|_grpc_pb\.(js|d\.ts)|\.g\.cs|\.designer\.cs|\.generated\.\w+)$/i;
+/**
+ * `@generated` (Phabricator/Meta convention), Go's `// Code generated ... DO NOT EDIT.` line, protoc headers, ...
+ * A bare "DO NOT EDIT" is not enough: hand-written files use it for warnings like "DO NOT EDIT without updating X".
+ */
+const GENERATED_HEADER = /@generated\b|^\/\/ Code generated .* DO NOT EDIT\.\r?$|^\s*(?:\/\/|#|\/?\*+|<!--)\s*(?:this (?:file|code) (?:was|is) )?(?:auto-?)?generated (?:by|from)\b/im;
+const SOURCE_MAP_COMMENT = /^\s*(?:\/\/|\/\*)[#@] sourceMappingURL=/m;
+
+/**
+ * Parse a size such as `1048576`, `512k`, `512KB`, `2m` or `2MB` into bytes.
+ */
+export function parseByteSize(value: string): number {
+  const m = String(value).trim().match(/^(\d+(?:\.\d+)?)\s*([kmg]?)i?b?$/i);
+  if (!m) throw new Error(`Invalid size: ${value} (expected bytes or a number with k/m/g)`);
+  const unit = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[m[2].toLowerCase() as '' | 'k' | 'm' | 'g'];
+  const bytes = Math.round(Number(m[1]) * unit);
+  if (!(bytes > 0)) throw new Error(`Invalid size: ${value} (must be > 0)`);
+  return bytes;
+}
+
+/**
+ * Why a file should not be indexed, or null when it is ordinary text source.
+ */
+export function classifyFile(fullPath: string, opts: FileFilterOptions = {}): SkipReason | null {
+  const reason = classifyPath(fullPath, opts);
+  if (reason) return reason;
+  let buf: Buffer;
+  try { buf = fs.readFileSync(fullPath); } catch { return null; }
+  return classifyContent(buf, opts);
+}
+
+/** Name and size part of classifyFile (lockfiles, codegen and `*.min.*` names, oversized files); reads nothing. */
+export function classifyPath(fullPath: string, opts: FileFilterOptions = {}): SkipReason | null {
+  const maxBytes = opts.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  const name = path.basename(fullPath);
+  if (LOCKFILE_NAME.test(name) || GENERATED_NAME.test(name)) return 'generated';
+  if (MINIFIED_NAME.test(name)) return 'minified';
+  let size: number;
+  try { size = fs.statSync(fullPath).size; } catch { return null; }
+  return size > maxBytes ? 'oversized' : null;
+}
+
+/** Content-only part of classifyFile (binary, minified and generated markers). */
+export function classifyContent(buf: Buffer, opts: FileFilterOptions = {}): SkipReason | null {
+  if (isBinary(buf)) return 'binary';
+  const text = buf.toString('utf8');
+  const header = text.split(/\r?\n/, HEADER_LINES).join('\n');
+  if (GENERATED_HEADER.test(header)) return 'generated';
+  const maxLine = opts.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  // One long line (a data table, a generated regex) doesn't make a source file minified; long lines carrying
+  // most of the text do
+  let lineStart = 0;
+  let longChars = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (i === text.length || text.charCodeAt(i) === 10) {
+      if (i - lineStart > maxLine) longChars += i - lineStart;
+      lineStart = i + 1;
+    }
+  }
+  if (longChars * 2 > text.length) return 'minified';
+  // Bundler output: the source map comment sits at the end of the file
+  if (SOURCE_MAP_COMMENT.test(text.slice(-512))) return 'minified';
+  return null;
+}
+
+function isBinary(buf: Buffer): boolean {
+  const n = Math.min(buf.length, BINARY_SNIFF_BYTES);
+  if (!n) return false;
+  let control = 0;
+  for (let i = 0; i < n; i++) {
+    const b = buf[i];
+    if (b === 0) return true;
+    // Control characters other than tab, LF, FF, CR and ESC
+    if (b < 32 && b !== 9 && b !== 10 && b !== 12 && b !== 13 && b !== 27) control++;
+  }
+  return control / n > 0.1;
+}
+
+/** Per-reason counters as reported in receipts and --json output. */
+export function emptySkipCounts(): Record<SkipReason, number> {
+  return { binary: 0, oversized: 0, minified: 0, generated: 0 };
+}
@@ -0,0 +1,86 @@
+import { execFileSync } from 'child_process';
+
+/**
+ * Local git queries for `index-code --since <rev>`: which files changed between a revision and the working tree,
+ * with git's rename detection. Only the local `git` binary is run; nothing is fetched.
+ */
+
+export interface GitChange {
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  /** Path relative to the queried directory. */
+  file: string;
+  /** Previous path, for renames. */
+  oldFile?: string;
+  /** Rename similarity (0-100); 100 means the content is identical. */
+  similarity?: number;
+}
+
+export interface GitChangeSet {
+  /** Full SHA of the revision compared against. */
+  base: string;
+  /** Full SHA of HEAD. */
+  head: string;
+  changes: GitChange[];
+  /** Files whose working-tree content differs from HEAD (uncommitted edits and untracked files). */
+  dirty: Set<string>;
+}
+
+function git(cwd: string, args: string[]): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') throw new Error('git is not installed or not on PATH');
+    const stderr = String(e?.stderr || '').trim().split('\n')[0];
+    throw new Error(stderr || `git exited with status ${e?.status}`);
+  }
+}
+
+/** Full SHA of a revision (`HEAD`, a branch, a tag, `HEAD~3`, ...). */
+export function resolveRevision(cwd: string, rev: string): string {
+  if (rev.startsWith('-')) throw new Error(`Invalid revision: ${rev}`);
+  let sha = '';
+  try { sha = git(cwd, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${rev}^{commit}`]).trim(); }
+  catch (e) { if (!/exited with status 1$/.test((e as Error).message)) throw e; }
+  if (!sha) throw new Error(`Unknown git revision: ${rev}`);
+  return sha;
+}
+
+/**
+ * Parse `git diff --name-status -z` output: `<status>\0<path>\0` or, for renames/copies,
+ * `R<score>\0<old>\0<new>\0`. Copies are reported as additions of the new path.
+ */
+export function parseNameStatus(out: string): GitChange[] {
+  const parts = out.split('\0');
+  const changes: GitChange[] = [];
+  for (let i = 0; i < parts.length && parts[i];) {
+    const code = parts[i++];
+    const kind = code[0];
+    if (kind === 'R' || kind === 'C') {
+      const oldFile = parts[i++];
+      const file = parts[i++];
+      if (kind === 'C') changes.push({ status: 'added', file });
+      else changes.push({ status: 'renamed', file, oldFile, similarity: parseInt(code.slice(1), 10) || 0 });
+    } else {
+      const file = parts[i++];
+      changes.push({ status: kind === 'A' ? 'added' : kind === 'D' ? 'deleted' : 'modified', file });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Files under `cwd` that changed between `rev` and the working tree (committed, staged and unstaged edits, plus
+ * untracked files that aren't ignored). Paths are relative to `cwd`.
+ */
+export function gitChangesSince(cwd: string, rev: string): GitChangeSet {
+  const base = resolveRevision(cwd, rev);
+  const head = resolveRevision(cwd, 'HEAD');
+  const diffArgs = ['-c', 'core.quotepath=off', 'diff', '--name-status', '-z', '--no-renames', '--relative'];
+  const changes = parseNameStatus(git(cwd, ['-c', 'core.quotepath=off', 'diff', '--name-status', '-z', '-M', '--relative', base, '--', '.']));
+  const untracked = git(cwd, ['ls-files', '--others', '--exclude-standard', '-z', '--', '.']).split('\0').filter(Boolean);
+  const dirty = new Set(untracked);
+  for (const c of parseNameStatus(git(cwd, [...diffArgs, 'HEAD', '--', '.']))) dirty.add(c.file);
+  const seen = new Set(changes.map(c => c.file));
+  for (const file of untracked) if (!seen.has(file)) changes.push({ status: 'added', file });
+  return { base, head, changes, dirty };
+}
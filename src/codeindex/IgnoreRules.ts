@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Path exclusion for code indexing (index-code, watch-code, reindex-folder) with gitignore semantics.
+ *
+ * Rules come from, lowest priority first: built-in defaults, every `.gitignore` and `.agmignore` from the root
+ * down to the path's directory (`.agmignore` after `.gitignore` in the same directory), then `--exclude`.
+ * The last matching rule wins, so `!dist/` in `.agmignore` re-includes what git ignores. As in git, a path
+ * inside an excluded directory stays excluded.
+ */
+
+export const IGNORE_FILES = ['.gitignore', '.agmignore'];
+
+/** Always excluded unless an ignore file negates them. */
+export const DEFAULT_EXCLUDES = ['node_modules/', '.git/', 'dist/', 'build/', '.next/', '.cache/', '.antigoldfishmode/'];
+
+export interface IgnoreRule {
+  /** `default`, `--exclude`, or the ignore file path relative to the root (e.g. `src/.gitignore`). */
+  source: string;
+  /** 1-based line in the ignore file (0 for defaults and --exclude). */
+  line: number;
+  pattern: string;
+  negated: boolean;
+  dirOnly: boolean;
+  /** Directory (relative to the root) the pattern is relative to; '' for the root. */
+  base: string;
+  regex: RegExp;
+}
+
+export interface IgnoreMatch {
+  ignored: boolean;
+  /** Deciding rule (for a path inside an excluded directory, the rule that excluded the directory). */
+  rule?: IgnoreRule;
+}
+
+/**
+ * Parse gitignore-format text. Blank lines and `#` comments are skipped; `\#`, `\!` and `\ ` escape.
+ */
+export function parseIgnoreRules(text: string, source: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    // Trailing spaces are ignored unless escaped
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) return;
+    let negated = false;
+    if (line.startsWith('!')) { negated = true; line = line.slice(1); }
+    const rule = compileRule(line, { source, line: idx + 1, base, negated });
+    if (rule) rules.push(rule);
+  });
+  return rules;
+}
+
+function compileRule(pattern: string, at: { source: string; line: number; base: string; negated: boolean }): IgnoreRule | null {
+  let body = pattern;
+  const dirOnly = body.endsWith('/');
+  if (dirOnly) body = body.replace(/\/+$/, '');
+  if (!body) return null;
+  // A slash at the start or middle anchors the pattern to its base directory; otherwise it matches at any depth
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+  let re = '';
+  if (body.startsWith('**/')) { re = '(?:.*/)?'; body = body.slice(3); }
+  else if (!anchored) re = '(?:.*/)?';
+  re += globToRegexSource(body);
+  return { source: at.source, line: at.line, pattern: (at.negated ? '!' : '') + pattern, negated: at.negated, dirOnly, base: at.base, regex: new RegExp(`^${re}$`) };
+}
+
+function globToRegexSource(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '\\' && i + 1 < glob.length) { out += escapeRegex(glob[++i]); continue; }
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // `/**/` = zero or more directories, trailing `/**` = everything inside
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') { out += '(?:.*/)?'; i += 2; continue; }
+        if (atSegmentStart && i + 2 === glob.length) { out += '.*'; i += 1; continue; }
+        out += '[^/]*'; i += 1; continue;
+      }
+      out += '[^/]*';
+      continue;
+    }
+    if (ch === '?') { out += '[^/]'; continue; }
+    if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close > 0) {
+        let cls = glob.slice(i + 1, close);
+        if (cls.startsWith('!')) cls = '^' + cls.slice(1);
+        out += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = close;
+        continue;
+      }
+    }
+    out += escapeRegex(ch);
+  }
+  return out;
+}
+
+function escapeRegex(ch: string): string {
+  return /[.+^${}()|[\]\\*?]/.test(ch) ? `\\${ch}` : ch;
+}
+
+/** Human-readable origin of a rule for --explain output, e.g. `.gitignore:3 "dist/"`. */
+export function describeRule(rule: IgnoreRule): string {
+  return `${rule.source}${rule.line ? `:${rule.line}` : ''} "${rule.pattern}"`;
+}
+
+export class IgnoreMatcher {
+  private dirRules = new Map<string, IgnoreRule[]>();
+  private dirResults = new Map<string, IgnoreMatch>();
+  private readonly baseRules: IgnoreRule[];
+  private readonly extraRules: IgnoreRule[];
+
+  /**
+   * @param root directory the checked paths are relative to (and where ignore file lookup starts)
+   * @param exclude additional gitignore-style patterns (`--exclude`), applied after the ignore files
+   */
+  constructor(private root: string, opts: { exclude?: string[] } = {}) {
+    const inline = (patterns: string[], source: string) => patterns.flatMap(p => parseIgnoreRules(p, source)).map(r => ({ ...r, line: 0 }));
+    this.baseRules = inline(DEFAULT_EXCLUDES, 'default');
+    this.extraRules = inline(opts.exclude || [], '--exclude');
+  }
+
+  /** Forget cached ignore files and results (call after an ignore file changes). */
+  reset(): void {
+    this.dirRules.clear();
+    this.dirResults.clear();
+  }
+
+  /**
+   * Is `relPath` (relative to the root, `/`-separated) excluded? Checks its parent directories first.
+   */
+  check(relPath: string, isDir: boolean): IgnoreMatch {
+    const rel = relPath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!rel || rel.startsWith('../')) return { ignored: false };
+    const parts = rel.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      const parent = this.checkDir(parts.slice(0, i).join('/'));
+      if (parent.ignored) return parent;
+    }
+    return isDir ? this.checkDir(rel) : this.decide(rel, false);
+  }
+
+  private checkDir(rel: string): IgnoreMatch {
+    let res = this.dirResults.get(rel);
+    if (!res) {
+      res = this.decide(rel, true);
+      this.dirResults.set(rel, res);
+    }
+    return res;
+  }
+
+  private decide(rel: string, isDir: boolean): IgnoreMatch {
+    const dirs = rel.split('/').slice(0, -1).map((_, i, all) => all.slice(0, i + 1).join('/'));
+    const rules = [...this.baseRules, ...this.rulesIn(''), ...dirs.flatMap(d => this.rulesIn(d)), ...this.extraRules];
+    let match: IgnoreMatch = { ignored: false };
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) continue;
+      if (rule.base && !rel.startsWith(rule.base + '/')) continue;
+      const sub = rule.base ? rel.slice(rule.base.length + 1) : rel;
+      if (rule.regex.test(sub)) match = { ignored: !rule.negated, rule };
+    }
+    return match;
+  }
+
+  private rulesIn(dir: string): IgnoreRule[] {
+    let rules = this.dirRules.get(dir);
+    if (!rules) {
+      rules = [];
+      for (const name of IGNORE_FILES) {
+        const file = path.join(this.root, dir, name);
+        let text: string;
+        try { text = fs.readFileSync(file, 'utf8'); } catch { continue; }
+        rules.push(...parseIgnoreRules(text, dir ? `${dir}/${name}` : name, dir));
+      }
+      this.dirRules.set(dir, rules);
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Files/sec, chunks/sec and ETA for long index runs, written to stderr so --json output on stdout stays clean.
+ * On a TTY the line is rewritten in place; otherwise a line is logged at most every `intervalMs`.
+ */
+export class IndexProgress {
+  private files = 0;
+  private chunks = 0;
+  private readonly started = Date.now();
+  private lastPrint = 0;
+  private readonly tty: boolean;
+
+  constructor(private total: number, private opts: { enabled?: boolean; intervalMs?: number; stream?: NodeJS.WriteStream } = {}) {
+    this.tty = !!(opts.stream || process.stderr).isTTY;
+  }
+
+  /** Record finished files and stored chunks. */
+  update(files: number, chunks: number): void {
+    this.files += files;
+    this.chunks += chunks;
+    const now = Date.now();
+    const interval = this.opts.intervalMs ?? (this.tty ? 200 : 5000);
+    if (now - this.lastPrint >= interval && this.files < this.total) {
+      this.lastPrint = now;
+      this.print(this.line());
+    }
+  }
+
+  /** Final rates; clears the in-place line. */
+  done(): { files: number; chunks: number; durationMs: number; filesPerSec: number; chunksPerSec: number } {
+    if (this.lastPrint && this.tty && this.opts.enabled !== false) (this.opts.stream || process.stderr).write('\r\x1b[K');
+    const durationMs = Date.now() - this.started;
+    return { files: this.files, chunks: this.chunks, durationMs, filesPerSec: round(this.files / seconds(durationMs)), chunksPerSec: round(this.chunks / seconds(durationMs)) };
+  }
+
+  line(): string {
+    const secs = seconds(Date.now() - this.started);
+    const fps = this.files / secs;
+    const eta = fps > 0 ? (this.total - this.files) / fps : NaN;
+    return `Indexing ${this.files}/${this.total} files (${round(fps)} files/s, ${round(this.chunks / secs)} chunks/s, ETA ${formatDuration(eta)})`;
+  }
+
+  private print(text: string): void {
+    if (this.opts.enabled === false) return;
+    const stream = this.opts.stream || process.stderr;
+    stream.write(this.tty ? `\r\x1b[K${text}` : `${text}\n`);
+  }
+}
+
+function seconds(ms: number): number {
+  return Math.max(ms, 1) / 1000;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/** `42s`, `3m 05s`, `1h 12m`; `?` when unknown. */
+export function formatDuration(secs: number): string {
+  if (!Number.isFinite(secs)) return '?';
+  const s = Math.round(secs);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h ${String(Math.floor((s % 3600) / 60)).padStart(2, '0')}m`;
+}
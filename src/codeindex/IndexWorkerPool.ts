@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { CodeIndexer } from './CodeIndexer';
+import { chunkDocument } from './DocumentChunker';
+import { ChunkStrategy, digestBuffer } from './FileDigest';
+import { FileFilterOptions, SkipReason, classifyContent } from './FileFilters';
+import { SymbolIndexer } from './SymbolIndexer';
+import { TreeSitterIndexer } from './TreeSitterIndexer';
+
+/**
+ * Read → classify → hash → chunk for index-code, run on worker threads so parsing overlaps embedding and SQLite writes.
+ * Workers only produce chunks; secret scanning, embedding and storage stay on the main thread.
+ */
+
+export type { ChunkStrategy };
+
+export interface IndexTask {
+  root: string;
+  /** Path relative to root. */
+  file: string;
+  strategy: ChunkStrategy;
+  maxChunkLines: number;
+  /** Lines repeated between consecutive line chunks. */
+  chunkOverlap?: number;
+  /** Digest from the previous run (if its chunking matches); a file with the same digest is reported unchanged. */
+  knownDigest?: string;
+  /** Limits for the content checks (binary, minified, generated) run on the bytes read here. */
+  filters?: FileFilterOptions;
+}
+
+export interface IndexTaskResult {
+  file: string;
+  /** Content digest (FileDigest.digestBuffer). */
+  fileSha?: string;
+  unchanged?: boolean;
+  /** Set when the content checks reject the file; no digest or chunks are returned. */
+  skipped?: SkipReason;
+  /** Raw chunks as returned by the strategy's indexer (or DocumentChunker for docs and config, `meta.document` set). */
+  chunks: Array<{ text: string; meta: any }>;
+  error?: string;
+}
+
+const indexers = new Map<string, { lines: CodeIndexer; symbols: SymbolIndexer; treeSitter: TreeSitterIndexer }>();
+
+/**
+ * Process one file. Never throws: read and parse failures are returned in `error`.
+ */
+export function runIndexTask(task: IndexTask): IndexTaskResult {
+  const full = path.join(task.root, task.file);
+  try {
+    const buf = fs.readFileSync(full);
+    const skipped = classifyContent(buf, task.filters);
+    if (skipped) return { file: task.file, skipped, chunks: [] };
+    const fileSha = digestBuffer(buf);
+    if (task.knownDigest && task.knownDigest === fileSha) return { file: task.file, fileSha, unchanged: true, chunks: [] };
+    let ix = indexers.get(task.root);
+    if (!ix) {
+      ix = { lines: new CodeIndexer(task.root), symbols: new SymbolIndexer(task.root), treeSitter: new TreeSitterIndexer(task.root) };
+      indexers.set(task.root, ix);
+    }
+    const chunks = chunkDocument(full, task.root, task.maxChunkLines)
+      ?? (task.strategy === 'treesitter-ast' ? ix.treeSitter.chunkFile(full)
+        : task.strategy === 'heuristic-symbols' ? ix.symbols.chunkBySymbols(full)
+        : ix.lines.chunkFile(full, task.maxChunkLines, task.chunkOverlap || 0));
+    return { file: task.file, fileSha, chunks };
+  } catch (e) {
+    return { file: task.file, chunks: [], error: (e as Error).message };
+  }
+}
+
+/** Worker count used when --concurrency is not given: one core is left for the main thread (max 8). */
+export function defaultConcurrency(): number {
+  const cores = os.cpus().length || 1;
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+interface PendingTask {
+  id: number;
+  task: IndexTask;
+  resolve: (r: IndexTaskResult) => void;
+}
+
+export class IndexWorkerPool {
+  private workers: Array<{ worker: Worker; current?: PendingTask }> = [];
+  private queue: PendingTask[] = [];
+  private nextId = 1;
+  private closed = false;
+
+  /**
+   * @param size number of worker threads; 1 or less runs tasks inline on the calling thread
+   */
+  constructor(readonly size: number) {
+    if (size > 1) for (let i = 0; i < size; i++) this.spawn();
+  }
+
+  run(task: IndexTask): Promise<IndexTaskResult> {
+    if (this.closed) return Promise.reject(new Error('Index worker pool is closed'));
+    if (!this.workers.length) return Promise.resolve(runIndexTask(task));
+    return new Promise(resolve => {
+      this.queue.push({ id: this.nextId++, task, resolve });
+      this.pump();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(w => w.worker.terminate()));
+  }
+
+  private spawn(): void {
+    const slot: { worker: Worker; current?: PendingTask } = { worker: new Worker(path.join(__dirname, 'indexWorker.js')) };
+    slot.worker.on('message', (msg: { id: number; result: IndexTaskResult }) => {
+      const done = slot.current;
+      slot.current = undefined;
+      if (done && done.id === msg.id) done.resolve(msg.result);
+      this.pump();
+    });
+    // A worker that dies (an uncaught exception, process.exit, terminate) fails only its current file and a
+    // replacement takes over. 'error' is followed by 'exit'; whichever comes first settles the task. A native abort
+    // (e.g. in a parser binding) is not survivable: it ends the whole process, not just the thread.
+    const fail = (reason: string) => {
+      if (!this.workers.includes(slot)) return;
+      const done = slot.current;
+      slot.current = undefined;
+      this.workers = this.workers.filter(w => w !== slot);
+      if (done) done.resolve({ file: done.task.file, chunks: [], error: `worker failed: ${reason}` });
+      if (!this.closed) { this.spawn(); this.pump(); }
+    };
+    slot.worker.on('error', (err: Error) => fail(err.message));
+    slot.worker.on('exit', (code: number) => fail(`exited with code ${code}`));
+    this.workers.push(slot);
+  }
+
+  private pump(): void {
+    for (const slot of this.workers) {
+      if (slot.current) continue;
+      const next = this.queue.shift();
+      if (!next) return;
+      slot.current = next;
+      slot.worker.postMessage({ id: next.id, task: next.task });
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+
+/**
+ * Credential detection for code chunks before they are stored (and so before they can reach an .agmctx export).
+ *
+ * Modes (policy.secretScanning): `redact` (default) replaces each match with `[REDACTED:<rule>]`, `block` drops
+ * the chunk, `warn` stores it unchanged. Findings are recorded in the chunk's `metadata.secrets` either way.
+ */
+
+export type SecretMode = 'block' | 'redact' | 'warn';
+
+export const SECRET_MODES: SecretMode[] = ['block', 'redact', 'warn'];
+
+export const DEFAULT_SECRET_MODE: SecretMode = 'redact';
+
+export interface SecretFinding {
+  rule: string;
+  /** Line in the file (chunk lineStart + offset). */
+  line: number;
+  /** Span in the stored chunk text: the placeholder when redacted, the match itself otherwise. */
+  start: number;
+  end: number;
+}
+
+export interface SecretSummary {
+  mode: SecretMode;
+  /** Chunks with at least one finding. */
+  chunks: number;
+  findings: number;
+  redacted: number;
+  blocked: number;
+  byRule: Record<string, number>;
+}
+
+interface SecretRule {
+  name: string;
+  regex: RegExp;
+  /** Capture group holding the secret (the whole match when omitted). */
+  group?: number;
+  /** Extra check on the captured value. */
+  accept?: (value: string) => boolean;
+  /** Only applied to `.env`-style files. */
+  envOnly?: boolean;
+}
+
+const PLACEHOLDER = /^(?:x+|\*+|changeme|change_me|example|dummy|test|secret|password|your[_-].*|<.*>|\$\{.*\}|\{\{.*\}\})$/i;
+
+const RULES: SecretRule[] = [
+  { name: 'private-key', regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|[\s\S]*$)/g },
+  // Chunks are scanned one at a time, so a key block cut by a chunk boundary leaves the next chunk with its body
+  // and END line only, or (for long keys and short chunks) with body lines only
+  { name: 'private-key', regex: /(?:^|\n)((?:[ \t]*[A-Za-z0-9+/]{16,}={0,2}[ \t]*\r?\n)+[ \t]*-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----)/g, group: 1 },
+  { name: 'private-key', regex: /(?:^|\n)((?:[ \t]*[A-Za-z0-9+/]{60,76}={0,2}[ \t]*(?:\r?\n|$)){3,})/g, group: 1, accept: v => shannonEntropy(v.replace(/\s/g, '')) >= 5 },
+  { name: 'aws-access-key-id', regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { name: 'aws-secret-access-key', regex: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi, group: 1 },
+  { name: 'gcp-api-key', regex: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+  { name: 'gcp-service-account-key-id', regex: /"private_key_id"\s*:\s*"([a-f0-9]{40})"/g, group: 1 },
+  { name: 'azure-storage-key', regex: /\b(?:AccountKey|SharedAccessKey)=([A-Za-z0-9+/]{40,}={0,2})/g, group: 1 },
+  { name: 'azure-sas-signature', regex: /[?&]sig=([A-Za-z0-9%+/]{30,}(?:%3D|=){0,2})/g, group: 1 },
+  { name: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: 'github-token', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{50,})\b/g },
+  { name: 'slack-token', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'stripe-key', regex: /\b(?:sk|rk)_live_[A-Za-z0-9]{20,}/g },
+  // Every non-empty value in a .env file; elsewhere only secret-looking names with a literal value
+  { name: 'dotenv', regex: /^[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_.]*[ \t]*=[ \t]*["']?([^"'\s#][^"'\r\n]*?)["']?[ \t]*(?:#.*)?$/gm, group: 1, envOnly: true, accept: v => !PLACEHOLDER.test(v) },
+  { name: 'secret-assignment', regex: /\b[A-Za-z0-9_]*(?:password|passwd|secret|token|api_?key|access_?key|credentials?)["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi, group: 1, accept: v => !PLACEHOLDER.test(v) && shannonEntropy(v) >= 3 },
+  // Random-looking string literals (mixed case and digits, at least 24 chars); hex digests are deliberately not matched
+  { name: 'high-entropy-string', regex: /["'`]([A-Za-z0-9+/_=-]{24,})["'`]/g, group: 1, accept: v => /[a-z]/.test(v) && /[A-Z]/.test(v) && /\d/.test(v) && shannonEntropy(v) >= 4 },
+];
+
+/** Bits per character of the string's own character distribution. */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) || 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/** `.env`, `.env.local`, `prod.env`, ... */
+export function isEnvFile(file: string): boolean {
+  const name = path.basename(file);
+  return /^\.env(\..+)?$/.test(name) || /\.env$/.test(name);
+}
+
+/**
+ * Find secrets in `text`. Spans are offsets into `text`, sorted and non-overlapping (the earliest and then
+ * longest match wins). `line` is 1-based within `text`.
+ */
+export function scanSecrets(text: string, opts: { file?: string } = {}): Array<{ rule: string; line: number; start: number; end: number }> {
+  const env = opts.file ? isEnvFile(opts.file) : false;
+  const spans: Array<{ rule: string; start: number; end: number }> = [];
+  for (const rule of RULES) {
+    if (rule.envOnly && !env) continue;
+    rule.regex.lastIndex = 0;
+    for (const m of text.matchAll(rule.regex)) {
+      const value = rule.group ? m[rule.group] : m[0];
+      if (!value || (rule.accept && !rule.accept(value))) continue;
+      // Captured values end their match (bar closing quotes/comments), so search from the right
+      const start = m.index! + (rule.group ? m[0].lastIndexOf(value) : 0);
+      spans.push({ rule: rule.name, start, end: start + value.length });
+    }
+  }
+  spans.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const out: Array<{ rule: string; line: number; start: number; end: number }> = [];
+  let lastEnd = -1;
+  for (const s of spans) {
+    if (s.start < lastEnd) continue;
+    out.push({ ...s, line: lineAt(text, s.start) });
+    lastEnd = s.end;
+  }
+  return out;
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/**
+ * Applies one policy mode to every chunk of a run and keeps the counts for the receipt.
+ */
+export class SecretScanner {
+  private counts: SecretSummary;
+
+  constructor(readonly mode: SecretMode = DEFAULT_SECRET_MODE) {
+    this.counts = { mode, chunks: 0, findings: 0, redacted: 0, blocked: 0, byRule: {} };
+  }
+
+  /**
+   * Scan a chunk. Returns the text to store and the findings to record as `metadata.secrets` (none for a clean
+   * chunk); `blocked` chunks must not be stored at all.
+   */
+  screen(text: string, meta: { file?: string; lineStart?: number } = {}): { text: string; findings: SecretFinding[]; blocked: boolean } {
+    const found = scanSecrets(text, { file: meta.file });
+    if (!found.length) return { text, findings: [], blocked: false };
+    this.counts.chunks++;
+    this.counts.findings += found.length;
+    for (const f of found) this.counts.byRule[f.rule] = (this.counts.byRule[f.rule] || 0) + 1;
+    const lineBase = (meta.lineStart || 1) - 1;
+    if (this.mode !== 'redact') {
+      const blocked = this.mode === 'block';
+      if (blocked) this.counts.blocked++;
+      return { text, findings: found.map(f => ({ rule: f.rule, line: lineBase + f.line, start: f.start, end: f.end })), blocked };
+    }
+    let out = '';
+    let pos = 0;
+    const findings: SecretFinding[] = [];
+    for (const f of found) {
+      out += text.slice(pos, f.start);
+      const placeholder = `[REDACTED:${f.rule}]`;
+      findings.push({ rule: f.rule, line: lineBase + f.line, start: out.length, end: out.length + placeholder.length });
+      // Keep the line count so lineStart/lineEnd still describe the stored text
+      out += placeholder + '\n'.repeat(text.slice(f.start, f.end).split('\n').length - 1);
+      pos = f.end;
+    }
+    out += text.slice(pos);
+    this.counts.redacted += found.length;
+    return { text: out, findings, blocked: false };
+  }
+
+  summary(): SecretSummary {
+    return { ...this.counts, byRule: { ...this.counts.byRule } };
+  }
+}
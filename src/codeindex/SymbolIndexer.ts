@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { CodeChunkMetadata } from './CodeIndexer';
 
-export interface SymbolChunk { text: string; meta: CodeChunkMetadata & { symbol?: string; symbolType?: string } }
+export interface SymbolChunk { text: string; meta: CodeChunkMetadata & { symbol?: string; symbolType?: string; parentSymbol?: string } }
 
 function detectLanguage(file: string): string | undefined {
   const ext = path.extname(file).toLowerCase();
@@ -43,7 +43,7 @@ export class SymbolIndexer {
         if ((m = line.match(classRe))) {
           const name = m[2];
           const { end } = findBlockEnd(lines, i);
-          chunks.push(makeChunk(fullPath, lang!, name, 'class', lines, i, end));
+          chunks.push(...classChunks(fullPath, lang!, name, lines, i, end, findMethods(lines, i, end)));
           i = end - 1; continue;
         }
         if ((m = line.match(arrowRe))) {
@@ -87,7 +87,7 @@ export class SymbolIndexer {
         if ((m = line.match(classRe))) {
           const name = m[1];
           const { end } = findPythonBlockEnd(lines, i);
-          chunks.push(makeChunk(fullPath, lang!, name, 'class', lines, i, end));
+          chunks.push(...classChunks(fullPath, lang!, name, lines, i, end, findPythonMethods(lines, i, end)));
           i = end - 1; continue;
         }
       }
@@ -144,6 +144,70 @@ function findBlockEnd(lines: string[], start: number): { end: number } {
   return { end: Math.min(lines.length, start + 200) };
 }
 
+// Class members at brace depth 1: `name(...) {`, optionally with modifiers (constructor, get/set, async, static, ...)
+const methodRe = /^\s*(?:(?:public|private|protected|static|async|override|readonly|abstract|get|set)\s+)*\*?([A-Za-z0-9_$]+)\s*(?:<[^>]*>)?\s*\([^;]*\{\s*$/;
+const NOT_METHODS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return']);
+
+type MethodSpan = { name: string; start: number; end: number };
+
+function findMethods(lines: string[], start: number, end: number): MethodSpan[] {
+  const methods: MethodSpan[] = [];
+  let depth = 0;
+  for (let i = start; i < end; i++) {
+    const m = depth === 1 ? lines[i].match(methodRe) : null;
+    if (m && !NOT_METHODS.has(m[1])) {
+      const { end: mEnd } = findBlockEnd(lines, i);
+      if (mEnd <= end) {
+        methods.push({ name: m[1], start: i, end: mEnd });
+        i = mEnd - 1;
+        continue;
+      }
+    }
+    for (const ch of lines[i]) {
+      if (ch === '{') depth++;
+      else if (ch === '}') depth--;
+    }
+  }
+  return methods;
+}
+
+function findPythonMethods(lines: string[], start: number, end: number): MethodSpan[] {
+  const methods: MethodSpan[] = [];
+  const memberIndent = leadingSpaces(lines[start]);
+  let indent = -1;
+  for (let i = start + 1; i < end; i++) {
+    const m = lines[i].match(/^(\s*)(?:async\s+)?def\s+([A-Za-z0-9_]+)\s*\(/);
+    if (!m || m[1].length <= memberIndent) continue;
+    if (indent < 0) indent = m[1].length;
+    if (m[1].length !== indent) continue; // nested def inside a method
+    const { end: mEnd } = findPythonBlockEnd(lines, i);
+    methods.push({ name: m[2], start: i, end: Math.min(mEnd, end) });
+    i = Math.min(mEnd, end) - 1;
+  }
+  return methods;
+}
+
+/**
+ * A class summary chunk (signature, fields, method signatures with bodies elided) plus one chunk per method
+ * with `parentSymbol`, so method bodies are stored once.
+ */
+function classChunks(fullPath: string, lang: string, name: string, lines: string[], start: number, end: number, methods: MethodSpan[]): SymbolChunk[] {
+  if (!methods.length) return [makeChunk(fullPath, lang, name, 'class', lines, start, end)];
+  const summary: string[] = [];
+  let pos = start;
+  for (const m of methods) {
+    summary.push(...lines.slice(pos, m.start));
+    const sig = lines[m.start];
+    summary.push(lang === 'python' ? sig : sig.replace(/\{\s*$/, '{ … }'));
+    if (lang === 'python') summary.push(`${' '.repeat(leadingSpaces(sig) + 4)}...`);
+    pos = m.end;
+  }
+  summary.push(...lines.slice(pos, end));
+  const classChunk = makeChunk(fullPath, lang, name, 'class', lines, start, end);
+  classChunk.text = summary.join('\n');
+  return [classChunk, ...methods.map(m => makeChunk(fullPath, lang, m.name, 'method', lines, m.start, m.end, name))];
+}
+
 function findPythonBlockEnd(lines: string[], start: number): { end: number } {
   const baseIndent = leadingSpaces(lines[start]);
   for (let i = start + 1; i < lines.length; i++) {
@@ -160,14 +224,15 @@ function leadingSpaces(s: string): number {
   return m ? m[0].length : 0;
 }
 
-function makeChunk(fullPath: string, lang: string, name: string, symbolType: string, lines: string[], start: number, end: number): SymbolChunk {
+function makeChunk(fullPath: string, lang: string, name: string, symbolType: string, lines: string[], start: number, end: number, parentSymbol?: string): SymbolChunk {
   const text = lines.slice(start, end).join('\n');
-  const meta: CodeChunkMetadata & { symbol?: string; symbolType?: string } = {
+  const meta: SymbolChunk['meta'] = {
     file: path.relative(process.cwd(), fullPath).replace(/\\/g, '/'),
     language: lang,
     lineStart: start + 1,
     lineEnd: end,
     symbol: name,
+    ...(parentSymbol ? { parentSymbol } : {}),
     tags: ['symbol', symbolType]
   };
   return { text, meta };
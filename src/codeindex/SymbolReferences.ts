@@ -0,0 +1,269 @@
+/**
+ * Cross-reference extraction over Tree-sitter syntax trees (used by TreeSitterIndexer).
+ *
+ * References are name-based: every identifier inside a symbol chunk is recorded, and identifiers in callee
+ * position are additionally marked as calls. Imports are collected per file with the local names they bind,
+ * so each chunk can be linked to the modules it actually uses.
+ */
+
+export interface SymbolReference {
+    name: string;
+    kind: 'call' | 'ref';
+}
+
+export interface ImportBinding {
+    module: string;
+    /** Local names bound by the import; empty for side-effect, wildcard and namespace imports (file-wide). */
+    names: string[];
+}
+
+const IDENTIFIER_TYPES = new Set([
+    'identifier', 'type_identifier', 'property_identifier', 'field_identifier', 'shorthand_property_identifier'
+]);
+
+/** Call-like node → field holding the callee. */
+const CALL_TYPES: Record<string, string> = {
+    call_expression: 'function',        // TS/JS, Go, Rust
+    call: 'function',                   // Python
+    new_expression: 'constructor',      // TS/JS
+    macro_invocation: 'macro',          // Rust
+    method_invocation: 'name',          // Java
+    invocation_expression: 'function',  // C#
+    object_creation_expression: 'type'  // Java, C#
+};
+
+/** Cap per chunk so generated or very large symbols don't flood the graph. */
+const MAX_REFERENCES = 256;
+
+/**
+ * Identifiers referenced inside `node` (excluding the symbol's own name and any `skip` subtrees, e.g. members
+ * indexed as their own chunks), sorted for stable storage.
+ */
+export function collectReferences(node: any, ownName?: string, skip: any[] = []): SymbolReference[] {
+    const refs = new Set<string>();
+    const calls = new Set<string>();
+    const skipped = new Set(skip.map(n => n.id));
+    const visit = (n: any) => {
+        if (skipped.has(n.id)) return;
+        const calleeField = CALL_TYPES[n.type];
+        if (calleeField) {
+            const name = calleeName(n.childForFieldName(calleeField));
+            if (name) calls.add(name);
+        }
+        if (IDENTIFIER_TYPES.has(n.type)) refs.add(n.text);
+        for (let i = 0; i < n.namedChildCount; i++) visit(n.namedChild(i));
+    };
+    visit(node);
+    const out: SymbolReference[] = [];
+    for (const name of Array.from(calls).sort()) out.push({ name, kind: 'call' });
+    for (const name of Array.from(refs).sort()) if (!calls.has(name)) out.push({ name, kind: 'ref' });
+    return out.filter(r => r.name !== ownName && r.name.length > 1).slice(0, MAX_REFERENCES);
+}
+
+/** Final name of a callee expression: `foo`, `obj.foo`, `pkg::foo`, `new Foo<T>` → foo / Foo. */
+function calleeName(node: any, depth: number = 0): string | null {
+    if (!node || depth > 8) return null;
+    if (IDENTIFIER_TYPES.has(node.type)) return node.text;
+    for (const field of ['property', 'field', 'attribute', 'name']) {
+        const child = node.childForFieldName(field);
+        if (child) return calleeName(child, depth + 1);
+    }
+    // generic_type / generic_name / qualified types: the first named child carries the name
+    return node.namedChildCount ? calleeName(node.namedChild(0), depth + 1) : null;
+}
+
+/**
+ * Top-level imports of a file with the local names they bind.
+ */
+export function collectImports(root: any, language: string): ImportBinding[] {
+    const out: ImportBinding[] = [];
+    const add = (module: string | undefined, names: string[]) => {
+        if (module) out.push({ module, names: names.filter(Boolean) });
+    };
+    const visit = (n: any, depth: number) => {
+        switch (language) {
+            case 'typescript':
+            case 'javascript':
+                if (n.type === 'import_statement') {
+                    const names: string[] = [];
+                    walk(n, c => {
+                        if (c.type === 'import_specifier') names.push((c.childForFieldName('alias') || c.childForFieldName('name'))?.text);
+                        else if (c.type === 'import_clause' || c.type === 'namespace_import') {
+                            for (const id of c.namedChildren) if (id.type === 'identifier') names.push(id.text);
+                        }
+                    });
+                    add(stringValue(n.childForFieldName('source')), names);
+                    return;
+                }
+                if (n.type === 'variable_declarator') {
+                    // const x = require('m')
+                    const value = n.childForFieldName('value');
+                    if (value?.type === 'call_expression' && value.childForFieldName('function')?.text === 'require') {
+                        const arg = value.childForFieldName('arguments')?.namedChild(0);
+                        const name = n.childForFieldName('name');
+                        add(stringValue(arg), name?.type === 'identifier' ? [name.text] : []);
+                    }
+                    return;
+                }
+                break;
+            case 'python':
+                if (n.type === 'import_statement') {
+                    for (const c of n.namedChildren) {
+                        if (c.type === 'aliased_import') add(c.childForFieldName('name')?.text, [c.childForFieldName('alias')?.text]);
+                        else if (c.type === 'dotted_name') add(c.text, [c.text.split('.')[0]]);
+                    }
+                    return;
+                }
+                if (n.type === 'import_from_statement') {
+                    const module = n.childForFieldName('module_name');
+                    const names = n.namedChildren.filter((c: any) => c !== module && c.type !== 'wildcard_import')
+                        .map((c: any) => c.type === 'aliased_import' ? c.childForFieldName('alias')?.text : c.text);
+                    add(module?.text, names);
+                    return;
+                }
+                break;
+            case 'go':
+                if (n.type === 'import_spec') {
+                    const module = stringValue(n.childForFieldName('path'));
+                    const alias = n.childForFieldName('name')?.text;
+                    add(module, [alias && alias !== '_' && alias !== '.' ? alias : (module || '').split('/').pop() || '']);
+                    return;
+                }
+                break;
+            case 'rust':
+                if (n.type === 'use_declaration') {
+                    rustUse(n.childForFieldName('argument'), '', add);
+                    return;
+                }
+                break;
+            case 'java':
+                if (n.type === 'import_declaration') {
+                    const target = n.namedChildren.find((c: any) => c.type === 'scoped_identifier' || c.type === 'identifier');
+                    const wildcard = n.namedChildren.some((c: any) => c.type === 'asterisk');
+                    if (target) add(wildcard ? `${target.text}.*` : target.text, wildcard ? [] : [target.text.split('.').pop()]);
+                    return;
+                }
+                break;
+            case 'csharp':
+                if (n.type === 'using_directive') {
+                    const alias = n.childForFieldName('name');
+                    const target = n.namedChildren.find((c: any) => c !== alias && (c.type === 'qualified_name' || c.type === 'identifier'));
+                    if (target) add(target.text, alias ? [alias.text] : []);
+                    return;
+                }
+                break;
+        }
+        // Imports live at the top of the file (or inside namespaces / import lists); don't descend into bodies
+        if (depth < 3) for (const c of n.namedChildren) visit(c, depth + 1);
+    };
+    visit(root, 0);
+    return out;
+}
+
+function rustUse(node: any, prefix: string, add: (module: string | undefined, names: string[]) => void): void {
+    if (!node) return;
+    const join = (p: string, s: string) => p ? `${p}::${s}` : s;
+    switch (node.type) {
+        case 'scoped_use_list': {
+            const base = join(prefix, node.childForFieldName('path')?.text || '');
+            for (const item of node.childForFieldName('list')?.namedChildren || []) rustUse(item, base, add);
+            return;
+        }
+        case 'use_list':
+            for (const item of node.namedChildren) rustUse(item, prefix, add);
+            return;
+        case 'use_as_clause': {
+            const target = node.childForFieldName('path')?.text || '';
+            add(join(prefix, target), [node.childForFieldName('alias')?.text]);
+            return;
+        }
+        case 'use_wildcard':
+            add(join(prefix, node.text), []);
+            return;
+        default:
+            add(join(prefix, node.text), [node.text.split('::').pop() || '']);
+    }
+}
+
+function walk(node: any, fn: (n: any) => void): void {
+    fn(node);
+    for (let i = 0; i < node.namedChildCount; i++) walk(node.namedChild(i), fn);
+}
+
+function stringValue(node: any): string | undefined {
+    if (!node) return undefined;
+    return node.text.replace(/^["'`]|["'`]$/g, '');
+}
+
+/**
+ * Modules a chunk depends on: imports whose bound names it references, plus file-wide imports.
+ */
+export function chunkImports(imports: ImportBinding[], refs: SymbolReference[]): string[] {
+    const used = new Set(refs.map(r => r.name));
+    const modules = imports.filter(i => !i.names.length || i.names.some(n => used.has(n))).map(i => i.module);
+    return Array.from(new Set(modules));
+}
+
+const JS_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+/**
+ * Does `module` (as imported by `fromFile`) refer to `targetFile`? Paths are project-relative with forward slashes.
+ * Relative JS/TS and Python imports resolve against the importing file; Python, Java and Rust module paths match
+ * a path suffix; Go imports and Java/C# wildcard or namespace imports match the target's directory. Bare JS
+ * specifiers (packages) never resolve to project files.
+ */
+export function moduleResolvesTo(module: string, fromFile: string, targetFile: string): boolean {
+    const target = targetFile.replace(/\\/g, '/');
+    const targetNoExt = target.replace(/\.[^./]+$/, '');
+    const targetDir = target.includes('/') ? target.slice(0, target.lastIndexOf('/')) : '';
+    const fromDir = fromFile.includes('/') ? fromFile.slice(0, fromFile.lastIndexOf('/')) : '';
+    const endsWith = (p: string, s: string) => !!s && (p === s || p.endsWith('/' + s));
+    const ext = (fromFile.match(/\.([^./]+)$/)?.[1] || '').toLowerCase();
+
+    if (JS_EXTENSIONS.test(fromFile)) {
+        if (!module.startsWith('.')) return false;
+        const resolved = joinPath(fromDir, module).replace(JS_EXTENSIONS, '');
+        return JS_EXTENSIONS.test(target) && (targetNoExt === resolved || targetNoExt === `${resolved}/index`);
+    }
+    switch (ext) {
+        case 'py': {
+            const dots = module.match(/^\.*/)![0].length;
+            const rest = module.slice(dots).replace(/\./g, '/');
+            let base = rest;
+            if (dots) {
+                let dir = fromDir;
+                for (let i = 1; i < dots; i++) dir = dir.includes('/') ? dir.slice(0, dir.lastIndexOf('/')) : '';
+                base = [dir, rest].filter(Boolean).join('/');
+                return targetNoExt === base || targetNoExt === `${base}/__init__`;
+            }
+            return endsWith(targetNoExt, base) || endsWith(targetNoExt, `${base}/__init__`);
+        }
+        case 'go':
+            return endsWith(module, targetDir);
+        case 'rs': {
+            const segs = module.split('::').filter(s => !['crate', 'self', 'super', '*'].includes(s) && !s.startsWith('{'));
+            // `use crate::util::helper` names an item inside util.rs (or util/mod.rs); try the full path, then its parent
+            for (const n of [segs.length, segs.length - 1]) {
+                const p = segs.slice(0, n).join('/');
+                if (endsWith(targetNoExt, p) || endsWith(targetNoExt, `${p}/mod`)) return true;
+            }
+            return false;
+        }
+        case 'java':
+            return module.endsWith('.*') ? endsWith(targetDir, module.slice(0, -2).replace(/\./g, '/')) : endsWith(targetNoExt, module.replace(/\./g, '/'));
+        case 'cs':
+            // Namespaces conventionally mirror folders
+            return endsWith(targetDir, module.replace(/\./g, '/'));
+        default:
+            return false;
+    }
+}
+
+function joinPath(dir: string, rel: string): string {
+    const parts = dir ? dir.split('/') : [];
+    for (const seg of rel.split('/')) {
+        if (seg === '..') parts.pop();
+        else if (seg && seg !== '.') parts.push(seg);
+    }
+    return parts.join('/');
+}
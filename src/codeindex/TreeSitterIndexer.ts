@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { SymbolReference, chunkImports, collectImports, collectReferences } from './SymbolReferences';
 
 export interface TreeSitterSymbolChunk {
     text: string;
@@ -10,15 +11,66 @@ export interface TreeSitterSymbolChunk {
         lineEnd: number;
         symbolName?: string;
         symbolType?: string;
+        /** Enclosing symbol path for members (`Class`, `Outer.Inner`; receiver / implementing type for Go and Rust methods). */
+        parentSymbol?: string;
         strategy: 'treesitter-fallback' | 'treesitter-ast';
+        /** Identifiers used by the symbol (calls marked separately); AST chunks only. */
+        references?: SymbolReference[];
+        /** Modules the symbol depends on (imports whose names it uses, plus file-wide imports). */
+        imports?: string[];
     };
 }
 
+/**
+ * Declaration node → symbolType for the grammars handled by extractDeclaredSymbols.
+ * Names come from the node's `name` field; a few node types need extra care (see declaredSymbolInfo).
+ */
+const DECLARATION_SYMBOLS: Record<string, Record<string, string>> = {
+    go: {
+        function_declaration: 'function',
+        method_declaration: 'method',
+        type_spec: 'type',          // refined to struct/interface from the spec's type
+        type_alias: 'type'
+    },
+    rust: {
+        function_item: 'function',  // 'method' inside impl/trait blocks
+        struct_item: 'struct',
+        enum_item: 'enum',
+        union_item: 'struct',
+        trait_item: 'trait',
+        impl_item: 'impl',
+        type_item: 'type'
+    },
+    java: {
+        class_declaration: 'class',
+        interface_declaration: 'interface',
+        enum_declaration: 'enum',
+        record_declaration: 'record',
+        annotation_type_declaration: 'interface',
+        method_declaration: 'method',
+        constructor_declaration: 'constructor'
+    },
+    csharp: {
+        class_declaration: 'class',
+        struct_declaration: 'struct',
+        interface_declaration: 'interface',
+        enum_declaration: 'enum',
+        record_declaration: 'record',
+        record_struct_declaration: 'record',
+        method_declaration: 'method',
+        constructor_declaration: 'constructor'
+    }
+};
+
+/** Symbols whose bodies are never split into nested chunks. */
+const LEAF_SYMBOL_TYPES = new Set(['function', 'method', 'constructor']);
+
 /**
  * TreeSitterIndexer - AST-based precise symbol extraction
  * 
  * Uses Tree-sitter parsers for accurate symbol boundary detection
- * in TypeScript, JavaScript, Python, and other languages.
+ * in TypeScript, JavaScript, Python, Go, Rust, Java and C#.
+ * Each grammar loads independently, so a missing one only affects its own language.
  * 
  * Falls back to heuristic parsing when Tree-sitter is unavailable.
  */
@@ -33,39 +85,47 @@ export class TreeSitterIndexer {
     }
 
     private initializeParsers(): void {
+        let Parser: any;
         try {
             // Dynamically import Tree-sitter modules
-            const Parser = require('tree-sitter');
-            
-            // Language parsers
-            const TypeScript = require('tree-sitter-typescript').typescript;
-            const JavaScript = require('tree-sitter-javascript');
-            const Python = require('tree-sitter-python');
-
-            // Create parser instances
-            const tsParser = new Parser();
-            tsParser.setLanguage(TypeScript);
-            this.parsers.set('typescript', tsParser);
-
-            const jsParser = new Parser();
-            jsParser.setLanguage(JavaScript);
-            this.parsers.set('javascript', jsParser);
-
-            const pyParser = new Parser();
-            pyParser.setLanguage(Python);
-            this.parsers.set('python', pyParser);
-
-            this.treeSitterAvailable = true;
+            Parser = require('tree-sitter');
         } catch (error) {
             // Tree-sitter not available, will use fallback
             this.treeSitterAvailable = false;
+            return;
         }
+
+        // Language parsers
+        const grammars: Array<[string, () => any]> = [
+            ['typescript', () => require('tree-sitter-typescript').typescript],
+            ['javascript', () => require('tree-sitter-javascript')],
+            ['python', () => require('tree-sitter-python')],
+            ['go', () => require('tree-sitter-go')],
+            ['rust', () => require('tree-sitter-rust')],
+            ['java', () => require('tree-sitter-java')],
+            ['csharp', () => require('tree-sitter-c-sharp')]
+        ];
+        for (const [language, load] of grammars) {
+            try {
+                const parser = new Parser();
+                parser.setLanguage(load());
+                this.parsers.set(language, parser);
+            } catch {
+                // Grammar not installed or incompatible; files in this language use the fallback
+            }
+        }
+        this.treeSitterAvailable = this.parsers.size > 0;
     }
 
     isAvailable(): boolean {
         return this.treeSitterAvailable;
     }
 
+    /** Languages with a loaded grammar. */
+    languages(): string[] {
+        return Array.from(this.parsers.keys());
+    }
+
     chunkFile(filePath: string): TreeSitterSymbolChunk[] {
         const rel = path.relative(this.root, filePath).replace(/\\/g, '/');
         let content = '';
@@ -82,7 +142,9 @@ export class TreeSitterIndexer {
         // Try Tree-sitter parsing first
         if (this.treeSitterAvailable && this.parsers.has(language)) {
             try {
-                return this.parseWithTreeSitter(content, rel, language, lines);
+                const chunks = this.parseWithTreeSitter(content, rel, language, lines);
+                // Files without declarations (scripts, constants only) still get indexed as a whole
+                if (chunks.length) return chunks;
             } catch (error) {
                 // Fall back to heuristic if Tree-sitter fails
                 console.warn(`Tree-sitter parsing failed for ${rel}, falling back to heuristics`);
@@ -114,117 +176,129 @@ export class TreeSitterIndexer {
         const tree = parser.parse(content);
         const chunks: TreeSitterSymbolChunk[] = [];
 
-        // Extract symbols based on language
-        if (language === 'typescript' || language === 'javascript') {
-            this.extractJavaScriptSymbols(tree.rootNode, content, file, language, lines, chunks);
-        } else if (language === 'python') {
-            this.extractPythonSymbols(tree.rootNode, content, file, language, lines, chunks);
-        }
+        this.extractSymbols(tree.rootNode, content, file, language, chunks);
 
+        const imports = collectImports(tree.rootNode, language);
+        for (const chunk of chunks) chunk.meta.imports = chunkImports(imports, chunk.meta.references || []);
         return chunks;
     }
 
-    private extractJavaScriptSymbols(
+    /**
+     * Walk the tree and emit one chunk per symbol. Functions, methods and constructors are leaves: their bodies
+     * are never split further. Any other symbol (class, struct, impl, ...) that contains nested symbols becomes a
+     * summary chunk - its text with each nested body elided to `{ … }` - and every nested symbol gets its own chunk
+     * carrying `parentSymbol` (e.g. `Outer.Inner`), so no body is stored twice.
+     */
+    private extractSymbols(
         node: any,
         content: string,
         file: string,
         language: string,
-        lines: string[],
-        chunks: TreeSitterSymbolChunk[]
+        chunks: TreeSitterSymbolChunk[],
+        parentSymbol?: string
     ): void {
-        const symbolTypes = [
-            'function_declaration',
-            'function_expression',
-            'arrow_function',
-            'method_definition',
-            'class_declaration',
-            'interface_declaration',
-            'type_alias_declaration',
-            'enum_declaration',
-            'variable_declarator',
-            'export_statement'
-        ];
-
-        if (symbolTypes.includes(node.type)) {
-            const symbolInfo = this.extractSymbolInfo(node, language);
-            if (symbolInfo) {
-                const startLine = node.startPosition.row + 1;
-                const endLine = node.endPosition.row + 1;
-                const symbolText = content.slice(node.startIndex, node.endIndex);
-
-                chunks.push({
-                    text: symbolText,
-                    meta: {
-                        file,
-                        language,
-                        lineStart: startLine,
-                        lineEnd: endLine,
-                        symbolName: symbolInfo.name,
-                        symbolType: symbolInfo.type,
-                        strategy: 'treesitter-ast'
-                    }
-                });
+        const symbolInfo = this.symbolInfo(node, language);
+        if (!symbolInfo) {
+            for (let i = 0; i < node.namedChildCount; i++) {
+                this.extractSymbols(node.namedChild(i), content, file, language, chunks, parentSymbol);
             }
+            return;
         }
-
-        // Recursively process child nodes
-        for (let i = 0; i < node.childCount; i++) {
-            this.extractJavaScriptSymbols(node.child(i), content, file, language, lines, chunks);
-        }
+        // Go: `type X struct {...}` - keep the `type` keyword when the declaration holds a single spec
+        const span = language === 'go' && node.parent?.type === 'type_declaration' && node.parent.namedChildCount === 1 ? node.parent : node;
+        const nested = LEAF_SYMBOL_TYPES.has(symbolInfo.type) ? [] : this.nestedSymbols(node, language);
+        const parent = symbolInfo.parent ?? parentSymbol;
+        chunks.push({
+            text: nested.length ? elideBodies(content, span, nested, language) : content.slice(span.startIndex, span.endIndex),
+            meta: {
+                file,
+                language,
+                lineStart: span.startPosition.row + 1,
+                lineEnd: span.endPosition.row + 1,
+                symbolName: symbolInfo.name,
+                symbolType: symbolInfo.type,
+                ...(parent ? { parentSymbol: parent } : {}),
+                strategy: 'treesitter-ast',
+                // Members are indexed separately, so the summary only references what its own text uses
+                references: collectReferences(node, symbolInfo.name, nested)
+            }
+        });
+        const owner = parent ? `${parent}.${symbolInfo.name}` : symbolInfo.name;
+        for (const child of nested) this.extractSymbols(child, content, file, language, chunks, owner);
     }
 
-    private extractPythonSymbols(
-        node: any,
-        content: string,
-        file: string,
-        language: string,
-        lines: string[],
-        chunks: TreeSitterSymbolChunk[]
-    ): void {
-        const symbolTypes = [
-            'function_definition',
-            'class_definition',
-            'decorated_definition'
-        ];
-
-        if (symbolTypes.includes(node.type)) {
-            const symbolInfo = this.extractSymbolInfo(node, language);
-            if (symbolInfo) {
-                const startLine = node.startPosition.row + 1;
-                const endLine = node.endPosition.row + 1;
-                const symbolText = content.slice(node.startIndex, node.endIndex);
-
-                chunks.push({
-                    text: symbolText,
-                    meta: {
-                        file,
-                        language,
-                        lineStart: startLine,
-                        lineEnd: endLine,
-                        symbolName: symbolInfo.name,
-                        symbolType: symbolInfo.type,
-                        strategy: 'treesitter-ast'
-                    }
-                });
+    /** Closest symbol nodes below `node` (not descending into a symbol once found). */
+    private nestedSymbols(node: any, language: string): any[] {
+        const out: any[] = [];
+        const visit = (n: any) => {
+            for (let i = 0; i < n.namedChildCount; i++) {
+                const child = n.namedChild(i);
+                if (this.symbolInfo(child, language)) out.push(child);
+                else visit(child);
             }
+        };
+        visit(node);
+        return out;
+    }
+
+    private symbolInfo(node: any, language: string): { name: string; type: string; parent?: string } | null {
+        if (language === 'typescript' || language === 'javascript' || language === 'python') {
+            return this.extractSymbolInfo(node, language);
         }
+        const symbolType = DECLARATION_SYMBOLS[language]?.[node.type];
+        return symbolType ? this.declaredSymbolInfo(node, language, symbolType) : null;
+    }
 
-        // Recursively process child nodes
-        for (let i = 0; i < node.childCount; i++) {
-            this.extractPythonSymbols(node.child(i), content, file, language, lines, chunks);
+    private declaredSymbolInfo(node: any, language: string, symbolType: string): { name: string; type: string; parent?: string } | null {
+        if (language === 'rust' && node.type === 'impl_item') {
+            // impl Trait for Type / impl Type
+            const type = node.childForFieldName('type')?.text;
+            const trait = node.childForFieldName('trait')?.text;
+            return type ? { name: trait ? `${trait} for ${type}` : type, type: 'impl' } : null;
+        }
+        const name = node.childForFieldName('name')?.text || this.findIdentifierName(node);
+        if (!name) return null;
+        if (language === 'go' && node.type === 'type_spec') {
+            const kind = node.childForFieldName('type')?.type;
+            return { name, type: kind === 'struct_type' ? 'struct' : kind === 'interface_type' ? 'interface' : 'type' };
+        }
+        if (language === 'go' && node.type === 'method_declaration') {
+            // func (s *Server) Start() - the receiver type is the method's parent
+            const receiver = node.childForFieldName('receiver')?.namedChild(0)?.childForFieldName('type')?.text;
+            const parent = receiver?.replace(/^\*/, '').replace(/\[.*$/, '');
+            return { name, type: 'method', ...(parent ? { parent } : {}) };
+        }
+        if (language === 'rust' && node.type === 'function_item') {
+            const container = node.parent?.type === 'declaration_list' ? node.parent.parent : undefined;
+            if (container?.type === 'impl_item' || container?.type === 'trait_item') {
+                // Methods hang off the implementing type (`Point.area`), not the `Shape for Point` impl block
+                const parent = container.type === 'impl_item' ? container.childForFieldName('type')?.text : container.childForFieldName('name')?.text;
+                return { name, type: 'method', ...(parent ? { parent } : {}) };
+            }
+            return { name, type: 'function' };
         }
+        return { name, type: symbolType };
     }
 
     private extractSymbolInfo(node: any, language: string): { name: string; type: string } | null {
         if (language === 'typescript' || language === 'javascript') {
             switch (node.type) {
                 case 'function_declaration':
+                    return {
+                        name: this.findIdentifierName(node) || 'anonymous',
+                        type: 'function'
+                    };
                 case 'function_expression':
                 case 'arrow_function':
+                    // Named by what they are assigned to: const f = () => {}, class fields, object properties
+                    return {
+                        name: node.childForFieldName('name')?.text || this.assignedName(node) || 'anonymous',
+                        type: 'function'
+                    };
                 case 'method_definition':
                     return {
                         name: this.findIdentifierName(node) || 'anonymous',
-                        type: 'function'
+                        type: 'method'
                     };
                 case 'class_declaration':
                     return {
@@ -255,11 +329,14 @@ export class TreeSitterIndexer {
             }
         } else if (language === 'python') {
             switch (node.type) {
-                case 'function_definition':
+                case 'function_definition': {
+                    // def directly inside a class body (possibly decorated) is a method
+                    const holder = node.parent?.type === 'decorated_definition' ? node.parent.parent : node.parent;
                     return {
                         name: this.findIdentifierName(node) || 'anonymous',
-                        type: 'function'
+                        type: holder?.type === 'block' && holder.parent?.type === 'class_definition' ? 'method' : 'function'
                     };
+                }
                 case 'class_definition':
                     return {
                         name: this.findIdentifierName(node) || 'anonymous',
@@ -271,6 +348,20 @@ export class TreeSitterIndexer {
         return null;
     }
 
+    private assignedName(node: any): string | null {
+        const parent = node.parent;
+        switch (parent?.type) {
+            case 'variable_declarator':
+            case 'public_field_definition':
+            case 'field_definition':
+                return parent.childForFieldName('name')?.text || parent.childForFieldName('property')?.text || null;
+            case 'pair':
+                return parent.childForFieldName('key')?.text || null;
+            default:
+                return null;
+        }
+    }
+
     private findIdentifierName(node: any): string | null {
         // Look for identifier nodes in the immediate children
         for (let i = 0; i < node.childCount; i++) {
@@ -321,7 +412,25 @@ function inferLanguage(filePath: string): string {
         case '.jsx': return 'javascript';
         case '.py': return 'python';
         case '.go': return 'go';
+        case '.rs': return 'rust';
         case '.java': return 'java';
+        case '.cs': return 'csharp';
         default: return ext.replace('.', '') || 'text';
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Container text with each nested member's body replaced by a placeholder, leaving signatures, fields and the
+ * member list (a summary whose bodies live in the members' own chunks).
+ */
+function elideBodies(content: string, span: any, nested: any[], language: string): string {
+    let out = '';
+    let pos = span.startIndex;
+    for (const member of nested) {
+        const body = member.childForFieldName('body');
+        if (!body || body.startIndex < pos) continue; // signature-only member (interface method, abstract) stays verbatim
+        out += content.slice(pos, body.startIndex) + (language === 'python' ? '...' : body.text.startsWith('{') ? '{ … }' : '…');
+        pos = body.endIndex;
+    }
+    return out + content.slice(pos, span.endIndex);
+}
@@ -0,0 +1,7 @@
+import { parentPort } from 'worker_threads';
+import { IndexTask, runIndexTask } from './IndexWorkerPool';
+
+// Worker entry for IndexWorkerPool: one task at a time, results posted back with the task id.
+parentPort!.on('message', (msg: { id: number; task: IndexTask }) => {
+  parentPort!.postMessage({ id: msg.id, result: runIndexTask(msg.task) });
+});
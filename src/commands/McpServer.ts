@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PolicyBroker } from '../utils/PolicyBroker';
+import { Tracer } from '../utils/Trace';
+
+/**
+ * MCP (Model Context Protocol) server over stdio.
+ * Newline-delimited JSON-RPC 2.0 on stdin/stdout; no sockets are opened (zero-egress posture unchanged).
+ * Each tool call is dispatched to the regular CLI command (same handlers, receipts and journal),
+ * with console output captured so stdout carries protocol messages only.
+ */
+
+export interface McpCommandHost {
+  /** Run one CLI command in-process (argv excludes node/script). Structured payloads are passed to sink. */
+  run(argv: string[], sink: (data: any) => void): Promise<void>;
+}
+
+interface McpToolDef {
+  name: string;
+  description: string;
+  inputSchema: any;
+  toArgv(args: any): string[];
+}
+
+const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+const str = (v: any): string | undefined => (v === undefined || v === null || v === '') ? undefined : String(v);
+const list = (v: any): string[] => Array.isArray(v) ? v.map(String) : (v ? [String(v)] : []);
+
+const TOOLS: McpToolDef[] = [
+  {
+    name: 'remember',
+    description: 'Store a memory locally (same as `agm remember`).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Content to remember' },
+        context: { type: 'string', description: 'Context label (default: general)' },
+        type: { type: 'string', description: 'Memory type (default: general)' },
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['content']
+    },
+    toArgv: (a) => {
+      const argv = ['remember', String(a.content ?? '')];
+      if (str(a.context)) argv.push('--context', str(a.context)!);
+      if (str(a.type)) argv.push('--type', str(a.type)!);
+      if (list(a.tags).length) argv.push('--tags', list(a.tags).join(','));
+      return argv;
+    }
+  },
+  {
+    name: 'recall',
+    description: 'Search stored memories (same as `agm recall`).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        limit: { type: 'number', description: '1-100 (default 10)' },
+        hybrid: { type: 'boolean', description: 'Vector rerank on top of FTS' },
+        type: { type: 'string' },
+        context: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['query']
+    },
+    toArgv: (a) => {
+      const argv = ['recall', String(a.query ?? '')];
+      if (a.limit !== undefined) argv.push('--limit', String(a.limit));
+      if (a.hybrid) argv.push('--hybrid');
+      if (str(a.type)) argv.push('--type', str(a.type)!);
+      if (str(a.context)) argv.push('--context', str(a.context)!);
+      if (list(a.tags).length) argv.push('--tags', list(a.tags).join(','));
+      return argv;
+    }
+  },
+  {
+    name: 'search-code',
+    description: 'Search indexed code chunks (same as `agm search-code`).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        topk: { type: 'number', description: 'Max results (default 20)' },
+        preview: { type: 'number', description: 'Preview lines per result' },
+        hybrid: { type: 'boolean', description: 'Vector rerank on top of FTS' },
+        vectorFirst: { type: 'boolean', description: 'Union FTS hits with nearest vector neighbours (RRF fusion)' },
+        profile: { type: 'string', description: 'Ranking profile for hybrid modes (default|identifier|conceptual or a project profile)' },
+        expandNeighbors: { type: 'number', description: 'Add up to n definitions of symbols each hit references' },
+        filterPath: { type: 'array', items: { type: 'string' } },
+        filterLanguage: { type: 'array', items: { type: 'string' } },
+        filterSymbol: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['query']
+    },
+    toArgv: (a) => {
+      const argv = ['search-code', String(a.query ?? '')];
+      if (a.topk !== undefined) argv.push('--topk', String(a.topk));
+      if (a.preview !== undefined) argv.push('--preview', String(a.preview));
+      if (a.hybrid) argv.push('--hybrid');
+      if (a.vectorFirst) argv.push('--vector-first');
+      if (a.profile) argv.push('--profile', String(a.profile));
+      if (a.expandNeighbors !== undefined) argv.push('--expand-neighbors', String(a.expandNeighbors));
+      if (list(a.filterPath).length) argv.push('--filter-path', ...list(a.filterPath));
+      if (list(a.filterLanguage).length) argv.push('--filter-language', ...list(a.filterLanguage));
+      if (list(a.filterSymbol).length) argv.push('--filter-symbol', ...list(a.filterSymbol));
+      return argv;
+    }
+  },
+  {
+    name: 'index-code',
+    description: 'Index code into memory in diff mode (unchanged files are skipped; same as `agm index-code --diff`).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Root directory (default: project root)' },
+        symbols: { type: 'boolean', description: 'Symbol-aware chunking' },
+        include: { type: 'array', items: { type: 'string' } },
+        exclude: { type: 'array', items: { type: 'string' } },
+        maxChunk: { type: 'number' }
+      }
+    },
+    toArgv: (a) => {
+      const argv = ['index-code', '--diff'];
+      if (str(a.path)) argv.push('--path', str(a.path)!);
+      if (a.symbols) argv.push('--symbols');
+      if (a.maxChunk !== undefined) argv.push('--max-chunk', String(a.maxChunk));
+      if (list(a.include).length) argv.push('--include', ...list(a.include));
+      if (list(a.exclude).length) argv.push('--exclude', ...list(a.exclude));
+      return argv;
+    }
+  },
+  {
+    name: 'receipt-show',
+    description: 'Return a saved receipt by id (default: the most recent one).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Receipt id; omit for the last receipt' }
+      }
+    },
+    toArgv: (a) => str(a.id) ? ['receipt-show', str(a.id)!] : ['receipt-show', '--last']
+  }
+];
+
+function stripAnsi(s: string): string {
+  return s.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function listReceipts(projectRoot: string): Set<string> {
+  const dir = path.join(projectRoot, '.antigoldfishmode', 'receipts');
+  try { return new Set(fs.readdirSync(dir).filter(f => f.endsWith('.json'))); } catch { return new Set(); }
+}
+
+export async function handleMcpServe(host: McpCommandHost, policyBroker: PolicyBroker): Promise<void> {
+  const projectRoot = process.cwd();
+  const writeOut = process.stdout.write.bind(process.stdout);
+  const writeErr = process.stderr.write.bind(process.stderr);
+  const realArgv = process.argv;
+  const send = (msg: any) => { writeOut(JSON.stringify(msg) + '\n'); };
+
+  // Anything printed outside a tool call goes to stderr; inside a call it is captured for the result
+  let capture: string[] | null = null;
+  const route = (chunk: any, encoding?: any, cb?: any) => {
+    const text = typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString(typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8');
+    if (capture) capture.push(text); else writeErr(text);
+    const done = typeof encoding === 'function' ? encoding : cb;
+    if (typeof done === 'function') done();
+    return true;
+  };
+  (process.stdout as any).write = route;
+  (process.stderr as any).write = (chunk: any, encoding?: any, cb?: any) => capture ? route(chunk, encoding, cb) : writeErr(chunk, encoding, cb);
+
+  const callTool = async (name: string, args: any): Promise<any> => {
+    const tool = TOOLS.find(t => t.name === name);
+    if (!tool) throw Object.assign(new Error(`Unknown tool: ${name}`), { code: -32602 });
+    args = args && typeof args === 'object' ? args : {};
+    for (const req of (tool.inputSchema.required || []) as string[]) {
+      if (args[req] === undefined || args[req] === null || args[req] === '') {
+        throw Object.assign(new Error(`Missing required argument: ${req}`), { code: -32602 });
+      }
+    }
+    const argv = tool.toArgv(args);
+    policyBroker.logAction('mcp_tool_call', { tool: name });
+    if (!policyBroker.isCommandAllowed(name)) {
+      const tracer = new Tracer(projectRoot, ['node', 'agm', ...argv]);
+      const receipt = tracer.writeReceipt(name, { via: 'mcp', args }, {}, false, 'policy_blocked', { exitCode: 2 });
+      tracer.appendJournal({ cmd: name, args: { via: 'mcp' }, error: 'policy_blocked', receipt });
+      const text = `Command not allowed by policy: ${name}. Tip: run 'agm policy allow-command ${name}'.`;
+      return { content: [{ type: 'text', text }], structuredContent: { command: name, success: false, exitCode: 2, error: 'policy_blocked' }, isError: true };
+    }
+
+    const before = listReceipts(projectRoot);
+    const payloads: any[] = [];
+    const out: string[] = [];
+    let exitCode = 0;
+    let failure: string | undefined;
+    capture = out;
+    process.argv = ['node', 'agm', ...argv, '--json'];
+    // Handlers report failure through process.exitCode (they never call process.exit on a tool's path)
+    process.exitCode = undefined;
+    try {
+      await host.run([...argv, '--json'], (data) => payloads.push(data));
+      exitCode = Number(process.exitCode ?? 0);
+    } catch (e) {
+      // Commander parse errors (exitOverride) carry their exit code
+      exitCode = typeof (e as any).exitCode === 'number' && (e as any).exitCode ? (e as any).exitCode : 1;
+      failure = (e as Error).message;
+    } finally {
+      process.exitCode = undefined;
+      process.argv = realArgv;
+      capture = null;
+    }
+
+    const output = stripAnsi(out.join('')).trim();
+    let data: any = payloads.length ? payloads[payloads.length - 1] : undefined;
+    if (data === undefined && name === 'receipt-show') {
+      try { data = JSON.parse(output); } catch {}
+    }
+    const created = Array.from(listReceipts(projectRoot)).filter(f => !before.has(f)).sort();
+    let receipt: any;
+    if (created.length) {
+      try { receipt = JSON.parse(fs.readFileSync(path.join(projectRoot, '.antigoldfishmode', 'receipts', created[created.length - 1]), 'utf8')); } catch {}
+    }
+    const success = exitCode === 0 && !failure && (receipt ? receipt.success !== false : true);
+    const structured = {
+      command: name,
+      success,
+      exitCode,
+      error: failure || receipt?.error,
+      data,
+      receipt: receipt ? { id: receipt.id, params: receipt.params, results: receipt.results, resultSummary: receipt.resultSummary, extras: receipt.extras } : undefined,
+      output
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }], structuredContent: structured, isError: !success };
+  };
+
+  const handle = async (msg: any): Promise<void> => {
+    const isRequest = msg && msg.id !== undefined && msg.id !== null;
+    try {
+      switch (msg?.method) {
+        case 'initialize': {
+          const requested = msg.params?.protocolVersion;
+          send({ jsonrpc: '2.0', id: msg.id, result: {
+            protocolVersion: typeof requested === 'string' ? requested : MCP_PROTOCOL_VERSION,
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: { name: 'antigoldfishmode', version: require('../../package.json').version }
+          } });
+          return;
+        }
+        case 'ping':
+          if (isRequest) send({ jsonrpc: '2.0', id: msg.id, result: {} });
+          return;
+        case 'tools/list':
+          send({ jsonrpc: '2.0', id: msg.id, result: { tools: TOOLS.map(t => ({ name: t.name, description: t.description, inputSchema: t.inputSchema })) } });
+          return;
+        case 'tools/call': {
+          const result = await callTool(String(msg.params?.name ?? ''), msg.params?.arguments);
+          send({ jsonrpc: '2.0', id: msg.id, result });
+          return;
+        }
+        default:
+          // Notifications (initialized, cancelled, ...) need no reply
+          if (isRequest) send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: `Method not found: ${msg?.method}` } });
+      }
+    } catch (e) {
+      if (isRequest) send({ jsonrpc: '2.0', id: msg.id, error: { code: (e as any).code ?? -32603, message: (e as Error).message } });
+    }
+  };
+
+  writeErr(`AGM MCP server ready on stdio (tools: ${TOOLS.map(t => t.name).join(', ')})\n`);
+  const rl = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  // Requests are handled one at a time: tool calls share the process (argv, stdout capture, DB handle)
+  let queue = Promise.resolve();
+  rl.on('line', (line) => {
+    if (!line.trim()) return;
+    let msg: any;
+    try { msg = JSON.parse(line); } catch {
+      send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+    queue = queue.then(() => handle(msg));
+  });
+  await new Promise<void>(resolve => rl.on('close', () => resolve()));
+  await queue;
+}
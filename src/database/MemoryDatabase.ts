@@ -17,6 +17,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import * as os from 'os';
+import type { Chunking, FileDigestRecord } from '../codeindex/FileDigest';
+import { activeModelId } from '../engine/embeddings/ModelRegistry';
 
 // TypeScript augmentation (legacy note retained for compatibility)
 declare module 'crypto' {
@@ -56,6 +58,18 @@ export interface SearchResult {
     metadata?: string; // JSON string stored in DB, may contain file/line info
 }
 
+/** A code chunk found through the cross-reference graph (agm refs/callers, search-code --expand-neighbors). */
+export interface CodeGraphHit {
+    id: number;
+    symbol?: string;
+    symbolType?: string;
+    parentSymbol?: string;
+    file?: string;
+    lineStart?: number;
+    lineEnd?: number;
+    content: string;
+}
+
 export interface Message {
     id?: string;
     role: 'user' | 'assistant' | 'system';
@@ -91,6 +105,8 @@ interface EncryptedDatabaseFile {
 
 export class MemoryDatabase {
     private db: Database.Database | null = null;
+    private codeFileIndexChecked = false;
+    private vectorTableChecked = false;
     private dbPath: string;
     private encryptedDbPath: string;
     private tempDbPath: string;
@@ -484,6 +500,7 @@ export class MemoryDatabase {
                         id INTEGER PRIMARY KEY,
                         dim INTEGER NOT NULL,
                         vector BLOB NOT NULL,
+                        model TEXT,
                         FOREIGN KEY (id) REFERENCES memories(id) ON DELETE CASCADE
                     );
                 `);
@@ -493,9 +510,15 @@ export class MemoryDatabase {
                     CREATE TABLE IF NOT EXISTS file_digests (
                         file TEXT PRIMARY KEY,
                         digest TEXT NOT NULL,
+                        strategy TEXT,
+                        max_chunk INTEGER,
+                        options TEXT,
                         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
                     );
                 `);
+                this.migrateFileDigests();
+
+                this.migrateFtsTriggers();
 
             }
         } catch (error) {
@@ -504,6 +527,46 @@ export class MemoryDatabase {
         }
     }
 
+    /**
+     * Older schemas removed FTS rows with `DELETE FROM memories_fts`, which cannot work for an
+     * external-content FTS5 table once the source row changed (content edits corrupt the index).
+     * Recreate the triggers with the FTS5 'delete' command and rebuild the index once.
+     */
+    /**
+     * file_digests gained strategy/max_chunk (and later options) columns. Old rows keep NULLs, which never match, so each file is
+     * re-indexed (and re-hashed with sha256) once.
+     */
+    private migrateFileDigests(): void {
+        if (!this.db) return;
+        const cols = (this.db.prepare('PRAGMA table_info(file_digests)').all() as Array<{ name: string }>).map(c => c.name);
+        if (!cols.includes('strategy')) this.db.exec('ALTER TABLE file_digests ADD COLUMN strategy TEXT');
+        if (!cols.includes('max_chunk')) this.db.exec('ALTER TABLE file_digests ADD COLUMN max_chunk INTEGER');
+        if (!cols.includes('options')) this.db.exec('ALTER TABLE file_digests ADD COLUMN options TEXT');
+    }
+
+    private migrateFtsTriggers(): void {
+        if (!this.db) return;
+        const row = this.db.prepare("SELECT sql FROM sqlite_master WHERE type='trigger' AND name='memories_fts_update'").get() as { sql?: string } | undefined;
+        if (!row?.sql || row.sql.includes("'delete'")) return;
+        this.db.exec(`
+            DROP TRIGGER IF EXISTS memories_fts_delete;
+            DROP TRIGGER IF EXISTS memories_fts_update;
+            CREATE TRIGGER memories_fts_delete AFTER DELETE ON memories
+            BEGIN
+                INSERT INTO memories_fts(memories_fts, rowid, content, context, tags)
+                VALUES ('delete', old.id, old.content, old.context, old.tags);
+            END;
+            CREATE TRIGGER memories_fts_update AFTER UPDATE ON memories
+            BEGIN
+                INSERT INTO memories_fts(memories_fts, rowid, content, context, tags)
+                VALUES ('delete', old.id, old.content, old.context, old.tags);
+                INSERT INTO memories_fts(rowid, content, context, tags)
+                VALUES (new.id, new.content, new.context, new.tags);
+            END;
+            INSERT INTO memories_fts(memories_fts) VALUES ('rebuild');
+        `);
+    }
+
     /**
      * Add conversation tables to existing database
      */
@@ -620,6 +683,7 @@ export class MemoryDatabase {
                 id INTEGER PRIMARY KEY,
                 dim INTEGER NOT NULL,
                 vector BLOB NOT NULL,
+                model TEXT,
                 FOREIGN KEY (id) REFERENCES memories(id) ON DELETE CASCADE
             );
 
@@ -632,12 +696,14 @@ export class MemoryDatabase {
 
             CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories
             BEGIN
-                DELETE FROM memories_fts WHERE rowid = old.id;
+                INSERT INTO memories_fts(memories_fts, rowid, content, context, tags)
+                VALUES ('delete', old.id, old.content, old.context, old.tags);
             END;
 
             CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE ON memories
             BEGIN
-                DELETE FROM memories_fts WHERE rowid = old.id;
+                INSERT INTO memories_fts(memories_fts, rowid, content, context, tags)
+                VALUES ('delete', old.id, old.content, old.context, old.tags);
                 INSERT INTO memories_fts(rowid, content, context, tags)
                 VALUES (new.id, new.content, new.context, new.tags);
             END;
@@ -683,10 +749,13 @@ export class MemoryDatabase {
             CREATE INDEX IF NOT EXISTS idx_conversations_timestamp ON conversations(timestamp);
             CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages(conversation_id);
 
-            -- File digests for incremental indexing
+            -- File digests for incremental indexing (content digest + how the file was chunked)
             CREATE TABLE IF NOT EXISTS file_digests (
                 file TEXT PRIMARY KEY,
                 digest TEXT NOT NULL,
+                strategy TEXT,
+                max_chunk INTEGER,
+                options TEXT,
                 updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
             );
         `;
@@ -788,6 +857,12 @@ export class MemoryDatabase {
             params.push(context);
         }
 
+        // Tags are stored as a JSON array; every requested tag must be present
+        for (const tag of tags || []) {
+            sql += ' AND EXISTS (SELECT 1 FROM json_each(m.tags) WHERE json_each.value = ?)';
+            params.push(tag);
+        }
+
         // Order by relevance (FTS5 rank)
         sql += ' ORDER BY rank LIMIT ? OFFSET ?';
         params.push(limit, offset);
@@ -822,54 +897,165 @@ export class MemoryDatabase {
 
 
         /**
-         * Store/update vector embedding for a memory (Stage 1)
+         * Run `fn` in one transaction: committed when it resolves, rolled back when it throws. Bulk inserts
+         * (index-code) use this to avoid a journal sync per row. `fn` must not await anything but this database,
+         * or other writes could land inside the transaction. Nested calls join the outer transaction.
          */
-        async upsertVector(id: number, vec: Float32Array, dim: number): Promise<void> {
+        async withTransaction<T>(fn: () => Promise<T>): Promise<T> {
             if (!this.db) throw new Error('Database not initialized');
-            this.ensureVectorTable();
-
-            // Stage 2: try sqlite-vss fast path when available
+            const db = this.db;
+            if (db.inTransaction) return fn();
+            db.exec('BEGIN');
+            try {
+                const result = await fn();
+                db.exec('COMMIT');
+                return result;
+            } catch (err) {
+                if (db.inTransaction) db.exec('ROLLBACK');
+                throw err;
+            }
+        }
 
+        /**
+         * Store/update vector embedding for a memory (Stage 1), recording the model that produced it
+         * (defaults to the project's active model). `mirror` decides whether sqlite-vss gets a copy; by default only
+         * the active model's vectors are mirrored.
+         */
+        async upsertVector(id: number, vec: Float32Array, dim: number, model: string = activeModelId(process.cwd()), mirror: boolean = model === activeModelId(process.cwd())): Promise<void> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
 
-            const vss = (this as any)._vss as (undefined | { ensureTable: (d:number)=>void; upsert: (id:number, vec: Float32Array)=>void; isAvailable: ()=>boolean });
-            if (vss && vss.isAvailable()) {
+            // memory_vectors is the source of truth (export, rerank, local-js backend)
+            const buf = Buffer.alloc(vec.byteLength);
+            for (let i = 0; i < vec.length; i++) buf.writeFloatLE(vec[i], i * 4);
+            const stmt = this.db.prepare(`
+                INSERT INTO memory_vectors (id, dim, vector, model)
+                VALUES (?, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET dim=excluded.dim, vector=excluded.vector, model=excluded.model
+            `);
+            stmt.run(id, dim, buf, model);
+
+            // Stage 2: mirror into sqlite-vss when available so ANN queries stay in sync. The vss table has one
+            // dimension, so it only mirrors the vectors of the model being searched.
+            const vss = (this as any)._vss as (undefined | { ensureTable: (d:number)=>void; upsert: (id:number, vec: Float32Array)=>void; remove: (id:number)=>void; isAvailable: ()=>boolean });
+            if (vss && vss.isAvailable() && !mirror) {
+                try { vss.remove(id); } catch {}
+            } else if (vss && vss.isAvailable()) {
                 try {
                     vss.ensureTable(dim);
                     vss.upsert(id, vec);
-                    return;
                 } catch {}
             }
+        }
 
-            // Fallback: store in memory_vectors
-            const buf = Buffer.alloc(vec.byteLength);
-            for (let i = 0; i < vec.length; i++) buf.writeFloatLE(vec[i], i * 4);
-            const stmt = this.db.prepare(`
-                INSERT INTO memory_vectors (id, dim, vector)
-                VALUES (?, ?, ?)
-                ON CONFLICT(id) DO UPDATE SET dim=excluded.dim, vector=excluded.vector
-            `);
-            stmt.run(id, dim, buf);
+        /**
+         * Whether the sqlite-vss extension was loaded for this connection
+         */
+        isVssAvailable(): boolean {
+            const vss = (this as any)._vss as (undefined | { isAvailable: () => boolean });
+            return !!(vss && vss.isAvailable());
         }
 
         /**
-         * Fetch vectors for a list of ids
+         * Stream stored vectors as [id, vector] (used by brute-force backends); with `model`, only that model's.
          */
-        async getVectors(ids: number[]): Promise<Map<number, Float32Array>> {
+        *iterateVectors(model?: string): IterableIterator<[number, Float32Array]> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const rows = (model === undefined
+                ? this.db.prepare('SELECT id, vector FROM memory_vectors').iterate()
+                : this.db.prepare('SELECT id, vector FROM memory_vectors WHERE model = ?').iterate(model)) as IterableIterator<{ id: number; vector: Buffer }>;
+            for (const r of rows) yield [r.id, this.decodeVector(r.vector)];
+        }
+
+        vectorCount(model?: string): number {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const row = (model === undefined
+                ? this.db.prepare('SELECT COUNT(*) as cnt FROM memory_vectors').get()
+                : this.db.prepare('SELECT COUNT(*) as cnt FROM memory_vectors WHERE model = ?').get(model)) as any;
+            return row?.cnt || 0;
+        }
+
+        vectorDimensions(model?: string): number {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const row = (model === undefined
+                ? this.db.prepare('SELECT COALESCE(MAX(dim), 0) as dim FROM memory_vectors').get()
+                : this.db.prepare('SELECT COALESCE(MAX(dim), 0) as dim FROM memory_vectors WHERE model = ?').get(model)) as any;
+            return row?.dim || 0;
+        }
+
+        /**
+         * Stored vectors grouped by the model that produced them and their dimension (more than one dimension for
+         * a model means a corrupt or mislabelled corpus).
+         */
+        vectorModelStats(): Array<{ model: string | null; dim: number; count: number }> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            return this.db.prepare('SELECT model, dim, COUNT(*) as count FROM memory_vectors GROUP BY model, dim ORDER BY model, dim').all() as any[];
+        }
+
+        /**
+         * Ids (ascending, after `afterId`) of memories whose vector was not produced by `model` (or, given `dim`,
+         * has another dimension): the work list of `agm reembed`. Re-embedded rows drop out of it, so an
+         * interrupted run resumes where it stopped.
+         */
+        listVectorIdsNotFromModel(model: string, opts: { dim?: number; afterId?: number; limit?: number } = {}): number[] {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const rows = this.db.prepare('SELECT id FROM memory_vectors WHERE (model IS NOT ? OR (? > 0 AND dim != ?)) AND id > ? ORDER BY id LIMIT ?')
+                .all(model, opts.dim ?? 0, opts.dim ?? 0, opts.afterId ?? 0, opts.limit ?? -1) as Array<{ id: number }>;
+            return rows.map(r => r.id);
+        }
+
+        countVectorsNotFromModel(model: string, dim?: number): number {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const row = this.db.prepare('SELECT COUNT(*) as cnt FROM memory_vectors WHERE model IS NOT ? OR (? > 0 AND dim != ?)').get(model, dim ?? 0, dim ?? 0) as any;
+            return row?.cnt || 0;
+        }
+
+        private decodeVector(buf: Buffer): Float32Array {
+            // Copy buffer into a new Float32Array safely
+            const f32 = new Float32Array(buf.byteLength / 4);
+            for (let i = 0; i < f32.length; i++) {
+                f32[i] = buf.readFloatLE(i * 4);
+            }
+            return f32;
+        }
+
+        /**
+         * Remove the stored vector for a memory (fallback table and sqlite-vss). Returns true if a row existed.
+         */
+        async deleteVector(id: number): Promise<boolean> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureVectorTable();
+            const res = this.db.prepare('DELETE FROM memory_vectors WHERE id = ?').run(id);
+            this.removeVssVector(id);
+            return (res.changes || 0) > 0;
+        }
+
+        private removeVssVector(id: number): void {
+            const vss = (this as any)._vss as (undefined | { isAvailable: () => boolean; remove: (id: number) => void });
+            if (vss && vss.isAvailable()) {
+                try { vss.remove(id); } catch {}
+            }
+        }
+
+        /**
+         * Fetch vectors for a list of ids; with `model`, ids whose vector came from another model are left out.
+         */
+        async getVectors(ids: number[], model?: string): Promise<Map<number, Float32Array>> {
             if (!this.db) throw new Error('Database not initialized');
             this.ensureVectorTable();
             if (ids.length === 0) return new Map();
             const placeholders = ids.map(() => '?').join(',');
-            const stmt = this.db.prepare(`SELECT id, dim, vector FROM memory_vectors WHERE id IN (${placeholders})`);
-            const rows = stmt.all(...ids) as Array<{ id: number; dim: number; vector: Buffer }>;
+            const stmt = this.db.prepare(`SELECT id, dim, vector FROM memory_vectors WHERE id IN (${placeholders})${model === undefined ? '' : ' AND model = ?'}`);
+            const rows = stmt.all(...ids, ...(model === undefined ? [] : [model])) as Array<{ id: number; dim: number; vector: Buffer }>;
             const map = new Map<number, Float32Array>();
             for (const r of rows) {
-                const buf = r.vector as Buffer;
-                // Copy buffer into a new Float32Array safely
-                const f32 = new Float32Array(buf.byteLength / 4);
-                for (let i = 0; i < f32.length; i++) {
-                    f32[i] = buf.readFloatLE(i * 4);
-                }
-                map.set(r.id, f32);
+                map.set(r.id, this.decodeVector(r.vector));
             }
             return map;
         }
@@ -885,27 +1071,51 @@ export class MemoryDatabase {
         }
 
         /**
-         * Delete all code memories for a given relative file path (matches metadata.file)
+         * Ids of the code memories stored for a relative file path (exact match on metadata.file).
+         */
+        async listCodeIdsByFile(relUnix: string): Promise<number[]> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureCodeFileIndex();
+            const rows = this.db.prepare(`SELECT id FROM memories WHERE type = 'code' AND json_extract(metadata, '$.file') = ? ORDER BY id`).all(relUnix) as any[];
+            return rows.map(r => r.id);
+        }
+
+        /**
+         * Delete all code memories for a given relative file path (exact match on metadata.file), with their vectors
+         * and graph rows.
          */
         async deleteCodeByFile(relUnix: string): Promise<number> {
             if (!this.db) throw new Error('Database not initialized');
-            // metadata is stored as JSON text; use LIKE to match simple patterns
-            const like = `%"file":"${relUnix.replace(/[%_]/g, m => (m === '%' ? '\%' : '\_'))}%`;
-            const stmt = this.db.prepare(`DELETE FROM memories WHERE type = 'code' AND metadata LIKE ?`);
-            const res = stmt.run(like);
-            return res.changes || 0;
+            const ids = await this.listCodeIdsByFile(relUnix);
+            const del = this.db.prepare('DELETE FROM memories WHERE id = ?');
+            this.db.transaction(() => { for (const id of ids) del.run(id); })();
+            // memory_vectors and code graph rows cascade; the sqlite-vss table needs an explicit delete
+            for (const id of ids) this.removeVssVector(id);
+            return ids.length;
         }
 
         /**
-         * Update metadata.file from old path to new path for code memories (rename optimization)
+         * Expression index behind the per-file lookups (re-index, prune, watch). Created on first use; a database
+         * with non-JSON metadata rows can't build it and simply scans.
          */
-        async updateCodeFilePath(oldRelUnix: string, newRelUnix: string): Promise<number> {
+        private ensureCodeFileIndex(): void {
+            if (!this.db || this.codeFileIndexChecked) return;
+            this.codeFileIndexChecked = true;
+            try { this.db.exec(`CREATE INDEX IF NOT EXISTS idx_memories_code_file ON memories(json_extract(metadata, '$.file')) WHERE type = 'code'`); } catch {}
+        }
+
+        /**
+         * Move code memories from one file path to another (exact match on metadata.file) without re-embedding.
+         * `extraMeta` keys are set on the moved rows too (e.g. the commit a git rename was indexed at).
+         */
+        async updateCodeFilePath(oldRelUnix: string, newRelUnix: string, extraMeta: Record<string, string | number | boolean> = {}): Promise<number> {
             if (!this.db) throw new Error('Database not initialized');
-            const oldEsc = oldRelUnix.replace(/"/g, '\\"');
-            const newEsc = newRelUnix.replace(/"/g, '\\"');
-            const pattern = `%"file":"${oldEsc}%`;
-            const stmt = this.db.prepare(`UPDATE memories SET metadata = REPLACE(metadata, '"file":"${oldEsc}', '"file":"${newEsc}') WHERE type = 'code' AND metadata LIKE ?`);
-            const res = stmt.run(pattern);
+            this.ensureCodeFileIndex();
+            const keys = Object.keys(extraMeta);
+            for (const k of keys) if (!/^\w+$/.test(k)) throw new Error(`Invalid metadata key: ${k}`);
+            const sets = ["'$.file', ?", ...keys.map(k => `'$.${k}', json(?)`)].join(', ');
+            const res = this.db.prepare(`UPDATE memories SET metadata = json_set(metadata, ${sets}) WHERE type = 'code' AND json_extract(metadata, '$.file') = ?`)
+                .run(newRelUnix, ...keys.map(k => JSON.stringify(extraMeta[k])), oldRelUnix);
             return res.changes || 0;
         }
 
@@ -925,9 +1135,9 @@ export class MemoryDatabase {
         /**
          * Maintenance: list all file paths in file_digests.
          */
-        async listAllFileDigests(): Promise<Array<{ file: string; digest: string; updatedAt: string }>> {
+        async listAllFileDigests(): Promise<FileDigestRecord[]> {
             if (!this.db) throw new Error('Database not initialized');
-            const stmt = this.db.prepare('SELECT file, digest, updated_at as updatedAt FROM file_digests ORDER BY file ASC');
+            const stmt = this.db.prepare('SELECT file, digest, strategy, max_chunk as maxChunk, options, updated_at as updatedAt FROM file_digests ORDER BY file ASC');
             return stmt.all() as any[];
         }
 
@@ -977,12 +1187,177 @@ export class MemoryDatabase {
             this.db.exec('VACUUM');
         }
 
+        /**
+         * Cross-reference graph for code chunks: definitions (code_symbols), identifiers used (code_refs) and
+         * modules depended on (code_imports), keyed by memory id so deleting a chunk drops its edges.
+         */
+        private ensureCodeGraphTables(): void {
+            if (!this.db) throw new Error('Database not initialized');
+            this.db.exec(`
+                CREATE TABLE IF NOT EXISTS code_symbols (
+                    memory_id INTEGER NOT NULL,
+                    name TEXT NOT NULL,
+                    type TEXT,
+                    PRIMARY KEY (memory_id, name),
+                    FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+                );
+                CREATE INDEX IF NOT EXISTS idx_code_symbols_name ON code_symbols(name);
+                CREATE TABLE IF NOT EXISTS code_refs (
+                    memory_id INTEGER NOT NULL,
+                    name TEXT NOT NULL,
+                    kind TEXT NOT NULL,
+                    PRIMARY KEY (memory_id, name),
+                    FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+                );
+                CREATE INDEX IF NOT EXISTS idx_code_refs_name ON code_refs(name);
+                CREATE TABLE IF NOT EXISTS code_imports (
+                    memory_id INTEGER NOT NULL,
+                    module TEXT NOT NULL,
+                    PRIMARY KEY (memory_id, module),
+                    FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE
+                );
+                CREATE INDEX IF NOT EXISTS idx_code_imports_module ON code_imports(module);
+            `);
+        }
+
+        /**
+         * Replace the graph rows of one code chunk.
+         */
+        async storeCodeGraph(memoryId: number, graph: { symbol?: string; symbolType?: string; references?: Array<{ name: string; kind: 'call' | 'ref' }>; imports?: string[] }): Promise<void> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureCodeGraphTables();
+            const db = this.db;
+            db.transaction(() => {
+                for (const table of ['code_symbols', 'code_refs', 'code_imports']) db.prepare(`DELETE FROM ${table} WHERE memory_id = ?`).run(memoryId);
+                if (graph.symbol) db.prepare('INSERT INTO code_symbols(memory_id, name, type) VALUES (?, ?, ?)').run(memoryId, graph.symbol, graph.symbolType || null);
+                const ref = db.prepare('INSERT OR IGNORE INTO code_refs(memory_id, name, kind) VALUES (?, ?, ?)');
+                for (const r of graph.references || []) ref.run(memoryId, r.name, r.kind);
+                const imp = db.prepare('INSERT OR IGNORE INTO code_imports(memory_id, module) VALUES (?, ?)');
+                for (const m of graph.imports || []) imp.run(memoryId, m);
+            })();
+        }
+
+        /**
+         * Chunks defining any of the given symbol names.
+         */
+        async findSymbolDefinitions(names: string[], limit: number = 50): Promise<CodeGraphHit[]> {
+            if (!this.db) throw new Error('Database not initialized');
+            if (!names.length) return [];
+            this.ensureCodeGraphTables();
+            const rows = this.db.prepare(`
+                SELECT s.memory_id as id, s.name as name, s.type as type, m.metadata as metadata, m.content as content
+                FROM code_symbols s JOIN memories m ON m.id = s.memory_id
+                WHERE s.name IN (${names.map(() => '?').join(',')})
+                ORDER BY s.name, s.memory_id LIMIT ?
+            `).all(...names, limit) as any[];
+            return rows.map(r => this.toCodeGraphHit(r));
+        }
+
+        /**
+         * Chunks that reference `name` (kind 'call' restricts to call sites), with the referencing chunk's own symbol.
+         */
+        async findSymbolReferences(name: string, opts: { kind?: 'call' | 'ref'; limit?: number } = {}): Promise<Array<CodeGraphHit & { kind: string }>> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureCodeGraphTables();
+            const rows = this.db.prepare(`
+                SELECT r.memory_id as id, r.kind as kind, s.name as name, s.type as type, m.metadata as metadata, m.content as content
+                FROM code_refs r JOIN memories m ON m.id = r.memory_id
+                LEFT JOIN code_symbols s ON s.memory_id = r.memory_id
+                WHERE r.name = ? ${opts.kind ? 'AND r.kind = ?' : ''}
+                ORDER BY r.memory_id LIMIT ?
+            `).all(...[name, ...(opts.kind ? [opts.kind] : []), opts.limit ?? 100]) as any[];
+            return rows.map(r => ({ ...this.toCodeGraphHit(r), kind: r.kind }));
+        }
+
+        /** Identifiers referenced by one chunk, calls first. */
+        async getCodeReferences(memoryId: number): Promise<Array<{ name: string; kind: string }>> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureCodeGraphTables();
+            return this.db.prepare(`SELECT name, kind FROM code_refs WHERE memory_id = ? ORDER BY kind = 'call' DESC, name`).all(memoryId) as any[];
+        }
+
+        /** Distinct (file, module) import edges across all indexed chunks. */
+        async listCodeImports(): Promise<Array<{ file: string; module: string }>> {
+            if (!this.db) throw new Error('Database not initialized');
+            this.ensureCodeGraphTables();
+            return this.db.prepare(`
+                SELECT DISTINCT json_extract(m.metadata, '$.file') as file, i.module as module
+                FROM code_imports i JOIN memories m ON m.id = i.memory_id
+                WHERE json_extract(m.metadata, '$.file') IS NOT NULL
+                ORDER BY file, module
+            `).all() as any[];
+        }
+
+        /** Distinct files of all indexed code chunks. */
+        async listCodeFiles(): Promise<string[]> {
+            if (!this.db) throw new Error('Database not initialized');
+            const rows = this.db.prepare(`
+                SELECT DISTINCT json_extract(metadata, '$.file') as file FROM memories
+                WHERE type = 'code' AND json_valid(metadata) AND json_extract(metadata, '$.file') IS NOT NULL ORDER BY file
+            `).all() as any[];
+            return rows.map(r => r.file);
+        }
+
+        private toCodeGraphHit(row: any): CodeGraphHit {
+            let meta: any = {};
+            try { meta = JSON.parse(row.metadata || '{}'); } catch {}
+            return {
+                id: row.id,
+                symbol: row.name ?? meta.symbol ?? undefined,
+                symbolType: row.type ?? meta.symbolType ?? undefined,
+                parentSymbol: meta.parentSymbol,
+                file: meta.file,
+                lineStart: meta.lineStart,
+                lineEnd: meta.lineEnd,
+                content: row.content
+            };
+        }
+
+
 
 
 
     /**
      * Get memory by ID
      */
+    /**
+     * Load memories by id in the given order, shaped like search results (relevance 0).
+     * Used to materialize vector-only hits that FTS did not return.
+     */
+    async getMemoriesByIds(ids: number[], filter: { type?: string; context?: string; tags?: string[] } = {}): Promise<SearchResult[]> {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        if (ids.length === 0) return [];
+        const placeholders = ids.map(() => '?').join(',');
+        let sql = `SELECT id, content, type, context, tags, metadata, created_at as timestamp FROM memories WHERE id IN (${placeholders})`;
+        const params: any[] = [...ids];
+        if (filter.type) {
+            sql += ' AND type = ?';
+            params.push(filter.type);
+        }
+        if (filter.context) {
+            sql += ' AND context = ?';
+            params.push(filter.context);
+        }
+        for (const tag of filter.tags || []) {
+            sql += ' AND EXISTS (SELECT 1 FROM json_each(memories.tags) WHERE json_each.value = ?)';
+            params.push(tag);
+        }
+        const rows = this.db.prepare(sql).all(...params) as any[];
+        const byId = new Map<number, SearchResult>(rows.map(row => [row.id, {
+            id: row.id,
+            content: row.content,
+            relevance: 0,
+            timestamp: row.timestamp,
+            type: row.type,
+            context: row.context,
+            tags: JSON.parse(row.tags || '[]'),
+            ...(row.metadata ? { metadata: row.metadata } : {})
+        }]));
+        return ids.map(id => byId.get(id)).filter((r): r is SearchResult => !!r);
+    }
+
     async getMemoryById(id: number): Promise<DatabaseMemory | null> {
         if (!this.db) {
             throw new Error('Database not initialized');
@@ -1016,6 +1391,44 @@ export class MemoryDatabase {
         }
     }
 
+    /**
+     * Find an existing memory with identical content (content_hash match, verified by full text).
+     * Used by .agmctx import to map incoming chunks onto rows that already exist locally.
+     */
+    async findMemoryIdByContent(content: string): Promise<number | null> {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        const rows = this.db.prepare('SELECT id, content FROM memories WHERE content_hash = ?').all(this.createHash(content)) as Array<{ id: number; content: string }>;
+        const hit = rows.find(r => r.content === content);
+        return hit ? hit.id : null;
+    }
+
+    /**
+     * Update content/tags/type of an existing memory. Content edits refresh content_hash (FTS follows via trigger).
+     * Throws if the new content duplicates another memory.
+     */
+    async updateMemory(id: number, changes: { content?: string; tags?: string[]; type?: string }): Promise<boolean> {
+        if (!this.db) {
+            throw new Error('Database not initialized');
+        }
+        const sets: string[] = [];
+        const params: any[] = [];
+        if (changes.content !== undefined) {
+            const hash = this.createHash(changes.content);
+            const clash = this.db.prepare('SELECT id FROM memories WHERE content_hash = ? AND id != ?').get(hash, id) as { id: number } | undefined;
+            if (clash) throw new Error(`Another memory already has this content (ID ${clash.id})`);
+            sets.push('content = ?', 'content_hash = ?');
+            params.push(changes.content, hash);
+        }
+        if (changes.tags !== undefined) { sets.push('tags = ?'); params.push(JSON.stringify(changes.tags)); }
+        if (changes.type !== undefined) { sets.push('type = ?'); params.push(changes.type); }
+        if (!sets.length) return false;
+        sets.push('updated_at = CURRENT_TIMESTAMP');
+        const result = this.db.prepare(`UPDATE memories SET ${sets.join(', ')} WHERE id = ?`).run(...params, id);
+        return result.changes > 0;
+    }
+
     /**
      * Delete memory by ID
      */
@@ -1027,6 +1440,8 @@ export class MemoryDatabase {
         try {
             const stmt = this.db.prepare('DELETE FROM memories WHERE id = ?');
             const result = stmt.run(id);
+            // memory_vectors rows cascade via FK; the sqlite-vss table needs an explicit delete
+            if (result.changes > 0) this.removeVssVector(id);
             return result.changes > 0;
 
         } catch (err) {
@@ -1216,13 +1631,17 @@ export class MemoryDatabase {
     /**
      * List memories with optional type filter. Returns raw DB rows for export tooling.
      */
-    async listMemories(filter?: { type?: string }): Promise<Array<{
+    async listMemories(filter?: { type?: string; context?: string; before?: string }): Promise<Array<{
         id: number; content: string; type: string; context: string; tags: string; metadata: string; createdAt: string; updatedAt: string;
     }>> {
         if (!this.db) throw new Error('Database not initialized');
         const params: any[] = [];
         let sql = `SELECT id, content, type, context, tags, metadata, created_at as createdAt, updated_at as updatedAt FROM memories`;
-        if (filter?.type) { sql += ' WHERE type = ?'; params.push(filter.type); }
+        const where: string[] = [];
+        if (filter?.type) { where.push('type = ?'); params.push(filter.type); }
+        if (filter?.context) { where.push('context = ?'); params.push(filter.context); }
+        if (filter?.before) { where.push('datetime(created_at) < datetime(?)'); params.push(filter.before); }
+        if (where.length) sql += ' WHERE ' + where.join(' AND ');
         sql += ' ORDER BY id';
         const stmt = this.db.prepare(sql);
         const rows = stmt.all(...params) as any[];
@@ -1241,16 +1660,17 @@ export class MemoryDatabase {
     /**
      * Persistent digest cache helpers for incremental code indexing
      */
-    async getFileDigest(fileRelUnix: string): Promise<string | null> {
+    async getFileDigest(fileRelUnix: string): Promise<FileDigestRecord | null> {
         if (!this.db) throw new Error('Database not initialized');
-        const row = this.db.prepare('SELECT digest FROM file_digests WHERE file = ?').get(fileRelUnix) as any;
-        return row?.digest || null;
+        const row = this.db.prepare('SELECT file, digest, strategy, max_chunk as maxChunk, options, updated_at as updatedAt FROM file_digests WHERE file = ?').get(fileRelUnix) as any;
+        return row || null;
     }
 
-    async setFileDigest(fileRelUnix: string, digest: string): Promise<void> {
+    async setFileDigest(fileRelUnix: string, digest: string, chunking: Chunking): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
-        this.db.prepare(`INSERT INTO file_digests(file, digest, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
-                         ON CONFLICT(file) DO UPDATE SET digest=excluded.digest, updated_at=CURRENT_TIMESTAMP`).run(fileRelUnix, digest);
+        this.db.prepare(`INSERT INTO file_digests(file, digest, strategy, max_chunk, options, updated_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+                         ON CONFLICT(file) DO UPDATE SET digest=excluded.digest, strategy=excluded.strategy, max_chunk=excluded.max_chunk, options=excluded.options, updated_at=CURRENT_TIMESTAMP`)
+            .run(fileRelUnix, digest, chunking.strategy, chunking.maxChunk, chunking.options ?? null);
     }
 
     async deleteFileDigest(fileRelUnix: string): Promise<void> {
@@ -1266,19 +1686,19 @@ export class MemoryDatabase {
 
     async moveFileDigest(oldRelUnix: string, newRelUnix: string): Promise<void> {
         if (!this.db) throw new Error('Database not initialized');
-        const row = this.db.prepare('SELECT digest FROM file_digests WHERE file = ?').get(oldRelUnix) as any;
+        const row = this.db.prepare('SELECT digest, strategy, max_chunk, options FROM file_digests WHERE file = ?').get(oldRelUnix) as any;
         if (row?.digest) {
-            this.db.prepare(`INSERT INTO file_digests(file, digest, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
-                             ON CONFLICT(file) DO UPDATE SET digest=excluded.digest, updated_at=CURRENT_TIMESTAMP`).run(newRelUnix, row.digest);
+            this.db.prepare(`INSERT INTO file_digests(file, digest, strategy, max_chunk, options, updated_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+                             ON CONFLICT(file) DO UPDATE SET digest=excluded.digest, strategy=excluded.strategy, max_chunk=excluded.max_chunk, options=excluded.options, updated_at=CURRENT_TIMESTAMP`)
+                .run(newRelUnix, row.digest, row.strategy, row.max_chunk, row.options);
         }
         this.db.prepare('DELETE FROM file_digests WHERE file = ?').run(oldRelUnix);
     }
 
-    async listFileDigests(limit: number = 50): Promise<Array<{ file: string; digest: string; updatedAt: string }>> {
+    async listFileDigests(limit: number = 50): Promise<FileDigestRecord[]> {
         if (!this.db) throw new Error('Database not initialized');
-        const stmt = this.db.prepare('SELECT file, digest, updated_at as updatedAt FROM file_digests ORDER BY updated_at DESC LIMIT ?');
-        const rows = stmt.all(limit) as any[];
-        return rows.map(r => ({ file: r.file, digest: r.digest, updatedAt: r.updatedAt }));
+        const stmt = this.db.prepare('SELECT file, digest, strategy, max_chunk as maxChunk, options, updated_at as updatedAt FROM file_digests ORDER BY updated_at DESC, file ASC LIMIT ?');
+        return stmt.all(limit) as any[];
     }
 
     /**
@@ -1398,17 +1818,32 @@ export class MemoryDatabase {
 
     private ensureVectorTable(): void {
         if (!this.db) throw new Error('Database not initialized');
-        const exists = this.db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name=?").get('memory_vectors');
-        if (!exists) {
-            this.db.exec(`
-                CREATE TABLE IF NOT EXISTS memory_vectors (
-                    id INTEGER PRIMARY KEY,
-                    dim INTEGER NOT NULL,
-                    vector BLOB NOT NULL,
-                    FOREIGN KEY (id) REFERENCES memories(id) ON DELETE CASCADE
-                );
-            `);
+        if (this.vectorTableChecked) return;
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS memory_vectors (
+                id INTEGER PRIMARY KEY,
+                dim INTEGER NOT NULL,
+                vector BLOB NOT NULL,
+                model TEXT,
+                FOREIGN KEY (id) REFERENCES memories(id) ON DELETE CASCADE
+            );
+        `);
+        this.migrateMemoryVectors();
+        this.vectorTableChecked = true;
+    }
+
+    /**
+     * memory_vectors gained a model column. Existing rows were embedded by the model the project was configured
+     * with (AGM_EMBED_MODEL or the default), which is what activeModelId resolves to before a registry exists.
+     */
+    private migrateMemoryVectors(): void {
+        if (!this.db) return;
+        const cols = (this.db.prepare('PRAGMA table_info(memory_vectors)').all() as Array<{ name: string }>).map(c => c.name);
+        if (!cols.includes('model')) {
+            this.db.exec('ALTER TABLE memory_vectors ADD COLUMN model TEXT');
+            this.db.prepare('UPDATE memory_vectors SET model = ? WHERE model IS NULL').run(activeModelId(process.cwd()));
         }
+        this.db.exec('CREATE INDEX IF NOT EXISTS idx_memory_vectors_model ON memory_vectors(model)');
     }
 
 
@@ -0,0 +1,82 @@
+/**
+ * Rank fusion helpers for hybrid retrieval (CLI search-code / recall).
+ */
+
+/** Standard RRF damping constant (Cormack et al.); larger values flatten the contribution of top ranks. */
+export const RRF_K = 60;
+
+export interface RankedList {
+  /** Ids in rank order (best first). */
+  ids: number[];
+  /** Optional per-list weight (default 1). */
+  weight?: number;
+}
+
+/**
+ * Reciprocal Rank Fusion: score(id) = Σ weight / (k + rank), rank 1-based per list.
+ * Items missing from a list simply get no contribution from it, so a chunk found only by the
+ * vector index (no keyword overlap) still competes with keyword hits.
+ * Returns ids sorted by fused score; ties keep first-seen order.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = RRF_K): Array<{ id: number; score: number; ranks: Array<number | null> }> {
+  const fused = new Map<number, { id: number; score: number; ranks: Array<number | null>; order: number }>();
+  let order = 0;
+  lists.forEach((list, li) => {
+    const weight = list.weight ?? 1;
+    list.ids.forEach((id, idx) => {
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = { id, score: 0, ranks: lists.map(() => null), order: order++ };
+        fused.set(id, entry);
+      }
+      if (entry.ranks[li] !== null) return; // duplicate within one list: keep its best rank
+      entry.ranks[li] = idx + 1;
+      entry.score += weight / (k + idx + 1);
+    });
+  });
+  return Array.from(fused.values())
+    .sort((a, b) => (b.score - a.score) || (a.order - b.order))
+    .map(({ id, score, ranks }) => ({ id, score, ranks }));
+}
+
+export type FusionMode = 'weighted' | 'rrf' | 'max';
+export const FUSION_MODES: FusionMode[] = ['weighted', 'rrf', 'max'];
+
+export interface FusionCandidate {
+  id: number;
+  /** Keyword (BM25-derived, 0..1) relevance; undefined when the candidate was not an FTS hit. */
+  bm25?: number;
+  /** Vector similarity; undefined when the candidate has no vector score. */
+  cosine?: number;
+}
+
+/**
+ * Fuse keyword and vector evidence per candidate. Candidates are expected in FTS order (vector-only hits last).
+ * - weighted: bm25Weight * bm25 + cosineWeight * max(0, cosine)
+ * - max: the larger of the two weighted scores (whichever signal is strongest wins)
+ * - rrf: weighted Reciprocal Rank Fusion over the FTS order and the cosine order
+ * Missing scores count as 0 (weighted/max) or as absence from that list (rrf).
+ */
+export function fuseCandidates(
+  candidates: FusionCandidate[],
+  opts: { fusion: FusionMode; bm25Weight: number; cosineWeight: number; rrfK?: number }
+): Map<number, number> {
+  const out = new Map<number, number>();
+  if (opts.fusion === 'rrf') {
+    const ftsIds = candidates.filter(c => c.bm25 !== undefined).map(c => c.id);
+    const vecIds = candidates.filter(c => c.cosine !== undefined)
+      .map((c, order) => ({ id: c.id, cos: c.cosine as number, order }))
+      .sort((a, b) => (b.cos - a.cos) || (a.order - b.order))
+      .map(c => c.id);
+    const fused = reciprocalRankFusion([{ ids: ftsIds, weight: opts.bm25Weight }, { ids: vecIds, weight: opts.cosineWeight }], opts.rrfK ?? RRF_K);
+    for (const c of candidates) out.set(c.id, 0);
+    for (const f of fused) out.set(f.id, f.score);
+    return out;
+  }
+  for (const c of candidates) {
+    const kw = opts.bm25Weight * (c.bm25 ?? 0);
+    const vec = opts.cosineWeight * Math.max(0, c.cosine ?? 0);
+    out.set(c.id, opts.fusion === 'max' ? Math.max(kw, vec) : kw + vec);
+  }
+  return out;
+}
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as minimatch from 'minimatch';
+import { FUSION_MODES, FusionMode } from './RankFusion';
+
+/**
+ * Named ranking profiles for hybrid retrieval (search-code --hybrid / --vector-first).
+ *
+ * A profile fixes how keyword and vector evidence are fused plus a few multiplicative boosts, so a team can
+ * pin its trade-off in `.antigoldfishmode/ranking-profiles.json` and get the same ordering on every machine.
+ * Resolution order: built-in `default` < named profile (project file over built-in) < per-command flags.
+ */
+
+export interface RankingParams {
+  /** Fusion strategy; unset means the retrieval mode's default (weighted for rerank, rrf for vector-first). */
+  fusion?: FusionMode;
+  bm25Weight: number;
+  cosineWeight: number;
+  /** Multiplier for symbol chunks when no --filter-symbol is given (1 = off). */
+  symbolBoost: number;
+  /** Extra multiplier for freshly indexed chunks: 1 + recencyWeight * 0.5^(ageDays / halfLife) (0 = off). */
+  recencyWeight: number;
+  recencyHalfLifeDays: number;
+  /** Glob → multiplier applied to chunks whose metadata.file matches (all matching globs compound). */
+  pathBoosts: Record<string, number>;
+}
+
+export interface RankingProfilesFile {
+  /** Profile used when --profile is not given. */
+  defaultProfile?: string;
+  profiles: Record<string, Partial<RankingParams>>;
+}
+
+const BASE: RankingParams = {
+  bm25Weight: 0.5,
+  cosineWeight: 0.5,
+  symbolBoost: 1.05,
+  recencyWeight: 0,
+  recencyHalfLifeDays: 30,
+  pathBoosts: {},
+};
+
+export const BUILTIN_PROFILES: Record<string, Partial<RankingParams>> = {
+  // Historic behaviour: equal weights with a gentle symbol bias
+  default: {},
+  // Exact names and identifiers: trust keyword matches, favour symbol chunks
+  identifier: { bm25Weight: 0.8, cosineWeight: 0.2, symbolBoost: 1.1 },
+  // Natural-language questions: trust meaning over token overlap
+  conceptual: { bm25Weight: 0.3, cosineWeight: 0.7, symbolBoost: 1 },
+};
+
+export function rankingProfilesPath(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'ranking-profiles.json');
+}
+
+export function loadRankingProfiles(projectRoot: string): RankingProfilesFile {
+  const file = rankingProfilesPath(projectRoot);
+  if (!fs.existsSync(file)) return { profiles: {} };
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`Invalid ranking profiles file ${file}: ${(e as Error).message}`);
+  }
+  const profiles: Record<string, Partial<RankingParams>> = raw && typeof raw.profiles === 'object' && raw.profiles ? raw.profiles : {};
+  for (const [name, p] of Object.entries(profiles)) validateRankingParams(p, `profile '${name}'`);
+  return { defaultProfile: typeof raw?.defaultProfile === 'string' ? raw.defaultProfile : undefined, profiles };
+}
+
+export function saveRankingProfiles(projectRoot: string, data: RankingProfilesFile): void {
+  const file = rankingProfilesPath(projectRoot);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Throws on values that would make rankings meaningless (negative weights, unknown fusion, ...).
+ */
+export function validateRankingParams(p: Partial<RankingParams>, where: string = 'ranking'): void {
+  const nonNegative = (key: keyof RankingParams) => {
+    const v = p[key];
+    if (v !== undefined && (typeof v !== 'number' || !Number.isFinite(v) || v < 0)) {
+      throw new Error(`Invalid ${where} ${key}: ${v} (expected a number >= 0)`);
+    }
+  };
+  if (p.fusion !== undefined && !FUSION_MODES.includes(p.fusion)) {
+    throw new Error(`Invalid ${where} fusion: ${p.fusion} (expected ${FUSION_MODES.join('|')})`);
+  }
+  nonNegative('bm25Weight');
+  nonNegative('cosineWeight');
+  nonNegative('symbolBoost');
+  nonNegative('recencyWeight');
+  if (p.recencyHalfLifeDays !== undefined && !(typeof p.recencyHalfLifeDays === 'number' && p.recencyHalfLifeDays > 0)) {
+    throw new Error(`Invalid ${where} recencyHalfLifeDays: ${p.recencyHalfLifeDays} (expected a number > 0)`);
+  }
+  for (const [glob, factor] of Object.entries(p.pathBoosts || {})) {
+    if (typeof factor !== 'number' || !Number.isFinite(factor) || factor <= 0) {
+      throw new Error(`Invalid ${where} path boost ${glob}=${factor} (expected a factor > 0)`);
+    }
+  }
+}
+
+/**
+ * Parse `--path-boost` entries of the form `<glob>=<factor>`.
+ */
+export function parsePathBoosts(entries: string[] | undefined): Record<string, number> | undefined {
+  if (!entries || !entries.length) return undefined;
+  const out: Record<string, number> = {};
+  for (const entry of entries) {
+    const at = entry.lastIndexOf('=');
+    if (at <= 0) throw new Error(`Invalid path boost: ${entry} (expected <glob>=<factor>)`);
+    out[entry.slice(0, at)] = Number(entry.slice(at + 1));
+  }
+  return out;
+}
+
+/**
+ * Effective parameters for a command: the chosen profile merged over the base, then explicit overrides.
+ */
+export function resolveRankingParams(
+  projectRoot: string,
+  opts: { profile?: string; overrides?: Partial<RankingParams> } = {}
+): { profile: string; source: 'flag' | 'project' | 'default'; params: RankingParams } {
+  const file = loadRankingProfiles(projectRoot);
+  const profile = opts.profile || file.defaultProfile || 'default';
+  const source = opts.profile ? 'flag' : (file.defaultProfile ? 'project' : 'default');
+  const named = file.profiles[profile] ?? BUILTIN_PROFILES[profile];
+  if (!named) {
+    const known = Array.from(new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(file.profiles)]));
+    throw new Error(`Unknown ranking profile: ${profile} (known: ${known.join(', ')})`);
+  }
+  const overrides = Object.fromEntries(Object.entries(opts.overrides || {}).filter(([, v]) => v !== undefined)) as Partial<RankingParams>;
+  validateRankingParams(overrides);
+  // A project profile that shadows a built-in name extends it rather than starting from the base
+  const builtin = file.profiles[profile] ? BUILTIN_PROFILES[profile] || {} : {};
+  const params: RankingParams = {
+    ...BASE, ...builtin, ...named, ...overrides,
+    pathBoosts: { ...BASE.pathBoosts, ...(builtin.pathBoosts || {}), ...(named.pathBoosts || {}), ...(overrides.pathBoosts || {}) },
+  };
+  return { profile, source, params };
+}
+
+/** All profiles visible in this project (built-ins, then project profiles which may shadow them). */
+export function listRankingProfiles(projectRoot: string): Array<{ name: string; origin: 'builtin' | 'project' | 'builtin+project'; isDefault: boolean; params: RankingParams }> {
+  const file = loadRankingProfiles(projectRoot);
+  const names = Array.from(new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(file.profiles)]));
+  const defaultName = file.defaultProfile || 'default';
+  return names.map(name => ({
+    name,
+    origin: BUILTIN_PROFILES[name] && file.profiles[name] ? 'builtin+project' : (file.profiles[name] ? 'project' : 'builtin'),
+    isDefault: name === defaultName,
+    params: resolveRankingParams(projectRoot, { profile: name }).params,
+  }));
+}
+
+/**
+ * Multiplicative boost for one candidate: symbol bias, recency of indexing, and path globs.
+ */
+export function rankingBoost(
+  params: RankingParams,
+  c: { metadata?: string; timestamp?: string | Date },
+  opts: { symbolBias?: boolean; now?: number } = {}
+): number {
+  let factor = 1;
+  let meta: any = {};
+  try { meta = JSON.parse(c.metadata || '{}'); } catch {}
+  if (opts.symbolBias && params.symbolBoost !== 1) {
+    const tags: string[] = Array.isArray(meta.tags) ? meta.tags.map((t: string) => String(t).toLowerCase()) : [];
+    if (tags.includes('symbol') || meta.symbolType) factor *= params.symbolBoost;
+  }
+  if (params.recencyWeight > 0 && c.timestamp) {
+    const at = parseTimestamp(c.timestamp);
+    if (!isNaN(at)) {
+      const ageDays = Math.max(0, ((opts.now ?? Date.now()) - at) / 86_400_000);
+      factor *= 1 + params.recencyWeight * Math.pow(0.5, ageDays / params.recencyHalfLifeDays);
+    }
+  }
+  const globs = Object.entries(params.pathBoosts);
+  if (globs.length && meta.file) {
+    const file = String(meta.file).replace(/\\/g, '/');
+    for (const [glob, boost] of globs) {
+      if (minimatch.minimatch(file, glob, { dot: true })) factor *= boost;
+    }
+  }
+  return factor;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+function parseTimestamp(ts: string | Date): number {
+  if (ts instanceof Date) return ts.getTime();
+  const s = String(ts);
+  return Date.parse(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(s) ? s.replace(' ', 'T') + 'Z' : s);
+}
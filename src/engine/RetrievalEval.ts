@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as minimatch from 'minimatch';
+
+/**
+ * Retrieval quality evaluation (agm eval): labelled queries, rank metrics and run-to-run diffs.
+ *
+ * Queries file (JSONL), one object per line:
+ *   { "id"?: "q1", "query": "...", "file"?: "src/x.ts", "symbol"?: "name", "expected"?: ["src/y.ts", "src/z.ts#fn", { "file": "...", "symbol": "..." }] }
+ * A result is relevant when its metadata.file matches a target (exact, path suffix, or glob) and, if the target names
+ * a symbol, its symbol name matches too. Each target counts once, so several chunks of one file don't inflate scores.
+ */
+
+/** fts = keyword only, hybrid = search-code --hybrid, vector = search-code --vector-first */
+export const EVAL_MODES = ['fts', 'hybrid', 'vector'];
+
+export interface EvalTarget { file?: string; symbol?: string }
+export interface EvalQuery { id: string; query: string; expected: EvalTarget[] }
+
+export interface QueryScore {
+  /** 1-based rank of the first relevant result within the top k (null when none). */
+  firstRank: number | null;
+  /** Fraction of expected targets found in the top k. */
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+export interface ModeMetrics {
+  queries: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface EvalRun {
+  runId: string;
+  createdAt: string;
+  queriesFile: string;
+  queriesDigest: string;
+  k: number;
+  modes: string[];
+  params: Record<string, any>;
+  metrics: Record<string, ModeMetrics & { skipped?: string; embedded?: boolean }>;
+  queries: Array<{ id: string; query: string; modes: Record<string, QueryScore & { resultDigest: string; top: string[] }> }>;
+}
+
+export interface EvalDiff {
+  previousRunId: string;
+  sameQueries: boolean;
+  metrics: Record<string, { recallAtK: number; mrr: number; ndcg: number }>;
+  improved: Array<{ id: string; mode: string; from: number | null; to: number | null }>;
+  regressed: Array<{ id: string; mode: string; from: number | null; to: number | null }>;
+  /** Queries whose result list changed (resultDigest differs) even if the first relevant rank did not. */
+  changedResults: number;
+}
+
+function parseTarget(t: any, where: string): EvalTarget {
+  if (typeof t === 'string') {
+    const hash = t.lastIndexOf('#');
+    return hash > 0 ? { file: t.slice(0, hash), symbol: t.slice(hash + 1) } : { file: t };
+  }
+  if (t && typeof t === 'object' && (typeof t.file === 'string' || typeof t.symbol === 'string')) {
+    return { ...(t.file ? { file: String(t.file) } : {}), ...(t.symbol ? { symbol: String(t.symbol) } : {}) };
+  }
+  throw new Error(`${where}: expected target must be "file", "file#symbol" or { file, symbol }`);
+}
+
+export function parseEvalQueries(text: string, source: string = 'queries'): EvalQuery[] {
+  const out: EvalQuery[] = [];
+  const seen = new Set<string>();
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim() || line.trim().startsWith('//')) return;
+    const where = `${source}:${idx + 1}`;
+    let row: any;
+    try { row = JSON.parse(line); } catch (e) { throw new Error(`${where}: invalid JSON (${(e as Error).message})`); }
+    if (!row || typeof row.query !== 'string' || !row.query.trim()) throw new Error(`${where}: missing "query"`);
+    const expected: EvalTarget[] = [];
+    if (row.file || row.symbol) expected.push(parseTarget({ file: row.file, symbol: row.symbol }, where));
+    for (const t of Array.isArray(row.expected) ? row.expected : (row.expected !== undefined ? [row.expected] : [])) expected.push(parseTarget(t, where));
+    if (!expected.length) throw new Error(`${where}: no expected file/symbol`);
+    const id = row.id !== undefined ? String(row.id) : `q${idx + 1}`;
+    if (seen.has(id)) throw new Error(`${where}: duplicate id ${id}`);
+    seen.add(id);
+    out.push({ id, query: row.query, expected });
+  });
+  if (!out.length) throw new Error(`${source}: no queries`);
+  return out;
+}
+
+/** Does a result's metadata satisfy the target? */
+export function matchesTarget(meta: any, target: EvalTarget): boolean {
+  if (target.file) {
+    const file = String(meta?.file || '').replace(/\\/g, '/');
+    if (!file) return false;
+    const want = target.file.replace(/\\/g, '/').replace(/^\.\//, '');
+    const ok = /[*?[]/.test(want) ? minimatch.minimatch(file, want, { dot: true }) : (file === want || file.endsWith('/' + want));
+    if (!ok) return false;
+  }
+  if (target.symbol) {
+    const name = String(meta?.symbol || meta?.symbolName || '');
+    const sym = meta?.parentSymbol && name ? `${meta.parentSymbol}.${name}` : name;
+    if (sym !== target.symbol && !sym.endsWith('.' + target.symbol)) return false;
+  }
+  return true;
+}
+
+/**
+ * Score one ranked result list (metadata objects, best first) against its targets at cutoff k.
+ * nDCG uses binary gains: a position gains 1 when it satisfies a target not matched higher up.
+ */
+export function scoreQuery(metas: any[], expected: EvalTarget[], k: number): QueryScore {
+  const found = new Set<number>();
+  let firstRank: number | null = null;
+  let dcg = 0;
+  metas.slice(0, k).forEach((meta, i) => {
+    const hit = expected.findIndex((t, ti) => !found.has(ti) && matchesTarget(meta, t));
+    if (hit < 0) return;
+    found.add(hit);
+    if (firstRank === null) firstRank = i + 1;
+    dcg += 1 / Math.log2(i + 2);
+  });
+  let idcg = 0;
+  for (let i = 0; i < Math.min(expected.length, k); i++) idcg += 1 / Math.log2(i + 2);
+  return {
+    firstRank,
+    recall: found.size / expected.length,
+    reciprocalRank: firstRank ? 1 / firstRank : 0,
+    ndcg: idcg ? dcg / idcg : 0,
+  };
+}
+
+export function aggregateScores(scores: QueryScore[]): ModeMetrics {
+  const n = scores.length;
+  const mean = (f: (s: QueryScore) => number) => n ? round(scores.reduce((a, s) => a + f(s), 0) / n) : 0;
+  return { queries: n, recallAtK: mean(s => s.recall), mrr: mean(s => s.reciprocalRank), ndcg: mean(s => s.ndcg) };
+}
+
+function round(x: number): number {
+  return Math.round(x * 1e4) / 1e4;
+}
+
+export function evalRunsDir(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'eval');
+}
+
+/** Most recent stored run (runs are named by sortable run id). */
+export function loadLatestEvalRun(projectRoot: string): EvalRun | null {
+  const dir = evalRunsDir(projectRoot);
+  if (!fs.existsSync(dir)) return null;
+  const files = fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort();
+  for (let i = files.length - 1; i >= 0; i--) {
+    try { return JSON.parse(fs.readFileSync(path.join(dir, files[i]), 'utf8')); } catch { /* skip unreadable run */ }
+  }
+  return null;
+}
+
+export function saveEvalRun(projectRoot: string, run: EvalRun): string {
+  const dir = evalRunsDir(projectRoot);
+  fs.mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${run.runId}.json`);
+  fs.writeFileSync(file, JSON.stringify(run, null, 2));
+  return file;
+}
+
+/**
+ * Compare a run with the previous one: metric deltas per mode present in both, and per-query rank changes.
+ */
+export function diffEvalRuns(prev: EvalRun, cur: EvalRun): EvalDiff {
+  const metrics: EvalDiff['metrics'] = {};
+  for (const mode of cur.modes) {
+    const a = prev.metrics[mode], b = cur.metrics[mode];
+    if (!a || !b || a.skipped || b.skipped) continue;
+    metrics[mode] = { recallAtK: round(b.recallAtK - a.recallAtK), mrr: round(b.mrr - a.mrr), ndcg: round(b.ndcg - a.ndcg) };
+  }
+  const prevById = new Map(prev.queries.map(q => [q.id, q]));
+  const improved: EvalDiff['improved'] = [];
+  const regressed: EvalDiff['regressed'] = [];
+  let changedResults = 0;
+  const rankValue = (r: number | null) => r ?? Number.POSITIVE_INFINITY;
+  for (const q of cur.queries) {
+    const before = prevById.get(q.id);
+    if (!before || before.query !== q.query) continue;
+    for (const [mode, score] of Object.entries(q.modes)) {
+      const old = before.modes[mode];
+      if (!old) continue;
+      if (old.resultDigest !== score.resultDigest) changedResults++;
+      if (rankValue(score.firstRank) < rankValue(old.firstRank)) improved.push({ id: q.id, mode, from: old.firstRank, to: score.firstRank });
+      else if (rankValue(score.firstRank) > rankValue(old.firstRank)) regressed.push({ id: q.id, mode, from: old.firstRank, to: score.firstRank });
+    }
+  }
+  return { previousRunId: prev.runId, sameQueries: prev.queriesDigest === cur.queriesDigest, metrics, improved, regressed, changedResults };
+}
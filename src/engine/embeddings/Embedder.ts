@@ -0,0 +1,38 @@
+import { EmbeddingProvider, type EmbeddingInfo } from './EmbeddingProvider';
+import { LocalHashEmbedder } from './LocalHashEmbedder';
+
+/**
+ * Text → vector for indexing and hybrid search. `transformers` runs the active transformers.js model from the local
+ * model cache; `local-hash` is the built-in deterministic embedder (no model files, lower quality). `auto` uses
+ * transformers when the active model is cached and local-hash otherwise.
+ *
+ * Each embedder stores vectors under its own model id, so switching never mixes their vectors in one comparison.
+ */
+
+export const EMBEDDER_MODES = ['transformers', 'local-hash', 'auto'] as const;
+export type EmbedderMode = typeof EMBEDDER_MODES[number];
+export type EmbedderName = Exclude<EmbedderMode, 'auto'>;
+
+export interface Embedder {
+  readonly name: EmbedderName;
+  getModelId(): string;
+  /** True when init() can run without fetching anything (model files present, or nothing needed). */
+  isModelCached(): boolean;
+  init(): Promise<void>;
+  embed(text: string): Promise<Float32Array>;
+  embedBatch(texts: string[], batchSize?: number): Promise<Float32Array[]>;
+  getInfo(): EmbeddingInfo;
+  /** Null when the embedder has no tokenizer (no token-aware chunk limits). */
+  countTokens(text: string): number | null;
+  maxInputTokens(): number | null;
+}
+
+export function createEmbedder(projectRoot: string, mode: string = 'transformers'): Embedder {
+  const m = String(mode).toLowerCase();
+  if (!(EMBEDDER_MODES as readonly string[]).includes(m)) {
+    throw new Error(`Invalid embedder: ${mode} (expected ${EMBEDDER_MODES.join('|')})`);
+  }
+  if (m === 'local-hash') return new LocalHashEmbedder();
+  const provider = EmbeddingProvider.create(projectRoot);
+  return m === 'auto' && !provider.isModelCached() ? new LocalHashEmbedder() : provider;
+}
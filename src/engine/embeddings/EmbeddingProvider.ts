@@ -1,44 +1,83 @@
-import * as path from 'path';
+import type { Embedder } from './Embedder';
+import { activeModelId, isModelCached, modelCacheDir, recordModelDimensions } from './ModelRegistry';
 
 export interface EmbeddingInfo {
   modelId: string;
   dimensions: number;
 }
 
-export class EmbeddingProvider {
-  private static instance: EmbeddingProvider | null = null;
+/** The `transformers` embedder: a transformers.js feature-extraction model from the local model cache. */
+export class EmbeddingProvider implements Embedder {
+  readonly name = 'transformers' as const;
+  private static instances = new Map<string, EmbeddingProvider>();
   private extractor: any | null = null;
   private info: EmbeddingInfo | null = null;
   private cacheDir: string;
-  private modelId: string;
 
-  private constructor(projectRoot: string, modelId?: string) {
-    this.cacheDir = path.join(projectRoot, '.antigoldfishmode', 'models');
-    this.modelId = modelId || process.env.AGM_EMBED_MODEL || 'Xenova/e5-small-v2';
+  private constructor(private projectRoot: string, private modelId: string) {
+    this.cacheDir = modelCacheDir(projectRoot);
   }
 
+  /**
+   * Provider for `modelId`, or for the project's active model (ModelRegistry.activeModelId). One instance per model.
+   */
   static create(projectRoot: string, modelId?: string): EmbeddingProvider {
-    if (!this.instance) this.instance = new EmbeddingProvider(projectRoot, modelId);
-    return this.instance;
+    const id = modelId || activeModelId(projectRoot);
+    let provider = this.instances.get(id);
+    if (!provider) {
+      provider = new EmbeddingProvider(projectRoot, id);
+      this.instances.set(id, provider);
+    }
+    return provider;
+  }
+
+  getModelId(): string {
+    return this.modelId;
   }
 
   async init(): Promise<void> {
     if (this.extractor) return;
+    let extractor: any;
     try {
       // Set offline cache dir for transformers
       (globalThis as any).process = (globalThis as any).process || process;
       process.env.TRANSFORMERS_CACHE = this.cacheDir;
 
       const { pipeline } = await import('@xenova/transformers');
-      this.extractor = await pipeline('feature-extraction', this.modelId, {
+      extractor = await pipeline('feature-extraction', this.modelId, {
         // Note: transformers.js will fetch from TRANSFORMERS_CACHE; ensure models are present offline
         quantized: true,
       });
-      // Rough dimension for e5-small-v2 is 384
-      this.info = { modelId: this.modelId, dimensions: 384 };
     } catch (e) {
-      throw new Error(`Failed to initialize embeddings. Ensure model files exist at ${this.cacheDir} for ${this.modelId}. Error: ${(e as Error).message}`);
+      throw new Error(`Failed to initialize embeddings. Ensure model files exist at ${this.cacheDir} for ${this.modelId} (install a pack with agm models import <pack>). Error: ${(e as Error).message}`);
     }
+    // Measure the output dimension instead of assuming one (e5-small is 384, base models 768, ...)
+    const probe: any = await extractor('dimension probe', { pooling: 'mean', normalize: true });
+    const dimensions = probe.dims ? probe.dims[probe.dims.length - 1] : probe.data.length;
+    this.extractor = extractor;
+    this.info = { modelId: this.modelId, dimensions };
+    try { recordModelDimensions(this.projectRoot, this.modelId, dimensions); } catch { /* registry is advisory */ }
+  }
+
+  /** True when the model's files are already in the local cache (checked without loading transformers). */
+  isModelCached(): boolean {
+    return isModelCached(this.projectRoot, this.modelId);
+  }
+
+  /** Token count of `text` under the model's tokenizer (special tokens included); null before init. */
+  countTokens(text: string): number | null {
+    const tokenizer = this.extractor?.tokenizer;
+    if (!tokenizer) return null;
+    return tokenizer.encode(text).length;
+  }
+
+  /** Longest input the model sees before truncating (512 for e5); null before init. */
+  maxInputTokens(): number | null {
+    const tokenizer = this.extractor?.tokenizer;
+    if (!tokenizer) return null;
+    const max = Number(tokenizer.model_max_length);
+    // Tokenizers without a configured limit report a huge sentinel value
+    return Number.isFinite(max) && max > 0 && max <= 100000 ? max : 512;
   }
 
   getInfo(): EmbeddingInfo {
@@ -54,10 +93,20 @@ export class EmbeddingProvider {
     return new Float32Array(data);
   }
 
-  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+  /**
+   * Embed many texts with one model call per `batchSize` texts (padded batch; mean pooling ignores padding).
+   */
+  async embedBatch(texts: string[], batchSize: number = 32): Promise<Float32Array[]> {
     if (!this.extractor) await this.init();
     const outs: Float32Array[] = [];
-    for (const t of texts) outs.push(await this.embed(t));
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const slice = texts.slice(i, i + batchSize);
+      const output: any = await this.extractor(slice, { pooling: 'mean', normalize: true });
+      // Tensor of shape [slice.length, dim]
+      const dim = output.dims[output.dims.length - 1];
+      const data = output.data as Float32Array;
+      for (let j = 0; j < slice.length; j++) outs.push(Float32Array.from(data.subarray(j * dim, (j + 1) * dim)));
+    }
     return outs;
   }
 }
@@ -0,0 +1,59 @@
+import { VectorEmbeddings } from '../VectorEmbeddings';
+import type { Embedder } from './Embedder';
+import type { EmbeddingInfo } from './EmbeddingProvider';
+
+export const LOCAL_HASH_MODEL = 'local-hash';
+export const LOCAL_HASH_DIMENSIONS = 384;
+
+/**
+ * The built-in VectorEmbeddings features (hashed TF-IDF, n-grams, keyword categories, structure) as an Embedder.
+ * Needs no model files and gives the same vector for the same text on every machine, so hybrid search works on
+ * hosts without a model cache. It matches words and character trigrams, not meaning.
+ */
+export class LocalHashEmbedder implements Embedder {
+  readonly name = 'local-hash' as const;
+
+  getModelId(): string {
+    return LOCAL_HASH_MODEL;
+  }
+
+  isModelCached(): boolean {
+    return true;
+  }
+
+  async init(): Promise<void> {}
+
+  getInfo(): EmbeddingInfo {
+    return { modelId: LOCAL_HASH_MODEL, dimensions: LOCAL_HASH_DIMENSIONS };
+  }
+
+  async embed(text: string): Promise<Float32Array> {
+    return (await this.embedBatch([text]))[0];
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    // A fresh instance per call: VectorEmbeddings caches every text it has seen
+    const features = new VectorEmbeddings(LOCAL_HASH_DIMENSIONS);
+    const out: Float32Array[] = [];
+    for (const text of texts) out.push(unitVector(await features.generateEmbedding(text)));
+    return out;
+  }
+
+  countTokens(): number | null {
+    return null;
+  }
+
+  maxInputTokens(): number | null {
+    return null;
+  }
+}
+
+/** Empty text yields NaN ratio features; zero them and L2-normalize again. */
+function unitVector(values: number[]): Float32Array {
+  const v = Float32Array.from(values, x => (Number.isFinite(x) ? x : 0));
+  let norm = 0;
+  for (const x of v) norm += x * x;
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < v.length; i++) v[i] /= norm;
+  return v;
+}
@@ -0,0 +1,243 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isSafeRelativePath, packTar, unpackTar } from '../../utils/Tar';
+import { keyIdOf, signDigest, verifyDigest, type SigningKey } from '../../utils/SigningKey';
+import { loadModelRegistry, modelCacheDir, saveModelRegistry, validateModelId, type InstalledPack } from './ModelRegistry';
+
+/**
+ * Model packs move transformers.js model files onto air-gapped machines (`agm models export` / `agm models import`).
+ *
+ * Layout (a directory, or the same tree as a .tar/.tar.gz/.tgz/.zip):
+ *   model-pack.json   manifest: model id and the sha256 and size of every file under model/
+ *   model/...         the model's cache directory (config.json, tokenizer files, onnx/...)
+ *   signature.bin     optional ED25519 signature of sha256(model-pack.json)
+ *   publickey.der     the signer's public key (SPKI DER), as in signed .agmctx bundles
+ *
+ * The manifest lists every file with its hash, so signing it covers the whole pack.
+ */
+
+export const MODEL_PACK_MANIFEST = 'model-pack.json';
+
+export interface ModelPackManifest {
+  schemaVersion: 1;
+  type: 'model-pack';
+  model: string;
+  /** Output dimension measured on the exporting machine, when known. */
+  dimensions?: number;
+  createdAt: string;
+  exporter: { name: string; version: string; node: string };
+  /** Path under model/ → { sha256, size }. */
+  files: Record<string, { sha256: string; size: number }>;
+  keyId?: string;
+}
+
+export interface ModelPackCheck {
+  manifest: ModelPackManifest;
+  manifestSha256: string;
+  signature: 'valid' | 'invalid' | 'none';
+  keyId?: string;
+  /** Missing, altered or unlisted files (empty when the pack is intact). */
+  problems: string[];
+  bytes: number;
+}
+
+/**
+ * Open a pack given as a directory or archive. Archives are extracted under `tmpRoot`; call `cleanup` when done.
+ * A pack wrapped in a single top-level directory is accepted too.
+ */
+export async function openModelPack(source: string, tmpRoot: string): Promise<{ dir: string; cleanup: () => void }> {
+  if (!fs.existsSync(source)) throw new Error(`Model pack not found: ${source}`);
+  if (fs.statSync(source).isDirectory()) return { dir: findPackRoot(source), cleanup: () => {} };
+
+  const buf = fs.readFileSync(source);
+  let entries: Array<{ name: string; data: Buffer }>;
+  if (buf[0] === 0x50 && buf[1] === 0x4b) {
+    const { unzipSync } = await import('fflate');
+    entries = Object.entries(unzipSync(new Uint8Array(buf)))
+      .filter(([name]) => !name.endsWith('/'))
+      .map(([name, data]) => ({ name, data: Buffer.from(data) }));
+    for (const e of entries) if (!isSafeRelativePath(e.name)) throw new Error(`Unsafe path in archive: ${e.name}`);
+  } else {
+    entries = unpackTar(buf);
+  }
+  const tmp = path.join(tmpRoot, `tmp-model-pack-${Date.now().toString(36)}`);
+  const cleanup = () => fs.rmSync(tmp, { recursive: true, force: true });
+  try {
+    for (const e of entries) {
+      const out = path.join(tmp, ...e.name.split('/'));
+      fs.mkdirSync(path.dirname(out), { recursive: true });
+      fs.writeFileSync(out, e.data);
+    }
+    return { dir: findPackRoot(tmp), cleanup };
+  } catch (e) {
+    cleanup();
+    throw e;
+  }
+}
+
+function findPackRoot(dir: string): string {
+  if (fs.existsSync(path.join(dir, MODEL_PACK_MANIFEST))) return dir;
+  const subdirs = fs.readdirSync(dir, { withFileTypes: true }).filter(d => d.isDirectory());
+  if (subdirs.length === 1 && fs.existsSync(path.join(dir, subdirs[0].name, MODEL_PACK_MANIFEST))) return path.join(dir, subdirs[0].name);
+  throw new Error(`Not a model pack: ${MODEL_PACK_MANIFEST} not found`);
+}
+
+/** Check the manifest, every file's hash and size, and the signature if there is one. Does not throw on tampering. */
+export function checkModelPack(dir: string): ModelPackCheck {
+  const manifestBuf = fs.readFileSync(path.join(dir, MODEL_PACK_MANIFEST));
+  let manifest: ModelPackManifest;
+  try { manifest = JSON.parse(manifestBuf.toString('utf8')); } catch (e) { throw new Error(`Invalid ${MODEL_PACK_MANIFEST}: ${(e as Error).message}`); }
+  if (manifest?.type !== 'model-pack' || !manifest.files || typeof manifest.files !== 'object') throw new Error(`Invalid ${MODEL_PACK_MANIFEST}: not a model pack manifest`);
+  validateModelId(manifest.model);
+  const digest = crypto.createHash('sha256').update(manifestBuf).digest();
+
+  const problems: string[] = [];
+  let bytes = 0;
+  const listed = Object.keys(manifest.files);
+  if (!listed.includes('config.json')) problems.push('config.json is not listed');
+  for (const rel of listed) {
+    if (!isSafeRelativePath(rel)) { problems.push(`unsafe path ${rel}`); continue; }
+    const file = path.join(dir, 'model', ...rel.split('/'));
+    if (!fs.existsSync(file)) { problems.push(`missing ${rel}`); continue; }
+    const data = fs.readFileSync(file);
+    bytes += data.length;
+    if (data.length !== manifest.files[rel].size || sha256(data) !== manifest.files[rel].sha256) problems.push(`checksum mismatch ${rel}`);
+  }
+  const listedSet = new Set(listed);
+  for (const rel of listFiles(path.join(dir, 'model'))) if (!listedSet.has(rel)) problems.push(`unlisted ${rel}`);
+
+  let signature: ModelPackCheck['signature'] = 'none';
+  let keyId: string | undefined;
+  const sigPath = path.join(dir, 'signature.bin');
+  const pubPath = path.join(dir, 'publickey.der');
+  if (fs.existsSync(sigPath) || fs.existsSync(pubPath)) {
+    const pub = fs.existsSync(pubPath) ? fs.readFileSync(pubPath) : undefined;
+    signature = pub && fs.existsSync(sigPath) && verifyDigest(pub, digest, fs.readFileSync(sigPath)) ? 'valid' : 'invalid';
+    if (pub) keyId = keyIdOf(pub);
+    if (signature === 'valid' && manifest.keyId && manifest.keyId !== keyId) signature = 'invalid';
+  }
+  return { manifest, manifestSha256: digest.toString('hex'), signature, keyId, problems, bytes };
+}
+
+/**
+ * Copy a checked pack's model/ tree into the model cache (staged, then renamed into place) and record its
+ * provenance in models.json. An installed copy is only replaced with `force`; an identical one is left as is.
+ */
+export function installModelPack(projectRoot: string, dir: string, check: ModelPackCheck, opts: { force?: boolean; source: string }): { installed: boolean; path: string; pack: InstalledPack } {
+  const id = check.manifest.model;
+  const target = path.join(modelCacheDir(projectRoot), ...id.split('/'));
+  const pack: InstalledPack = {
+    manifestSha256: check.manifestSha256,
+    signed: check.signature === 'valid',
+    keyId: check.signature === 'valid' ? check.keyId : undefined,
+    files: Object.keys(check.manifest.files).length,
+    bytes: check.bytes,
+    installedAt: new Date().toISOString(),
+    source: opts.source,
+  };
+  if (fs.existsSync(target)) {
+    if (hasFiles(target, check.manifest.files)) {
+      const previous = loadModelRegistry(projectRoot).models[id]?.pack;
+      const kept = previous?.manifestSha256 === pack.manifestSha256 ? previous : pack;
+      recordInstalledPack(projectRoot, id, kept);
+      return { installed: false, path: target, pack: kept };
+    }
+    if (!opts.force) throw new Error(`${id} is already installed with different files; use --force to replace it`);
+  }
+
+  const staging = path.join(modelCacheDir(projectRoot), `.staging-${Date.now().toString(36)}`);
+  try {
+    for (const rel of Object.keys(check.manifest.files)) {
+      const out = path.join(staging, ...rel.split('/'));
+      fs.mkdirSync(path.dirname(out), { recursive: true });
+      fs.copyFileSync(path.join(dir, 'model', ...rel.split('/')), out);
+    }
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.renameSync(staging, target);
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+  recordInstalledPack(projectRoot, id, pack);
+  return { installed: true, path: target, pack };
+}
+
+/** True when `dir` holds exactly the listed files with the listed hashes. */
+function hasFiles(dir: string, files: ModelPackManifest['files']): boolean {
+  const rels = listFiles(dir);
+  return rels.length === Object.keys(files).length
+    && rels.every(rel => files[rel] && sha256(fs.readFileSync(path.join(dir, ...rel.split('/')))) === files[rel].sha256);
+}
+
+function recordInstalledPack(projectRoot: string, id: string, pack: InstalledPack): void {
+  const reg = loadModelRegistry(projectRoot);
+  reg.models[id] = { ...reg.models[id], pack };
+  saveModelRegistry(projectRoot, reg);
+}
+
+/**
+ * Write a cached model as a pack: a directory, or a tarball when `outPath` ends in .tar, .tar.gz or .tgz.
+ */
+export function exportModelPack(projectRoot: string, id: string, outPath: string, opts: { key?: SigningKey; exporterVersion: string }): { manifest: ModelPackManifest; manifestSha256: string; files: number; bytes: number; format: 'dir' | 'tar' | 'tar.gz' } {
+  validateModelId(id);
+  const src = path.join(modelCacheDir(projectRoot), ...id.split('/'));
+  if (!fs.existsSync(path.join(src, 'config.json'))) throw new Error(`${id} is not in the local model cache (${src})`);
+  const rels = listFiles(src);
+  const data = new Map(rels.map(rel => [rel, fs.readFileSync(path.join(src, ...rel.split('/')))]));
+  const files: ModelPackManifest['files'] = {};
+  for (const [rel, buf] of data) files[rel] = { sha256: sha256(buf), size: buf.length };
+  const manifest: ModelPackManifest = {
+    schemaVersion: 1,
+    type: 'model-pack',
+    model: id,
+    dimensions: loadModelRegistry(projectRoot).models[id]?.dimensions,
+    createdAt: new Date().toISOString(),
+    exporter: { name: 'antigoldfishmode', version: opts.exporterVersion, node: process.version },
+    files,
+    keyId: opts.key?.keyId,
+  };
+  const manifestBuf = Buffer.from(JSON.stringify(manifest, null, 2));
+  const entries = [{ name: MODEL_PACK_MANIFEST, data: manifestBuf }];
+  if (opts.key) {
+    const digest = crypto.createHash('sha256').update(manifestBuf).digest();
+    entries.push({ name: 'signature.bin', data: signDigest(opts.key, digest) }, { name: 'publickey.der', data: opts.key.publicKey });
+  }
+  for (const [rel, buf] of data) entries.push({ name: `model/${rel}`, data: buf });
+
+  const gz = /\.(tar\.gz|tgz)$/i.test(outPath);
+  const format = gz ? 'tar.gz' : /\.tar$/i.test(outPath) ? 'tar' : 'dir';
+  if (format === 'dir') {
+    if (fs.existsSync(outPath) && fs.readdirSync(outPath).length) throw new Error(`Output directory is not empty: ${outPath}`);
+    for (const e of entries) {
+      const out = path.join(outPath, ...e.name.split('/'));
+      fs.mkdirSync(path.dirname(out), { recursive: true });
+      fs.writeFileSync(out, e.data);
+    }
+  } else {
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, packTar(entries, { gzip: gz }));
+  }
+  return { manifest, manifestSha256: sha256(manifestBuf), files: rels.length, bytes: [...data.values()].reduce((n, b) => n + b.length, 0), format };
+}
+
+function sha256(buf: Buffer): string {
+  return crypto.createHash('sha256').update(buf).digest('hex');
+}
+
+/** Files under `root` as sorted `/`-separated relative paths (staging leftovers and dotfiles skipped). */
+function listFiles(root: string): string[] {
+  const out: string[] = [];
+  const walk = (dir: string, prefix: string) => {
+    let entries: fs.Dirent[];
+    try { entries = fs.readdirSync(dir, { withFileTypes: true }); } catch { return; }
+    for (const e of entries) {
+      if (e.name.startsWith('.')) continue;
+      const rel = prefix ? `${prefix}/${e.name}` : e.name;
+      if (e.isDirectory()) walk(path.join(dir, e.name), rel);
+      else if (e.isFile()) out.push(rel);
+    }
+  };
+  walk(root, '');
+  return out.sort();
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LOCAL_HASH_MODEL } from './LocalHashEmbedder';
+
+/**
+ * Project model registry (.antigoldfishmode/models.json): which embedding model is active and the output
+ * dimension each model was measured to produce. Vectors record the model that made them, so this file only
+ * decides which model new vectors and queries use.
+ *
+ * Resolution order for the active model: AGM_EMBED_MODEL, then `active` here, then DEFAULT_EMBED_MODEL.
+ */
+
+export const DEFAULT_EMBED_MODEL = 'Xenova/e5-small-v2';
+
+export interface ModelRecord {
+  /** Output dimension measured by embedding a probe text (not read from config). */
+  dimensions?: number;
+  /** When the dimension was last measured (ISO 8601). */
+  detectedAt?: string;
+  /** Set when the model was installed from a model pack (`agm models import`). */
+  pack?: InstalledPack;
+}
+
+/** Provenance of an installed model pack, reported by `models list` and prove-offline. */
+export interface InstalledPack {
+  /** sha256 of the pack's model-pack.json, which lists every file's sha256. */
+  manifestSha256: string;
+  signed: boolean;
+  keyId?: string;
+  files: number;
+  bytes: number;
+  installedAt: string;
+  source: string;
+}
+
+export interface ModelRegistryFile {
+  active?: string;
+  models: Record<string, ModelRecord>;
+}
+
+export function modelRegistryPath(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'models.json');
+}
+
+/** Local cache directory for model files (TRANSFORMERS_CACHE). */
+export function modelCacheDir(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'models');
+}
+
+export function loadModelRegistry(projectRoot: string): ModelRegistryFile {
+  const file = modelRegistryPath(projectRoot);
+  if (!fs.existsSync(file)) return { models: {} };
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`Invalid model registry ${file}: ${(e as Error).message}`);
+  }
+  const models: Record<string, ModelRecord> = raw && typeof raw.models === 'object' && raw.models ? raw.models : {};
+  return { active: typeof raw?.active === 'string' ? raw.active : undefined, models };
+}
+
+export function saveModelRegistry(projectRoot: string, data: ModelRegistryFile): void {
+  const file = modelRegistryPath(projectRoot);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+/**
+ * Model ids are Hugging Face style (`org/name`) and double as paths under the model cache.
+ */
+export function validateModelId(id: string): void {
+  if (!/^[\w.-]+(\/[\w.-]+)?$/.test(id) || id.split('/').some(p => p === '.' || p === '..')) {
+    throw new Error(`Invalid model id: ${id} (expected org/name)`);
+  }
+  if (id === LOCAL_HASH_MODEL) throw new Error(`${id} is the built-in embedder, not a transformers model; select it with --embedder local-hash`);
+}
+
+export function activeModelId(projectRoot: string): string {
+  if (process.env.AGM_EMBED_MODEL) return process.env.AGM_EMBED_MODEL;
+  try { return loadModelRegistry(projectRoot).active || DEFAULT_EMBED_MODEL; } catch { return DEFAULT_EMBED_MODEL; }
+}
+
+export function setActiveModel(projectRoot: string, id: string): void {
+  validateModelId(id);
+  const reg = loadModelRegistry(projectRoot);
+  reg.active = id;
+  saveModelRegistry(projectRoot, reg);
+}
+
+/** Record a measured output dimension; returns the previously recorded one (if any). */
+export function recordModelDimensions(projectRoot: string, id: string, dimensions: number): number | undefined {
+  const reg = loadModelRegistry(projectRoot);
+  const previous = reg.models[id]?.dimensions;
+  if (previous === dimensions) return previous;
+  reg.models[id] = { ...reg.models[id], dimensions, detectedAt: new Date().toISOString() };
+  saveModelRegistry(projectRoot, reg);
+  return previous;
+}
+
+export function isModelCached(projectRoot: string, id: string): boolean {
+  return fs.existsSync(path.join(modelCacheDir(projectRoot), ...id.split('/'), 'config.json'));
+}
+
+/** Models present in the local cache (directories with a config.json, one or two levels deep). */
+export function listCachedModels(projectRoot: string): string[] {
+  const root = modelCacheDir(projectRoot);
+  const out: string[] = [];
+  const dirs = (p: string) => { try { return fs.readdirSync(p, { withFileTypes: true }).filter(d => d.isDirectory() && !d.name.startsWith('.')).map(d => d.name); } catch { return []; } };
+  for (const a of dirs(root)) {
+    if (fs.existsSync(path.join(root, a, 'config.json'))) out.push(a);
+    for (const b of dirs(path.join(root, a))) {
+      if (fs.existsSync(path.join(root, a, b, 'config.json'))) out.push(`${a}/${b}`);
+    }
+  }
+  return out.sort();
+}
+
+/** Hidden size declared in the cached config.json (a hint only; the measured dimension is authoritative). */
+export function configuredDimensions(projectRoot: string, id: string): number | undefined {
+  try {
+    const cfg = JSON.parse(fs.readFileSync(path.join(modelCacheDir(projectRoot), ...id.split('/'), 'config.json'), 'utf8'));
+    const d = Number(cfg.hidden_size ?? cfg.d_model ?? cfg.dim);
+    return Number.isInteger(d) && d > 0 ? d : undefined;
+  } catch { return undefined; }
+}
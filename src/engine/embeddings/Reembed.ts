@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MemoryDatabase } from '../../database/MemoryDatabase';
+import type { IVectorIndex } from '../vector/IVectorIndex';
+
+/**
+ * `agm reembed`: replace every stored vector that another model produced with one from the target model.
+ *
+ * The work list is "vectors not from the target model", so each committed batch drops out of it and a stopped or
+ * crashed run resumes where it left off. Progress is kept in .antigoldfishmode/reembed.json for `--status` and for
+ * a run started with `--background`.
+ */
+
+export interface ReembedProgress {
+  model: string;
+  status: 'running' | 'done' | 'stopped' | 'failed';
+  /** Vectors to migrate when the run (or the run it resumed) started. */
+  total: number;
+  done: number;
+  /** Memories whose batch failed to embed in this run (retried by the next run). */
+  failed: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  pid?: number;
+  error?: string;
+}
+
+export function reembedProgressPath(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'reembed.json');
+}
+
+export function reembedLogPath(projectRoot: string): string {
+  return path.join(projectRoot, '.antigoldfishmode', 'reembed.log');
+}
+
+/** Last recorded progress; a `running` entry whose process is gone is reported as `stopped`. */
+export function readReembedProgress(projectRoot: string): ReembedProgress | null {
+  let p: ReembedProgress;
+  try { p = JSON.parse(fs.readFileSync(reembedProgressPath(projectRoot), 'utf8')); } catch { return null; }
+  if (p.status === 'running' && !(p.pid && isAlive(p.pid))) p.status = 'stopped';
+  return p;
+}
+
+export function writeReembedProgress(projectRoot: string, p: ReembedProgress): void {
+  const file = reembedProgressPath(projectRoot);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(p, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+function isAlive(pid: number): boolean {
+  try { process.kill(pid, 0); return true; } catch (e) { return (e as NodeJS.ErrnoException).code === 'EPERM'; }
+}
+
+export interface ReembedOptions {
+  projectRoot: string;
+  batchSize?: number;
+  /** Output dimension of the target model; vectors labelled with it but of another dimension are redone too. */
+  dimensions?: number;
+  /** Checked between batches (e.g. set on SIGINT); the run ends as `stopped`. */
+  shouldStop?: () => boolean;
+  onBatch?: (p: ReembedProgress) => void;
+}
+
+/**
+ * Re-embed, in id order, the memories whose vector was not made by `index.model` (or has the wrong dimension),
+ * writing each batch's vectors in one transaction through `index` (so file-backed backends stay in sync).
+ * Continues the counts of an unfinished run for the same model.
+ */
+export async function reembedCorpus(
+  db: MemoryDatabase,
+  index: IVectorIndex,
+  embed: (texts: string[]) => Promise<Float32Array[]>,
+  opts: ReembedOptions
+): Promise<ReembedProgress> {
+  const model = index.model;
+  if (!model) throw new Error('Vector index is not bound to an embedding model');
+  const batchSize = Math.max(1, opts.batchSize ?? 32);
+  const remaining = db.countVectorsNotFromModel(model, opts.dimensions);
+  const previous = readReembedProgress(opts.projectRoot);
+  const now = new Date().toISOString();
+  const resumed = previous && previous.model === model && previous.status !== 'done' ? previous : null;
+  const progress: ReembedProgress = {
+    model,
+    status: 'running',
+    total: (resumed?.done ?? 0) + remaining,
+    done: resumed?.done ?? 0,
+    failed: 0,
+    startedAt: resumed?.startedAt ?? now,
+    updatedAt: now,
+    pid: process.pid,
+  };
+  writeReembedProgress(opts.projectRoot, progress);
+
+  let afterId = 0;
+  try {
+    for (;;) {
+      if (opts.shouldStop?.()) { progress.status = 'stopped'; break; }
+      const ids = db.listVectorIdsNotFromModel(model, { dim: opts.dimensions, afterId, limit: batchSize });
+      if (!ids.length) { progress.status = 'done'; break; }
+      afterId = ids[ids.length - 1];
+      const rows = await db.getMemoriesByIds(ids);
+      let vecs: Float32Array[];
+      try {
+        vecs = await embed(rows.map(r => r.content));
+        // A short or misshapen batch must not be stored as if it matched the rows (or mix dimensions in the index)
+        if (vecs.length !== rows.length) throw new Error(`Embedder returned ${vecs.length} vectors for ${rows.length} texts`);
+        const wrong = opts.dimensions ? vecs.find(v => v.length !== opts.dimensions) : undefined;
+        if (wrong) throw new Error(`Embedder returned a ${wrong.length}-dimensional vector, expected ${opts.dimensions}`);
+      } catch (e) {
+        progress.failed += rows.length;
+        progress.error = (e as Error).message;
+        vecs = [];
+      }
+      if (vecs.length) {
+        await db.withTransaction(async () => {
+          for (let i = 0; i < rows.length; i++) await index.add(rows[i].id, vecs[i]);
+        });
+        progress.done += rows.length;
+      }
+      progress.updatedAt = new Date().toISOString();
+      writeReembedProgress(opts.projectRoot, progress);
+      opts.onBatch?.(progress);
+    }
+    if (progress.status === 'done' && progress.failed) progress.status = 'failed';
+  } catch (e) {
+    progress.status = 'failed';
+    progress.error = (e as Error).message;
+    throw e;
+  } finally {
+    progress.updatedAt = new Date().toISOString();
+    if (progress.status !== 'stopped') progress.finishedAt = progress.updatedAt;
+    delete progress.pid;
+    writeReembedProgress(opts.projectRoot, progress);
+    await index.save?.();
+  }
+  return progress;
+}
@@ -0,0 +1,422 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MemoryDatabase } from '../../database/MemoryDatabase';
+import { IVectorIndex, VectorQueryOptions, VectorQueryResult } from './IVectorIndex';
+import { activeModelId } from '../embeddings/ModelRegistry';
+
+/**
+ * HNSW (Hierarchical Navigable Small World) approximate nearest-neighbour index in pure TypeScript.
+ *
+ * - Cosine similarity over L2-normalized copies of the vectors (score = dot product, higher is better)
+ * - Node levels are derived from the id, so rebuilding the same set of vectors yields the same graph
+ * - Only the graph is persisted (.antigoldfishmode/hnsw/index.json); vectors are read from memory_vectors,
+ *   which stays the source of truth. Opening the index reconciles the graph with the table, so chunks
+ *   deleted or added outside the index (diff re-index, watch unlink, import) are picked up.
+ * - The graph holds one embedding model's vectors; a file built for another model is rebuilt.
+ */
+
+export interface HnswParams {
+  m: number;              // max links per node on upper layers (layer 0 keeps 2*m)
+  efConstruction: number; // candidate list size while inserting
+  efSearch: number;       // candidate list size while querying (query-time only)
+}
+
+export const DEFAULT_HNSW_PARAMS: HnswParams = { m: 16, efConstruction: 200, efSearch: 64 };
+
+interface HnswFileV1 {
+  version: 1;
+  dim: number;
+  m: number;
+  efConstruction: number;
+  entry: number | null;
+  maxLevel: number;
+  nodes: Array<[number, number[][]]>; // [id, links per layer]
+  model?: string; // embedding model of the indexed vectors (absent in files written before models were recorded)
+}
+
+/** Minimal binary heap ordered by `better(a, b)` (true when a should be popped before b). */
+class Heap<T> {
+  private items: T[] = [];
+  constructor(private better: (a: T, b: T) => boolean) {}
+  get size(): number { return this.items.length; }
+  peek(): T | undefined { return this.items[0]; }
+  push(item: T): void {
+    const a = this.items;
+    a.push(item);
+    let i = a.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (!this.better(a[i], a[p])) break;
+      [a[i], a[p]] = [a[p], a[i]];
+      i = p;
+    }
+  }
+  pop(): T | undefined {
+    const a = this.items;
+    if (a.length === 0) return undefined;
+    const top = a[0];
+    const last = a.pop()!;
+    if (a.length > 0) {
+      a[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1, r = l + 1;
+        let m = i;
+        if (l < a.length && this.better(a[l], a[m])) m = l;
+        if (r < a.length && this.better(a[r], a[m])) m = r;
+        if (m === i) break;
+        [a[i], a[m]] = [a[m], a[i]];
+        i = m;
+      }
+    }
+    return top;
+  }
+  toArray(): T[] { return this.items.slice(); }
+}
+
+type Scored = { id: number; score: number };
+
+function normalize(vec: Float32Array): Float32Array {
+  let n = 0;
+  for (let i = 0; i < vec.length; i++) n += vec[i] * vec[i];
+  n = Math.sqrt(n) || 1;
+  const out = new Float32Array(vec.length);
+  for (let i = 0; i < vec.length; i++) out[i] = vec[i] / n;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+/** Deterministic uniform (0,1] from an id (mulberry32 step). */
+function unitFromId(id: number): number {
+  let t = (id + 0x6D2B79F5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+}
+
+export class HnswGraph {
+  readonly params: HnswParams;
+  dim = 0;
+  private vectors = new Map<number, Float32Array>();
+  private links = new Map<number, number[][]>();
+  private entry: number | null = null;
+  private maxLevel = -1;
+
+  constructor(params: Partial<HnswParams> = {}) {
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+  }
+
+  size(): number { return this.vectors.size; }
+  has(id: number): boolean { return this.vectors.has(id); }
+  ids(): IterableIterator<number> { return this.vectors.keys(); }
+  getVector(id: number): Float32Array | undefined { return this.vectors.get(id); }
+
+  private maxLinks(layer: number): number { return layer === 0 ? this.params.m * 2 : this.params.m; }
+
+  private levelFor(id: number): number {
+    return Math.floor(-Math.log(unitFromId(id)) / Math.log(Math.max(2, this.params.m)));
+  }
+
+  private searchLayer(q: Float32Array, entryPoints: number[], ef: number, layer: number): Scored[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new Heap<Scored>((a, b) => a.score > b.score); // best first
+    const found = new Heap<Scored>((a, b) => a.score < b.score);      // worst first
+    for (const id of entryPoints) {
+      const v = this.vectors.get(id);
+      if (!v) continue;
+      const s = { id, score: dot(q, v) };
+      candidates.push(s);
+      found.push(s);
+    }
+    while (candidates.size > 0) {
+      const c = candidates.pop()!;
+      if (found.size >= ef && c.score < found.peek()!.score) break;
+      const neighbours = this.links.get(c.id)?.[layer] || [];
+      for (const n of neighbours) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+        const v = this.vectors.get(n);
+        if (!v) continue; // dangling link to a removed node
+        const s = { id: n, score: dot(q, v) };
+        if (found.size < ef || s.score > found.peek()!.score) {
+          candidates.push(s);
+          found.push(s);
+          if (found.size > ef) found.pop();
+        }
+      }
+    }
+    return found.toArray().sort((a, b) => b.score - a.score);
+  }
+
+  /** Neighbour selection heuristic: keep candidates closer to the base than to any already selected neighbour. */
+  private selectNeighbours(candidates: Scored[], max: number): number[] {
+    const sorted = candidates.slice().sort((a, b) => b.score - a.score);
+    const selected: number[] = [];
+    const pruned: number[] = [];
+    for (const c of sorted) {
+      if (selected.length >= max) break;
+      const cv = this.vectors.get(c.id);
+      if (!cv) continue;
+      const diverse = selected.every(s => dot(cv, this.vectors.get(s)!) < c.score);
+      (diverse ? selected : pruned).push(c.id);
+    }
+    for (const id of pruned) {
+      if (selected.length >= max) break;
+      selected.push(id);
+    }
+    return selected;
+  }
+
+  private relink(id: number, layer: number, candidateIds: Iterable<number>): void {
+    const base = this.vectors.get(id)!;
+    const uniq = new Set<number>();
+    for (const c of candidateIds) if (c !== id && this.vectors.has(c)) uniq.add(c);
+    const scored = Array.from(uniq, c => ({ id: c, score: dot(base, this.vectors.get(c)!) }));
+    this.links.get(id)![layer] = this.selectNeighbours(scored, this.maxLinks(layer));
+  }
+
+  insert(id: number, vector: Float32Array): void {
+    if (this.vectors.has(id)) this.remove(id);
+    if (this.dim === 0) this.dim = vector.length;
+    if (vector.length !== this.dim) throw new Error(`HNSW dimension mismatch: expected ${this.dim}, got ${vector.length}`);
+    const q = normalize(vector);
+    const level = this.levelFor(id);
+    this.vectors.set(id, q);
+    this.links.set(id, Array.from({ length: level + 1 }, () => []));
+
+    if (this.entry === null) {
+      this.entry = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let ep = [this.entry];
+    for (let l = this.maxLevel; l > level; l--) {
+      ep = [this.searchLayer(q, ep, 1, l)[0]?.id ?? ep[0]];
+    }
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(q, ep, this.params.efConstruction, l);
+      const neighbours = this.selectNeighbours(found, this.maxLinks(l));
+      this.links.get(id)![l] = neighbours;
+      for (const n of neighbours) {
+        const nl = this.links.get(n)!;
+        while (nl.length <= l) nl.push([]);
+        nl[l].push(id);
+        if (nl[l].length > this.maxLinks(l)) {
+          // Overflow: drop the farthest link (cheap; the heuristic is reserved for repairs after removal)
+          const base = this.vectors.get(n)!;
+          nl[l] = nl[l]
+            .filter(x => this.vectors.has(x))
+            .map(x => ({ id: x, score: dot(base, this.vectors.get(x)!) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, this.maxLinks(l))
+            .map(x => x.id);
+        }
+      }
+      ep = found.map(f => f.id);
+    }
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entry = id;
+    }
+  }
+
+  remove(id: number): boolean {
+    const own = this.links.get(id);
+    if (!own) return false;
+    this.vectors.delete(id);
+    this.links.delete(id);
+    // Repair the former neighbours: reconnect them through the removed node's neighbourhood
+    own.forEach((layerLinks, l) => {
+      for (const n of layerLinks) {
+        const nl = this.links.get(n);
+        if (!nl || !nl[l] || !nl[l].includes(id)) continue;
+        this.relink(n, l, [...nl[l], ...layerLinks]);
+      }
+    });
+    if (this.entry === id) {
+      this.entry = null;
+      this.maxLevel = -1;
+      for (const [nid, nl] of this.links) {
+        if (nl.length - 1 > this.maxLevel) { this.maxLevel = nl.length - 1; this.entry = nid; }
+      }
+    }
+    if (this.vectors.size === 0) this.dim = 0;
+    return true;
+  }
+
+  search(vector: Float32Array, k: number, efSearch: number = this.params.efSearch): VectorQueryResult[] {
+    if (this.entry === null || vector.length !== this.dim) return [];
+    const q = normalize(vector);
+    let ep = [this.entry];
+    for (let l = this.maxLevel; l > 0; l--) {
+      ep = [this.searchLayer(q, ep, 1, l)[0]?.id ?? ep[0]];
+    }
+    return this.searchLayer(q, ep, Math.max(efSearch, k), 0).slice(0, k).map(s => ({ id: s.id, score: s.score }));
+  }
+
+  /** Exact top-k by brute force (ground truth for recall measurements). */
+  exact(vector: Float32Array, k: number): VectorQueryResult[] {
+    if (vector.length !== this.dim) return [];
+    const q = normalize(vector);
+    const out: VectorQueryResult[] = [];
+    for (const [id, v] of this.vectors) out.push({ id, score: dot(q, v) });
+    return out.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  toJSON(): HnswFileV1 {
+    const nodes: Array<[number, number[][]]> = [];
+    for (const [id, layers] of this.links) {
+      nodes.push([id, layers.map(l => l.filter(n => this.vectors.has(n)))]);
+    }
+    return { version: 1, dim: this.dim, m: this.params.m, efConstruction: this.params.efConstruction, entry: this.entry, maxLevel: this.maxLevel, nodes };
+  }
+
+  /**
+   * Restore a persisted graph. `vectorOf` supplies the stored vectors; nodes without one are dropped
+   * (and their neighbours repaired). Returns null when the file was built with different M/efConstruction.
+   */
+  static fromJSON(data: HnswFileV1, params: Partial<HnswParams>, vectorOf: (id: number) => Float32Array | undefined): HnswGraph | null {
+    const g = new HnswGraph(params);
+    if (data.version !== 1 || data.m !== g.params.m || data.efConstruction !== g.params.efConstruction) return null;
+    g.dim = data.dim;
+    const missing: number[] = [];
+    for (const [id, layers] of data.nodes) {
+      g.links.set(id, layers.map(l => l.slice()));
+      const v = vectorOf(id);
+      if (v && v.length === data.dim) g.vectors.set(id, normalize(v));
+      else missing.push(id);
+    }
+    g.entry = data.entry;
+    g.maxLevel = data.maxLevel;
+    for (const id of missing) {
+      // Re-register so remove() can repair links, then drop it
+      g.vectors.set(id, new Float32Array(g.dim));
+      g.remove(id);
+    }
+    return g;
+  }
+}
+
+/**
+ * IVectorIndex backed by an HnswGraph, persisted under <projectRoot>/.antigoldfishmode/hnsw/.
+ */
+export class HnswVectorIndex implements IVectorIndex {
+  private graph!: HnswGraph;
+  private dirty = false;
+  private readonly file: string;
+  private readonly params: HnswParams;
+
+  constructor(private db: MemoryDatabase, projectRoot: string, params: Partial<HnswParams> = {}, readonly model: string = activeModelId(projectRoot)) {
+    this.file = HnswVectorIndex.indexPath(projectRoot);
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+  }
+
+  static indexPath(projectRoot: string): string {
+    return path.join(projectRoot, '.antigoldfishmode', 'hnsw', 'index.json');
+  }
+
+  async init(): Promise<void> {
+    const stored = new Map<number, Float32Array>();
+    for (const [id, v] of this.db.iterateVectors(this.model)) stored.set(id, v);
+    let graph: HnswGraph | null = null;
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, 'utf8')) as HnswFileV1;
+      if (data.model && data.model !== this.model) throw new Error('built for another model');
+      graph = HnswGraph.fromJSON(data, this.params, id => stored.get(id));
+      if (graph && graph.size() !== data.nodes.length) this.dirty = true;
+    } catch { /* missing, unreadable or for another model: rebuild */ }
+    if (!graph) { graph = new HnswGraph(this.params); this.dirty = true; }
+    this.graph = graph;
+    // Index vectors written outside this index (imports, other backends); skip other dimensions
+    for (const [id, v] of stored) {
+      if (graph.has(id)) continue;
+      if (graph.dim && v.length !== graph.dim) continue;
+      graph.insert(id, v);
+      this.dirty = true;
+    }
+    await this.save();
+  }
+
+  dimensions(): number {
+    return this.graph.dim || this.db.vectorDimensions(this.model);
+  }
+
+  async add(id: number, vector: Float32Array): Promise<void> {
+    await this.db.upsertVector(id, vector, vector.length, this.model);
+    if (this.graph.dim && vector.length !== this.graph.dim) return;
+    this.graph.insert(id, vector);
+    this.dirty = true;
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.db.deleteVector(id);
+    if (this.graph.remove(id)) this.dirty = true;
+  }
+
+  async query(vector: Float32Array, options?: VectorQueryOptions & { efSearch?: number }): Promise<VectorQueryResult[]> {
+    const k = options?.k ?? 10;
+    let out: VectorQueryResult[];
+    if (options?.ids) {
+      // Reranking a known candidate set: exact cosine is cheaper than a graph walk
+      const q = normalize(vector);
+      out = [];
+      for (const id of options.ids) {
+        const v = this.graph.getVector(id);
+        if (v && v.length === q.length) out.push({ id, score: dot(q, v) });
+      }
+      out = out.sort((a, b) => b.score - a.score).slice(0, k);
+    } else {
+      out = this.graph.search(vector, k, options?.efSearch ?? this.params.efSearch);
+    }
+    const thr = options?.threshold;
+    return typeof thr === 'number' ? out.filter(r => r.score >= thr) : out;
+  }
+
+  async stats(): Promise<{ count: number; dimensions: number; backend: string }> {
+    return { count: this.graph.size(), dimensions: this.dimensions(), backend: 'hnsw' };
+  }
+
+  /** Persist the graph if it changed, dropping nodes whose vectors were deleted from the table meanwhile. */
+  async save(): Promise<void> {
+    const live = new Set<number>();
+    for (const [id] of this.db.iterateVectors(this.model)) live.add(id);
+    for (const id of Array.from(this.graph.ids())) {
+      if (!live.has(id)) { this.graph.remove(id); this.dirty = true; }
+    }
+    if (!this.dirty) return;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify({ ...this.graph.toJSON(), model: this.model }));
+    fs.renameSync(tmp, this.file);
+    this.dirty = false;
+  }
+
+  getParams(): HnswParams { return { ...this.params }; }
+
+  /**
+   * Measure recall@k of the graph against exact search, using up to `sample` stored vectors as queries.
+   */
+  measureRecall(k: number = 10, sample: number = 50, efSearch: number = this.params.efSearch): { k: number; queries: number; recall: number; avgQueryMs: number } {
+    const ids = Array.from(this.graph.ids());
+    if (ids.length === 0) return { k, queries: 0, recall: 1, avgQueryMs: 0 };
+    const step = Math.max(1, Math.floor(ids.length / Math.max(1, sample)));
+    let hits = 0, total = 0, queries = 0, ms = 0;
+    for (let i = 0; i < ids.length && queries < sample; i += step) {
+      const q = this.graph.getVector(ids[i])!;
+      const truth = new Set(this.graph.exact(q, k).map(r => r.id));
+      const t0 = process.hrtime.bigint();
+      const approx = this.graph.search(q, k, efSearch);
+      ms += Number(process.hrtime.bigint() - t0) / 1e6;
+      hits += approx.filter(r => truth.has(r.id)).length;
+      total += truth.size;
+      queries++;
+    }
+    return { k, queries, recall: total ? hits / total : 1, avgQueryMs: queries ? ms / queries : 0 };
+  }
+}
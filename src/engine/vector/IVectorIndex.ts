@@ -5,6 +5,7 @@
 export interface VectorQueryOptions {
   k?: number;
   threshold?: number; // cosine similarity threshold (0..1)
+  ids?: number[]; // restrict results to these ids (e.g. FTS candidates being reranked)
 }
 
 export interface VectorQueryResult {
@@ -14,6 +15,9 @@ export interface VectorQueryResult {
 }
 
 export interface IVectorIndex {
+  /** Embedding model whose vectors this index adds and queries (vectors of other models are never compared). */
+  readonly model?: string;
+
   /** Initialize index (create tables/resources). Idempotent. */
   init(): Promise<void>;
 
@@ -31,5 +35,8 @@ export interface IVectorIndex {
 
   /** Basic stats for observability. */
   stats(): Promise<{ count: number; dimensions: number; backend: string }>;
+
+  /** Persist pending changes (file-backed indexes only). */
+  save?(): Promise<void>;
 }
 
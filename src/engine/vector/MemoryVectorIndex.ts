@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import type { MemoryDatabase } from '../../database/MemoryDatabase';
+import { IVectorIndex, VectorQueryOptions, VectorQueryResult } from './IVectorIndex';
+import { HnswParams, HnswVectorIndex } from './HnswIndex';
+import { activeModelId } from '../embeddings/ModelRegistry';
+
+/**
+ * IVectorIndex implementations over the CLI database (MemoryDatabase).
+ *
+ * Vectors always live in memory_vectors (the source of truth for export/import and reranking);
+ * when sqlite-vss is loaded, MemoryDatabase mirrors them into memories_vss. The backends differ
+ * in how they answer queries:
+ * - local-js: exact cosine over memory_vectors (brute force, or only the candidate ids)
+ * - sqlite-vss: ANN k-NN via memories_vss
+ * - hnsw: pure-TypeScript ANN graph persisted under .antigoldfishmode/hnsw/ (see HnswIndex.ts)
+ *
+ * Every backend is bound to one embedding model: it stores vectors under that model and only scores vectors the
+ * same model produced, so a corpus half-way through `agm reembed` never mixes vector spaces.
+ */
+
+export type VectorBackendMode = 'auto' | 'local' | 'vss' | 'hnsw';
+export const VECTOR_BACKEND_MODES: VectorBackendMode[] = ['auto', 'local', 'vss', 'hnsw'];
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) { const x = a[i], y = b[i]; dot += x*y; na += x*x; nb += y*y; }
+  return dot / (Math.sqrt(na) * Math.sqrt(nb) + 1e-9);
+}
+
+export class LocalCosineIndex implements IVectorIndex {
+  constructor(private db: MemoryDatabase, readonly model: string = activeModelId(process.cwd())) {}
+
+  async init(): Promise<void> {
+    // Storage table is created lazily by MemoryDatabase
+  }
+
+  dimensions(): number {
+    return this.db.vectorDimensions(this.model);
+  }
+
+  async add(id: number, vector: Float32Array): Promise<void> {
+    await this.db.upsertVector(id, vector, vector.length, this.model);
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.db.deleteVector(id);
+  }
+
+  async query(vector: Float32Array, options?: VectorQueryOptions): Promise<VectorQueryResult[]> {
+    const k = options?.k ?? 10;
+    const source: Iterable<[number, Float32Array]> = options?.ids ? await this.db.getVectors(options.ids, this.model) : this.db.iterateVectors(this.model);
+    const out: VectorQueryResult[] = [];
+    for (const [id, v] of source) {
+      if (v.length !== vector.length) continue;
+      const score = cosine(v, vector);
+      if (typeof options?.threshold === 'number' && score < options.threshold) continue;
+      out.push({ id, score });
+    }
+    out.sort((a, b) => b.score - a.score);
+    return out.slice(0, k);
+  }
+
+  async stats(): Promise<{ count: number; dimensions: number; backend: string }> {
+    return { count: this.db.vectorCount(this.model), dimensions: this.db.vectorDimensions(this.model), backend: 'local-js' };
+  }
+}
+
+export class SqliteVssIndex implements IVectorIndex {
+  constructor(private db: MemoryDatabase, readonly model: string = activeModelId(process.cwd())) {}
+
+  async init(): Promise<void> {
+    if (!this.db.isVssAvailable()) throw new Error('sqlite-vss extension is not loaded');
+  }
+
+  dimensions(): number {
+    return this.db.vectorDimensions(this.model);
+  }
+
+  async add(id: number, vector: Float32Array): Promise<void> {
+    await this.db.upsertVector(id, vector, vector.length, this.model, true);
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.db.deleteVector(id);
+  }
+
+  async query(vector: Float32Array, options?: VectorQueryOptions): Promise<VectorQueryResult[]> {
+    const k = options?.k ?? 10;
+    const rows = await this.db.knnSearch(vector, k);
+    // sqlite-vss returns smaller distance as better; convert to a similarity-like score
+    let out: VectorQueryResult[] = rows.map(r => ({ id: r.id, score: 1 / (1 + r.distance) }));
+    if (options?.ids) { const wanted = new Set(options.ids); out = out.filter(r => wanted.has(r.id)); }
+    // The mirror holds only the active model's vectors, but a row re-embedded by another model may still be listed
+    const ours = await this.db.getVectors(out.map(r => r.id), this.model);
+    out = out.filter(r => ours.has(r.id));
+    const thr = options?.threshold;
+    return typeof thr === 'number' ? out.filter(r => r.score >= thr) : out;
+  }
+
+  async stats(): Promise<{ count: number; dimensions: number; backend: string }> {
+    return { count: this.db.vectorCount(this.model), dimensions: this.db.vectorDimensions(this.model), backend: 'sqlite-vss' };
+  }
+}
+
+/**
+ * Pick the vector index for a requested mode. `auto` prefers sqlite-vss when the extension is loaded, then an
+ * HNSW index that was already built for this project, then local-js; an explicit `vss` request fails loudly
+ * instead of silently falling back.
+ */
+export async function openMemoryVectorIndex(
+  db: MemoryDatabase,
+  requested: string = 'auto',
+  opts: { projectRoot?: string; hnsw?: Partial<HnswParams>; model?: string } = {}
+): Promise<{ index: IVectorIndex; mode: VectorBackendMode; backend: string; model: string; note?: string }> {
+  const mode = String(requested).toLowerCase() as VectorBackendMode;
+  if (!VECTOR_BACKEND_MODES.includes(mode)) {
+    throw new Error(`Invalid vector backend: ${requested} (expected ${VECTOR_BACKEND_MODES.join('|')})`);
+  }
+  if (mode === 'vss' && !db.isVssAvailable()) {
+    throw new Error(`Vector backend 'vss' requested but sqlite-vss is not loaded (expected .antigoldfishmode/sqlite-vss/${process.platform}-${process.arch}/vss0.*)`);
+  }
+  const projectRoot = opts.projectRoot || process.cwd();
+  const model = opts.model || activeModelId(projectRoot);
+  let backend: 'sqlite-vss' | 'hnsw' | 'local-js';
+  if (mode === 'vss' || (mode === 'auto' && db.isVssAvailable())) backend = 'sqlite-vss';
+  else if (mode === 'hnsw' || (mode === 'auto' && fs.existsSync(HnswVectorIndex.indexPath(projectRoot)))) backend = 'hnsw';
+  else backend = 'local-js';
+  const index: IVectorIndex = backend === 'sqlite-vss' ? new SqliteVssIndex(db, model)
+    : backend === 'hnsw' ? new HnswVectorIndex(db, projectRoot, opts.hnsw, model)
+    : new LocalCosineIndex(db, model);
+  await index.init();
+  const note = backend !== 'local-js' ? undefined : (mode === 'auto' ? 'Advanced vector backend not enabled; using local-js fallback' : 'local-js selected');
+  return { index, mode, backend, model, ...(note ? { note } : {}) };
+}
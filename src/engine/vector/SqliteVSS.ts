@@ -40,6 +40,10 @@ export class SqliteVSS {
     if (!this.loaded) return;
     if (this.dim === dim) return;
     try {
+      // One dimension per table: after switching to a model with another dimension, the mirror starts over
+      const existing = this.db.prepare("SELECT sql FROM sqlite_master WHERE name = ?").get(this.table) as { sql?: string } | undefined;
+      const declared = existing?.sql?.match(/embedding\((\d+)\)/);
+      if (declared && Number(declared[1]) !== dim) this.db.exec(`DROP TABLE ${this.table}`);
       // sqlite-vss: vss0 virtual table with single vector column
       this.db.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS ${this.table} USING vss0(embedding(${dim}));`);
       this.dim = dim;
@@ -62,6 +66,16 @@ export class SqliteVSS {
     }
   }
 
+  remove(id: number): void {
+    if (!this.loaded || this.dim == null) return;
+    try {
+      this.db.prepare(`DELETE FROM ${this.table} WHERE rowid = ?`).run(id);
+    } catch (e) {
+      // Disable on operational error
+      this.loaded = false;
+    }
+  }
+
   // Vector-only nearest neighbors via sqlite-vss
   queryNearest(vec: Float32Array, topk: number): Array<{ id: number; distance: number }> {
     if (!this.loaded || this.dim == null) return [];
@@ -13,13 +13,24 @@
  */
 
 import { Command } from 'commander';
-import { MemoryEngine } from './MemoryEngine';
+import { MemoryEngine, SearchResult as MemorySearchResult } from './MemoryEngine';
+import type { SearchResult, CodeGraphHit } from './database/MemoryDatabase';
 import { MemoryEngine2 } from './MemoryEngine2';
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { PolicyBroker } from './utils/PolicyBroker';
+import type { ContextDiff } from './utils/ContextDiff';
+import type { IVectorIndex } from './engine/vector/IVectorIndex';
+import { createEmbedder, type Embedder } from './engine/embeddings/Embedder';
+import { LOCAL_HASH_MODEL } from './engine/embeddings/LocalHashEmbedder';
+import { HnswVectorIndex } from './engine/vector/HnswIndex';
+import type { EvalRun, QueryScore } from './engine/RetrievalEval';
+import type { SymbolReference } from './codeindex/SymbolReferences';
+import type { SecretScanner } from './codeindex/SecretScanner';
+import type { SkipReason } from './codeindex/FileFilters';
+import { RankingParams, rankingBoost, resolveRankingParams, parsePathBoosts, listRankingProfiles, loadRankingProfiles, saveRankingProfiles, rankingProfilesPath, validateRankingParams } from './engine/RankingProfiles';
 import * as http from 'http';
 import * as https from 'https';
 
@@ -60,6 +71,72 @@ function globToRegex(glob: string): RegExp {
     return new RegExp(re);
 }
 
+/**
+ * Deterministic digest over code search results: ids plus file:line where available (search-code receipts, agm eval).
+ */
+function codeResultDigest(results: Array<{ id: number; metadata?: string }>): { idList: string[]; resultDigest: string } {
+    const idList = results.map(r => {
+        let meta: any = {}; try { meta = JSON.parse(r.metadata || '{}'); } catch {}
+        const loc = meta.file ? `${meta.file}:${meta.lineStart}-${meta.lineEnd}` : '';
+        return `${r.id}${loc?`@${loc}`:''}`;
+    });
+    return { idList, resultDigest: crypto.createHash('sha256').update(JSON.stringify(idList)).digest('hex') };
+}
+
+type CodeGraph = { symbol?: string; symbolType?: string; references?: SymbolReference[]; imports?: string[] };
+
+/**
+ * Tree-sitter chunk → stored chunk (index-code, watch-code). References and imports go to the code graph tables,
+ * not into metadata.
+ */
+function treeSitterChunk(c: { text: string; meta: any }): { text: string; meta: any; graph: CodeGraph } {
+    return {
+        text: c.text,
+        meta: {
+            file: c.meta.file,
+            language: c.meta.language,
+            lineStart: c.meta.lineStart,
+            lineEnd: c.meta.lineEnd,
+            symbol: c.meta.symbolName,
+            symbolType: c.meta.symbolType,
+            ...(c.meta.parentSymbol ? { parentSymbol: c.meta.parentSymbol } : {}),
+            tags: ['symbol', c.meta.symbolType || 'unknown']
+        },
+        graph: { symbol: c.meta.symbolName, symbolType: c.meta.symbolType, references: c.meta.references, imports: c.meta.imports }
+    };
+}
+
+/** Graph rows for a chunk: Tree-sitter chunks carry references/imports; heuristic symbol chunks only a definition. */
+function codeGraphOf(chunk: { meta: any; graph?: CodeGraph }): CodeGraph | undefined {
+    if (chunk.graph) return chunk.graph;
+    return chunk.meta?.symbol ? { symbol: chunk.meta.symbol, symbolType: chunk.meta.symbolType } : undefined;
+}
+
+/** Memory tags for an indexed chunk; docs and config chunks (DocumentChunker) are tagged `doc` rather than `symbol`. */
+function codeTags(meta: any, symbols: boolean): string[] {
+    return ['code', meta?.language || 'unknown', ...(meta?.document ? ['doc'] : symbols ? ['symbol'] : [])];
+}
+
+/** Compact, content-free view of a graph hit for listings and --json. */
+type GraphHitView = Omit<CodeGraphHit, 'content'> & { kind?: string };
+
+function graphHitView(h: CodeGraphHit & { kind?: string }): GraphHitView {
+    return { id: h.id, symbol: h.symbol, symbolType: h.symbolType, ...(h.parentSymbol ? { parentSymbol: h.parentSymbol } : {}), file: h.file, lineStart: h.lineStart, lineEnd: h.lineEnd, ...(h.kind ? { kind: h.kind } : {}) };
+}
+
+function graphHitLabel(h: GraphHitView): string {
+    const loc = h.file ? `${h.file}:${h.lineStart}-${h.lineEnd}` : '(no file)';
+    const name = symbolPath(h);
+    return name ? `${name}${h.symbolType ? ` (${h.symbolType})` : ''} ${loc}` : loc;
+}
+
+/** Display path of a symbol chunk: `Class.method` for members, the plain name otherwise. */
+function symbolPath(meta: { symbol?: string; parentSymbol?: string; headingPath?: string[]; keys?: string[] }): string | undefined {
+    // Markdown sections and config keys (DocumentChunker) have no symbol
+    if (!meta.symbol) return meta.headingPath?.length ? meta.headingPath.join(' > ') : meta.keys?.join(', ');
+    return meta.parentSymbol ? `${meta.parentSymbol}.${meta.symbol}` : meta.symbol;
+}
+
 function pathMatches(globs: string[] | undefined, file: string): boolean {
     if (!globs || !globs.length) return true;
     const unix = file.replace(/\\/g, '/');
@@ -75,6 +152,10 @@ export class CodeContextCLI {
     private proEnabled: boolean = false;
     private proMarkerPath: string = path.join(process.cwd(), '.antigoldfishmode', 'pro.enabled');
     private nudgesShown: Set<string> = new Set();
+    // Set while a command runs under `agm mcp serve`: --json payloads go here instead of stdout
+    private jsonSink?: (data: any) => void;
+    // Embedder resolved for the current --embedder/policy mode (see embedder())
+    private resolvedEmbedder?: { mode: string; embedder: Embedder };
 
     constructor(projectPath: string = process.cwd(), skipValidation: boolean = false, devMode: boolean = false, secureMode: boolean = false) {
         this.memoryEngine = new MemoryEngine(projectPath, skipValidation, devMode, secureMode);
@@ -97,6 +178,9 @@ export class CodeContextCLI {
             .option('--dry-run', 'Simulate without side effects')
             .option('--json', 'Emit machine-readable receipts')
             .option('--explain', 'Explain what and why before running')
+            .option('--vector-backend <mode>', 'Vector backend: auto|local|vss|hnsw (default: policy.vectorBackend, else auto)')
+            .option('--ef-search <n>', 'HNSW query breadth (default: policy.hnsw.efSearch, else 64)')
+            .option('--embedder <name>', 'Embedder: transformers|local-hash|auto (default: policy.embedder, else transformers)')
 
         // AntiGoldfishMode remember command (unlimited)
         this.program
@@ -105,6 +189,7 @@ export class CodeContextCLI {
             .argument('<content>', 'Content to remember')
             .option('-c, --context <context>', 'Context for the memory', 'general')
             .option('-t, --type <type>', 'Type of memory', 'general')
+            .option('--tags <tags>', 'Comma-separated tags')
             .action(async (content: string, options) => {
                 await this.handleRemember(content, options);
             });
@@ -115,10 +200,38 @@ export class CodeContextCLI {
             .description('Search unlimited local memories')
             .argument('<query>', 'Search query')
             .option('-l, --limit <limit>', 'Maximum results to return', '10')
+            .option('--hybrid', 'Rerank keyword hits with vector cosine (BM25 + cosine fusion, as in search-code)')
+            .option('--rerank <N>', 'Hybrid: number of FTS candidates to rerank (default: 100, max 100)')
+            .option('--type <type>', 'Only memories of this type')
+            .option('--context <context>', 'Only memories with this context')
+            .option('--tags <tags>', 'Only memories carrying all of these comma-separated tags')
             .action(async (query: string, options) => {
                 await this.handleRecall(query, options);
             });
 
+        // Memory maintenance: delete and edit
+        this.program
+            .command('forget')
+            .description('Delete memories by id or by selector (use --dry-run to preview)')
+            .argument('[ids...]', 'Memory IDs to delete')
+            .option('--context <context>', 'Select memories with this context')
+            .option('--type <type>', 'Select memories with this type')
+            .option('--before <date>', 'Select memories created before this date (e.g. 2025-01-31)')
+            .action(async (ids: string[], options) => {
+                await this.handleForget(ids, options);
+            });
+
+        this.program
+            .command('edit')
+            .description('Edit a memory\'s content, tags or type (re-embeds when content changes)')
+            .argument('<id>', 'Memory ID')
+            .option('--content <content>', 'New content')
+            .option('--tags <tags>', 'Comma-separated tags (replaces existing)')
+            .option('--type <type>', 'New type')
+            .action(async (id: string, options) => {
+                await this.handleEdit(id, options);
+            });
+
     // Execute command removed – product focuses on persistent memory only
 
         // AntiGoldfishMode status command
@@ -146,8 +259,10 @@ export class CodeContextCLI {
         this.program
             .command('vector-status')
             .description('Show vector backend and index status')
-            .action(async () => {
-                await this.handleVectorStatus();
+            .option('--recall-k <k>', 'HNSW: k for the recall@k measurement', '10')
+            .option('--recall-sample <n>', 'HNSW: number of stored vectors used as sample queries', '50')
+            .action(async (opts: any) => {
+                await this.handleVectorStatus(opts);
             });
 
         // Journal commands
@@ -182,9 +297,17 @@ export class CodeContextCLI {
             .option('--path <dir>', 'Root directory to index')
             .option('--max-chunk <lines>', 'Max lines per chunk (default: 200)')
             .option('--include <glob...>', 'Include patterns (space-separated, supports ** and *)')
-            .option('--exclude <glob...>', 'Exclude patterns (space-separated, supports ** and *)')
+            .option('--exclude <glob...>', 'Exclude patterns (gitignore syntax; applied on top of .gitignore/.agmignore and the default excludes)')
             .option('--symbols', 'Use symbol-aware chunking (functions/classes) where supported')
+            .option('--chunk-overlap <lines>', 'Lines repeated at the start of the next line chunk (default 0; must be below --max-chunk)')
+            .option('--max-tokens <n>', 'Split chunks longer than this many embedding tokens (default and maximum: the model input window, 512 for e5)')
             .option('--diff', 'Skip files whose content digest matches existing indexed version (faster re-run)')
+            .option('--max-file-size <size>', 'Skip files larger than this (bytes, or with k/m suffix; default 1m)')
+            .option('--max-line-length <n>', 'Line length past which lines count as minified; files made mostly of such lines are skipped (default 1000)')
+            .option('--prune-missing', 'Remove chunks (and vectors) of files that no longer exist')
+            .option('--since <rev>', 'Only index files git reports as changed since <rev> (working tree included); renames move existing chunks')
+            .option('--concurrency <n>', 'Worker threads for reading and chunking files (default: CPU cores - 1, max 8; 1 = no workers)')
+            .option('--batch-size <n>', 'Chunks per embedding call and per database transaction (default 32)')
             .action(async (opts: any) => { await this.handleIndexCode(opts); });
 
         // Watch mode for incremental code indexing
@@ -194,9 +317,11 @@ export class CodeContextCLI {
             .option('--path <dir>', 'Root directory to watch')
             .option('--max-chunk <lines>', 'Max lines per chunk (default: 200)')
             .option('--include <glob...>', 'Include patterns (space-separated, supports ** and *)')
-            .option('--exclude <glob...>', 'Exclude patterns (space-separated, supports ** and *)')
+            .option('--exclude <glob...>', 'Exclude patterns (gitignore syntax; applied on top of .gitignore/.agmignore and the default excludes)')
             .option('--symbols', 'Use symbol-aware chunking (functions/classes) where supported')
             .option('--debounce <ms>', 'Debounce batch interval in ms (default: 400)')
+            .option('--max-file-size <size>', 'Skip files larger than this (bytes, or with k/m suffix; default 1m)')
+            .option('--max-line-length <n>', 'Line length past which lines count as minified; files made mostly of such lines are skipped (default 1000)')
             .action(async (opts: any) => { await this.handleWatchCode(opts); });
 
         this.program
@@ -205,20 +330,113 @@ export class CodeContextCLI {
             .option('-k, --topk <k>', 'Top K results', '20')
             .option('-n, --preview <lines>', 'Show first N lines of each result')
             .option('-p, --filter-path <globs...>', 'Only show results whose metadata.file matches any of the provided globs')
-            .option('--filter-symbol <types...>', 'Filter by symbol type(s): function|class|struct|file')
-            .option('--filter-language <langs...>', 'Filter by language(s): typescript|javascript|python|go')
+            .option('--filter-symbol <types...>', 'Filter by symbol type(s): function|method|class|struct|interface|trait|impl|enum|file; docs/config: section|operation|schema|key')
+            .option('--filter-language <langs...>', 'Filter by language(s): typescript|javascript|python|go|rust|java|csharp|markdown|yaml|json|toml')
 
             .option('--hybrid', 'Use hybrid FTS+vector fusion (Stage 1)')
             .option('--semantic', 'Alias for --hybrid (semantic rerank)')
             .option('--rerank <N>', 'Rerank top N FTS results with vector cosine (default 200)')
+            .option('--vector-first', 'Union FTS hits with the top vector neighbours and fuse by Reciprocal Rank Fusion (finds chunks without keyword overlap; implies --hybrid)')
+            .option('--vector-k <N>', 'Vector-first: number of vector neighbours to add as candidates (default 50)')
+            .option('--profile <name>', 'Ranking profile (built-in: default|identifier|conceptual, or one saved with `agm ranking save`)')
+            .option('--fusion <mode>', 'Fusion of keyword and vector scores: weighted|rrf|max (default: weighted, rrf with --vector-first)')
+            .option('--bm25-weight <w>', 'Weight of the keyword (BM25) score (default 0.5)')
+            .option('--cosine-weight <w>', 'Weight of the vector (cosine) score (default 0.5)')
+            .option('--recency-weight <w>', 'Boost recently indexed chunks by up to 1+w (default 0 = off)')
+            .option('--recency-half-life <days>', 'Days after which the recency boost halves (default 30)')
+            .option('--path-boost <glob=factor...>', 'Multiply scores of chunks whose file matches the glob (e.g. src/**=1.2 test/**=0.8)')
+            .option('--expand-neighbors [n]', 'Add up to n definitions of symbols each hit references (calls first; default 3; needs index-code --symbols)')
             .action(async (query: string, opts: any) => { await this.handleSearchCode(query, opts); });
 
+        this.program
+            .command('eval')
+            .description('Measure retrieval quality on labelled queries (recall@k, MRR, nDCG) in fts, hybrid and vector modes')
+            .requiredOption('--queries <file>', 'JSONL of labelled queries: {"query": "...", "file": "src/x.ts", "symbol"?: "name"} or {"query": "...", "expected": [...]}')
+            .option('-k, --topk <k>', 'Cutoff for the metrics (default 10)')
+            .option('--modes <list>', 'Comma-separated: fts,hybrid,vector (default all; vector = search-code --vector-first)')
+            .option('--rerank <N>', 'Hybrid/vector: FTS candidates to rerank (default 200)')
+            .option('--vector-k <N>', 'Vector mode: vector neighbours added as candidates (default 50)')
+            .option('--profile <name>', 'Ranking profile for hybrid/vector modes')
+            .action(async (opts: any) => { await this.handleEval(opts); });
+
+        this.program
+            .command('refs <symbol>')
+            .description('Show definitions of a symbol and the code chunks that reference it (graph from index-code --symbols)')
+            .option('--limit <n>', 'Max rows per list (default 50)')
+            .action(async (symbol: string, opts: any) => { await this.handleSymbolRefs(symbol, opts, 'refs'); });
+
+        this.program
+            .command('callers <symbol>')
+            .description('Show the code chunks that call a symbol (graph from index-code --symbols)')
+            .option('--limit <n>', 'Max rows (default 50)')
+            .action(async (symbol: string, opts: any) => { await this.handleSymbolRefs(symbol, opts, 'callers'); });
+
+        this.program
+            .command('deps <file>')
+            .description('Show the modules an indexed file imports and the indexed files that import it')
+            .action(async (file: string, opts: any) => { await this.handleDeps(file, opts); });
+
+        const ranking = this.program.command('ranking').description('Manage named ranking profiles for hybrid search (.antigoldfishmode/ranking-profiles.json)');
+        ranking
+            .command('list')
+            .description('List built-in and project ranking profiles with their effective parameters')
+            .action(async () => { await this.handleRankingList(); });
+        ranking
+            .command('save <name>')
+            .description('Save (or update) a project ranking profile; unspecified parameters keep the base profile values')
+            .option('--from <profile>', 'Start from this profile (default: the existing profile of that name, else default)')
+            .option('--fusion <mode>', 'weighted|rrf|max')
+            .option('--bm25-weight <w>', 'Weight of the keyword (BM25) score')
+            .option('--cosine-weight <w>', 'Weight of the vector (cosine) score')
+            .option('--symbol-boost <f>', 'Multiplier for symbol chunks (1 = off)')
+            .option('--recency-weight <w>', 'Boost recently indexed chunks by up to 1+w (0 = off)')
+            .option('--recency-half-life <days>', 'Days after which the recency boost halves')
+            .option('--path-boost <glob=factor...>', 'Per-path multipliers (replaces the profile\'s path boosts)')
+            .option('--default', 'Use this profile when search-code is run without --profile')
+            .action(async (name: string, opts: any) => { await this.handleRankingSave(name, opts); });
+
+        const models = this.program.command('models').description('Manage embedding models (.antigoldfishmode/models.json); vectors record the model that made them');
+        models
+            .command('list')
+            .description('List cached and registered embedding models with their measured dimensions and stored vectors')
+            .action(async () => { await this.handleModelsList(); });
+        models
+            .command('use <model>')
+            .description('Make <model> the active embedding model for indexing and search (existing vectors need agm reembed)')
+            .action(async (model: string) => { await this.handleModelsUse(model); });
+        models
+            .command('verify [model]')
+            .description('Load a model (default: the active one), measure its output dimension and check the stored vectors against it')
+            .action(async (model: string | undefined) => { await this.handleModelsVerify(model); });
+        models
+            .command('import <pack>')
+            .description('Install a model pack (directory, .tar, .tar.gz/.tgz or .zip) after checking its SHA-256 manifest and optional ED25519 signature')
+            .option('--use', 'Make the installed model the active one')
+            .option('--force', 'Replace an installed copy of the model that has different files')
+            .option('--allow-unsigned', 'Allow an unsigned pack when policy.requireSignedModels=true (requires agm policy trust models)')
+            .action(async (pack: string, opts: any) => { await this.handleModelsImport(pack, opts); });
+        models
+            .command('export [model]')
+            .description('Write a cached model (default: the active one) as a model pack for offline machines')
+            .requiredOption('--out <path>', 'Output directory, or a .tar/.tar.gz/.tgz file')
+            .option('--sign', 'Sign the manifest with the project ED25519 key (as signed .agmctx exports)')
+            .action(async (model: string | undefined, opts: any) => { await this.handleModelsExport(model, opts); });
+
+        this.program
+            .command('reembed')
+            .description('Re-embed memories whose vectors another model produced with the active model (resumable)')
+            .option('--model <id>', 'Switch to this model first (as models use)')
+            .option('--batch-size <n>', 'Texts per embedding call and per database transaction (default 32)')
+            .option('--background', 'Run detached; follow with agm reembed --status (output in .antigoldfishmode/reembed.log)')
+            .option('--status', 'Show the progress of the running or last run')
+            .action(async (opts: any) => { await this.handleReembed(opts); });
+
         // Maintenance utilities for indexing cache
         this.program
             .command('digest-cache')
-            .description('Manage persistent digest cache for watch-code')
-            .option('--clear', 'Clear all file digests')
-            .option('--list', 'List recent digest entries')
+            .description('Manage the file digest cache used by index-code --diff, watch-code and reindex-*')
+            .option('--clear', 'Clear all file digests (the next index-code --diff re-indexes everything)')
+            .option('--list', 'List recent digest entries with the chunking strategy they were indexed with')
             .option('--limit <n>', 'Limit for --list (default 50)')
             .action(async (opts: any) => { await this.handleDigestCache(opts); });
 
@@ -226,6 +444,9 @@ export class CodeContextCLI {
             .command('reindex-file <file>')
             .description('Force reindex a single file (bypass digest cache)')
             .option('--symbols', 'Use symbol-aware chunking')
+            .option('--chunk-overlap <lines>', 'Lines repeated at the start of the next line chunk (default 0; must be below 200)')
+            .option('--max-file-size <size>', 'Skip the file if it is larger than this (bytes, or with k/m suffix; default 1m)')
+            .option('--max-line-length <n>', 'Line length past which lines count as minified; files made mostly of such lines are skipped (default 1000)')
             .action(async (file: string, opts: any) => { await this.handleReindexFile(file, opts); });
 
         this.program
@@ -233,8 +454,11 @@ export class CodeContextCLI {
             .description('Force reindex all files in a folder (recursive, bypass digest cache)')
             .option('--symbols', 'Use symbol-aware chunking')
             .option('--include <glob...>', 'Include patterns (space-separated, supports ** and *)')
-            .option('--exclude <glob...>', 'Exclude patterns (space-separated, supports ** and *)')
+            .option('--exclude <glob...>', 'Exclude patterns (gitignore syntax; applied on top of .gitignore/.agmignore and the default excludes)')
             .option('--max-chunk <lines>', 'Max lines per chunk (default: 200)')
+            .option('--chunk-overlap <lines>', 'Lines repeated at the start of the next line chunk (default 0; must be below --max-chunk)')
+            .option('--max-file-size <size>', 'Skip files larger than this (bytes, or with k/m suffix; default 1m)')
+            .option('--max-line-length <n>', 'Line length past which lines count as minified; files made mostly of such lines are skipped (default 1000)')
             .action(async (folder: string, opts: any) => { await this.handleReindexFolder(folder, opts); });
 
         // GC maintenance
@@ -289,6 +513,8 @@ export class CodeContextCLI {
             .command('import-context <file>')
             .description('Verify and import a .agmctx; if policy.requireSignedContext=true, unsigned imports are blocked unless trusted and --allow-unsigned is set.')
             .option('--allow-unsigned', 'Allow unsigned import when trusted via policy trust')
+            .option('--preview', 'Show new/changed/identical/conflicting chunks vs the local DB without importing')
+            .option('--strategy <strategy>', 'How to apply changed/conflicting chunks: skip|replace|keep-both', 'keep-both')
             .action(async (file: string, opts: any) => { await this.handleImportContext(file, opts); });
 
         // AI Assistant Instructions command
@@ -326,6 +552,25 @@ export class CodeContextCLI {
             .option('--path <fileOrDir>', 'File/dir to test')
             .description('Explain if a command/path would be permitted and how to fix')
             .action(async (opts: any) => { await this.handlePolicyDoctor(opts); });
+        policy
+            .command('vector-backend <mode>')
+            .description('Set the default vector backend for this project (auto|local|vss|hnsw)')
+            .action(async (mode: string) => { await this.handlePolicyVectorBackend(mode); });
+        policy
+            .command('embedder <name>')
+            .description('Set the default embedder for this project (transformers|local-hash|auto)')
+            .action(async (name: string) => { await this.handlePolicyEmbedder(name); });
+        policy
+            .command('secrets <mode>')
+            .description('Set how secrets found in indexed code are handled (block|redact|warn; default redact)')
+            .action(async (mode: string) => { await this.handlePolicySecrets(mode); });
+        policy
+            .command('hnsw')
+            .description('Tune the HNSW index (M and efConstruction rebuild the graph; efSearch applies to queries)')
+            .option('--m <n>', 'Max links per node (default 16)')
+            .option('--ef-construction <n>', 'Insert-time candidate list size (default 200)')
+            .option('--ef-search <n>', 'Query-time candidate list size (default 64)')
+            .action(async (opts: any) => { await this.handlePolicyHnsw(opts); });
         policy
             .command('trust <cmd>')
             .option('--minutes <m>', 'Trust duration in minutes', '15')
@@ -370,6 +615,13 @@ export class CodeContextCLI {
             .description('Prune archived keys older than --days (default 30)')
             .option('--days <n>', 'Age in days (default 30)')
             .action(async (opts: any) => { await this.handleKeyPrune(opts); });
+
+        // MCP (Model Context Protocol) stdio server for agents
+        const mcp = this.program.command('mcp').description('Model Context Protocol integration (stdio only, no network)');
+        mcp
+            .command('serve')
+            .description('Serve remember/recall/search-code/index-code/receipt-show as MCP tools over stdio')
+            .action(async () => { await this.handleMcpServe(); });
     }
 
     // --- Soft Pro status (honor-system) helpers ---
@@ -485,6 +737,276 @@ export class CodeContextCLI {
         }
     }
 
+    /**
+     * Print an import-context preview: counts per status, then the chunks that would change the DB.
+     * Identical chunks are only counted; new/changed/conflicting are listed (capped per status).
+     */
+    private printImportPreview(diff: ContextDiff, strategy: string, json: boolean): void {
+        if (json) {
+            console.log(JSON.stringify({ strategy, counts: diff.counts, entries: diff.entries.filter(e => e.status !== 'identical') }, null, 2));
+            return;
+        }
+        const { counts } = diff;
+        console.log(chalk.cyan(`🔎 Import preview (strategy=${strategy}): new=${counts.new} changed=${counts.changed} identical=${counts.identical} conflicting=${counts.conflicting}`));
+        const cap = 50;
+        const labels: Array<[ 'new'|'changed'|'conflicting', string, (t: string) => string ]> = [
+            ['new', '+ new        ', chalk.green],
+            ['changed', '~ changed    ', chalk.yellow],
+            ['conflicting', '! conflicting', chalk.red],
+        ];
+        for (const [status, label, color] of labels) {
+            const rows = diff.entries.filter(e => e.status === status);
+            for (const e of rows.slice(0, cap)) {
+                const where = e.file ? `${e.file}:${e.lineStart ?? '?'}-${e.lineEnd ?? '?'}` : `(note #${e.id})`;
+                const local = e.localIds.length ? chalk.gray(` local #${e.localIds.join(', #')}`) : '';
+                console.log(`   ${color(label)} ${where}${local}`);
+            }
+            if (rows.length > cap) console.log(chalk.gray(`   … ${rows.length - cap} more ${status}`));
+        }
+        const effect = strategy === 'skip' ? 'changed/conflicting chunks will be skipped (local kept)'
+            : strategy === 'replace' ? 'changed/conflicting chunks will replace the overlapping local chunks'
+            : 'changed/conflicting chunks will be added next to the local ones';
+        console.log(chalk.gray(`   On import: ${effect}. No changes were made.`));
+    }
+
+    /**
+     * Secret scanner for this run, in the mode from policy.secretScanning (default redact).
+     */
+    private async createSecretScanner(): Promise<SecretScanner> {
+        const { SecretScanner, DEFAULT_SECRET_MODE } = await import('./codeindex/SecretScanner.js');
+        return new SecretScanner(this.policyBroker.getPolicy().secretScanning || DEFAULT_SECRET_MODE);
+    }
+
+    /**
+     * Apply the secret-scanning policy to a code chunk before it is stored: returns the (possibly redacted) chunk
+     * with findings in metadata.secrets, or null when policy blocks it.
+     */
+    private screenSecrets<T extends { text: string; meta: any }>(scanner: SecretScanner, chunk: T): T | null {
+        const res = scanner.screen(chunk.text, chunk.meta || {});
+        if (!res.findings.length) return chunk;
+        const where = `${chunk.meta?.file || '?'}:${res.findings.map(f => f.line).join(',')}`;
+        const rules = Array.from(new Set(res.findings.map(f => f.rule))).join(', ');
+        const outcome = res.blocked ? 'chunk not indexed (policy: block)' : scanner.mode === 'redact' ? 'redacted' : 'stored unredacted (policy: warn)';
+        console.warn(chalk.yellow(`⚠️  Possible secret in ${where} (${rules}): ${outcome}`));
+        if (res.blocked) return null;
+        return { ...chunk, text: res.text, meta: { ...chunk.meta, secrets: { mode: scanner.mode, findings: res.findings } } };
+    }
+
+    /**
+     * Per-file skip limits from --max-file-size / --max-line-length (defaults apply when omitted).
+     */
+    private async fileFilterOptions(opts: any): Promise<{ maxFileBytes?: number; maxLineLength?: number }> {
+        const { parseByteSize } = await import('./codeindex/FileFilters.js');
+        const out: { maxFileBytes?: number; maxLineLength?: number } = {};
+        if (opts.maxFileSize !== undefined) out.maxFileBytes = parseByteSize(opts.maxFileSize);
+        if (opts.maxLineLength !== undefined) {
+            const n = parseInt(opts.maxLineLength, 10);
+            if (!(n > 0)) throw new Error(`Invalid --max-line-length: ${opts.maxLineLength}`);
+            out.maxLineLength = n;
+        }
+        return out;
+    }
+
+    /**
+     * Requested vector backend for this command: --vector-backend, else policy.vectorBackend, else auto.
+     */
+    private requestedVectorBackend(): { mode: string; source: 'flag' | 'policy' | 'default' } {
+        const flag = this.program.opts().vectorBackend as string | undefined;
+        if (flag) return { mode: flag, source: 'flag' };
+        const pol = this.policyBroker.getPolicy().vectorBackend;
+        return pol ? { mode: pol, source: 'policy' } : { mode: 'auto', source: 'default' };
+    }
+
+    /**
+     * Open the IVectorIndex used for indexing and search (requires an initialized database).
+     */
+    private async openVectorIndex(model: string = this.embedder().getModelId()): Promise<{ index: IVectorIndex; mode: string; source: string; backend: string; model: string; note?: string }> {
+        const requested = this.requestedVectorBackend();
+        const { openMemoryVectorIndex } = await import('./engine/vector/MemoryVectorIndex.js');
+        const efSearch = this.program.opts().efSearch !== undefined ? parseInt(this.program.opts().efSearch, 10) : undefined;
+        const hnsw = { ...(this.policyBroker.getPolicy().hnsw || {}), ...(efSearch ? { efSearch } : {}) };
+        const opened = await openMemoryVectorIndex(this.memoryEngine.database, requested.mode, { projectRoot: process.cwd(), hnsw, model });
+        return { ...opened, source: requested.source };
+    }
+
+    /**
+     * Requested embedder for this command: --embedder, else policy.embedder, else transformers.
+     */
+    private requestedEmbedder(): { mode: string; source: 'flag' | 'policy' | 'default' } {
+        const flag = this.program.opts().embedder as string | undefined;
+        if (flag) return { mode: flag, source: 'flag' };
+        const pol = this.policyBroker.getPolicy().embedder;
+        return pol ? { mode: pol, source: 'policy' } : { mode: 'transformers', source: 'default' };
+    }
+
+    /**
+     * The Embedder used for indexing and queries; memoized so every call in one command agrees (auto is resolved once).
+     */
+    private embedder(): Embedder {
+        const mode = this.requestedEmbedder().mode;
+        if (this.resolvedEmbedder?.mode !== mode) this.resolvedEmbedder = { mode, embedder: createEmbedder(process.cwd(), mode) };
+        return this.resolvedEmbedder.embedder;
+    }
+
+    /**
+     * Load an embedder for indexing. Returns false, after a warning, when its model is not cached or fails to load, so
+     * the caller stores chunks without vectors (transformers.js is never loaded without model files).
+     */
+    private async initEmbedder(provider: Embedder, trace?: boolean): Promise<boolean> {
+        if (!provider.isModelCached()) {
+            console.log(chalk.yellow(`⚠️ Embedding model ${provider.getModelId()} is not cached. Continuing without vectors; --embedder local-hash needs no model files.`));
+            return false;
+        }
+        return provider.init().then(() => true, (e: unknown) => {
+            console.log(chalk.yellow(`⚠️ Embedding provider init failed (${provider.name}). Continuing without vectors; --embedder local-hash needs no model files.`));
+            if (trace) console.log(String(e));
+            return false;
+        });
+    }
+
+    /**
+     * Embed a search query with the selected embedder. Returns no vector, plus a warning for --json output, when the
+     * embedder cannot start (e.g. no cached transformers model) or the index holds another model's vectors.
+     */
+    private async embedQuery(query: string, index: IVectorIndex, label: string, trace?: boolean): Promise<{ vec: Float32Array | null; embedder: { name: string; model: string }; warning?: string }> {
+        const provider = this.embedder();
+        const embedder = { name: provider.name, model: provider.getModelId() };
+        const hint = provider.name === 'transformers' ? ' (use --embedder local-hash or auto on hosts without model files)' : '';
+        if (!provider.isModelCached()) {
+            if (trace) console.log(`${label}: ${embedder.model} is not in the local model cache; using FTS only.`);
+            return { vec: null, embedder, warning: `embedding model ${embedder.model} is not cached; results are FTS-only${hint}` };
+        }
+        try {
+            await provider.init();
+            const vec = await provider.embed(query);
+            if (index.model && index.model !== embedder.model) {
+                if (trace) console.log(`${label}: index holds ${index.model} vectors but the query was embedded with ${embedder.model}; using FTS only.`);
+                return { vec: null, embedder, warning: `index holds ${index.model} vectors but the query embedder is ${embedder.model}; results are FTS-only` };
+            }
+            return { vec, embedder };
+        } catch (e) {
+            if (trace) console.log(`${label}: embedding init failed, falling back to FTS only. Error:`, String(e));
+            return { vec: null, embedder, warning: `embedder ${embedder.name} (${embedder.model}) unavailable; results are FTS-only${hint}` };
+        }
+    }
+
+    /**
+     * Hybrid rerank shared by search-code and recall: embeds the query and fuses each FTS candidate's BM25
+     * relevance with the vector score according to the ranking profile (weighted by default, 0.5/0.5), then applies
+     * the profile's symbol/recency/path boosts. Candidates are scored through the selected IVectorIndex
+     * (sqlite-vss k-NN distances or exact local cosine). Falls back to plain FTS order when the query cannot be embedded.
+     */
+    private async hybridRerank<T extends { id: number; relevance: number; metadata?: string; timestamp?: string | Date }>(
+        query: string,
+        results: T[],
+        opts: { topk: number; rerankN: number; ranking: RankingParams; symbolBias?: boolean; trace?: boolean; vectors?: { index: IVectorIndex; backend: string } }
+    ): Promise<{ results: T[]; backend: string; embedded: boolean; embedder: { name: string; model: string }; warning?: string }> {
+        const take = Math.min(opts.topk, results.length);
+        const vectors = opts.vectors ?? await this.openVectorIndex();
+        const { vec: queryVec, embedder, warning } = await this.embedQuery(query, vectors.index, 'Hybrid mode', opts.trace);
+        if (!queryVec) return { results: results.slice(0, opts.topk), backend: vectors.backend, embedded: false, embedder, warning };
+
+        // Score the FTS candidates through the selected backend (exact cosine for local-js, k-NN distance for sqlite-vss)
+        const neighbours = await vectors.index.query(queryVec, { k: opts.rerankN, ids: results.map(r => r.id) }).catch(() => []);
+        const scoreOf = new Map<number, number>(neighbours.map(n => [n.id, n.score]));
+        const { fuseCandidates } = await import('./engine/RankFusion.js');
+        const fusedOf = fuseCandidates(results.map(r => ({ id: r.id, bm25: r.relevance ?? 0, cosine: scoreOf.get(r.id) })), {
+            fusion: opts.ranking.fusion || 'weighted', bm25Weight: opts.ranking.bm25Weight, cosineWeight: opts.ranking.cosineWeight,
+        });
+        const now = Date.now();
+        const scored = results.map(r => {
+            const fused = (fusedOf.get(r.id) ?? 0) * rankingBoost(opts.ranking, r, { symbolBias: opts.symbolBias, now });
+            return { r, bm25: r.relevance ?? 0, cos: scoreOf.get(r.id) ?? 0, fused };
+        });
+        scored.sort((a,b) => b.fused - a.fused);
+        return { results: scored.slice(0, take).map(s => Object.assign({}, s.r, { relevance: s.fused, _bm25: s.bm25, _cos: s.cos })), backend: vectors.backend, embedded: true, embedder };
+    }
+
+    /**
+     * Vector-first retrieval: union the FTS candidates with the query's top vector neighbours from the active
+     * IVectorIndex and fuse them per the ranking profile (Reciprocal Rank Fusion unless another fusion is chosen),
+     * so chunks with no keyword overlap can still be returned. Falls back to FTS order when the query cannot be embedded.
+     */
+    private async vectorFirstSearch(
+        query: string,
+        ftsResults: SearchResult[],
+        opts: { topk: number; vectorK: number; ranking: RankingParams; type?: string; context?: string; tags?: string[]; symbolBias?: boolean; trace?: boolean; vectors?: { index: IVectorIndex; backend: string } }
+    ): Promise<{ results: Array<SearchResult & { _bm25?: number; _cos?: number }>; backend: string; embedded: boolean; embedder: { name: string; model: string }; warning?: string; candidates: { fts: number; vector: number; union: number } }> {
+        const vectors = opts.vectors ?? await this.openVectorIndex();
+        const { vec: queryVec, embedder, warning } = await this.embedQuery(query, vectors.index, 'Vector-first', opts.trace);
+        if (!queryVec) {
+            return { results: ftsResults.slice(0, opts.topk), backend: vectors.backend, embedded: false, embedder, warning, candidates: { fts: ftsResults.length, vector: 0, union: ftsResults.length } };
+        }
+
+        // The index holds every kind of memory; over-fetch, then keep neighbours matching the requested filters
+        const neighbours = await vectors.index.query(queryVec, { k: opts.vectorK * 4 });
+        const rows = await this.memoryEngine.database.getMemoriesByIds(neighbours.map(n => n.id), { type: opts.type, context: opts.context, tags: opts.tags });
+        const rowById = new Map(rows.map(r => [r.id, r]));
+        const vectorHits = neighbours.filter(n => rowById.has(n.id)).slice(0, opts.vectorK);
+        const cosById = new Map(vectorHits.map(n => [n.id, n.score]));
+        const ftsById = new Map(ftsResults.map(r => [r.id, r]));
+        const fusion = opts.ranking.fusion || 'rrf';
+        if (fusion !== 'rrf') {
+            // Score fusion needs a vector score for keyword-only hits too (RRF only uses the neighbour ranking)
+            const missing = ftsResults.filter(r => !cosById.has(r.id)).map(r => r.id);
+            if (missing.length) {
+                const extra = await vectors.index.query(queryVec, { k: missing.length, ids: missing }).catch(() => []);
+                for (const n of extra) cosById.set(n.id, n.score);
+            }
+        }
+
+        const { fuseCandidates } = await import('./engine/RankFusion.js');
+        const candidates = [
+            ...ftsResults.map(r => ({ id: r.id, bm25: r.relevance ?? 0, cosine: cosById.get(r.id) })),
+            ...vectorHits.filter(n => !ftsById.has(n.id)).map(n => ({ id: n.id, bm25: undefined, cosine: n.score })),
+        ];
+        const fusedOf = fuseCandidates(candidates, { fusion, bm25Weight: opts.ranking.bm25Weight, cosineWeight: opts.ranking.cosineWeight });
+        const now = Date.now();
+        const scored = candidates.map(c => {
+            const base = ftsById.get(c.id) || rowById.get(c.id)!;
+            return { base, score: (fusedOf.get(c.id) ?? 0) * rankingBoost(opts.ranking, base, { symbolBias: opts.symbolBias, now }) };
+        });
+        scored.sort((a, b) => b.score - a.score);
+        const results = scored.slice(0, opts.topk).map(({ base, score }) => {
+            const fts = ftsById.get(base.id);
+            return Object.assign({}, base, { relevance: score, _bm25: fts?.relevance, _cos: cosById.get(base.id) });
+        });
+        return { results, backend: vectors.backend, embedded: true, embedder, candidates: { fts: ftsResults.length, vector: vectorHits.length, union: candidates.length } };
+    }
+
+    /**
+     * Emit a machine-readable (--json) payload: printed to stdout, or handed to the MCP server when serving.
+     */
+    private emitJson(data: any): void {
+        if (this.jsonSink) { this.jsonSink(data); return; }
+        console.log(JSON.stringify(data, null, 2));
+    }
+
+    private async handleMcpServe(): Promise<void> {
+        if (!this.policyBroker.isCommandAllowed('mcp')) {
+            console.error(chalk.red('❌ mcp serve blocked by policy.'));
+            console.error(chalk.gray("   Tip: agm policy allow-command mcp"));
+            process.exit(2);
+        }
+        const { handleMcpServe } = await import('./commands/McpServer.js');
+        // A parse error in one tool call must fail that call, not end the server
+        for (const cmd of [this.program, ...this.program.commands]) cmd.exitOverride();
+        await handleMcpServe({
+            run: async (argv, sink) => {
+                // Handlers close the DB in cleanup(); reset the engine so the next call re-opens it
+                await this.memoryEngine.close();
+                this.jsonSink = sink;
+                try {
+                    await this.program.parseAsync(['node', 'agm', ...argv]);
+                } finally {
+                    this.jsonSink = undefined;
+                    await this.cleanup();
+                }
+            }
+        }, this.policyBroker);
+        await this.cleanup();
+    }
+
     private nudgePro(featureKey: string, message: string): void {
         try {
             if (this.proEnabled) return;
@@ -567,12 +1089,34 @@ export class CodeContextCLI {
             }
 
             // Store memory with validation
+            const tags: string[] = typeof options.tags === 'string' ? options.tags.split(',').map((t: string) => t.trim()).filter(Boolean) : [];
             const memoryId = await this.memoryEngine.storeMemory(
                 content,
                 options.context,
-                options.type
+                options.type,
+                tags
             );
 
+            // Embed non-code memories so recall --hybrid can match by meaning (only when the model is cached locally)
+            let vector: { dim: number; embedder: string; model: string } | null = null;
+            if (options.type !== 'code') {
+                try {
+                    const provider = this.embedder();
+                    if (provider.isModelCached()) {
+                        await provider.init();
+                        const vec = await provider.embed(content.trim());
+                        const vectors = await this.openVectorIndex();
+                        await vectors.index.add(memoryId, vec);
+                        await vectors.index.save?.();
+                        vector = { dim: provider.getInfo().dimensions, embedder: provider.name, model: provider.getModelId() };
+                    } else if (tracer.flags.trace) {
+                        console.log(chalk.gray('Embedding skipped: no local model cache (recall --hybrid will use keywords for this memory).'));
+                    }
+                } catch (e) {
+                    if (tracer.flags.trace) console.log('Vector upsert skipped:', String(e));
+                }
+            }
+
             // Report usage locally only (no cloud)
             console.log(chalk.gray('📊 Local usage tracking only'));
 
@@ -580,8 +1124,10 @@ export class CodeContextCLI {
             console.log(chalk.gray(`   ID: ${memoryId}`));
             console.log(chalk.gray(`   Context: ${options.context}`));
             console.log(chalk.gray(`   Type: ${options.type}`));
+            if (tags.length) console.log(chalk.gray(`   Tags: ${tags.join(', ')}`));
+            if (vector) console.log(chalk.gray(`   Vector: ${vector.dim}D`));
 
-            const receipt = tracer.writeReceipt('remember', { contentLen: content.length, context: options.context, type: options.type }, { memoryId }, true);
+            const receipt = tracer.writeReceipt('remember', { contentLen: content.length, context: options.context, type: options.type, tags }, { memoryId, vector }, true);
             tracer.appendJournal({ cmd: 'remember', args: { context: options.context, type: options.type }, receipt });
 
             // Auto-record this AI interaction
@@ -606,7 +1152,7 @@ export class CodeContextCLI {
             console.error(chalk.red('❌ Failed to store memory:'));
             console.error(chalk.red(`   ${error instanceof Error ? error.message : 'Unknown error'}`));
             await this.cleanup();
-            process.exit(1);
+            process.exitCode = 1;
         }
     }
 
@@ -632,50 +1178,83 @@ export class CodeContextCLI {
         try {
             console.log(chalk.cyan('🔍 AntiGoldfishMode - AI Memory Recall'));
 
-            tracer.plan('recall', { query, limit: options.limit });
-            tracer.mirror(`agm recall ${JSON.stringify(query)} --limit ${options.limit}`);
+            const hybrid = !!options.hybrid;
+            const rerankN = Math.min(100, parseInt(options.rerank || '100', 10) || 100);
+            const filters = {
+                type: options.type as string | undefined,
+                context: options.context as string | undefined,
+                tags: typeof options.tags === 'string' ? options.tags.split(',').map((t: string) => t.trim()).filter(Boolean) : undefined
+            };
+            tracer.plan('recall', { query, limit: options.limit, hybrid, rerankN, ...filters });
+            tracer.mirror(`agm recall ${JSON.stringify(query)} --limit ${options.limit}${hybrid ? ` --hybrid --rerank ${rerankN}` : ''}${filters.type ? ` --type ${filters.type}` : ''}${filters.context ? ` --context ${filters.context}` : ''}${filters.tags ? ` --tags ${filters.tags.join(',')}` : ''}`);
 
                 if (tracer.flags.explain) {
-                    console.log(chalk.gray('Explanation: searches stored memories by keyword with relevance scoring.'));
+                    console.log(chalk.gray(hybrid
+                        ? 'Explanation: FTS candidates (bm25) and the query\'s nearest vector neighbours are fused 0.5/0.5 (bm25/cosine), so memories sharing no words with the query can match; memories without vectors keep their keyword score.'
+                        : 'Explanation: searches stored memories by keyword with relevance scoring.'));
                 }
                 if (tracer.flags.json) {
-                    console.log(JSON.stringify({ op: 'recall', query, limit: options.limit }, null, 2));
+                    console.log(JSON.stringify({ op: 'recall', query, limit: options.limit, hybrid, rerankN, ...filters }, null, 2));
                 }
 
 
             const limit = parseInt(options.limit);
             if (isNaN(limit) || limit < 1 || limit > 100) {
                 console.error(chalk.red('❌ Invalid limit: must be a number between 1 and 100'));
-                process.exit(1);
+                process.exitCode = 1;
+                await this.cleanup();
+                return;
             }
 
             if (tracer.flags.dryRun) {
                 console.log(chalk.yellow('DRY-RUN: Skipping searchMemories'));
-                const receipt = tracer.writeReceipt('recall', { query, limit }, { results: [] }, true);
-                tracer.appendJournal({ cmd: 'recall', args: { query, limit }, receipt });
+                const receipt = tracer.writeReceipt('recall', { query, limit, hybrid, rerankN, ...filters }, { results: [] }, true);
+                tracer.appendJournal({ cmd: 'recall', args: { query, limit, hybrid }, receipt });
                 await this.cleanup();
                 return;
             }
 
-            const memories = await this.memoryEngine.searchMemories(query, limit);
+            let memories: Array<MemorySearchResult & { _bm25?: number; _cos?: number }> = hybrid
+                ? await this.memoryEngine.searchMemories(query, Math.max(limit, rerankN), { ...filters, minRelevance: 0 })
+                : await this.memoryEngine.searchMemories(query, limit, filters);
+            let hybridExtras: any = undefined;
+            if (hybrid) {
+                const ranking = resolveRankingParams(process.cwd(), { profile: 'default' }).params;
+                // Union keyword hits with the nearest vector neighbours, so a note worded differently from the query still matches
+                const fused = await this.vectorFirstSearch(query, memories as SearchResult[], { topk: limit, vectorK: rerankN, ranking: { ...ranking, fusion: ranking.fusion || 'weighted' }, ...filters, trace: tracer.flags.trace });
+                memories = fused.results;
+                const fusionWeights = { bm25: ranking.bm25Weight, cosine: ranking.cosineWeight };
+                hybridExtras = { backend: fused.backend, embedder: fused.embedder, embedded: fused.embedded, fusion: ranking.fusion || 'weighted', fusionWeights, rerankN, candidates: fused.candidates, ...(fused.warning ? { warning: fused.warning } : {}) };
+                if (fused.warning) console.error(chalk.yellow(`⚠️ Hybrid: ${fused.warning}`));
+                if (tracer.flags.explain) {
+                    console.log(chalk.gray(`Hybrid details: backend=${fused.backend}, embedder=${fused.embedder.name}(${fused.embedder.model}), fusionWeights={bm25:${fusionWeights.bm25},cosine:${fusionWeights.cosine}}, rerankN=${rerankN}`));
+                }
+            }
 
             console.log(chalk.gray('📊 Local usage tracking only'));
 
-            console.log(chalk.green(`✅ Found ${memories.length} memories for: "${query}"`));
-            console.log('');
-            console.log(chalk.cyan('📋 Results:'));
-            console.log('');
-
-            memories.forEach((memory, index) => {
-                console.log(chalk.yellow(`${index + 1}. Memory ID: ${memory.id}`));
-                console.log(chalk.gray(`   Date: ${new Date(memory.timestamp).toLocaleDateString()}`));
-                console.log(chalk.gray(`   Relevance: ${(memory.relevance * 100).toFixed(1)}%`));
-                console.log(`   Content: ${memory.content}`);
+            if (tracer.flags.json) {
+                this.emitJson({ count: memories.length, results: memories, ...(hybridExtras ? { embedder: hybridExtras.embedder, embedded: hybridExtras.embedded, warnings: hybridExtras.warning ? [hybridExtras.warning] : [] } : {}) });
+            } else {
+                console.log(chalk.green(`✅ Found ${memories.length} memories for: "${query}"`));
                 console.log('');
-            });
+                console.log(chalk.cyan('📋 Results:'));
+                console.log('');
+
+                memories.forEach((memory, index) => {
+                    console.log(chalk.yellow(`${index + 1}. Memory ID: ${memory.id}`));
+                    console.log(chalk.gray(`   Date: ${new Date(memory.timestamp).toLocaleDateString()}`));
+                    console.log(chalk.gray(`   Relevance: ${(memory.relevance * 100).toFixed(1)}%`));
+                    if (hybrid && (memory._bm25 !== undefined || memory._cos !== undefined)) {
+                        console.log(chalk.gray(`   bm=${(memory._bm25 ?? 0).toFixed(3)} v=${(memory._cos ?? 0).toFixed(3)}`));
+                    }
+                    console.log(`   Content: ${memory.content}`);
+                    console.log('');
+                });
+            }
 
-            const receipt = tracer.writeReceipt('recall', { query, limit }, { resultsCount: memories.length }, true);
-            tracer.appendJournal({ cmd: 'recall', args: { query, limit }, receipt });
+            const receipt = tracer.writeReceipt('recall', { query, limit, hybrid, rerankN, ...filters }, { resultsCount: memories.length }, true, undefined, hybridExtras ? { hybrid: hybridExtras } : undefined);
+            tracer.appendJournal({ cmd: 'recall', args: { query, limit, hybrid }, receipt });
 
             const resultSummary = memories.length > 0
                 ? `Found ${memories.length} memories matching "${query}": ${memories.slice(0, 2).map(m => m.content.substring(0, 50) + '...').join(', ')}`
@@ -700,7 +1279,155 @@ export class CodeContextCLI {
             console.error(chalk.red('❌ Failed to recall memories:'));
             console.error(chalk.red(`   ${error instanceof Error ? error.message : 'Unknown error'}`));
             await this.cleanup();
-            process.exit(1);
+            process.exitCode = 1;
+        }
+    }
+
+    /**
+     * Handle forget command - delete memories by id or selector
+     */
+    private async handleForget(idArgs: string[], options: any): Promise<void> {
+    const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const selector = { context: options.context as string | undefined, type: options.type as string | undefined, before: options.before as string | undefined };
+        const hasSelector = !!(selector.context || selector.type || selector.before);
+        try {
+            tracer.plan('forget', { ids: idArgs, ...selector, dryRun: tracer.flags.dryRun });
+            tracer.mirror(`agm forget${idArgs.length ? ' ' + idArgs.join(' ') : ''}${selector.context ? ` --context ${selector.context}` : ''}${selector.type ? ` --type ${selector.type}` : ''}${selector.before ? ` --before ${selector.before}` : ''}${tracer.flags.dryRun ? ' --dry-run' : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: deletes memories by id, or every memory matching all given selectors (--context/--type/--before). Vectors are removed with them. Use --dry-run to preview.'));
+            }
+            if (!idArgs.length && !hasSelector) throw new Error('Provide memory IDs or at least one selector (--context, --type, --before)');
+            if (idArgs.length && hasSelector) throw new Error('Use either memory IDs or selectors, not both');
+            const ids = idArgs.map(v => Number(v));
+            const badId = idArgs.find((v, i) => !Number.isInteger(ids[i]) || ids[i] < 1);
+            if (badId !== undefined) throw new Error(`Invalid memory ID: ${badId}`);
+            if (selector.before) {
+                const t = Date.parse(selector.before);
+                if (isNaN(t)) throw new Error(`Invalid --before date: ${selector.before}`);
+                selector.before = new Date(t).toISOString();
+            }
+
+            await this.memoryEngine.initialize();
+            const db = this.memoryEngine.database;
+            const targets: Array<{ id: number; type: string; context: string; content: string; createdAt: string }> = [];
+            const missing: number[] = [];
+            if (ids.length) {
+                for (const id of Array.from(new Set(ids))) {
+                    const m = await db.getMemoryById(id);
+                    if (m) targets.push({ id, type: m.type, context: m.context, content: m.content, createdAt: m.createdAt });
+                    else missing.push(id);
+                }
+            } else {
+                for (const m of await db.listMemories(selector)) targets.push(m);
+            }
+
+            const dryRun = tracer.flags.dryRun;
+            if (tracer.flags.json) {
+                console.log(JSON.stringify({ op: 'forget', dryRun, matched: targets.map(t => ({ id: t.id, type: t.type, context: t.context })), missing }, null, 2));
+            } else {
+                console.log(chalk.cyan(`🗑️  ${dryRun ? 'Would delete' : 'Deleting'} ${targets.length} memor${targets.length === 1 ? 'y' : 'ies'}`));
+                for (const t of targets.slice(0, 50)) {
+                    console.log(chalk.gray(`   #${t.id} [${t.type}/${t.context}] ${String(t.content).replace(/\s+/g, ' ').slice(0, 60)}`));
+                }
+                if (targets.length > 50) console.log(chalk.gray(`   … ${targets.length - 50} more`));
+                if (missing.length) console.log(chalk.yellow(`⚠️ Not found: ${missing.join(', ')}`));
+            }
+
+            let deleted = 0;
+            if (!dryRun) {
+                for (const t of targets) {
+                    if (await db.deleteMemory(t.id)) deleted++;
+                }
+                console.log(chalk.green(`✅ Deleted ${deleted} memor${deleted === 1 ? 'y' : 'ies'}`));
+            } else {
+                console.log(chalk.yellow('DRY-RUN: nothing deleted'));
+            }
+
+            const params = { ids: idArgs.length ? ids : undefined, selector: hasSelector ? selector : undefined, dryRun };
+            const receipt = tracer.writeReceipt('forget', params, { matched: targets.length, deleted, missing, ids: targets.map(t => t.id) }, true, undefined, { resultSummary: { matched: targets.length, deleted } });
+            tracer.appendJournal({ cmd: 'forget', args: params, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt('forget', { ids: idArgs, selector }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd: 'forget', error: (error as Error).message, receipt });
+            console.error(chalk.red('❌ forget failed:'), error instanceof Error ? error.message : String(error));
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * Handle edit command - update content/tags/type; content edits drop and regenerate the vector
+     */
+    private async handleEdit(idArg: string, options: any): Promise<void> {
+    const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const id = Number(idArg);
+        const changes: { content?: string; tags?: string[]; type?: string } = {};
+        if (typeof options.content === 'string') changes.content = options.content.trim();
+        if (typeof options.tags === 'string') changes.tags = options.tags.split(',').map((t: string) => t.trim()).filter(Boolean);
+        if (typeof options.type === 'string') changes.type = options.type;
+        const summary = { content: changes.content !== undefined ? { length: changes.content.length } : undefined, tags: changes.tags, type: changes.type };
+        try {
+            tracer.plan('edit', { id, ...summary, dryRun: tracer.flags.dryRun });
+            tracer.mirror(`agm edit ${idArg}${changes.content !== undefined ? ' --content <…>' : ''}${changes.tags ? ` --tags ${changes.tags.join(',')}` : ''}${changes.type ? ` --type ${changes.type}` : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: updates a memory in place. When content changes, its stored vector is cleared and re-embedded so hybrid search stays consistent.'));
+            }
+            if (!Number.isInteger(id) || id < 1) throw new Error(`Invalid memory ID: ${idArg}`);
+            if (changes.content === undefined && changes.tags === undefined && changes.type === undefined) {
+                throw new Error('Nothing to change: pass --content, --tags and/or --type');
+            }
+            if (changes.content !== undefined && !changes.content) throw new Error('Content cannot be empty');
+
+            await this.memoryEngine.initialize();
+            const db = this.memoryEngine.database;
+            const existing = await db.getMemoryById(id);
+            if (!existing) throw new Error(`Memory not found: ${id}`);
+
+            if (tracer.flags.dryRun) {
+                console.log(chalk.yellow(`DRY-RUN: would update memory #${id}`));
+                const receipt = tracer.writeReceipt('edit', { id, ...summary, dryRun: true }, { updated: false }, true);
+                tracer.appendJournal({ cmd: 'edit', args: { id, dryRun: true }, receipt });
+                return;
+            }
+
+            await db.updateMemory(id, changes);
+            let vector: { cleared: boolean; reembedded: boolean; dim?: number } = { cleared: false, reembedded: false };
+            if (changes.content !== undefined && changes.content !== existing.content) {
+                vector.cleared = await db.deleteVector(id);
+                // Only memories that carried a vector are re-embedded (notes without vectors stay FTS-only)
+                if (vector.cleared) {
+                    try {
+                        const provider = this.embedder();
+                        await provider.init();
+                        const vec = await provider.embed(changes.content);
+                        const vectors = await this.openVectorIndex();
+                        await vectors.index.add(id, vec);
+                        await vectors.index.save?.();
+                        vector = { cleared: true, reembedded: true, dim: provider.getInfo().dimensions };
+                    } catch (e) {
+                        console.log(chalk.yellow('⚠️ Re-embedding failed; vector cleared. Run index-code/reindex to restore it.'));
+                        if (tracer.flags.trace) console.log(String(e));
+                    }
+                }
+            }
+
+            console.log(chalk.green(`✅ Memory #${id} updated`));
+            if (changes.type) console.log(chalk.gray(`   Type: ${existing.type} → ${changes.type}`));
+            if (changes.tags) console.log(chalk.gray(`   Tags: ${changes.tags.join(', ') || '(none)'}`));
+            if (vector.cleared) console.log(chalk.gray(`   Vector: ${vector.reembedded ? `re-embedded (${vector.dim}D)` : 'cleared'}`));
+
+            const receipt = tracer.writeReceipt('edit', { id, ...summary }, { updated: true, vector }, true);
+            tracer.appendJournal({ cmd: 'edit', args: { id, ...summary }, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt('edit', { id: idArg, ...summary }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd: 'edit', error: (error as Error).message, receipt });
+            console.error(chalk.red('❌ edit failed:'), error instanceof Error ? error.message : String(error));
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
         }
     }
 
@@ -713,29 +1440,43 @@ export class CodeContextCLI {
     /**
      * Handle vector-status command
      */
-    private async handleVectorStatus(): Promise<void> {
+    private async handleVectorStatus(opts: any = {}): Promise<void> {
     const { Tracer } = await import('./utils/Trace.js');
         const tracer = Tracer.create(process.cwd());
         try {
             tracer.plan('vector-status', { explain: tracer.flags.explain });
             tracer.mirror(`agm vector-status${tracer.flags.explain?' --explain':''}`);
             if (tracer.flags.explain) {
-                console.log(chalk.gray('Explanation: reports the active vector backend (sqlite-vss or local-js), vector dimensions, and stored vector count.')); 
+                console.log(chalk.gray('Explanation: reports the vector backend selected by --vector-backend / policy.vectorBackend (sqlite-vss or local-js), the embedder selected by --embedder / policy.embedder and its model, its vector dimensions and stored vector count, and vectors left by other models.')); 
             }
 
             await this.memoryEngine.initialize();
-            let info: any = { backend: 'local-js', note: 'Advanced vector backend not enabled in this build.' };
-            if ((this.memoryEngine as any).getVectorBackendInfo) {
-                info = await (this.memoryEngine as any).getVectorBackendInfo();
+            const vectors = await this.openVectorIndex();
+            const stats = await vectors.index.stats();
+            const otherModels = this.memoryEngine.database.countVectorsNotFromModel(vectors.model);
+            const embedder = { name: this.embedder().name, source: this.requestedEmbedder().source };
+            const info: any = { backend: stats.backend, mode: vectors.mode, source: vectors.source, embedder, model: vectors.model, dimensions: stats.dimensions, count: stats.count, otherModels, ...(vectors.note ? { note: vectors.note } : {}) };
+            if (vectors.index instanceof HnswVectorIndex) {
+                const k = Math.max(1, parseInt(opts.recallK || '10', 10) || 10);
+                const sample = Math.max(1, parseInt(opts.recallSample || '50', 10) || 50);
+                info.hnsw = { ...vectors.index.getParams(), recall: vectors.index.measureRecall(k, sample) };
             }
 
             if (tracer.flags.json) {
                 console.log(JSON.stringify(info, null, 2));
             } else {
                 console.log(chalk.cyan('🧠 Vector Backend Status'));
-                console.log(`   Backend: ${info.backend}`);
+                console.log(`   Backend: ${info.backend} (requested: ${info.mode}, from ${info.source})`);
                 if (info.dimensions !== undefined) console.log(`   Dimensions: ${info.dimensions}`);
+                console.log(`   Embedder: ${embedder.name} (from ${embedder.source})`);
+                console.log(`   Model: ${info.model}`);
                 if (info.count !== undefined) console.log(`   Vectors: ${info.count}`);
+                if (otherModels) console.log(chalk.yellow(`   ${otherModels} vector(s) from other models are ignored until re-embedded (agm reembed)`));
+                if (info.hnsw) {
+                    const r = info.hnsw.recall;
+                    console.log(`   HNSW: M=${info.hnsw.m}, efConstruction=${info.hnsw.efConstruction}, efSearch=${info.hnsw.efSearch}`);
+                    console.log(`   Recall@${r.k}: ${(r.recall * 100).toFixed(1)}% over ${r.queries} sampled queries (avg ${r.avgQueryMs.toFixed(2)} ms/query)`);
+                }
                 if (info.note) console.log(`   Note: ${info.note}`);
             }
 
@@ -745,6 +1486,7 @@ export class CodeContextCLI {
             const receipt = tracer.writeReceipt('vector-status', {}, {}, false, (error as Error).message);
             tracer.appendJournal({ cmd: 'vector-status', error: (error as Error).message, receipt });
             console.error(chalk.red('❌ Failed to get vector status:'), error instanceof Error ? error.message : 'Unknown error');
+            process.exitCode = 1;
         } finally {
             await this.cleanup();
         }
@@ -756,11 +1498,21 @@ export class CodeContextCLI {
     private async handleProveOffline(opts: any): Promise<void> {
         const pol = policyBroker.getPolicy();
         const proxies = ['HTTP_PROXY','HTTPS_PROXY','http_proxy','https_proxy','NO_PROXY'].filter(k => !!process.env[k]);
+        // Which embedding model would run, and whether its files came from a verified model pack
+        const reg = await import('./engine/embeddings/ModelRegistry.js');
+        const root = process.cwd();
+        let registry: { models: Record<string, any> } = { models: {} };
+        try { registry = reg.loadModelRegistry(root); } catch {}
+        const activeModel = reg.activeModelId(root);
+        const embedder = this.embedder();
         const proof = {
             policyNetworkEgress: pol.networkEgress ? 'allowed' : 'blocked',
             networkGuardActive,
             proxiesPresent: proxies.length > 0,
             proxyVars: proxies,
+            embeddingModel: { id: activeModel, installed: reg.isModelCached(root, activeModel), pack: registry.models[activeModel]?.pack ?? null },
+            installedModelPacks: Object.entries(registry.models).filter(([, m]) => m.pack).map(([id, m]) => ({ id, ...m.pack })),
+            embedder: { name: embedder.name, model: embedder.getModelId(), source: this.requestedEmbedder().source },
             timestamp: new Date().toISOString()
         };
     // Respect either the local --json or the global --json flag
@@ -769,7 +1521,11 @@ export class CodeContextCLI {
     if (wantJson) {
             console.log(JSON.stringify({ offlineProof: proof }, null, 2));
         }
-        const line = `AGM OFFLINE PROOF: no-egress; policy=${proof.policyNetworkEgress}; guard=${networkGuardActive?'active':'inactive'}; proxies=${proxies.length>0?'present':'none'}`;
+        const em = proof.embeddingModel;
+        const modelState = em.pack ? `pack:${em.pack.manifestSha256.slice(0,12)}${em.pack.signed ? `,signed:${em.pack.keyId}` : ''}` : em.installed ? 'cached' : 'missing';
+        // The built-in embedder needs no model files, so its line names it instead of the transformers model
+        const modelPart = embedder.name === 'local-hash' ? `${embedder.getModelId()}(built-in)` : `${em.id}(${modelState})`;
+        const line = `AGM OFFLINE PROOF: no-egress; policy=${proof.policyNetworkEgress}; guard=${networkGuardActive?'active':'inactive'}; proxies=${proxies.length>0?'present':'none'}; model=${modelPart}`;
         console.log(line);
     }
 
@@ -965,76 +1721,105 @@ export class CodeContextCLI {
     private async handleIndexCode(opts: any): Promise<void> {
         const root = opts.path || process.cwd();
         const maxChunk = parseInt(opts.maxChunk || '200', 10);
+        const chunkOverlap = parseInt(opts.chunkOverlap || '0', 10);
     const { Tracer } = await import('./utils/Trace.js');
         const tracer = Tracer.create(process.cwd());
         try {
-            tracer.plan('index-code', { root, maxChunk, symbols: !!opts.symbols, diff: !!opts.diff, explain: tracer.flags.explain });
-            tracer.mirror(`agm index-code --path ${JSON.stringify(root)} --max-chunk ${maxChunk}${opts.symbols?' --symbols':''}${opts.diff?' --diff':''}${tracer.flags.explain?' --explain':''}`);
+            const fileFilters = await this.fileFilterOptions(opts);
+            tracer.plan('index-code', { root, maxChunk, chunkOverlap, maxTokens: opts.maxTokens, symbols: !!opts.symbols, diff: !!opts.diff, pruneMissing: !!opts.pruneMissing, since: opts.since, ...fileFilters, concurrency: opts.concurrency, batchSize: opts.batchSize, explain: tracer.flags.explain });
+            tracer.mirror(`agm index-code --path ${JSON.stringify(root)} --max-chunk ${maxChunk}${chunkOverlap?` --chunk-overlap ${chunkOverlap}`:''}${opts.maxTokens?` --max-tokens ${opts.maxTokens}`:''}${opts.symbols?' --symbols':''}${opts.diff?' --diff':''}${opts.pruneMissing?' --prune-missing':''}${opts.since?` --since ${opts.since}`:''}${opts.maxFileSize?` --max-file-size ${opts.maxFileSize}`:''}${opts.maxLineLength?` --max-line-length ${opts.maxLineLength}`:''}${opts.concurrency?` --concurrency ${opts.concurrency}`:''}${opts.batchSize?` --batch-size ${opts.batchSize}`:''}${tracer.flags.explain?' --explain':''}`);
             if (tracer.flags.explain) {
-                console.log(chalk.gray(`Explanation: Walk files (include/exclude), ${opts.symbols?'chunk by symbols (functions/classes/interfaces/enums)':'chunk by lines'}, store as type=code with metadata (file, language, line ranges).${opts.diff?' Diff: skip files whose contentSha already present.':''}`));
+                console.log(chalk.gray(`Explanation: Walk files (include/exclude; honours .gitignore and .agmignore files, each excluded path is listed with its rule; binary, oversized, minified and generated files are skipped and listed with the reason), ${opts.symbols?'chunk by symbols (functions/classes/interfaces/enums)':`chunk by lines (cuts snapped to blank lines and closing braces${chunkOverlap?`, ${chunkOverlap} line(s) of overlap`:''})`}, split chunks longer than the embedding model's token window, store as type=code with metadata (file, language, line ranges). Files are read and chunked on worker threads; embeddings and inserts are batched (one model call and one transaction per batch).${opts.diff?' Diff: skip files whose digest and chunking (strategy, max-chunk, overlap, max-tokens) match the digest cache.':''} Re-indexed files replace their previous chunks and vectors in the same transaction.${opts.pruneMissing?' Prune: remove chunks of files that no longer exist.':''}${opts.since?` Since: ask local git for files changed since ${opts.since} (rename detection on); only those are indexed, renamed files keep their chunks under the new path, deleted files are removed, and chunks record the HEAD commit.`:''}`));
             }
 
-            await this.memoryEngine.initialize();
-            const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
-            const indexer = new CodeIndexer(root);
-
+            const { IndexWorkerPool, defaultConcurrency } = await import('./codeindex/IndexWorkerPool.js');
+            const concurrency = opts.concurrency !== undefined ? parseInt(opts.concurrency, 10) : defaultConcurrency();
+            if (!(concurrency > 0)) throw new Error(`Invalid --concurrency: ${opts.concurrency}`);
+            const batchSize = parseInt(opts.batchSize || '32', 10);
+            if (!(batchSize > 0)) throw new Error(`Invalid --batch-size: ${opts.batchSize}`);
+            if (!(chunkOverlap >= 0 && chunkOverlap < maxChunk)) throw new Error(`Invalid --chunk-overlap: ${opts.chunkOverlap} (must be between 0 and --max-chunk - 1)`);
+            const requestedMaxTokens = opts.maxTokens !== undefined ? parseInt(opts.maxTokens, 10) : undefined;
+            if (requestedMaxTokens !== undefined && !(requestedMaxTokens > 0)) throw new Error(`Invalid --max-tokens: ${opts.maxTokens}`);
 
-            const { SymbolIndexer } = await import('./codeindex/SymbolIndexer.js');
+            await this.memoryEngine.initialize();
             const { TreeSitterIndexer } = await import('./codeindex/TreeSitterIndexer.js');
-            const symIndexer = new SymbolIndexer(root);
+            const { IndexProgress } = await import('./codeindex/IndexProgress.js');
             const treeSitterIndexer = new TreeSitterIndexer(root);
 
             const include: string[] | undefined = opts.include;
             const exclude: string[] | undefined = opts.exclude;
 
             let saved = 0;
-            const pending: Promise<any>[] = [];
             const context = 'code';
 
             // Embeddings (Stage 1): prepare provider
-            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
-            const provider = EmbeddingProvider.create(process.cwd());
-            await provider.init().catch((e: unknown) => {
-                console.log(chalk.yellow('⚠️ Embedding provider init failed. Continuing without vectors.'));
-                if (tracer.flags.trace) console.log(String(e));
-                return undefined;
-            });
-
-            const embedAndStore = async (text: string, tags: string[], metadata: any) => {
-                const id = await this.memoryEngine.database.storeMemory(text, context, 'code', tags, metadata);
-                if (provider && (provider as any).getInfo) {
-                    try {
-                        const vec = await provider.embed(text);
-                        await this.memoryEngine.database.upsertVector(id, vec, provider.getInfo().dimensions);
-                    } catch (e) {
-                        if (tracer.flags.trace) console.log('Vector upsert skipped:', String(e));
+            const provider = this.embedder();
+            const embeddings = await this.initEmbedder(provider, tracer.flags.trace);
+            // The model truncates input past its window without a word, so longer chunks are split to fit. Without the
+            // tokenizer (no embeddings) there is nothing to measure against and no limit applies.
+            const modelMaxTokens = embeddings ? provider.maxInputTokens() : null;
+            let maxTokens = modelMaxTokens;
+            if (requestedMaxTokens !== undefined) {
+                if (!modelMaxTokens) console.log(chalk.yellow('⚠️ --max-tokens ignored: the embedding tokenizer is not available.'));
+                else if (requestedMaxTokens > modelMaxTokens) console.log(chalk.yellow(`⚠️ --max-tokens ${requestedMaxTokens} exceeds the model window; using ${modelMaxTokens}.`));
+                else maxTokens = requestedMaxTokens;
+            }
+            const countTokens = (text: string) => provider.countTokens(text) ?? 0;
+            const tokens = { maxTokens, split: 0, oversized: 0 };
+
+            const vectors = await this.openVectorIndex();
+            if (tracer.flags.trace) console.log(chalk.gray(`Vector backend: ${vectors.backend} (${vectors.mode}, from ${vectors.source})`));
+
+            // Removes every stored chunk of a file (under its root- and workspace-relative paths) with its vectors
+            const db = this.memoryEngine.database;
+            const removeCodeFile = async (file: string): Promise<number> => {
+                const wsRel = path.relative(process.cwd(), path.resolve(root, file)).replace(/\\/g, '/');
+                let removed = 0;
+                for (const key of new Set([file, wsRel])) {
+                    for (const id of await db.listCodeIdsByFile(key)) {
+                        try { await vectors.index.remove(id); } catch { /* cascades with the memory row */ }
                     }
+                    removed += await db.deleteCodeByFile(key);
                 }
-                saved++;
+                return removed;
             };
 
-            // Pre-list files once (applies to both symbol and line modes)
-            const fileList = new (await import('./codeindex/CodeIndexer.js')).CodeIndexer(root).listFiles({ include, exclude, maxChunkLines: maxChunk });
-            // Load / build file digest cache (persisted) if --diff
-            let existingFileDigest: Map<string,string> | null = null;
-            let fileDigestCachePath: string | null = null;
-            if (opts.diff) {
-                existingFileDigest = new Map();
-                try {
-                    fileDigestCachePath = path.join(process.cwd(), '.antigoldfishmode', 'file-digests.json');
-                    if (fs.existsSync(fileDigestCachePath)) {
-                        const raw = JSON.parse(fs.readFileSync(fileDigestCachePath, 'utf8'));
-                        Object.keys(raw || {}).forEach(f => existingFileDigest!.set(f, raw[f]));
+            // Whole files waiting for one batched embedding call and one SQLite transaction. Each file's old chunks
+            // are deleted in the same transaction that stores its new ones, so a re-index never leaves both versions.
+            // The file's digest is written in that transaction too, so it never describes chunks that weren't stored.
+            const batch: Array<{ file: string; fileSha?: string; chunks: Array<{ text: string; tags: string[]; metadata: any; graph?: CodeGraph }> }> = [];
+            let batchChunks = 0;
+            let replaced = 0;
+            const flushBatch = async () => {
+                const units = batch.splice(0);
+                batchChunks = 0;
+                if (!units.length) return;
+                const items = units.flatMap(u => u.chunks);
+                let vecs: Float32Array[] = [];
+                if (embeddings && items.length) {
+                    try { vecs = await provider.embedBatch(items.map(c => c.text), batchSize); }
+                    catch (e) { if (tracer.flags.trace) console.log('Vector upsert skipped:', String(e)); }
+                }
+                await db.withTransaction(async () => {
+                    let i = 0;
+                    for (const unit of units) {
+                        replaced += await removeCodeFile(unit.file);
+                        for (const c of unit.chunks) {
+                            const id = await db.storeMemory(c.text, context, 'code', c.tags, c.metadata, { quiet: true });
+                            if (c.graph) await db.storeCodeGraph(id, c.graph);
+                            const vec = vecs[i++];
+                            if (vec) {
+                                try { await vectors.index.add(id, vec); }
+                                catch (e) { if (tracer.flags.trace) console.log('Vector upsert skipped:', String(e)); }
+                            }
+                            saved++;
+                        }
+                        if (unit.fileSha) await db.setFileDigest(unit.file, unit.fileSha, chunking);
                     }
-                } catch {}
-            } else {
-                // Build baseline cache so future --diff run can skip unchanged files
-                existingFileDigest = new Map();
-                try {
-                    fileDigestCachePath = path.join(process.cwd(), '.antigoldfishmode', 'file-digests.json');
-                } catch {}
-            }
+                });
+            };
 
+            let strategy: 'treesitter-ast' | 'heuristic-symbols' | 'lines' = 'lines';
             if (opts.symbols) {
                 // Check if Tree-sitter is available
                 const useTreeSitter = treeSitterIndexer.isAvailable();
@@ -1043,95 +1828,215 @@ export class CodeContextCLI {
                 } else if (useTreeSitter) {
                     console.log(chalk.green('🌳 Using Tree-sitter for precise AST-based symbol extraction'));
                 }
+                strategy = useTreeSitter ? 'treesitter-ast' : 'heuristic-symbols';
+            }
 
-                for (const file of fileList) {
-                    const full = require('path').join(root, file);
-                    let fileSha: string | undefined;
-                    try { fileSha = crypto.createHash('sha256').update(fs.readFileSync(full)).digest('hex'); } catch {}
-                    if (existingFileDigest && fileSha && existingFileDigest.get(file) === fileSha) continue; // unchanged file (diff mode)
-                    
-                    // Use Tree-sitter if available, otherwise fall back to heuristic symbol indexer
-                    const chunks = useTreeSitter ? 
-                        treeSitterIndexer.chunkFile(full).map(c => ({ 
-                            text: c.text, 
-                            meta: {
-                                file: c.meta.file,
-                                language: c.meta.language,
-                                lineStart: c.meta.lineStart,
-                                lineEnd: c.meta.lineEnd,
-                                symbol: c.meta.symbolName,
-                                symbolType: c.meta.symbolType,
-                                tags: ['symbol', c.meta.symbolType || 'unknown']
-                            }
-                        })) :
-                        symIndexer.chunkBySymbols(full);
-
-                    for (const chunk of chunks) {
-                        if (tracer.flags.dryRun) { continue; }
-                        const tags = ['code', chunk.meta.language || 'unknown', 'symbol'];
-                        const metadata = { 
-                            ...chunk.meta, 
-                            contentSha: crypto.createHash('sha256').update(chunk.text).digest('hex'), 
-                            fileDigest: fileSha,
-                            indexStrategy: useTreeSitter ? 'treesitter-ast' : 'heuristic-symbols'
-                        };
-                        await embedAndStore(chunk.text, tags, metadata);
+            // Digests live in the file_digests table (shared with watch-code/reindex-*). Every run records them; --diff
+            // skips a file only when its content and its chunking (strategy, --max-chunk, overlap, token limit) are unchanged.
+            const { chunkingOf, isUpToDate } = await import('./codeindex/FileDigest.js');
+            const { fitChunkToTokens } = await import('./codeindex/ChunkWindows.js');
+            const chunking = chunkingOf(strategy, maxChunk, { overlap: chunkOverlap, maxTokens });
+            const knownDigests = new Map<string, string>();
+            if (opts.diff) {
+                for (const r of await db.listAllFileDigests()) {
+                    if (isUpToDate(r, r.digest, chunking)) knownDigests.set(r.file, r.digest);
+                }
+            }
+            // Superseded by the file_digests table; a stale JSON cache would only mislead
+            try { fs.rmSync(path.join(process.cwd(), '.antigoldfishmode', 'file-digests.json'), { force: true }); } catch {}
+
+            // Pre-list files once (applies to both symbol and line modes)
+            const { describeRule } = await import('./codeindex/IgnoreRules.js');
+            const { emptySkipCounts } = await import('./codeindex/FileFilters.js');
+            const excluded: Array<{ path: string; rule: string }> = [];
+            const skipped = emptySkipCounts();
+            const secrets = await this.createSecretScanner();
+            const listOptions: import('./codeindex/CodeIndexer.js').IndexOptions = {
+                include, exclude, maxChunkLines: maxChunk, ...fileFilters,
+                onExclude: (p, rule) => excluded.push({ path: p, rule: describeRule(rule) }),
+                onSkip: (p, reason) => {
+                    skipped[reason]++;
+                    if (tracer.flags.explain) console.log(chalk.gray(`Skipped ${p} (${reason})`));
+                },
+            };
+            const codeIndexer = new (await import('./codeindex/CodeIndexer.js')).CodeIndexer(root);
+            let fileList: string[];
+            // --since: only what git reports as changed. Pure renames move the existing chunks (no re-embedding) when
+            // the old path was indexed with the current chunking; deleted files and the old side of edited renames go.
+            let git: { since: string; base: string; head: string; changed: number; renamed: number; deleted: number; removedChunks: number } | undefined;
+            let dirtyFiles = new Set<string>();
+            if (opts.since) {
+                const { gitChangesSince } = await import('./codeindex/GitChanges.js');
+                const changes = gitChangesSince(root, String(opts.since));
+                dirtyFiles = changes.dirty;
+                git = { since: String(opts.since), base: changes.base, head: changes.head, changed: 0, renamed: 0, deleted: 0, removedChunks: 0 };
+                const candidates = changes.changes.filter(c => c.status !== 'deleted').map(c => c.file);
+                const selected = new Set(codeIndexer.selectFiles(candidates, listOptions));
+                const gone = changes.changes.filter(c => c.status === 'deleted').map(c => c.file);
+                const moves: Array<{ from: string; to: string }> = [];
+                for (const c of changes.changes) {
+                    if (c.status !== 'renamed') continue;
+                    const old = await db.getFileDigest(c.oldFile!);
+                    if (c.similarity === 100 && selected.has(c.file) && old && isUpToDate(old, old.digest, chunking)) {
+                        moves.push({ from: c.oldFile!, to: c.file });
+                        selected.delete(c.file);
+                    } else {
+                        gone.push(c.oldFile!);
                     }
-                    if (existingFileDigest && fileSha) existingFileDigest.set(file, fileSha); // update cache
                 }
+                if (tracer.flags.explain || tracer.flags.dryRun) {
+                    for (const m of moves) console.log(chalk.gray(`${tracer.flags.dryRun ? 'Would move' : 'Moving'} ${m.from} → ${m.to} (git rename)`));
+                    for (const f of gone) console.log(chalk.gray(`${tracer.flags.dryRun ? 'Would remove' : 'Removing'} ${f} (deleted or renamed since ${opts.since})`));
+                }
+                if (tracer.flags.dryRun) {
+                    git.renamed = moves.length;
+                    git.deleted = gone.length;
+                } else if (moves.length || gone.length) {
+                    await db.withTransaction(async () => {
+                        for (const m of moves) {
+                            const toWs = path.relative(process.cwd(), path.resolve(root, m.to)).replace(/\\/g, '/');
+                            const fromWs = path.relative(process.cwd(), path.resolve(root, m.from)).replace(/\\/g, '/');
+                            const provenance = { commit: changes.head, commitDirty: changes.dirty.has(m.to) };
+                            let n = await db.updateCodeFilePath(m.from, m.to, provenance);
+                            if (fromWs !== m.from) n += await db.updateCodeFilePath(fromWs, toWs, provenance);
+                            // Nothing stored under the old path after all: index the new one normally
+                            if (n) { await db.moveFileDigest(m.from, m.to); git!.renamed++; }
+                            else selected.add(m.to);
+                        }
+                        for (const f of gone) {
+                            git!.removedChunks += await removeCodeFile(f);
+                            await db.deleteFileDigest(f);
+                            git!.deleted++;
+                        }
+                    });
+                }
+                fileList = [...selected].sort();
+                git.changed = fileList.length;
             } else {
-                // Need file digests: build map file->fileDigest first
-                const fileDigestMap = new Map<string,string>();
-                for (const f of fileList) {
-                    try { fileDigestMap.set(f, crypto.createHash('sha256').update(fs.readFileSync(path.join(root, f))).digest('hex')); } catch {}
-                }
-                indexer.indexFiles({ maxChunkLines: maxChunk, context, include, exclude }, (chunk: { text: string; meta: { language?: string } }) => {
-                    if (tracer.flags.dryRun) { return; }
-                    const rel = (chunk as any).meta?.file;
-                    if (existingFileDigest && rel && existingFileDigest.get(rel) === fileDigestMap.get(rel)) return; // unchanged file in diff mode
-                    const tags = ['code', chunk.meta.language || 'unknown'];
-                    pending.push(embedAndStore(chunk.text, tags, { ...chunk.meta, contentSha: crypto.createHash('sha256').update(chunk.text).digest('hex'), fileDigest: rel ? fileDigestMap.get(rel) : undefined }));
-                    if (existingFileDigest && rel) existingFileDigest.set(rel, fileDigestMap.get(rel)!);
-                });
+                fileList = codeIndexer.listFiles(listOptions);
+            }
+            if (tracer.flags.explain) {
+                for (const e of excluded) console.log(chalk.gray(`Excluded ${e.path} (${e.rule})`));
             }
 
-            await Promise.all(pending);
+            // Workers read, hash and chunk; this thread scans, embeds in batches and writes
+            const pool = new IndexWorkerPool(Math.min(concurrency, fileList.length));
+            const progress = new IndexProgress(fileList.length, { enabled: !tracer.flags.json });
+            const failed: Array<{ file: string; error: string }> = [];
+            try {
+                // A few files in flight per worker; results are consumed in file order so ids follow the file list
+                const inFlight: Array<Promise<import('./codeindex/IndexWorkerPool.js').IndexTaskResult>> = [];
+                let next = 0;
+                const dispatch = () => {
+                    while (next < fileList.length && inFlight.length < pool.size * 2 + 1) {
+                        const file = fileList[next++];
+                        inFlight.push(pool.run({ root, file, strategy, maxChunkLines: maxChunk, chunkOverlap, knownDigest: knownDigests.get(file), filters: fileFilters }));
+                    }
+                };
+                dispatch();
+                while (inFlight.length) {
+                    const res = await inFlight.shift()!;
+                    dispatch();
+                    if (res.error) {
+                        failed.push({ file: res.file, error: res.error });
+                        console.warn(chalk.yellow(`⚠️  Failed to index ${res.file}: ${res.error}`));
+                        progress.update(1, 0);
+                        continue;
+                    }
+                    if (res.skipped) {
+                        listOptions.onSkip!(res.file, res.skipped);
+                        progress.update(1, 0);
+                        continue;
+                    }
+                    const unit: { file: string; fileSha?: string; chunks: Array<{ text: string; tags: string[]; metadata: any; graph?: CodeGraph }> } = { file: res.file, fileSha: res.fileSha, chunks: [] };
+                    if (!res.unchanged) { // unchanged file (diff mode)
+                        let chunks: Array<{ text: string; meta: any; graph?: CodeGraph }> = strategy === 'treesitter-ast' ? res.chunks.map(c => c.meta.document ? c : treeSitterChunk(c)) : res.chunks;
+                        if (maxTokens) {
+                            chunks = chunks.flatMap(c => {
+                                const parts = fitChunkToTokens(c, maxTokens!, countTokens, chunkOverlap);
+                                if (parts.length > 1) tokens.split++;
+                                // A single line longer than the window can't be split further
+                                tokens.oversized += parts.filter(p => !p.text.includes('\n') && countTokens(p.text) > maxTokens!).length;
+                                return parts;
+                            });
+                        }
+                        for (const found of chunks) {
+                            const chunk = this.screenSecrets(secrets, found);
+                            if (!chunk) { continue; }
+                            const tags = codeTags(chunk.meta, strategy !== 'lines');
+                            const metadata = {
+                                ...chunk.meta,
+                                contentSha: crypto.createHash('sha256').update(chunk.text).digest('hex'),
+                                fileDigest: res.fileSha,
+                                ...(git ? { commit: git.head, ...(dirtyFiles.has(res.file) ? { commitDirty: true } : {}) } : {}),
+                                ...(strategy === 'lines' ? {} : { indexStrategy: strategy })
+                            };
+                            unit.chunks.push({ text: chunk.text, tags, metadata, graph: codeGraphOf(chunk) });
+                        }
+                        if (!tracer.flags.dryRun) {
+                            batch.push(unit);
+                            batchChunks += unit.chunks.length;
+                        }
+                    }
+                    if (batchChunks >= batchSize) await flushBatch();
+                    progress.update(1, unit.chunks.length);
+                }
+                await flushBatch();
+            } finally {
+                await pool.close();
+            }
+            const throughput = progress.done();
+
+            // --prune-missing: chunks whose file no longer exists (relative to --path or to the workspace)
+            const pruned = { files: 0, chunks: 0 };
+            if (opts.pruneMissing) {
+                const missing = (await db.listCodeFiles()).filter(f => !fs.existsSync(path.resolve(root, f)) && !fs.existsSync(path.resolve(process.cwd(), f)));
+                pruned.files = missing.length;
+                if (tracer.flags.explain || tracer.flags.dryRun) {
+                    for (const f of missing) console.log(chalk.gray(`${tracer.flags.dryRun ? 'Would prune' : 'Pruning'} ${f} (file no longer exists)`));
+                }
+                if (!tracer.flags.dryRun && missing.length) {
+                    await db.withTransaction(async () => {
+                        for (const f of missing) {
+                            pruned.chunks += await removeCodeFile(f);
+                            await db.deleteFileDigest(f);
+                        }
+                    });
+                }
+            }
 
             // reuse dynamic import above; construct a temporary indexer for digest
             const listForDigest = fileList; // already computed
             const digest = crypto.createHash('sha256').update(JSON.stringify(listForDigest)).digest('hex');
 
-            const result = { saved, root, digest, fileCount: listForDigest.length, diff: !!opts.diff };
+            await vectors.index.save?.();
+            const result = { saved, root, digest, fileCount: listForDigest.length, excluded: excluded.length, skipped, secrets: secrets.summary(), tokens, failed: failed.length, replaced, pruned, ...(git ? { git } : {}), diff: !!opts.diff, vectorBackend: vectors.backend, embedder: { name: provider.name, model: provider.getModelId(), embedded: embeddings }, concurrency: pool.size, batchSize, durationMs: throughput.durationMs, filesPerSec: throughput.filesPerSec, chunksPerSec: throughput.chunksPerSec };
             if (tracer.flags.json) {
-                console.log(JSON.stringify(result, null, 2));
+                this.emitJson(result);
 
             if (tracer.flags.explain) {
-                const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
-                const files = new CodeIndexer(root).listFiles({ include, exclude, maxChunkLines: maxChunk });
-                console.log(chalk.gray(`Explain: include=${JSON.stringify(include||['**/*'])} exclude=${JSON.stringify(exclude||['**/node_modules/**', '**/.git/**', '**/dist/**'])}`));
-                console.log(chalk.gray(`Explain: files considered=${files.length}`));
+                console.log(chalk.gray(`Explain: include=${JSON.stringify(include||['**/*'])} exclude=${JSON.stringify(exclude||[])} (plus defaults, .gitignore and .agmignore)`));
+                console.log(chalk.gray(`Explain: files considered=${listForDigest.length}, excluded paths=${excluded.length}`));
             }
 
             } else {
                 console.log(`✅ Indexed code from ${root}. Saved chunks: ${saved}${opts.diff?' (diff)':''}`);
                 console.log(chalk.gray(`   Files considered: ${listForDigest.length}, digest: ${digest.slice(0,8)}…${opts.diff?' (skipped unchanged)':''}`));
+                const skippedParts = Object.entries(skipped).filter(([, n]) => n > 0).map(([reason, n]) => `${n} ${reason}`);
+                if (skippedParts.length) console.log(chalk.gray(`   Skipped files: ${skippedParts.join(', ')}`));
+                console.log(chalk.gray(`   ${throughput.filesPerSec} files/s, ${throughput.chunksPerSec} chunks/s in ${(throughput.durationMs / 1000).toFixed(1)}s (${pool.size > 1 ? `${pool.size} workers` : 'single thread'})${failed.length ? `, ${failed.length} file(s) failed` : ''}`));
+                if (replaced) console.log(chalk.gray(`   Replaced ${replaced} stale chunk(s) of re-indexed files`));
+                if (tokens.split || tokens.oversized) console.log(chalk.gray(`   Token limit ${tokens.maxTokens}: split ${tokens.split} chunk(s)${tokens.oversized ? `, ${tokens.oversized} single line(s) still over the limit (truncated when embedded)` : ''}`));
+                if (git) console.log(chalk.gray(`   Git ${git.base.slice(0,8)}..${git.head.slice(0,8)}: ${git.changed} changed file(s) indexed, ${git.renamed} rename(s) moved, ${git.deleted} removed (${git.removedChunks} chunk(s))${tracer.flags.dryRun ? ' (dry run)' : ''}`));
+                if (opts.pruneMissing) console.log(chalk.gray(`   Pruned ${pruned.chunks} chunk(s) of ${pruned.files} missing file(s)${tracer.flags.dryRun ? ' (dry run: nothing deleted)' : ''}`));
+                if (result.secrets.findings) console.log(chalk.yellow(`   Secrets (${result.secrets.mode}): ${result.secrets.findings} finding(s) in ${result.secrets.chunks} chunk(s), ${result.secrets.redacted} redacted, ${result.secrets.blocked} chunk(s) blocked`));
                 if (opts.diff && saved === 0) {
                     console.log(chalk.gray('   All files unchanged (nothing new to index).'));
                 }
             }
 
-            const receipt = tracer.writeReceipt('index-code', { root, maxChunk, include, exclude, dryRun: tracer.flags.dryRun, diff: !!opts.diff }, result, true, undefined, { resultSummary: { saved }, digests: { fileListDigest: digest } });
+            const receipt = tracer.writeReceipt('index-code', { root, maxChunk, chunkOverlap, maxTokens, include, exclude, dryRun: tracer.flags.dryRun, diff: !!opts.diff, pruneMissing: !!opts.pruneMissing, since: opts.since, ...fileFilters, concurrency: pool.size, batchSize }, result, true, undefined, { resultSummary: { saved, replaced, pruned, ...(git ? { git } : {}), skipped, secrets: result.secrets, tokens }, digests: { fileListDigest: digest } });
             tracer.appendJournal({ cmd: 'index-code', args: { root, maxChunk, include, exclude, dryRun: tracer.flags.dryRun }, receipt });
-
-            // Persist updated file digest cache if diff
-            if (fileDigestCachePath && existingFileDigest) {
-                try {
-                    fs.mkdirSync(path.dirname(fileDigestCachePath), { recursive: true });
-                    const obj: Record<string,string> = {};
-                    existingFileDigest.forEach((v,k) => { obj[k] = v; });
-                    fs.writeFileSync(fileDigestCachePath, JSON.stringify(obj, null, 2));
-                } catch {}
-            }
         } catch (error) {
             const receipt = tracer.writeReceipt('index-code', { root, maxChunk }, {}, false, (error as Error).message);
             tracer.appendJournal({ cmd: 'index-code', error: (error as Error).message, receipt });
@@ -1151,19 +2056,48 @@ export class CodeContextCLI {
             const topk = parseInt(opts.topk || '20', 10);
             const preview = parseInt(opts.preview || opts.n || '0', 10);
             const filterPath: string[] | undefined = opts.filterPath || opts.filter || opts.p;
-            const hybrid = !!(opts.hybrid || opts.semantic);
-            tracer.plan('search-code', { query, topk, preview, filterPath, hybrid, explain: tracer.flags.explain });
-            tracer.mirror(`agm search-code ${JSON.stringify(query)} -k ${topk}${preview?` --preview ${preview}`:''}${filterPath?` --filter-path ${filterPath.join(' ')}`:''}${hybrid?' --hybrid':''}${tracer.flags.explain?' --explain':''}`);
+            const vectorFirst = !!opts.vectorFirst;
+            const hybrid = !!(opts.hybrid || opts.semantic || vectorFirst);
+            const vectorK = parseInt(opts.vectorK || '50', 10) || 50;
+            const expandNeighbors = opts.expandNeighbors === undefined ? 0 : (opts.expandNeighbors === true ? 3 : parseInt(opts.expandNeighbors, 10));
+            if (!Number.isInteger(expandNeighbors) || expandNeighbors < 0) throw new Error(`Invalid --expand-neighbors: ${opts.expandNeighbors}`);
+            tracer.plan('search-code', { query, topk, preview, filterPath, hybrid, vectorFirst, expandNeighbors, explain: tracer.flags.explain });
+            tracer.mirror(`agm search-code ${JSON.stringify(query)} -k ${topk}${preview?` --preview ${preview}`:''}${filterPath?` --filter-path ${filterPath.join(' ')}`:''}${vectorFirst?` --vector-first --vector-k ${vectorK}`:(hybrid?' --hybrid':'')}${opts.profile?` --profile ${opts.profile}`:''}${expandNeighbors?` --expand-neighbors ${expandNeighbors}`:''}${tracer.flags.explain?' --explain':''}`);
             const rerankN = parseInt(opts.rerank || '200', 10) || 200;
+            const num = (v: any) => v === undefined ? undefined : Number(v);
+            const ranking = resolveRankingParams(process.cwd(), {
+                profile: opts.profile,
+                overrides: {
+                    fusion: opts.fusion, bm25Weight: num(opts.bm25Weight), cosineWeight: num(opts.cosineWeight),
+                    recencyWeight: num(opts.recencyWeight), recencyHalfLifeDays: num(opts.recencyHalfLife), pathBoosts: parsePathBoosts(opts.pathBoost),
+                },
+            });
+            const params = ranking.params;
+            const fusion = params.fusion || (vectorFirst ? 'rrf' : 'weighted');
+            const fusionWeights = { bm25: params.bm25Weight, cosine: params.cosineWeight };
             if (tracer.flags.explain) {
-                const backend = 'fallback'; // vss query path not yet wired
-                const fusion = 'score = 0.5 * BM25 + 0.5 * cosine';
-                console.log(chalk.gray(`Explanation: FTS search across code-type memories;${hybrid?` hybrid/semantic mode re-ranks top ${rerankN} results with vector cosine using backend=${backend} and fusion ${fusion}.`:''} Optional --filter-path limits results by file globs.`));
+                const backend = this.requestedVectorBackend().mode;
+                const scoring = fusion === 'rrf' ? `RRF (k=60) weighted ${fusionWeights.bm25}/${fusionWeights.cosine}`
+                    : fusion === 'max' ? `score = max(${fusionWeights.bm25} * BM25, ${fusionWeights.cosine} * cosine)`
+                    : `score = ${fusionWeights.bm25} * BM25 + ${fusionWeights.cosine} * cosine`;
+                const candidatesDesc = vectorFirst ? ` over FTS top ${rerankN} ∪ vector top ${vectorK}` : '';
+                console.log(chalk.gray(`Explanation: FTS search across code-type memories;${hybrid?` ${vectorFirst?'vector-first mode adds nearest vector neighbours as candidates':`hybrid/semantic mode re-ranks top ${rerankN} results with vector cosine`} using backend=${backend} and fusion ${scoring}${candidatesDesc} (profile=${ranking.profile}).`:''} Optional --filter-path limits results by file globs.${expandNeighbors?` Each hit is followed by up to ${expandNeighbors} definitions of symbols it references (calls first, same file preferred; names with more than 3 definitions are skipped as ambiguous).`:''}`));
             }
+            const hybridInfo = (backend: string, extra: any = {}) => {
+                const rankingInfo = {
+                    profile: ranking.profile, fusion, fusionWeights, ...(fusion === 'rrf' ? { rrfK: 60 } : {}),
+                    symbolBoost: opts.filterSymbol ? 1 : params.symbolBoost,
+                    recency: { weight: params.recencyWeight, halfLifeDays: params.recencyHalfLifeDays },
+                    pathBoosts: params.pathBoosts,
+                };
+                return vectorFirst
+                    ? { backend, retrieval: 'union', ...rankingInfo, rerankN, vectorK, ...extra }
+                    : { backend, ...rankingInfo, rerankN, ...extra };
+            };
 
             if (tracer.flags.dryRun) {
                 console.log(chalk.yellow('DRY-RUN: Skipping database search'));
-                const receipt = tracer.writeReceipt('search-code', { query, topk, preview, dryRun: true, hybrid, rerankN }, { count: 0 }, true, undefined, { hybrid: { backend: 'fallback', fusionWeights: { bm25: 0.5, cosine: 0.5 }, rerankN } });
+                const receipt = tracer.writeReceipt('search-code', { query, topk, preview, dryRun: true, hybrid, vectorFirst, rerankN, profile: ranking.profile }, { count: 0 }, true, undefined, { hybrid: hybrid ? hybridInfo(this.requestedVectorBackend().mode, { embedder: { name: this.embedder().name, model: this.embedder().getModelId() } }) : undefined });
                 tracer.appendJournal({ cmd: 'search-code', args: { query, topk, preview, dryRun: true, hybrid, rerankN }, receipt });
                 await this.cleanup();
                 return;
@@ -1173,83 +2107,25 @@ export class CodeContextCLI {
 
             let results = await this.memoryEngine.database.searchMemories(query, { limit: hybrid ? rerankN : topk, type: 'code' });
 
-            if (hybrid) {
-                const take = Math.min(topk, results.length);
-                const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
-                const provider = EmbeddingProvider.create(process.cwd());
-                let queryVec: Float32Array | null = null;
-                try {
-                    await provider.init();
-                    queryVec = await provider.embed(query);
-                } catch (e) {
-                    if (tracer.flags.trace) console.log('Hybrid mode: embedding init failed, falling back to FTS only. Error:', String(e));
-                }
-                let backend = 'fallback';
-                if (queryVec) {
-                    // If VSS is available, run a KNN to get top rerankN candidates by vector, then fuse with FTS by id.
-                    const vssKnn = await (this.memoryEngine.database as any).knnSearch(queryVec, rerankN).catch(() => [] as Array<{id:number;distance:number}>);
-                    if (vssKnn && vssKnn.length > 0) {
-                        backend = 'vss';
-                        const vssMap = new Map<number, number>();
-                        vssKnn.forEach((row: {id:number;distance:number}) => { vssMap.set(row.id, row.distance); });
-                        const scored = results.map(r => {
-                            // Convert VSS distance to cosine-like score (approx): sim = 1 / (1 + distance)
-                            const dist = vssMap.get(r.id);
-                            let cos = 0;
-                            if (dist !== undefined) cos = 1 / (1 + dist);
-                            // If not in VSS topN, fallback to on-the-fly cosine using stored vectors if available
-                            if (dist === undefined) {
-                                // Best-effort local cosine using stored vectors
-                                // (Avoid extra DB round trips for now; acceptable fallback)
-                            }
-                            const bm25 = (r as any).relevance ?? 0;
-                            let fused = 0.5 * bm25 + 0.5 * Math.max(0, cos);
-                            // Gentle symbol bias when no explicit filter is set
-                            if (!opts.filterSymbol) {
-                                try {
-                                    const meta: any = JSON.parse((r as any).metadata || '{}');
-                                    const tags: string[] = Array.isArray(meta.tags) ? meta.tags.map((t: string) => String(t).toLowerCase()) : [];
-                                    if (tags.includes('symbol') || meta.symbolType) fused *= 1.05; // +5%
-                                } catch {}
-                            }
-                            return { r, bm25, cos, fused };
-                        });
-                        scored.sort((a,b) => b.fused - a.fused);
-                        results = scored.slice(0, take).map(s => Object.assign({}, s.r, { relevance: s.fused, _bm25: s.bm25, _cos: s.cos }));
-                    } else {
-                        // Fallback to existing JS cosine rerank on FTS candidates
-                        const ids = results.map(r => r.id);
-                        const vecMap = await this.memoryEngine.database.getVectors(ids).catch(() => new Map());
-                        const scored = results.map((r) => {
-                            const v = vecMap.get(r.id);
-                            let cos = 0;
-                            if (v && v.length === queryVec!.length) {
-                                let dot = 0, na = 0, nb = 0;
-                                for (let i = 0; i < v.length; i++) { const a = v[i], b = queryVec![i]; dot += a*b; na += a*a; nb += b*b; }
-                                cos = dot / (Math.sqrt(na) * Math.sqrt(nb) + 1e-9);
-                            }
-                            const bm25 = (r as any).relevance ?? 0;
-                            let fused = 0.5 * bm25 + 0.5 * Math.max(0, cos);
-                            if (!opts.filterSymbol) {
-                                try {
-                                    const meta: any = JSON.parse((r as any).metadata || '{}');
-                                    const tags: string[] = Array.isArray(meta.tags) ? meta.tags.map((t: string) => String(t).toLowerCase()) : [];
-                                    if (tags.includes('symbol') || meta.symbolType) fused *= 1.05;
-                                } catch {}
-                            }
-                            return { r, bm25, cos, fused };
-                        });
-                        scored.sort((a,b) => b.fused - a.fused);
-                        results = scored.slice(0, take).map(s => Object.assign({}, s.r, { relevance: s.fused, _bm25: s.bm25, _cos: s.cos }));
-                    }
-                } else {
-                    results = results.slice(0, topk);
+            let hybridExtras: any = undefined;
+            const rankingOpts = { ranking: { ...params, fusion }, symbolBias: !opts.filterSymbol, trace: tracer.flags.trace };
+            if (vectorFirst) {
+                const union = await this.vectorFirstSearch(query, results, { topk, vectorK, type: 'code', ...rankingOpts });
+                results = union.results;
+                hybridExtras = hybridInfo(union.backend, { candidates: union.candidates, embedder: union.embedder, embedded: union.embedded, ...(union.warning ? { warning: union.warning } : {}) });
+                if (tracer.flags.explain) {
+                    console.log(chalk.gray(`Vector-first details: backend=${union.backend}, embedder=${union.embedder.name}(${union.embedder.model}), fusion=${fusion}${fusion === 'rrf' ? '(k=60)' : ''}, candidates fts=${union.candidates.fts} vector=${union.candidates.vector} union=${union.candidates.union}`));
                 }
+            } else if (hybrid) {
+                const fused = await this.hybridRerank(query, results, { topk, rerankN, ...rankingOpts });
+                results = fused.results;
+                hybridExtras = hybridInfo(fused.backend, { embedder: fused.embedder, embedded: fused.embedded, ...(fused.warning ? { warning: fused.warning } : {}) });
                 // Print explain line when requested
                 if (tracer.flags.explain) {
-                    console.log(chalk.gray(`Hybrid details: backend=${backend}, fusionWeights={bm25:0.5,cosine:0.5}, rerankN=${rerankN}`));
+                    console.log(chalk.gray(`Hybrid details: backend=${fused.backend}, embedder=${fused.embedder.name}(${fused.embedder.model}), profile=${ranking.profile}, fusion=${fusion}, fusionWeights={bm25:${fusionWeights.bm25},cosine:${fusionWeights.cosine}}, rerankN=${rerankN}`));
                 }
             }
+            if (hybridExtras?.warning) console.error(chalk.yellow(`⚠️ Hybrid: ${hybridExtras.warning}`));
 
 
             // Optional filter by metadata.file globs
@@ -1278,19 +2154,26 @@ export class CodeContextCLI {
             }
 
 
+            // Optional graph expansion: definitions of the symbols each hit references
+            const neighbors = expandNeighbors ? await this.expandCodeNeighbors(results, expandNeighbors) : undefined;
+            const neighborCount = neighbors ? Array.from(neighbors.values()).reduce((n, list) => n + list.length, 0) : undefined;
+
             if (tracer.flags.json) {
-                console.log(JSON.stringify({ count: results.length, results }, null, 2));
+                this.emitJson({ count: results.length, results: neighbors ? results.map(r => ({ ...r, neighbors: neighbors.get(r.id) || [] })) : results, ...(hybridExtras ? { embedder: hybridExtras.embedder, embedded: hybridExtras.embedded, warnings: hybridExtras.warning ? [hybridExtras.warning] : [] } : {}) });
             } else {
                 console.log(chalk.cyan(`🔎 Found ${results.length} code chunks`));
                 const hl = buildHighlightRegex(query);
                 for (const r of results) {
                     let meta: any = {};
                     try { meta = JSON.parse(r.metadata || '{}'); } catch {}
-                    const loc = meta.file ? `${meta.file}:${meta.lineStart}-${meta.lineEnd}` : '';
+                    const sym = symbolPath(meta);
+                    const loc = (meta.file ? `${meta.file}:${meta.lineStart}-${meta.lineEnd}` : '') + (sym ? ` ${sym}` : '');
                     const vecPart = (hybrid && (r as any)._cos !== undefined) ? ` v=${((r as any)._cos as number).toFixed(3)}` : '';
                     const bmPart = (hybrid && (r as any)._bm25 !== undefined) ? ` bm=${((r as any)._bm25 as number).toFixed(3)}` : '';
                     const header = `• [${(r.relevance ?? 0).toFixed(3)}]${bmPart}${vecPart} ${loc}`;
-                    if (!preview) { console.log(header); continue; }
+                    const related = neighbors?.get(r.id) || [];
+                    const printNeighbors = () => related.forEach(n => console.log(chalk.gray(`   ↳ ${graphHitLabel(n)} (via ${n.via})`)));
+                    if (!preview) { console.log(header); printNeighbors(); continue; }
                     // naive preview: first N lines with basic highlight
                     const lines = (r.content || '').split(/\r?\n/).slice(0, preview);
                     console.log(header);
@@ -1298,28 +2181,267 @@ export class CodeContextCLI {
                         const shown = hl ? line.replace(hl, (m) => chalk.yellow(m)) : line;
                         console.log(`   ${String(idx+1).padStart(2,' ')} ${shown}`);
                     });
+                    printNeighbors();
                 }
             }
 
-            // Compute a deterministic digest over result IDs (and file:line where available)
-            const idList = results.map(r => {
-                let meta: any = {}; try { meta = JSON.parse((r as any).metadata || '{}'); } catch {}
-                const loc = meta.file ? `${meta.file}:${meta.lineStart}-${meta.lineEnd}` : '';
-                return `${r.id}${loc?`@${loc}`:''}`;
-            });
-            const resultDigest = crypto.createHash('sha256').update(JSON.stringify(idList)).digest('hex');
-
-            const backend = 'fallback';
-            const receipt = tracer.writeReceipt('search-code', { query, topk, preview, filterPath, hybrid, rerankN, filterSymbols, filterLangs }, { count: results.length }, true, undefined, { resultSummary: { ids: idList.slice(0, 10) }, digests: { resultDigest }, hybrid: hybrid ? { backend, fusionWeights: { bm25: 0.5, cosine: 0.5 }, rerankN } : undefined });
-            tracer.appendJournal({ cmd: 'search-code', args: { query, topk, preview, filterPath, hybrid, rerankN, filterSymbols, filterLangs }, receipt });
-        } catch (error) {
-            const receipt = tracer.writeReceipt('search-code', { query, topk: opts.topk }, {}, false, (error as Error).message);
-            tracer.appendJournal({ cmd: 'search-code', error: (error as Error).message, receipt });
-            const msg = error instanceof Error ? error.message : String(error);
-            console.error(chalk.red('❌ search-code failed:'), msg);
-            if (/Failed to decrypt database|integrity check failed/i.test(msg)) {
-                console.error(chalk.yellow('Tip: run "agm init --force" to reset local DB artifacts if this persists.'));
+            // Compute a deterministic digest over result IDs (and file:line where available)
+            const { idList, resultDigest } = codeResultDigest(results);
+
+            const receipt = tracer.writeReceipt('search-code', { query, topk, preview, filterPath, hybrid, vectorFirst, rerankN, profile: hybrid ? ranking.profile : undefined, filterSymbols, filterLangs, expandNeighbors }, { count: results.length, neighbors: neighborCount }, true, undefined, { resultSummary: { ids: idList.slice(0, 10) }, digests: { resultDigest }, hybrid: hybridExtras });
+            tracer.appendJournal({ cmd: 'search-code', args: { query, topk, preview, filterPath, hybrid, rerankN, filterSymbols, filterLangs }, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt('search-code', { query, topk: opts.topk }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd: 'search-code', error: (error as Error).message, receipt });
+            const msg = error instanceof Error ? error.message : String(error);
+            console.error(chalk.red('❌ search-code failed:'), msg);
+            process.exitCode = 1;
+            if (/Failed to decrypt database|integrity check failed/i.test(msg)) {
+                console.error(chalk.yellow('Tip: run "agm init --force" to reset local DB artifacts if this persists.'));
+            }
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * search-code --expand-neighbors: for each hit, definitions of the symbols it references (calls before plain
+     * references, same-file definitions first). Names defined in more than 3 places are skipped as ambiguous, and
+     * chunks already in the result list are not repeated.
+     */
+    private async expandCodeNeighbors(results: SearchResult[], perHit: number): Promise<Map<number, Array<GraphHitView & { via: string }>>> {
+        const db = this.memoryEngine.database;
+        const hitIds = new Set(results.map(r => r.id));
+        const out = new Map<number, Array<GraphHitView & { via: string }>>();
+        for (const r of results) {
+            let meta: any = {}; try { meta = JSON.parse(r.metadata || '{}'); } catch {}
+            const list: Array<GraphHitView & { via: string }> = [];
+            const seen = new Set<number>();
+            for (const ref of await db.getCodeReferences(r.id)) {
+                if (list.length >= perHit) break;
+                const defs = await db.findSymbolDefinitions([ref.name], 4);
+                if (!defs.length || defs.length > 3) continue;
+                const def = defs.filter(d => !hitIds.has(d.id) && !seen.has(d.id)).sort((a, b) => Number(b.file === meta.file) - Number(a.file === meta.file))[0];
+                if (!def) continue;
+                seen.add(def.id);
+                list.push({ ...graphHitView(def), via: ref.name });
+            }
+            if (list.length) out.set(r.id, list);
+        }
+        return out;
+    }
+
+    /**
+     * Evaluate retrieval quality: run labelled queries through the search-code pipelines (fts, --hybrid, --vector-first)
+     * and report recall@k, MRR and nDCG, compared with the previous stored run.
+     */
+    private async handleEval(opts: any): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const queriesFile: string = opts.queries;
+        try {
+            const { EVAL_MODES, parseEvalQueries, scoreQuery, aggregateScores, loadLatestEvalRun, saveEvalRun, diffEvalRuns } = await import('./engine/RetrievalEval.js');
+            const k = parseInt(opts.topk || '10', 10);
+            if (!Number.isInteger(k) || k < 1 || k > 100) throw new Error(`Invalid -k: ${opts.topk} (expected 1-100)`);
+            const modes = String(opts.modes || EVAL_MODES.join(',')).split(',').map(m => m.trim().toLowerCase()).filter(Boolean);
+            const unknown = modes.filter(m => !EVAL_MODES.includes(m));
+            if (unknown.length || !modes.length) throw new Error(`Invalid --modes: ${opts.modes} (expected a comma-separated subset of ${EVAL_MODES.join(',')})`);
+            const rerankN = parseInt(opts.rerank || '200', 10) || 200;
+            const vectorK = parseInt(opts.vectorK || '50', 10) || 50;
+            tracer.plan('eval', { queriesFile, k, modes, rerankN, vectorK, profile: opts.profile });
+            tracer.mirror(`agm eval --queries ${queriesFile} -k ${k} --modes ${modes.join(',')}${opts.profile ? ` --profile ${opts.profile}` : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: runs each labelled query through search-code (fts = keyword only, hybrid = --hybrid rerank, vector = --vector-first) and scores the top k against the expected files/symbols; the run is stored under .antigoldfishmode/eval/ and diffed against the previous run.'));
+            }
+
+            const text = fs.readFileSync(path.resolve(queriesFile), 'utf8');
+            const queries = parseEvalQueries(text, path.basename(queriesFile));
+            const queriesDigest = crypto.createHash('sha256').update(text).digest('hex');
+            const ranking = resolveRankingParams(process.cwd(), { profile: opts.profile });
+            const params = { rerankN, vectorK, profile: ranking.profile };
+
+            if (tracer.flags.dryRun) {
+                console.log(chalk.yellow(`DRY-RUN: Would evaluate ${queries.length} queries in modes ${modes.join(', ')} at k=${k}`));
+                const receipt = tracer.writeReceipt('eval', { queriesFile, k, modes, ...params, dryRun: true }, { queries: queries.length }, true, undefined, { digests: { queriesDigest } });
+                tracer.appendJournal({ cmd: 'eval', args: { queriesFile, k, modes, dryRun: true }, receipt });
+                return;
+            }
+
+            await this.memoryEngine.initialize();
+            // Vector modes need the local embedding model; report them as skipped instead of scoring their FTS fallback
+            const modelCached = this.embedder().isModelCached();
+            const vectors = modelCached && modes.some(m => m !== 'fts') ? await this.openVectorIndex() : undefined;
+
+            const runId = new Date().toISOString().replace(/[:.]/g, '-');
+            const run: EvalRun = {
+                runId, createdAt: new Date().toISOString(), queriesFile, queriesDigest, k, modes,
+                params: { ...params, backend: vectors?.backend, embedder: vectors ? { name: this.embedder().name, model: this.embedder().getModelId() } : undefined, ranking: ranking.params },
+                metrics: {},
+                queries: queries.map(q => ({ id: q.id, query: q.query, modes: {} })),
+            };
+            const modeDigests: Record<string, string> = {};
+            for (const mode of modes) {
+                if (mode !== 'fts' && !vectors) {
+                    run.metrics[mode] = { ...aggregateScores([]), skipped: 'embedding model not cached' };
+                    continue;
+                }
+                const scores: QueryScore[] = [];
+                let embedded = true;
+                for (const [i, q] of queries.entries()) {
+                    let results: SearchResult[] = await this.memoryEngine.database.searchMemories(q.query, { limit: mode === 'fts' ? k : rerankN, type: 'code' });
+                    if (mode === 'hybrid') {
+                        const fused = await this.hybridRerank(q.query, results, { topk: k, rerankN, ranking: { ...ranking.params, fusion: ranking.params.fusion || 'weighted' }, symbolBias: true, vectors });
+                        results = fused.results;
+                        embedded = embedded && fused.embedded;
+                    } else if (mode === 'vector') {
+                        const union = await this.vectorFirstSearch(q.query, results, { topk: k, vectorK, type: 'code', ranking: { ...ranking.params, fusion: ranking.params.fusion || 'rrf' }, symbolBias: true, vectors });
+                        results = union.results;
+                        embedded = embedded && union.embedded;
+                    }
+                    const metas = results.map(r => { try { return JSON.parse(r.metadata || '{}'); } catch { return {}; } });
+                    const score = scoreQuery(metas, q.expected, k);
+                    const { idList, resultDigest } = codeResultDigest(results.slice(0, k));
+                    scores.push(score);
+                    run.queries[i].modes[mode] = { ...score, resultDigest, top: idList };
+                }
+                run.metrics[mode] = { ...aggregateScores(scores), ...(mode !== 'fts' ? { embedded } : {}) };
+                modeDigests[`${mode}Results`] = crypto.createHash('sha256').update(JSON.stringify(run.queries.map(q => q.modes[mode].resultDigest))).digest('hex');
+            }
+
+            const previous = loadLatestEvalRun(process.cwd());
+            const diff = previous ? diffEvalRuns(previous, run) : undefined;
+            const savedPath = path.relative(process.cwd(), saveEvalRun(process.cwd(), run)).replace(/\\/g, '/');
+
+            if (tracer.flags.json) {
+                this.emitJson({ ...run, diff, runPath: savedPath });
+            } else {
+                console.log(chalk.cyan(`📏 Retrieval eval: ${queries.length} queries, k=${k}, profile=${ranking.profile}${vectors ? `, backend=${vectors.backend}` : ''}`));
+                const fmt = (x: number) => x.toFixed(3);
+                const delta = (x: number | undefined) => x === undefined ? '' : (x > 0 ? chalk.green(` (+${fmt(x)})`) : x < 0 ? chalk.red(` (${fmt(x)})`) : chalk.gray(' (±0)'));
+                for (const mode of modes) {
+                    const m = run.metrics[mode];
+                    if (m.skipped) { console.log(`   ${mode.padEnd(7)} ${chalk.gray(`skipped: ${m.skipped}`)}`); continue; }
+                    const d = diff?.metrics[mode];
+                    console.log(`   ${mode.padEnd(7)} recall@${k}=${fmt(m.recallAtK)}${delta(d?.recallAtK)}  MRR=${fmt(m.mrr)}${delta(d?.mrr)}  nDCG@${k}=${fmt(m.ndcg)}${delta(d?.ndcg)}${m.embedded === false ? chalk.yellow('  (query embedding failed; FTS order)') : ''}`);
+                }
+                if (diff) {
+                    console.log(chalk.gray(`   vs ${diff.previousRunId}${diff.sameQueries ? '' : ' (different queries file)'}: ${diff.improved.length} improved, ${diff.regressed.length} regressed, ${diff.changedResults} result lists changed`));
+                    for (const r of diff.regressed.slice(0, 10)) console.log(chalk.red(`   ↓ ${r.id} [${r.mode}] first relevant rank ${r.from ?? '-'} → ${r.to ?? '-'}`));
+                } else {
+                    console.log(chalk.gray('   No previous run to compare with.'));
+                }
+                console.log(chalk.gray(`   Run saved: ${savedPath}`));
+            }
+
+            const summary = diff ? { previousRunId: diff.previousRunId, sameQueries: diff.sameQueries, metrics: diff.metrics, improved: diff.improved.length, regressed: diff.regressed.length, changedResults: diff.changedResults } : undefined;
+            const receipt = tracer.writeReceipt('eval', { queriesFile, k, modes, ...params }, { runId, runPath: savedPath, queries: queries.length, metrics: run.metrics, diff: summary }, true, undefined, { digests: { queriesDigest, ...modeDigests } });
+            tracer.appendJournal({ cmd: 'eval', args: { queriesFile, k, modes }, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt('eval', { queriesFile }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd: 'eval', error: (error as Error).message, receipt });
+            console.error(chalk.red('❌ eval failed:'), (error as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * Cross-reference lookups over the code graph recorded by `index-code --symbols` (Tree-sitter):
+     * refs = definitions plus every chunk that mentions the symbol, callers = chunks that call it.
+     */
+    private async handleSymbolRefs(symbol: string, opts: any, cmd: 'refs' | 'callers'): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        try {
+            const limit = parseInt(opts.limit || '50', 10);
+            if (!Number.isInteger(limit) || limit < 1) throw new Error(`Invalid --limit: ${opts.limit}`);
+            tracer.plan(cmd, { symbol, limit, explain: tracer.flags.explain });
+            tracer.mirror(`agm ${cmd} ${JSON.stringify(symbol)} --limit ${limit}${tracer.flags.explain ? ' --explain' : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray(`Explanation: looks up ${cmd === 'callers' ? 'code chunks whose body calls' : 'definitions of, and code chunks that reference,'} "${symbol}" in the symbol graph recorded by index-code --symbols (Tree-sitter). Matching is by name, so same-named symbols in different files are all listed.`));
+            }
+            await this.memoryEngine.initialize();
+            const db = this.memoryEngine.database;
+            // `Class.method` narrows definitions to that member; references are recorded by bare name
+            const dot = symbol.lastIndexOf('.');
+            const name = dot > 0 ? symbol.slice(dot + 1) : symbol;
+            const owner = dot > 0 ? symbol.slice(0, dot) : undefined;
+            const definitions = cmd === 'refs'
+                ? (await db.findSymbolDefinitions([name], limit)).filter(d => !owner || d.parentSymbol === owner || !!d.parentSymbol?.endsWith(`.${owner}`)).map(graphHitView)
+                : [];
+            const hits = (await db.findSymbolReferences(name, { kind: cmd === 'callers' ? 'call' : undefined, limit })).map(graphHitView);
+
+            if (tracer.flags.json) {
+                this.emitJson(cmd === 'refs' ? { symbol, definitions, references: hits } : { symbol, callers: hits });
+            } else {
+                if (cmd === 'refs') {
+                    console.log(chalk.cyan(`📍 ${definitions.length} definition${definitions.length === 1 ? '' : 's'} of ${symbol}`));
+                    for (const d of definitions) console.log(`• ${graphHitLabel(d)}`);
+                    console.log(chalk.cyan(`🔗 ${hits.length} reference${hits.length === 1 ? '' : 's'} to ${symbol}`));
+                } else {
+                    console.log(chalk.cyan(`📞 ${hits.length} caller${hits.length === 1 ? '' : 's'} of ${symbol}`));
+                }
+                for (const h of hits) console.log(`• ${cmd === 'refs' ? `[${h.kind}] ` : ''}${graphHitLabel(h)}`);
+                if (!definitions.length && !hits.length) {
+                    console.log(chalk.gray('   Nothing recorded. The graph is built by `agm index-code --symbols` when Tree-sitter is available.'));
+                }
+            }
+            const results = cmd === 'refs' ? { definitions: definitions.length, references: hits.length } : { callers: hits.length };
+            const receipt = tracer.writeReceipt(cmd, { symbol, limit }, results, true, undefined, { resultSummary: { ids: [...definitions, ...hits].map(h => String(h.id)).slice(0, 10) } });
+            tracer.appendJournal({ cmd, args: { symbol, limit }, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt(cmd, { symbol }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd, error: (error as Error).message, receipt });
+            console.error(chalk.red(`❌ ${cmd} failed:`), error instanceof Error ? error.message : error);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * Module dependencies of one indexed file: what it imports (resolved to indexed files where possible)
+     * and which indexed files import it.
+     */
+    private async handleDeps(file: string, opts: any): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const wanted = file.replace(/\\/g, '/').replace(/^\.\//, '');
+        try {
+            tracer.plan('deps', { file: wanted, explain: tracer.flags.explain });
+            tracer.mirror(`agm deps ${JSON.stringify(wanted)}${tracer.flags.explain ? ' --explain' : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: lists the modules imported by the file (from the import graph recorded by index-code --symbols) and resolves relative and package-path imports to indexed files; "imported by" scans every indexed import for one that resolves to this file.'));
+            }
+            await this.memoryEngine.initialize();
+            const db = this.memoryEngine.database;
+            const { moduleResolvesTo } = await import('./codeindex/SymbolReferences.js');
+            const files = await db.listCodeFiles();
+            const target = files.find(f => f === wanted) ?? files.find(f => f.endsWith('/' + wanted));
+            if (!target) throw new Error(`File not indexed: ${wanted}`);
+            const edges = await db.listCodeImports();
+            const imports = edges.filter(e => e.file === target).map(e => ({
+                module: e.module,
+                resolved: files.filter(f => f !== target && moduleResolvesTo(e.module, target, f)),
+            }));
+            const importedBy = edges.filter(e => e.file !== target && moduleResolvesTo(e.module, e.file, target));
+
+            if (tracer.flags.json) {
+                this.emitJson({ file: target, imports, importedBy });
+            } else {
+                console.log(chalk.cyan(`📦 ${target} imports ${imports.length} module${imports.length === 1 ? '' : 's'}`));
+                for (const i of imports) console.log(`• ${i.module}${i.resolved.length ? chalk.gray(` → ${i.resolved.join(', ')}`) : ''}`);
+                console.log(chalk.cyan(`⬅️  Imported by ${importedBy.length} file${importedBy.length === 1 ? '' : 's'}`));
+                for (const e of importedBy) console.log(`• ${e.file} ${chalk.gray(`(${e.module})`)}`);
             }
+            const receipt = tracer.writeReceipt('deps', { file: target }, { imports: imports.length, importedBy: importedBy.length }, true);
+            tracer.appendJournal({ cmd: 'deps', args: { file: target }, receipt });
+        } catch (error) {
+            const receipt = tracer.writeReceipt('deps', { file: wanted }, {}, false, (error as Error).message);
+            tracer.appendJournal({ cmd: 'deps', error: (error as Error).message, receipt });
+            console.error(chalk.red('❌ deps failed:'), error instanceof Error ? error.message : error);
+            process.exitCode = 1;
         } finally {
             await this.cleanup();
         }
@@ -1335,6 +2457,9 @@ export class CodeContextCLI {
         const include: string[] | undefined = opts.include;
         const exclude: string[] | undefined = opts.exclude;
         const useSymbols = !!opts.symbols;
+        let fileFilters: { maxFileBytes?: number; maxLineLength?: number };
+        try { fileFilters = await this.fileFilterOptions(opts); }
+        catch (e) { console.error(chalk.red('❌ watch-code failed:'), (e as Error).message); process.exitCode = 1; return; }
         if (useSymbols) {
             this.nudgePro('symbols-reindex-file', 'Pro improves symbol chunking and reindex speed. Proceeding with basic symbol mode.');
             this.nudgePro('symbols-watch', 'Enhanced symbol chunking and faster diff-aware reindex are Pro features. Proceeding with basic symbol mode.');
@@ -1344,12 +2469,13 @@ export class CodeContextCLI {
         tracer.plan('watch-code', { root, maxChunk, include, exclude, symbols: useSymbols, debounceMs, explain: tracer.flags.explain });
         tracer.mirror(`agm watch-code --path ${JSON.stringify(root)} --max-chunk ${maxChunk}${useSymbols?' --symbols':''}${include?` --include ${include.join(' ')}`:''}${exclude?` --exclude ${exclude.join(' ')}`:''}${debounceMs!==400?` --debounce ${debounceMs}`:''}${tracer.flags.explain?' --explain':''}`);
         if (tracer.flags.explain) {
-            console.log(chalk.gray('Explanation: Watches file changes and re-chunks only changed files; removes stale entries on delete. Emits receipts per batch.'));    
+            console.log(chalk.gray('Explanation: Watches file changes and re-chunks only changed files; removes stale entries on delete. Paths excluded by defaults, .gitignore/.agmignore or --exclude are listed with their rule; binary, oversized, minified and generated files are skipped with the reason. Emits receipts per batch.'));
         }
 
         try {
             await this.memoryEngine.initialize();
             const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
+            const { chunkDocument } = await import('./codeindex/DocumentChunker.js');
             const { SymbolIndexer } = await import('./codeindex/SymbolIndexer.js');
             const { TreeSitterIndexer } = await import('./codeindex/TreeSitterIndexer.js');
             const indexer = new CodeIndexer(root);
@@ -1361,25 +2487,34 @@ export class CodeContextCLI {
                 console.log(chalk.green('🌳 Watch mode using Tree-sitter for precise symbol extraction'));
             }
 
-            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
-            const provider = EmbeddingProvider.create(process.cwd());
-            try { await provider.init(); } catch { /* proceed without vectors */ }
+            const provider = this.embedder();
+            const embeddings = await this.initEmbedder(provider, tracer.flags.trace);
+            // Same default token limit as index-code: the model's input window when the tokenizer is loaded
+            const maxTokens = embeddings ? provider.maxInputTokens() : null;
+            const { fitChunkToTokens } = await import('./codeindex/ChunkWindows.js');
+            const vectors = await this.openVectorIndex();
 
             const chokidar = await import('chokidar');
 
-            // Build watch globs and ignored function
-            const defaultExcludes = ['**/node_modules/**','**/.git/**','**/dist/**','**/build/**','**/.next/**','**/.cache/**','**/.antigoldfishmode/**'];
+            // Build watch globs and ignored function (same rules as index-code: defaults, .gitignore/.agmignore, --exclude)
+            const { IgnoreMatcher, IGNORE_FILES, describeRule } = await import('./codeindex/IgnoreRules.js');
+            const { classifyFile, emptySkipCounts } = await import('./codeindex/FileFilters.js');
+            const ignoreRules = new IgnoreMatcher(root, { exclude });
             const includes = (include && include.length) ? include : ['**/*'];
-            const excludes = [...defaultExcludes, ...(exclude||[])];
-            const shouldIgnore = (relUnix: string): boolean => {
-                return excludes.some(g => globToRegex(g).test(relUnix.endsWith('/')?relUnix:relUnix));
-            };
+            const explained = new Set<string>();
 
             const watcher = chokidar.watch(includes, {
                 cwd: root,
-                ignored: (pth: string) => {
-                    const relUnix = pth.replace(/\\/g,'/');
-                    return shouldIgnore(relUnix);
+                ignored: (pth: string, stats?: fs.Stats) => {
+                    const relUnix = path.relative(root, path.resolve(root, pth)).replace(/\\/g,'/');
+                    let isDir = stats ? stats.isDirectory() : false;
+                    if (!stats) { try { isDir = fs.statSync(path.resolve(root, pth)).isDirectory(); } catch {} }
+                    const res = ignoreRules.check(relUnix, isDir);
+                    if (res.ignored && tracer.flags.explain && !explained.has(relUnix)) {
+                        explained.add(relUnix);
+                        console.log(chalk.gray(`Excluded ${relUnix}${isDir ? '/' : ''} (${describeRule(res.rule!)})`));
+                    }
+                    return res.ignored;
                 },
                 ignoreInitial: true,
                 awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 100 },
@@ -1389,10 +2524,10 @@ export class CodeContextCLI {
             console.log(chalk.cyan(`👀 Watching ${root} for code changes… Press Ctrl+C to stop.`));
 
             const pending = new Map<string, 'add'|'change'|'unlink'>();
-            // Helper to compute a stable digest of file contents
-            const fileDigest = (fullPath: string): string => {
-                try { const buf = fs.readFileSync(fullPath); return crypto.createHash('sha1').update(buf).digest('hex'); } catch { return ''; }
-            };
+            // Same digest and chunking record as index-code, so either command can pick up where the other left off
+            const { digestFile, chunkingOf, isUpToDate } = await import('./codeindex/FileDigest.js');
+            const chunking = chunkingOf(useTreeSitter ? 'treesitter-ast' : useSymbols ? 'heuristic-symbols' : 'lines', maxChunk, { maxTokens });
+            const fileDigest = (fullPath: string): string => digestFile(fullPath) || '';
             // Track recent unlinks to enable simple rename detection (digest → oldPath)
             const recentUnlinks = new Map<string, { path: string; at: number }>();
             let timer: NodeJS.Timeout | null = null;
@@ -1402,6 +2537,8 @@ export class CodeContextCLI {
                 const batch = Array.from(pending.entries());
                 pending.clear();
                 let added = 0, updated = 0, removed = 0, errors: string[] = [];
+                const skipped = emptySkipCounts();
+                const secrets = await this.createSecretScanner();
                 const context = 'code';
                 const processFile = async (rel: string, kind: 'add'|'change'|'unlink') => {
                     try {
@@ -1433,47 +2570,48 @@ export class CodeContextCLI {
                                     if ((moved1||0) + (moved2||0) > 0) {
                                         updated++;
                                         recentUnlinks.delete(digest);
-                                        await (this.memoryEngine.database as any).setFileDigest?.(relUnix, digest);
+                                        await this.memoryEngine.database.setFileDigest(relUnix, digest, chunking);
                                         return; // Skip re-embedding; metadata updated
                                     }
                                 } catch {}
                             }
                         }
-                        // Skip if unchanged (same digest as last processed)
-                        const prev = await (this.memoryEngine.database as any).getFileDigest?.(relUnix) || null;
-                        if (prev && digest && prev === digest && (kind === 'change' || kind === 'add')) {
+                        // Skip if unchanged (same digest and chunking as last processed)
+                        const prev = await this.memoryEngine.database.getFileDigest(relUnix);
+                        if (digest && isUpToDate(prev, digest, chunking)) {
                             return; // No content change detected
                         }
                         try { await (this.memoryEngine.database as any).deleteCodeByFile?.(relUnix); } catch {}
                         try { await (this.memoryEngine.database as any).deleteCodeByFile?.(wsRel); } catch {}
-                        const chunks = useSymbols ? 
-                            (useTreeSitter ? 
-                                treeSitterIndexer.chunkFile(full).map(c => ({ 
-                                    text: c.text, 
-                                    meta: {
-                                        file: c.meta.file,
-                                        language: c.meta.language,
-                                        lineStart: c.meta.lineStart,
-                                        lineEnd: c.meta.lineEnd,
-                                        symbol: c.meta.symbolName,
-                                        symbolType: c.meta.symbolType,
-                                        tags: ['symbol', c.meta.symbolType || 'unknown']
-                                    }
-                                })) :
+                        // A file that became binary/oversized/generated loses its old chunks and is not re-indexed
+                        const skipReason = classifyFile(full, fileFilters);
+                        if (skipReason) {
+                            skipped[skipReason]++;
+                            if (tracer.flags.explain) console.log(chalk.gray(`Skipped ${relUnix} (${skipReason})`));
+                            return;
+                        }
+                        const chunks: Array<{ text: string; meta: any; graph?: CodeGraph }> = chunkDocument(full, root, maxChunk) ?? (useSymbols ?
+                            (useTreeSitter ?
+                                treeSitterIndexer.chunkFile(full).map(treeSitterChunk) :
                                 symIndexer.chunkBySymbols(full)) :
-                            indexer.chunkFile(full, maxChunk).map(c => ({ text: c.text, meta: c.meta }));
-                        for (const chunk of chunks) {
-                            const id = await this.memoryEngine.database.storeMemory(chunk.text, context, 'code', ['code', (chunk as any).meta?.language || 'unknown', useSymbols?'symbol':undefined].filter(Boolean) as string[], chunk.meta);
-                            if (provider && (provider as any).getInfo) {
+                            indexer.chunkFile(full, maxChunk).map(c => ({ text: c.text, meta: c.meta })));
+                        const fitted = maxTokens ? chunks.flatMap(c => fitChunkToTokens(c, maxTokens, t => provider.countTokens(t) ?? 0)) : chunks;
+                        for (const found of fitted) {
+                            const chunk = this.screenSecrets(secrets, found);
+                            if (!chunk) continue;
+                            const id = await this.memoryEngine.database.storeMemory(chunk.text, context, 'code', codeTags(chunk.meta, useSymbols), chunk.meta);
+                            const graph = codeGraphOf(chunk);
+                            if (graph) await this.memoryEngine.database.storeCodeGraph(id, graph);
+                            if (embeddings) {
                                 try {
                                     const vec = await provider.embed(chunk.text);
-                                    await this.memoryEngine.database.upsertVector(id, vec, provider.getInfo().dimensions);
+                                    await vectors.index.add(id, vec);
                                 } catch { /* skip vector */ }
                             }
                             added++;
                         }
                         updated++;
-                        if (digest) await (this.memoryEngine.database as any).setFileDigest?.(relUnix, digest);
+                        if (digest) await this.memoryEngine.database.setFileDigest(relUnix, digest, chunking);
                     } catch (e) {
                         errors.push(`${rel}: ${(e as Error).message}`);
                     }
@@ -1482,11 +2620,12 @@ export class CodeContextCLI {
                 for (const [rel, kind] of batch) {
                     await processFile(rel, kind);
                 }
+                try { await vectors.index.save?.(); } catch (e) { errors.push(`vector index: ${(e as Error).message}`); }
 
-                const summary = { files: batch.length, added, updated, removed, errors: errors.length };
+                const summary = { files: batch.length, added, updated, removed, skipped, secrets: secrets.summary(), errors: errors.length };
                 console.log(chalk.green(`🔄 Indexed batch: +${added} ~${updated} -${removed}${errors.length?` (errors=${errors.length})`:''}`));
                 try {
-                    const receipt = tracer.writeReceipt('watch-code', { root, maxChunk, include, exclude, symbols: useSymbols, debounceMs }, summary, true, undefined, { resultSummary: summary });
+                    const receipt = tracer.writeReceipt('watch-code', { root, maxChunk, include, exclude, symbols: useSymbols, debounceMs, ...fileFilters }, summary, true, undefined, { resultSummary: summary });
                     tracer.appendJournal({ cmd: 'watch-code', args: { root, maxChunk, include, exclude, symbols: useSymbols, debounceMs }, receipt });
                 } catch {}
             };
@@ -1496,8 +2635,10 @@ export class CodeContextCLI {
                 timer = setTimeout(() => { timer = null; flush().catch(() => {}); }, debounceMs);
             };
 
-            watcher.on('add', (p: string) => { const rel = p.replace(/\\/g,'/'); pending.set(rel, 'add'); schedule(); });
-            watcher.on('change', (p: string) => { const rel = p.replace(/\\/g,'/'); pending.set(rel, 'change'); schedule(); });
+            // Edited ignore files take effect for subsequent events
+            const ignoreFileChanged = (rel: string) => { if (IGNORE_FILES.includes(path.basename(rel))) ignoreRules.reset(); };
+            watcher.on('add', (p: string) => { const rel = p.replace(/\\/g,'/'); ignoreFileChanged(rel); pending.set(rel, 'add'); schedule(); });
+            watcher.on('change', (p: string) => { const rel = p.replace(/\\/g,'/'); ignoreFileChanged(rel); pending.set(rel, 'change'); schedule(); });
             watcher.on('unlink', async (p: string) => { const rel = p.replace(/\\/g,'/'); pending.set(rel, 'unlink'); try { await (this.memoryEngine.database as any).deleteFileDigest?.(rel); } catch {} schedule(); });
 
             const stop = async () => {
@@ -1535,16 +2676,19 @@ export class CodeContextCLI {
                 tracer.appendJournal({ cmd: 'digest-cache', args: { clear: true }, receipt });
             } else if (opts.list) {
                 const limit = parseInt(String(opts.limit || '50'), 10) || 50;
-                const rows = await (this.memoryEngine.database as any).listFileDigests?.(limit);
-                if (!rows || rows.length === 0) {
+                const rows = await this.memoryEngine.database.listFileDigests(limit);
+                const { describeChunking } = await import('./codeindex/FileDigest.js');
+                if (tracer.flags.json) {
+                    console.log(JSON.stringify(rows, null, 2));
+                } else if (rows.length === 0) {
                     console.log('ℹ️ No digests cached.');
                 } else {
                     for (const r of rows) {
-                        console.log(`${r.updatedAt}  ${r.digest}  ${r.file}`);
+                        console.log(`${r.updatedAt}  ${r.digest}  ${describeChunking(r).padEnd(17)}  ${r.file}`);
                     }
                     console.log(`\nTotal: ${rows.length} shown${rows.length === limit ? ' (truncated)' : ''}.`);
                 }
-                const receipt = tracer.writeReceipt('digest-cache', { action: 'list', limit }, { shown: rows?.length || 0 }, true);
+                const receipt = tracer.writeReceipt('digest-cache', { action: 'list', limit }, { shown: rows.length }, true);
                 tracer.appendJournal({ cmd: 'digest-cache', args: { list: true, limit }, receipt });
             } else {
                 console.log('Usage: agm digest-cache --clear | --list [--limit <n>]');
@@ -1556,6 +2700,95 @@ export class CodeContextCLI {
         }
     }
 
+    /**
+     * The per-file path shared by reindex-file and reindex-folder, following index-code: skip binary, oversized,
+     * minified and generated files, chunk (Tree-sitter for --symbols when available), split to the model window, scan
+     * for secrets and embed, then replace the file's chunks, graph rows, vectors and digest in one transaction. The
+     * digest records the same chunking as index-code and watch-code, so their --diff / watcher see these files as current.
+     */
+    private async reindexCodeFiles(files: string[], opts: { symbols: boolean; maxChunk: number; chunkOverlap: number; filters: { maxFileBytes?: number; maxLineLength?: number }; trace?: boolean; explain?: boolean }): Promise<{ saved: number; errors: number; skipped: Record<SkipReason, number>; maxTokens: number | null; secrets: ReturnType<SecretScanner['summary']> }> {
+        const root = process.cwd();
+        const db = this.memoryEngine.database;
+        const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
+        const { chunkDocument } = await import('./codeindex/DocumentChunker.js');
+        const { SymbolIndexer } = await import('./codeindex/SymbolIndexer.js');
+        const { TreeSitterIndexer } = await import('./codeindex/TreeSitterIndexer.js');
+        const { fitChunkToTokens } = await import('./codeindex/ChunkWindows.js');
+        const { digestFile, chunkingOf } = await import('./codeindex/FileDigest.js');
+        const { classifyFile, emptySkipCounts } = await import('./codeindex/FileFilters.js');
+        const idx = new CodeIndexer(root);
+        const sym = new SymbolIndexer(root);
+        const treeSitter = new TreeSitterIndexer(root);
+        const strategy: 'treesitter-ast' | 'heuristic-symbols' | 'lines' = !opts.symbols ? 'lines' : treeSitter.isAvailable() ? 'treesitter-ast' : 'heuristic-symbols';
+        if (strategy === 'treesitter-ast') console.log(chalk.green('🌳 Using Tree-sitter for precise AST-based symbol extraction'));
+        const provider = this.embedder();
+        const embeddings = await this.initEmbedder(provider, opts.trace);
+        // Same token limit as index-code: chunks past the model window are split instead of truncated when embedded
+        const maxTokens = embeddings ? provider.maxInputTokens() : null;
+        const chunking = chunkingOf(strategy, opts.maxChunk, { overlap: opts.chunkOverlap, maxTokens });
+        const vectors = await this.openVectorIndex();
+        const secrets = await this.createSecretScanner();
+        const skipped = emptySkipCounts();
+        let saved = 0, errors = 0;
+        const removeFile = async (file: string) => {
+            for (const id of await db.listCodeIdsByFile(file)) {
+                try { await vectors.index.remove(id); } catch { /* cascades with the memory row */ }
+            }
+            await db.deleteCodeByFile(file);
+        };
+        for (const file of files) {
+            const full = path.join(root, file);
+            try {
+                // Same checks as index-code and watch-code; a file that became skippable loses its old chunks
+                const skipReason = fs.existsSync(full) ? classifyFile(full, opts.filters) : null;
+                if (skipReason) {
+                    skipped[skipReason]++;
+                    if (opts.explain) console.log(chalk.gray(`Skipped ${file} (${skipReason})`));
+                    await db.withTransaction(async () => { await removeFile(file); await db.deleteFileDigest(file); });
+                    continue;
+                }
+                const digest = digestFile(full);
+                const chunks: Array<{ text: string; meta: any; graph?: CodeGraph }> = chunkDocument(full, root, opts.maxChunk)
+                    ?? (strategy === 'treesitter-ast' ? treeSitter.chunkFile(full).map(treeSitterChunk)
+                        : strategy === 'heuristic-symbols' ? sym.chunkBySymbols(full)
+                        : idx.chunkFile(full, opts.maxChunk, opts.chunkOverlap));
+                const fitted = maxTokens ? chunks.flatMap(c => fitChunkToTokens(c, maxTokens, t => provider.countTokens(t) ?? 0, opts.chunkOverlap)) : chunks;
+                const screened = fitted.map(c => this.screenSecrets(secrets, c)).filter((c): c is { text: string; meta: any; graph?: CodeGraph } => !!c);
+                let vecs: Float32Array[] = [];
+                if (embeddings && screened.length) {
+                    try { vecs = await provider.embedBatch(screened.map(c => c.text)); }
+                    catch (e) { if (opts.trace) console.log('Vector upsert skipped:', String(e)); }
+                }
+                await db.withTransaction(async () => {
+                    await removeFile(file);
+                    for (let i = 0; i < screened.length; i++) {
+                        const chunk = screened[i];
+                        const metadata = {
+                            ...chunk.meta,
+                            contentSha: crypto.createHash('sha256').update(chunk.text).digest('hex'),
+                            ...(digest ? { fileDigest: digest } : {}),
+                            ...(strategy === 'lines' ? {} : { indexStrategy: strategy })
+                        };
+                        const id = await db.storeMemory(chunk.text, 'code', 'code', codeTags(chunk.meta, opts.symbols), metadata, { quiet: true });
+                        const graph = codeGraphOf(chunk);
+                        if (graph) await db.storeCodeGraph(id, graph);
+                        if (vecs[i]) {
+                            try { await vectors.index.add(id, vecs[i]); }
+                            catch (e) { if (opts.trace) console.log('Vector upsert skipped:', String(e)); }
+                        }
+                    }
+                    if (digest) await db.setFileDigest(file, digest, chunking);
+                });
+                saved += screened.length;
+            } catch (e) {
+                errors++;
+                console.error(chalk.red(`❌ Failed to index ${file}:`), (e as Error).message);
+            }
+        }
+        await vectors.index.save?.();
+        return { saved, errors, skipped, maxTokens, secrets: secrets.summary() };
+    }
+
     // --- Force reindex one file ---
     private async handleReindexFile(file: string, opts: any): Promise<void> {
         const abs = path.resolve(process.cwd(), file);
@@ -1565,34 +2798,20 @@ export class CodeContextCLI {
             this.nudgePro('symbols-reindex-folder', 'Pro enhances symbol chunking and speeds up bulk reindex. Proceeding with basic symbol mode.');
         }
         const maxChunk = 200;
+        const chunkOverlap = parseInt(opts.chunkOverlap || '0', 10);
     const { Tracer } = await import('./utils/Trace.js');
         const tracer = Tracer.create(process.cwd());
         try {
+            if (!(chunkOverlap >= 0 && chunkOverlap < maxChunk)) throw new Error(`Invalid --chunk-overlap: ${opts.chunkOverlap} (must be between 0 and ${maxChunk - 1})`);
+            const fileFilters = await this.fileFilterOptions(opts);
             await this.memoryEngine.initialize();
             const relUnix = path.relative(root, abs).replace(/\\/g,'/');
-            const wsRel = path.relative(process.cwd(), abs).replace(/\\/g,'/');
-            try { await (this.memoryEngine.database as any).deleteCodeByFile?.(relUnix); } catch {}
-            try { await (this.memoryEngine.database as any).deleteCodeByFile?.(wsRel); } catch {}
-            const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
-            const { SymbolIndexer } = await import('./codeindex/SymbolIndexer.js');
-            const idx = new CodeIndexer(root);
-            const sym = new SymbolIndexer(root);
-            const chunks = useSymbols ? sym.chunkBySymbols(abs) : idx.chunkFile(abs, maxChunk).map((c: { text: string; meta: any }) => ({ text: c.text, meta: c.meta }));
-            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
-            const provider = EmbeddingProvider.create(process.cwd());
-            try { await provider.init(); } catch {}
-            let saved = 0;
-            for (const chunk of chunks) {
-                const id = await this.memoryEngine.database.storeMemory(chunk.text, 'code', 'code', ['code', (chunk as any).meta?.language || 'unknown', useSymbols?'symbol':undefined].filter(Boolean) as string[], chunk.meta);
-                if (provider && (provider as any).getInfo) {
-                    try { const vec = await provider.embed(chunk.text); await this.memoryEngine.database.upsertVector(id, vec, provider.getInfo().dimensions); } catch {}
-                }
-                saved++;
-            }
-            // Update digest
-            try { const buf = fs.readFileSync(abs); const dig = crypto.createHash('sha1').update(buf).digest('hex'); await (this.memoryEngine.database as any).setFileDigest?.(relUnix, dig); } catch {}
-            console.log(chalk.green(`✅ Reindexed ${relUnix} (${saved} chunk${saved===1?'':'s'})`));
-            const receipt = tracer.writeReceipt('reindex-file', { file: relUnix, symbols: useSymbols }, { saved }, true);
+            const { saved, errors, skipped, maxTokens, secrets } = await this.reindexCodeFiles([relUnix], { symbols: useSymbols, maxChunk, chunkOverlap, filters: fileFilters, trace: tracer.flags.trace });
+            const skipReason = (Object.keys(skipped) as SkipReason[]).find(r => skipped[r] > 0);
+            if (errors) process.exitCode = 1;
+            else if (skipReason) console.log(chalk.yellow(`⚠️ Skipped ${relUnix} (${skipReason}); its previous chunks were removed.`));
+            else console.log(chalk.green(`✅ Reindexed ${relUnix} (${saved} chunk${saved===1?'':'s'})`));
+            const receipt = tracer.writeReceipt('reindex-file', { file: relUnix, symbols: useSymbols, chunkOverlap, maxTokens, ...fileFilters }, { saved, skipped, secrets }, !errors);
             tracer.appendJournal({ cmd: 'reindex-file', args: { file: relUnix, symbols: useSymbols }, receipt });
         } catch (e) {
             console.error(chalk.red('❌ reindex-file failed:'), (e as Error).message);
@@ -1609,43 +2828,28 @@ export class CodeContextCLI {
         const exclude: string[] | undefined = opts.exclude;
         const useSymbols = !!opts.symbols;
         const maxChunk = parseInt(String(opts.maxChunk || '200'), 10) || 200;
+        const chunkOverlap = parseInt(opts.chunkOverlap || '0', 10);
     const { Tracer } = await import('./utils/Trace.js');
         const tracer = Tracer.create(process.cwd());
         try {
+            if (!(chunkOverlap >= 0 && chunkOverlap < maxChunk)) throw new Error(`Invalid --chunk-overlap: ${opts.chunkOverlap} (must be between 0 and --max-chunk - 1)`);
+            const fileFilters = await this.fileFilterOptions(opts);
             await this.memoryEngine.initialize();
             const { CodeIndexer } = await import('./codeindex/CodeIndexer.js');
-            const { SymbolIndexer } = await import('./codeindex/SymbolIndexer.js');
-            const idx = new CodeIndexer(absFolder);
-            const sym = new SymbolIndexer(absFolder);
-
-            const files = idx.listFiles({ include, exclude, maxChunkLines: maxChunk });
-            let added = 0, errors = 0;
-            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
-            const provider = EmbeddingProvider.create(process.cwd());
-            try { await provider.init(); } catch {}
-            for (const rel of files) {
-                const full = path.join(absFolder, rel);
-                const projectRel = path.relative(root, full).replace(/\\/g, '/');
-                try {
-                    // wipe existing
-                    try { await (this.memoryEngine.database as any).deleteCodeByFile?.(projectRel); } catch {}
-                    const chunks = useSymbols ? sym.chunkBySymbols(full) : idx.chunkFile(full, maxChunk).map((c: { text: string; meta: any }) => ({ text: c.text, meta: c.meta }));
-                    for (const chunk of chunks) {
-                        const id = await this.memoryEngine.database.storeMemory(chunk.text, 'code', 'code', ['code', (chunk as any).meta?.language || 'unknown', useSymbols?'symbol':undefined].filter(Boolean) as string[], chunk.meta);
-                        if (provider && (provider as any).getInfo) {
-                            try { const vec = await provider.embed(chunk.text); await this.memoryEngine.database.upsertVector(id, vec, provider.getInfo().dimensions); } catch {}
-                        }
-                        added++;
-                    }
-                    // refresh digest
-                    try { const buf = fs.readFileSync(full); const dig = crypto.createHash('sha1').update(buf).digest('hex'); await (this.memoryEngine.database as any).setFileDigest?.(projectRel, dig); } catch {}
-                } catch (e) {
-                    errors++;
-                    console.error(`❌ Failed to index ${projectRel}:`, (e as Error).message);
-                }
-            }
-            console.log(chalk.green(`✅ Reindexed ${files.length} files under ${path.relative(root, absFolder)||'.'}; chunks added: ${added}, errors: ${errors}`));
-            const receipt = tracer.writeReceipt('reindex-folder', { folder: path.relative(root, absFolder), include, exclude, symbols: useSymbols, maxChunk }, { files: files.length, added, errors }, true);
+            const { SKIP_REASONS, emptySkipCounts } = await import('./codeindex/FileFilters.js');
+            // Listed under the folder, stored under workspace-relative paths like index-code --path . Names and sizes
+            // are checked while listing and content in reindexCodeFiles; both count into one summary
+            const skipped = emptySkipCounts();
+            const files = new CodeIndexer(absFolder).listFiles({ include, exclude, maxChunkLines: maxChunk, ...fileFilters, onSkip: (p, reason) => {
+                skipped[reason]++;
+                if (tracer.flags.explain) console.log(chalk.gray(`Skipped ${p} (${reason})`));
+            } }).map(rel => path.relative(root, path.join(absFolder, rel)).replace(/\\/g, '/'));
+            const res = await this.reindexCodeFiles(files, { symbols: useSymbols, maxChunk, chunkOverlap, filters: fileFilters, trace: tracer.flags.trace, explain: tracer.flags.explain });
+            const { saved: added, errors, maxTokens, secrets } = res;
+            for (const reason of SKIP_REASONS) skipped[reason] += res.skipped[reason];
+            const skippedParts = Object.entries(skipped).filter(([, n]) => n > 0).map(([reason, n]) => `${n} ${reason}`);
+            console.log(chalk.green(`✅ Reindexed ${files.length} files under ${path.relative(root, absFolder)||'.'}; chunks added: ${added}, errors: ${errors}${skippedParts.length ? `, skipped: ${skippedParts.join(', ')}` : ''}`));
+            const receipt = tracer.writeReceipt('reindex-folder', { folder: path.relative(root, absFolder), include, exclude, symbols: useSymbols, maxChunk, chunkOverlap, maxTokens, ...fileFilters }, { files: files.length, added, errors, skipped, secrets }, true);
             tracer.appendJournal({ cmd: 'reindex-folder', args: { folder: path.relative(root, absFolder), include, exclude, symbols: useSymbols, maxChunk }, receipt });
         } catch (e) {
             console.error(chalk.red('❌ reindex-folder failed:'), (e as Error).message);
@@ -1705,7 +2909,13 @@ export class CodeContextCLI {
             await this.memoryEngine.initialize();
             const project = this.memoryEngine.getProjectInfo();
             const stats = await this.memoryEngine.getStats();
-            const vec = await this.memoryEngine.database.vectorStats();
+            let vec: { backend: string; dimensions: number; count: number; note?: string };
+            try {
+                const vectors = await this.openVectorIndex();
+                vec = { ...(await vectors.index.stats()), ...(vectors.note ? { note: vectors.note } : {}) };
+            } catch (e) {
+                vec = { ...(await this.memoryEngine.database.vectorStats()), note: (e as Error).message };
+            }
             let digests = 0;
             try { digests = await (this.memoryEngine.database as any).countFileDigests?.(); } catch {}
 
@@ -2085,13 +3295,15 @@ export class CodeContextCLI {
                 mapLines.push([m.id, file, lang, ls, le, sym, typ, ts, chunkSha].map(v => String(v).replace(/"/g,'""')).map(v => /,|"/.test(v)?`"${v}"`:v).join(','));
             }
             fs.writeFileSync(path.join(tmpDir, 'map.csv'), mapLines.join('\n'));
-            // notes.jsonl (non-code memories placeholder: export none for now)
-            fs.writeFileSync(path.join(tmpDir, 'notes.jsonl'), '');
             // vectors.f32 (contiguous Float32 rows; fallback to empty if not present)
             let total = 0; let dim = 0;
+            const vectorRows = new Map<number, number>(); // memory id -> row in vectors.f32
+            // Only the selected embedder's vectors: one bundle, one vector space
+            const vectorEmbedder = this.embedder();
+            const vectorModel = vectorEmbedder.getModelId();
             try {
                 const ids = list.map(m => m.id);
-                const vecs = await this.memoryEngine.database.getVectors(ids);
+                const vecs = await this.memoryEngine.database.getVectors(ids, vectorModel);
                 if (vecs.size) {
                     dim = (vecs.values().next().value as Float32Array).length;
                     total = vecs.size;
@@ -2101,6 +3313,7 @@ export class CodeContextCLI {
                         const v = vecs.get(id);
                         if (!v) continue;
                         for (let i = 0; i < dim; i++) buf.writeFloatLE(v[i] || 0, (row * dim + i) * 4);
+                        vectorRows.set(id, row);
                         row++;
                     }
                     fs.writeFileSync(path.join(tmpDir, 'vectors.f32'), buf);
@@ -2109,16 +3322,30 @@ export class CodeContextCLI {
                 }
             } catch {
                 fs.writeFileSync(path.join(tmpDir, 'vectors.f32'), Buffer.alloc(0));
+                vectorRows.clear();
             }
+            // notes.jsonl: one row per exported memory (content + metadata) so import can recreate it.
+            // vectorRow points into vectors.f32 (null when the memory has no vector).
+            const noteLines = list.map(m => {
+                const parse = (raw: string, fallback: any) => { try { return JSON.parse(raw || ''); } catch { return fallback; } };
+                return JSON.stringify({
+                    id: m.id,
+                    content: m.content,
+                    type: m.type,
+                    context: m.context,
+                    tags: parse(m.tags, []),
+                    metadata: parse(m.metadata, {}),
+                    createdAt: m.createdAt,
+                    vectorRow: vectorRows.has(m.id) ? vectorRows.get(m.id) : null
+                });
+            });
+            fs.writeFileSync(path.join(tmpDir, 'notes.jsonl'), noteLines.length ? noteLines.join('\n') + '\n' : '');
 
             // Write manifest last so it can include vectors metadata (schema v1)
             // Probe vector backend if available for richer manifest
             let backend: string | undefined = undefined;
             try {
-                if ((this.memoryEngine as any).getVectorBackendInfo) {
-                    const info = await (this.memoryEngine as any).getVectorBackendInfo();
-                    backend = info?.backend;
-                }
+                backend = (await this.openVectorIndex()).backend;
             } catch {}
 
             const manifest: any = {
@@ -2132,7 +3359,8 @@ export class CodeContextCLI {
                     node: process.version,
                     host: require('os').hostname()
                 },
-                vectors: { dim, count: total, backend }
+                vectors: { dim, count: total, backend, embedder: vectorEmbedder.name, model: vectorModel },
+                notes: { count: noteLines.length, content: true }
             };
             if (deltaBaseManifestDigest) {
                 manifest.delta = {
@@ -2150,26 +3378,9 @@ export class CodeContextCLI {
             if (wantSign) {
                 this.nudgePro('sign', 'Signed exports (.agmctx + signature) are a Pro convenience feature. Proceeding with local signing.');
                 try {
-                    const keyDir = path.join(process.cwd(), '.antigoldfishmode', 'keys');
-                    const pubKeyPath = path.join(keyDir, 'agm_ed25519.pub');
-                    const privKeyPath = path.join(keyDir, 'agm_ed25519.key');
-                    if (!fs.existsSync(keyDir)) fs.mkdirSync(keyDir, { recursive: true });
-                    let publicKey: Buffer;
-                    let privateKey: Buffer;
-                    if (fs.existsSync(pubKeyPath) && fs.existsSync(privKeyPath)) {
-                        publicKey = fs.readFileSync(pubKeyPath);
-                        privateKey = fs.readFileSync(privKeyPath);
-                    } else {
-                        // Create new keypair
-                        const { generateKeyPairSync } = await import('crypto');
-                        const { publicKey: pub, privateKey: priv } = generateKeyPairSync('ed25519');
-                        publicKey = pub.export({ type: 'spki', format: 'der' }) as Buffer;
-                        privateKey = priv.export({ type: 'pkcs8', format: 'der' }) as Buffer;
-                        fs.writeFileSync(pubKeyPath, publicKey);
-                        fs.writeFileSync(privKeyPath, privateKey);
-                    }
-                    // Compute keyId (fingerprint)
-                    const keyId = crypto.createHash('sha256').update(publicKey).digest('hex').slice(0,16);
+                    const { loadOrCreateSigningKey, signDigest } = await import('./utils/SigningKey.js');
+                    const key = loadOrCreateSigningKey(process.cwd());
+                    const keyId = key.keyId;
                     // Re-write manifest with keyId included (before signing)
                     try {
                         const manifestPath = path.join(tmpDir, 'manifest.json');
@@ -2178,20 +3389,14 @@ export class CodeContextCLI {
                         fs.writeFileSync(manifestPath, JSON.stringify(current, null, 2));
                     } catch {}
 
-                    // Sign manifest+map+vectors digest
-                    const { createSign, createHash } = await import('crypto');
-                    const sha = createHash('sha256');
+                    // Sign manifest+map+vectors(+notes when they carry content) digest
+                    const sha = crypto.createHash('sha256');
                     sha.update(fs.readFileSync(path.join(tmpDir, 'manifest.json')));
                     sha.update(fs.readFileSync(path.join(tmpDir, 'map.csv')));
                     sha.update(fs.readFileSync(path.join(tmpDir, 'vectors.f32')));
-                    const digest = sha.digest();
-
-                    // ed25519 uses sign.update directly not createSign; use sign by KeyObject
-                    const { createPrivateKey, sign: cryptoSign } = await import('crypto');
-                    const keyObj = createPrivateKey({ key: fs.readFileSync(path.join(process.cwd(), '.antigoldfishmode', 'keys', 'agm_ed25519.key')), format: 'der', type: 'pkcs8' });
-                    const signature = cryptoSign(null, digest, keyObj);
-                    fs.writeFileSync(path.join(tmpDir, 'signature.bin'), signature);
-                    fs.writeFileSync(path.join(tmpDir, 'publickey.der'), fs.readFileSync(path.join(process.cwd(), '.antigoldfishmode', 'keys', 'agm_ed25519.pub')));
+                    sha.update(fs.readFileSync(path.join(tmpDir, 'notes.jsonl')));
+                    fs.writeFileSync(path.join(tmpDir, 'signature.bin'), signDigest(key, sha.digest()));
+                    fs.writeFileSync(path.join(tmpDir, 'publickey.der'), key.publicKey);
                 } catch (e) {
                     console.log(chalk.yellow('⚠️ Signing failed; continuing without signature:'), (e as Error).message);
                 }
@@ -2275,17 +3480,15 @@ export class CodeContextCLI {
 
     private async handleKeyStatus(): Promise<void> {
         try {
-            const keyDir = path.join(process.cwd(), '.antigoldfishmode', 'keys');
-            const pubKeyPath = path.join(keyDir, 'agm_ed25519.pub');
-            if (!fs.existsSync(pubKeyPath)) {
+            const { loadSigningKey } = await import('./utils/SigningKey.js');
+            const key = loadSigningKey(process.cwd());
+            if (!key) {
                 console.log(chalk.yellow('ℹ️ No signing key present (will auto-generate on first signed export).'));
                 return;
             }
-            const pub = fs.readFileSync(pubKeyPath);
-            const keyId = crypto.createHash('sha256').update(pub).digest('hex').slice(0,16);
             console.log(chalk.cyan('🔑 Signing Key'));
-            console.log(`   keyId: ${keyId}`);
-            console.log(`   pub: ${pub.length} bytes (ed25519)`);
+            console.log(`   keyId: ${key.keyId}`);
+            console.log(`   pub: ${key.publicKey.length} bytes (ed25519)`);
         } catch (e) {
             console.log(chalk.red('❌ Key status failed:'), (e as Error).message);
         }
@@ -2293,32 +3496,10 @@ export class CodeContextCLI {
 
     private async handleKeyRotate(): Promise<void> {
         try {
-            const keyDir = path.join(process.cwd(), '.antigoldfishmode', 'keys');
-            if (!fs.existsSync(keyDir)) fs.mkdirSync(keyDir, { recursive: true });
-            const pubKeyPath = path.join(keyDir, 'agm_ed25519.pub');
-            const privKeyPath = path.join(keyDir, 'agm_ed25519.key');
-            // Archive existing key if present
-            if (fs.existsSync(pubKeyPath) && fs.existsSync(privKeyPath)) {
-                try {
-                    const oldPub = fs.readFileSync(pubKeyPath);
-                    const oldKeyId = crypto.createHash('sha256').update(oldPub).digest('hex').slice(0,16);
-                    const archiveDir = path.join(keyDir, 'archive');
-                    fs.mkdirSync(archiveDir, { recursive: true });
-                    const ts = new Date().toISOString().replace(/[:.]/g,'-');
-                    fs.renameSync(pubKeyPath, path.join(archiveDir, `${oldKeyId}.${ts}.pub`));
-                    fs.renameSync(privKeyPath, path.join(archiveDir, `${oldKeyId}.${ts}.key`));
-                } catch (e) {
-                    console.log(chalk.yellow('⚠️ Failed to archive previous key (continuing):'), (e as Error).message);
-                }
-            }
-            const { generateKeyPairSync } = await import('crypto');
-            const { publicKey: pub, privateKey: priv } = generateKeyPairSync('ed25519');
-            const publicKey = pub.export({ type: 'spki', format: 'der' }) as Buffer;
-            const privateKey = priv.export({ type: 'pkcs8', format: 'der' }) as Buffer;
-            fs.writeFileSync(pubKeyPath, publicKey);
-            fs.writeFileSync(privKeyPath, privateKey);
-            const keyId = crypto.createHash('sha256').update(publicKey).digest('hex').slice(0,16);
-            console.log(chalk.green(`✅ Rotated signing key. New keyId=${keyId}`));
+            const { rotateSigningKey } = await import('./utils/SigningKey.js');
+            const { key, archiveError } = rotateSigningKey(process.cwd());
+            if (archiveError) console.log(chalk.yellow('⚠️ Failed to archive previous key (continuing):'), archiveError);
+            console.log(chalk.green(`✅ Rotated signing key. New keyId=${key.keyId}`));
             console.log(chalk.gray('   Existing signed .agmctx remain verifiable (they embed their public key).'));
         } catch (e) {
             console.log(chalk.red('❌ Key rotation failed:'), (e as Error).message);
@@ -2327,19 +3508,12 @@ export class CodeContextCLI {
 
     private async handleKeyList(): Promise<void> {
         try {
-            const keyDir = path.join(process.cwd(), '.antigoldfishmode', 'keys');
-            const pubKeyPath = path.join(keyDir, 'agm_ed25519.pub');
+            const { loadSigningKey, signingKeyPaths } = await import('./utils/SigningKey.js');
+            const { archiveDir } = signingKeyPaths(process.cwd());
             console.log(chalk.cyan('🔑 Keyring'));
-            if (fs.existsSync(pubKeyPath)) {
-                try {
-                    const pub = fs.readFileSync(pubKeyPath);
-                    const keyId = crypto.createHash('sha256').update(pub).digest('hex').slice(0,16);
-                    console.log(`   current: ${keyId}`);
-                } catch {}
-            } else {
-                console.log('   current: (none)');
-            }
-            const archiveDir = path.join(keyDir, 'archive');
+            try {
+                console.log(`   current: ${loadSigningKey(process.cwd())?.keyId ?? '(none)'}`);
+            } catch {}
             if (fs.existsSync(archiveDir)) {
                 const entries = fs.readdirSync(archiveDir).filter(f => /\.pub$/.test(f));
                 if (entries.length) {
@@ -2360,8 +3534,8 @@ export class CodeContextCLI {
         try {
             const days = parseInt(String(opts.days||'30'),10) || 30;
             const cutoff = Date.now() - days*24*60*60*1000;
-            const keyDir = path.join(process.cwd(), '.antigoldfishmode', 'keys');
-            const archiveDir = path.join(keyDir, 'archive');
+            const { signingKeyPaths } = await import('./utils/SigningKey.js');
+            const { archiveDir } = signingKeyPaths(process.cwd());
             if (!fs.existsSync(archiveDir)) { console.log(chalk.gray('ℹ️ No archive directory')); return; }
             let removed = 0;
             for (const f of fs.readdirSync(archiveDir)) {
@@ -2382,6 +3556,12 @@ export class CodeContextCLI {
     const { Tracer } = await import('./utils/Trace.js');
         const tracer = Tracer.create(process.cwd());
         try {
+            const strategy = String(opts?.strategy || 'keep-both');
+            if (!['skip','replace','keep-both'].includes(strategy)) {
+                console.log(chalk.red(`❌ Invalid --strategy: ${strategy} (expected skip|replace|keep-both)`));
+                process.exit(1); return;
+            }
+            const preview = !!opts?.preview;
             // If a zip archive is provided, unzip to a temp directory first
             if (/\.zip$/i.test(dir) && fs.existsSync(dir)) {
                 try {
@@ -2403,6 +3583,7 @@ export class CodeContextCLI {
             const manifestPath = path.join(dir, 'manifest.json');
             const mapPath = path.join(dir, 'map.csv');
             const vecPath = path.join(dir, 'vectors.f32');
+            const notesPath = path.join(dir, 'notes.jsonl');
             if (!fs.existsSync(manifestPath) || !fs.existsSync(mapPath) || !fs.existsSync(vecPath)) {
                 console.log(chalk.red('❌ Invalid .agmctx: missing required files'));
                 process.exit(1);
@@ -2423,6 +3604,8 @@ export class CodeContextCLI {
                     sha.update(fs.readFileSync(manifestPath));
                     sha.update(fs.readFileSync(mapPath));
                     sha.update(fs.readFileSync(vecPath));
+                    // Bundles that carry memory content (manifest.notes) also sign notes.jsonl
+                    if (manifest?.notes?.content && fs.existsSync(notesPath)) sha.update(fs.readFileSync(notesPath));
                     const digest = sha.digest();
                     const ok = verify(null, digest, pub, fs.readFileSync(sigPath));
                     if (ok) {
@@ -2484,25 +3667,21 @@ export class CodeContextCLI {
             } catch {}
             console.log(chalk.green(`✅ Context verified (v${manifest.schemaVersion}, type=${manifest.type}, count=${manifest.count}${verified?', signed':''})`));
 
-            // Import vectors: read map.csv for ids in order, then vectors.f32
+            // Import: read map.csv for ids in order, notes.jsonl for content, then vectors.f32
             await this.memoryEngine.initialize();
-            const lines = fs.readFileSync(mapPath, 'utf8').split(/\r?\n/).filter(Boolean);
-            const header = lines.shift(); // remove header
-            const rows = lines.map(l => {
-                // naive CSV split handling quotes
-                const parts: string[] = [];
-                let cur = '';
-                let inq = false;
-                for (let i = 0; i < l.length; i++) {
-                    const ch = l[i];
-                    if (ch === '"') { inq = !inq; continue; }
-                    if (ch === ',' && !inq) { parts.push(cur); cur = ''; } else { cur += ch; }
-                }
-                parts.push(cur);
-                return parts;
-            });
-            const ids = rows.map(r => parseInt(r[0],10)).filter(n => Number.isFinite(n));
-            // Import vectors
+            const db = this.memoryEngine.database;
+            const { parseContextMap, diffContextAgainstLocal } = await import('./utils/ContextDiff.js');
+            const mapRows = parseContextMap(fs.readFileSync(mapPath, 'utf8'));
+            const ids = mapRows.map(r => r.id);
+            // Compare incoming chunk keys (file:lineStart:lineEnd:chunk_sha256) against local memories
+            const diff = diffContextAgainstLocal(mapRows, await db.listMemories());
+            if (preview) {
+                this.printImportPreview(diff, strategy, tracer.flags.json);
+                const receipt = tracer.writeReceipt('import-context', { file, preview: true, strategy }, { verified, schemaVersion: Number(manifest.schemaVersion), type: String(manifest.type), metadataRows: ids.length, preview: { counts: diff.counts, strategy } }, true);
+                tracer.appendJournal({ cmd: 'import-context', args: { file, preview: true, strategy }, receipt });
+                return;
+            }
+            const diffById = new Map(diff.entries.map(e => [e.id, e]));
             const vecBuf = fs.readFileSync(vecPath);
             let dim = 0;
             if (vecBuf.length && ids.length) {
@@ -2516,20 +3695,86 @@ export class CodeContextCLI {
                     const candidates = [384,512,768,1024,1536,3072];
                     dim = candidates.find(c => (rowCount % c) === 0) || 0;
                 }
-                if (dim) {
-                    const totalRows = Math.floor((vecBuf.length / 4) / dim);
+            }
+            const totalRows = dim ? Math.floor((vecBuf.length / 4) / dim) : 0;
+            // Vectors keep the model the exporter recorded; older bundles don't say and are taken as the active model's
+            const { activeModelId } = await import('./engine/embeddings/ModelRegistry.js');
+            const vectorModel = typeof manifest?.vectors?.model === 'string' && manifest.vectors.model ? String(manifest.vectors.model) : activeModelId(process.cwd());
+            const searchModel = this.embedder().getModelId();
+            if (dim && vectorModel !== searchModel) {
+                console.log(chalk.yellow(`⚠️ Bundle vectors were made by ${vectorModel}; this project searches with ${searchModel}. They are stored but not searched until you switch models or embedders, or run agm reembed.`));
+            }
+            const readRow = (row: number): Float32Array => {
+                const arr = new Float32Array(dim);
+                for (let i = 0; i < dim; i++) arr[i] = vecBuf.readFloatLE((row * dim + i) * 4);
+                return arr;
+            };
+
+            // Bundles with content (notes.jsonl rows) are materialized into local memories; exported ids are
+            // remapped to local ids so vectors attach to the rows that now exist in this database. Only manifests that
+            // declare notes.content cover notes.jsonl in the signature, so rows in any other bundle are ignored.
+            const notes: any[] = [];
+            if (fs.existsSync(notesPath)) {
+                const lines = fs.readFileSync(notesPath, 'utf8').split(/\r?\n/).filter(line => line.trim());
+                if (!manifest?.notes?.content) {
+                    if (lines.length) console.log(chalk.yellow(`⚠️ Ignoring ${lines.length} notes.jsonl row(s): the manifest does not declare notes content, so they are not covered by its signature.`));
+                } else {
+                    for (const line of lines) {
+                        try { notes.push(JSON.parse(line)); } catch { notes.push(null); }
+                    }
+                }
+            }
+            const dryRun = tracer.flags.dryRun;
+            const materialized = { inserted: 0, existing: 0, invalid: 0, skipped: 0, replaced: 0 };
+            const replacedIds = new Set<number>();
+            let vectorsAttached = 0;
+            if (notes.length) {
+                for (const n of notes) {
+                    if (!n || typeof n.content !== 'string' || !n.content.trim()) { materialized.invalid++; continue; }
+                    const entry = diffById.get(Number(n.id));
+                    if (entry && (entry.status === 'changed' || entry.status === 'conflicting')) {
+                        if (strategy === 'skip') { materialized.skipped++; continue; }
+                        if (strategy === 'replace') {
+                            for (const lid of entry.localIds) {
+                                if (replacedIds.has(lid)) continue;
+                                replacedIds.add(lid);
+                                if (!dryRun) await db.deleteMemory(lid);
+                            }
+                        }
+                    }
+                    let localId = await db.findMemoryIdByContent(n.content);
+                    if (localId !== null) {
+                        materialized.existing++;
+                    } else {
+                        materialized.inserted++;
+                        if (!dryRun) {
+                            const tags = Array.isArray(n.tags) ? n.tags.map(String) : [];
+                            const meta = n.metadata && typeof n.metadata === 'object' ? n.metadata : {};
+                            localId = await db.storeMemory(n.content, String(n.context || 'import'), String(n.type || manifest.type || 'general'), tags, meta, { quiet: true });
+                        }
+                    }
+                    const row = n.vectorRow;
+                    if (dim && Number.isInteger(row) && row >= 0 && row < totalRows) {
+                        if (!dryRun && localId !== null) await db.upsertVector(localId, readRow(row), dim, vectorModel, vectorModel === searchModel);
+                        vectorsAttached++;
+                    }
+                }
+                materialized.replaced = replacedIds.size;
+                console.log(chalk.green(`✅ ${dryRun ? 'Would import' : 'Imported'} ${notes.length} memories: inserted=${materialized.inserted} existing=${materialized.existing}${materialized.skipped?` skipped=${materialized.skipped}`:''}${materialized.replaced?` replaced=${materialized.replaced}`:''}${materialized.invalid?` invalid=${materialized.invalid}`:''}${dim?`, vectors=${vectorsAttached} x ${dim}D`:''}`));
+            } else {
+                // Legacy bundle (empty notes.jsonl): vectors are attached to matching local ids by row order
+                if (dim && !dryRun) {
                     for (let row = 0; row < Math.min(totalRows, ids.length); row++) {
-                        const id = ids[row];
-                        const arr = new Float32Array(dim);
-                        for (let i = 0; i < dim; i++) arr[i] = vecBuf.readFloatLE((row * dim + i) * 4);
-                        await this.memoryEngine.database.upsertVector(id, arr, dim);
+                        await db.upsertVector(ids[row], readRow(row), dim, vectorModel, vectorModel === searchModel);
                     }
                 }
+                vectorsAttached = dim ? Math.min(totalRows, ids.length) : 0;
+                console.log(chalk.green(`✅ Imported ${ids.length} metadata rows${dim?`, vectors=${totalRows} x ${dim}D`:''}`));
+                if (ids.length) console.log(chalk.gray('   note: bundle has no notes.jsonl content (older export); memories were not created.'));
             }
-            console.log(chalk.green(`✅ Imported ${ids.length} metadata rows${dim?`, vectors=${Math.floor(vecBuf.length/4/dim)} x ${dim}D`:''}`));
             // Emit a receipt for import
             try {
-                const vectorsMeta = dim ? { rows: Math.floor(vecBuf.length/4/dim), dim, backend: manifest?.vectors?.backend } : undefined;
+                const vectorsMeta = dim ? { rows: totalRows, attached: vectorsAttached, dim, backend: manifest?.vectors?.backend, model: vectorModel } : undefined;
                 // Build verification extras (files + checksums if available)
                 let checksumInfo: any = undefined;
                 try {
@@ -2539,7 +3784,7 @@ export class CodeContextCLI {
                         checksumInfo = { count: Object.keys(data.files||{}).length };
                     }
                 } catch {}
-                const receipt = tracer.writeReceipt('import-context', { file, decision: { unsignedBypass: { allowed: !verified, reason: !verified ? 'trust' : 'signed' } } }, { verified, schemaVersion: Number(manifest.schemaVersion), type: String(manifest.type), metadataRows: ids.length, vectors: vectorsMeta, checksumVerified: checksumInfo?.count }, true, undefined, { verification: { checksums: checksumInfo } });
+                const receipt = tracer.writeReceipt('import-context', { file, dryRun, strategy, decision: { unsignedBypass: { allowed: !verified, reason: !verified ? 'trust' : 'signed' } } }, { verified, schemaVersion: Number(manifest.schemaVersion), type: String(manifest.type), metadataRows: ids.length, memories: notes.length ? materialized : undefined, preview: { counts: diff.counts, strategy }, vectors: vectorsMeta, checksumVerified: checksumInfo?.count }, true, undefined, { verification: { checksums: checksumInfo } });
                 tracer.appendJournal({ cmd: 'import-context', args: { file }, receipt });
             } catch {}
         } catch (error) {
@@ -2563,6 +3808,10 @@ export class CodeContextCLI {
         if (typeof pol.signExports === 'boolean' || typeof pol.requireSignedContext === 'boolean') {
             console.log(`   .agmctx defaults: signExports=${!!pol.signExports}, requireSignedContext=${!!pol.requireSignedContext}, forceSignedExports=${!!(pol as any).forceSignedExports}`);
         }
+        console.log(`   Vector backend: ${pol.vectorBackend || 'auto'}`);
+        console.log(`   Embedder: ${pol.embedder || 'transformers'}`);
+        if (pol.hnsw) console.log(`   HNSW: ${JSON.stringify(pol.hnsw)}`);
+        console.log(`   Secret scanning: ${pol.secretScanning || 'redact'}${pol.secretScanning ? '' : ' (default)'}`);
         try {
             const trust = this.policyBroker.listTrust();
             if (trust.length) {
@@ -2574,6 +3823,449 @@ export class CodeContextCLI {
         } catch {}
     }
 
+    private async handlePolicySecrets(mode: string): Promise<void> {
+        try {
+            this.policyBroker.setSecretScanning(mode);
+            console.log(chalk.green(`✅ Secret scanning set to: ${mode}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to set secret scanning:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    private async handlePolicyVectorBackend(mode: string): Promise<void> {
+        try {
+            this.policyBroker.setVectorBackend(mode);
+            console.log(chalk.green(`✅ Vector backend set to: ${mode}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to set vector backend:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    private async handlePolicyEmbedder(name: string): Promise<void> {
+        try {
+            this.policyBroker.setEmbedder(name);
+            console.log(chalk.green(`✅ Embedder set to: ${name}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to set embedder:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    private async handlePolicyHnsw(opts: any): Promise<void> {
+        const num = (v: any) => v === undefined ? undefined : Number(v);
+        try {
+            const hnsw = this.policyBroker.setHnswParams({ m: num(opts.m), efConstruction: num(opts.efConstruction), efSearch: num(opts.efSearch) });
+            console.log(chalk.green(`✅ HNSW parameters: ${JSON.stringify(hnsw)}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to set HNSW parameters:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    private async handleRankingList(): Promise<void> {
+        try {
+            const profiles = listRankingProfiles(process.cwd());
+            if (this.program.opts().json) {
+                this.emitJson({ path: rankingProfilesPath(process.cwd()), profiles });
+                return;
+            }
+            console.log(chalk.cyan('📐 Ranking profiles'));
+            for (const p of profiles) {
+                const r = p.params;
+                const boosts = Object.entries(r.pathBoosts).map(([g, f]) => `${g}=${f}`).join(' ');
+                console.log(`${p.isDefault ? '*' : ' '} ${p.name.padEnd(12)} ${chalk.gray(`[${p.origin}]`)} fusion=${r.fusion || 'auto'} bm25=${r.bm25Weight} cosine=${r.cosineWeight} symbol=${r.symbolBoost}` +
+                    (r.recencyWeight > 0 ? ` recency=${r.recencyWeight}/${r.recencyHalfLifeDays}d` : '') + (boosts ? ` paths: ${boosts}` : ''));
+            }
+            console.log(chalk.gray('   * = used when search-code runs without --profile; fusion=auto means weighted (rrf with --vector-first)'));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to list ranking profiles:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    private async handleRankingSave(name: string, opts: any): Promise<void> {
+        const num = (v: any) => v === undefined ? undefined : Number(v);
+        try {
+            const file = loadRankingProfiles(process.cwd());
+            const base: Partial<RankingParams> = opts.from ? resolveRankingParams(process.cwd(), { profile: opts.from }).params : (file.profiles[name] || {});
+            const changes = Object.fromEntries(Object.entries({
+                fusion: opts.fusion, bm25Weight: num(opts.bm25Weight), cosineWeight: num(opts.cosineWeight), symbolBoost: num(opts.symbolBoost),
+                recencyWeight: num(opts.recencyWeight), recencyHalfLifeDays: num(opts.recencyHalfLife), pathBoosts: parsePathBoosts(opts.pathBoost),
+            }).filter(([, v]) => v !== undefined)) as Partial<RankingParams>;
+            const profile = { ...base, ...changes };
+            validateRankingParams(profile, `profile '${name}'`);
+            file.profiles[name] = profile;
+            if (opts.default) file.defaultProfile = name;
+            saveRankingProfiles(process.cwd(), file);
+            const effective = resolveRankingParams(process.cwd(), { profile: name }).params;
+            console.log(chalk.green(`✅ Saved ranking profile '${name}'${opts.default ? ' (default)' : ''}: ${JSON.stringify(effective)}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to save ranking profile:'), (e as Error).message);
+            process.exitCode = 1;
+        }
+    }
+
+    /**
+     * models list: the active model (and where it comes from), cached and registered models with their measured
+     * (or config-declared) dimensions, and how many stored vectors each model produced.
+     */
+    private async handleModelsList(): Promise<void> {
+        try {
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            const root = process.cwd();
+            const registry = reg.loadModelRegistry(root);
+            const active = reg.activeModelId(root);
+            await this.memoryEngine.initialize();
+            const stats = this.memoryEngine.database.vectorModelStats();
+            const ids = new Set<string>([active, ...reg.listCachedModels(root), ...Object.keys(registry.models), ...stats.map(s => s.model).filter((m): m is string => !!m)]);
+            const embedder = { name: this.embedder().name, model: this.embedder().getModelId(), source: this.requestedEmbedder().source };
+            const models = [...ids].sort().map(id => {
+                const rows = stats.filter(s => s.model === id);
+                return {
+                    id, active: id === active, cached: id === LOCAL_HASH_MODEL || reg.isModelCached(root, id),
+                    dimensions: registry.models[id]?.dimensions ?? null, configDimensions: reg.configuredDimensions(root, id) ?? null,
+                    vectors: rows.reduce((n, r) => n + r.count, 0), vectorDimensions: rows.map(r => r.dim),
+                    pack: registry.models[id]?.pack ?? null,
+                };
+            });
+            const source = process.env.AGM_EMBED_MODEL ? 'env' : registry.active ? 'registry' : 'default';
+            if (this.program.opts().json) {
+                this.emitJson({ path: reg.modelRegistryPath(root), active, source, embedder, models });
+                return;
+            }
+            console.log(chalk.cyan('🧬 Embedding models'));
+            for (const m of models) {
+                const dims = m.dimensions ? `${m.dimensions}d` : m.configDimensions ? `${m.configDimensions}d (config)` : '?d';
+                const expected = m.dimensions ?? m.configDimensions;
+                const odd = expected ? m.vectorDimensions.filter(d => d !== expected) : [];
+                const origin = m.pack ? `pack ${m.pack.manifestSha256.slice(0, 12)}${m.pack.signed ? ` signed ${m.pack.keyId}` : ''}` : '';
+                console.log(`${m.active ? '*' : ' '} ${m.id.padEnd(36)} ${dims.padEnd(13)} ${(m.cached ? 'cached' : 'not cached').padEnd(10)} vectors=${m.vectors}${origin ? `  ${origin}` : ''}` +
+                    (odd.length ? chalk.yellow(` (also ${odd.join('/')}d vectors; run agm models verify)`) : ''));
+            }
+            console.log(chalk.gray(`   * = active (from ${source === 'env' ? 'AGM_EMBED_MODEL' : source === 'registry' ? 'models.json' : 'the default'}); dimensions are measured when a model loads (agm models verify)`));
+            console.log(chalk.gray(`   Embedder: ${embedder.name} (from ${embedder.source}), vectors stored as ${embedder.model}`));
+        } catch (e) {
+            console.error(chalk.red('❌ Failed to list models:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    private async handleModelsUse(model: string): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        try {
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            const root = process.cwd();
+            reg.validateModelId(model);
+            tracer.plan('models', { action: 'use', model });
+            tracer.mirror(`agm models use ${model}`);
+            const previous = reg.activeModelId(root);
+            const dryRun = tracer.flags.dryRun;
+            if (!dryRun) reg.setActiveModel(root, model);
+            const cached = reg.isModelCached(root, model);
+            await this.memoryEngine.initialize();
+            const staleVectors = this.memoryEngine.database.countVectorsNotFromModel(model);
+            const result = { model, previous, cached, staleVectors, dryRun };
+            if (tracer.flags.json) {
+                this.emitJson(result);
+            } else {
+                console.log(chalk.green(`✅ ${dryRun ? 'Would make' : 'Active embedding model:'} ${model}${dryRun ? ' the active embedding model' : ''}${previous !== model ? ` (was ${previous})` : ''}`));
+                if (process.env.AGM_EMBED_MODEL && process.env.AGM_EMBED_MODEL !== model) console.log(chalk.yellow(`⚠️ AGM_EMBED_MODEL=${process.env.AGM_EMBED_MODEL} is set and takes precedence while it is.`));
+                if (!cached) console.log(chalk.yellow(`⚠️ ${model} is not in the local model cache (${path.relative(root, reg.modelCacheDir(root))}); vectors are skipped until its files are there.`));
+                if (staleVectors) console.log(chalk.yellow(`   ${staleVectors} stored vector(s) were made by other models and are not searched until re-embedded: agm reembed [--background]`));
+            }
+            const receipt = tracer.writeReceipt('models', { action: 'use', model }, result, true);
+            tracer.appendJournal({ cmd: 'models', args: { action: 'use', model }, receipt });
+        } catch (e) {
+            const receipt = tracer.writeReceipt('models', { action: 'use', model }, {}, false, (e as Error).message);
+            tracer.appendJournal({ cmd: 'models', error: (e as Error).message, receipt });
+            console.error(chalk.red('❌ Failed to switch models:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * models verify: load the model, measure its output dimension (recorded in models.json) and count the stored
+     * vectors labelled with it that have another dimension. Exits 1 when the model can't load or vectors mismatch.
+     */
+    private async handleModelsVerify(model?: string): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const root = process.cwd();
+        try {
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            const id = model || reg.activeModelId(root);
+            reg.validateModelId(id);
+            tracer.plan('models', { action: 'verify', model: id });
+            tracer.mirror(`agm models verify ${id}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: loads the model from the local cache, embeds a probe text to measure the output dimension, records it in models.json, and compares it with the dimension of every stored vector labelled with this model.'));
+            }
+            const previousDims = reg.loadModelRegistry(root).models[id]?.dimensions;
+            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
+            const provider = EmbeddingProvider.create(root, id);
+            await provider.init();
+            const dimensions = provider.getInfo().dimensions;
+            await this.memoryEngine.initialize();
+            const rows = this.memoryEngine.database.vectorModelStats().filter(s => s.model === id);
+            const matching = rows.filter(r => r.dim === dimensions).reduce((n, r) => n + r.count, 0);
+            const mismatched = rows.filter(r => r.dim !== dimensions).reduce((n, r) => n + r.count, 0);
+            const otherModels = this.memoryEngine.database.countVectorsNotFromModel(id);
+            const ok = mismatched === 0;
+            const result = { model: id, active: id === reg.activeModelId(root), dimensions, previousDimensions: previousDims ?? null, vectors: { matching, mismatched, otherModels }, ok };
+            if (tracer.flags.json) {
+                this.emitJson(result);
+            } else {
+                console.log(chalk.green(`✅ ${id}: ${dimensions}-dimensional embeddings (measured)`) + (previousDims && previousDims !== dimensions ? chalk.yellow(` — registry said ${previousDims}`) : ''));
+                console.log(`   Stored vectors: ${matching} match`);
+                if (mismatched) console.log(chalk.red(`   ${mismatched} vector(s) labelled ${id} have another dimension; re-embed them with agm reembed${result.active ? '' : ` --model ${id}`}`));
+                if (otherModels) console.log(chalk.gray(`   ${otherModels} vector(s) from other models (not compared with this one)`));
+            }
+            if (!ok) process.exitCode = 1;
+            const receipt = tracer.writeReceipt('models', { action: 'verify', model: id }, result, ok, ok ? undefined : `${mismatched} vector(s) with another dimension`);
+            tracer.appendJournal({ cmd: 'models', args: { action: 'verify', model: id }, receipt });
+        } catch (e) {
+            const receipt = tracer.writeReceipt('models', { action: 'verify', model }, {}, false, (e as Error).message);
+            tracer.appendJournal({ cmd: 'models', error: (e as Error).message, receipt });
+            console.error(chalk.red('❌ Model verification failed:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * reembed: migrate the vectors other models produced to the active model (or --model, which becomes active
+     * once it loads). Resumable (see Reembed.ts); --background re-runs this command detached, --status reports.
+     */
+    private async handleReembed(opts: any): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const root = process.cwd();
+        const batchSize = parseInt(opts.batchSize || '32', 10);
+        try {
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            const { readReembedProgress, reembedCorpus, reembedLogPath } = await import('./engine/embeddings/Reembed.js');
+            if (opts.status) {
+                const progress = readReembedProgress(root);
+                const model = this.embedder().getModelId();
+                await this.memoryEngine.initialize();
+                const remaining = this.memoryEngine.database.countVectorsNotFromModel(model, reg.loadModelRegistry(root).models[model]?.dimensions);
+                if (tracer.flags.json) {
+                    this.emitJson({ model, remaining, progress });
+                } else if (!progress) {
+                    console.log(`No re-embedding run recorded. ${remaining} vector(s) are not from ${model}.`);
+                } else {
+                    console.log(chalk.cyan(`🔁 Re-embedding to ${progress.model}: ${progress.status}${progress.pid ? ` (pid ${progress.pid})` : ''}`));
+                    console.log(`   ${progress.done}/${progress.total} done${progress.failed ? `, ${progress.failed} failed` : ''}; started ${progress.startedAt}, updated ${progress.updatedAt}`);
+                    if (progress.error) console.log(chalk.yellow(`   Last error: ${progress.error}`));
+                    console.log(chalk.gray(`   ${remaining} vector(s) still not from ${model}${remaining && progress.status !== 'running' ? ' — run agm reembed to continue' : ''}`));
+                }
+                return;
+            }
+
+            if (!(batchSize > 0)) throw new Error(`Invalid --batch-size: ${opts.batchSize}`);
+            if (opts.model) reg.validateModelId(opts.model);
+            if (opts.model && this.requestedEmbedder().mode === 'local-hash') throw new Error('--model selects a transformers model; it cannot be combined with --embedder local-hash');
+            if (opts.model && process.env.AGM_EMBED_MODEL && process.env.AGM_EMBED_MODEL !== opts.model) {
+                throw new Error(`AGM_EMBED_MODEL=${process.env.AGM_EMBED_MODEL} overrides --model; unset it first`);
+            }
+            const running = readReembedProgress(root);
+            if (running?.status === 'running' && running.pid !== process.pid) throw new Error(`Re-embedding is already running (pid ${running.pid})`);
+            tracer.plan('reembed', { model: opts.model, batchSize, background: !!opts.background });
+            tracer.mirror(`agm reembed${opts.model ? ` --model ${opts.model}` : ''} --batch-size ${batchSize}${opts.background ? ' --background' : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: embeds, in id order and in batches, every memory whose stored vector was made by another model (or has the wrong dimension) and replaces the vector in one transaction per batch. Progress is saved in .antigoldfishmode/reembed.json; a stopped run continues where it left off. Searches only compare vectors of the active model, so results improve as the run progresses.'));
+            }
+
+            if (tracer.flags.dryRun) {
+                const model = opts.model || this.embedder().getModelId();
+                await this.memoryEngine.initialize();
+                const pending = this.memoryEngine.database.countVectorsNotFromModel(model, reg.loadModelRegistry(root).models[model]?.dimensions);
+                if (tracer.flags.json) this.emitJson({ model, pending, dryRun: true });
+                else console.log(chalk.cyan(`🔁 Would re-embed ${pending} vector(s) with ${model}`));
+                const receipt = tracer.writeReceipt('reembed', { model, batchSize, dryRun: true }, { pending }, true);
+                tracer.appendJournal({ cmd: 'reembed', args: { model, batchSize, dryRun: true }, receipt });
+                return;
+            }
+
+            if (opts.background) {
+                const { spawn } = await import('child_process');
+                fs.mkdirSync(path.dirname(reembedLogPath(root)), { recursive: true });
+                const log = fs.openSync(reembedLogPath(root), 'a');
+                const { vectorBackend: backend, embedder } = this.program.opts();
+                const args = [process.argv[1], ...(backend ? ['--vector-backend', backend] : []), ...(embedder ? ['--embedder', embedder] : []), 'reembed', ...(opts.model ? ['--model', opts.model] : []), '--batch-size', String(batchSize)];
+                const child = spawn(process.execPath, args, { cwd: root, detached: true, stdio: ['ignore', log, log] });
+                child.unref();
+                fs.closeSync(log);
+                console.log(chalk.green(`✅ Re-embedding started in the background (pid ${child.pid}). Follow it with agm reembed --status; output goes to ${path.relative(root, reembedLogPath(root))}.`));
+                const receipt = tracer.writeReceipt('reembed', { model: opts.model, batchSize, background: true }, { pid: child.pid }, true);
+                tracer.appendJournal({ cmd: 'reembed', args: { model: opts.model, batchSize, background: true }, receipt });
+                return;
+            }
+
+            await this.memoryEngine.initialize();
+            const { EmbeddingProvider } = await import('./engine/embeddings/EmbeddingProvider.js');
+            const provider = opts.model ? EmbeddingProvider.create(root, opts.model) : this.embedder();
+            await provider.init();
+            if (opts.model && opts.model !== reg.activeModelId(root)) {
+                reg.setActiveModel(root, opts.model);
+                console.log(chalk.green(`✅ Active embedding model: ${opts.model}`));
+            }
+            const vectors = await this.openVectorIndex(provider.getModelId());
+            if (vectors.model !== provider.getModelId()) throw new Error(`Vector index is bound to ${vectors.model}, not ${provider.getModelId()}`);
+            const dimensions = provider.getInfo().dimensions;
+
+            let stop = false;
+            const onSignal = () => { stop = true; console.error(chalk.yellow('Stopping after the current batch…')); };
+            process.once('SIGINT', onSignal);
+            process.once('SIGTERM', onSignal);
+            const started = Date.now();
+            let progress;
+            try {
+                progress = await reembedCorpus(this.memoryEngine.database, vectors.index, texts => provider.embedBatch(texts, batchSize), {
+                    projectRoot: root, batchSize, dimensions, shouldStop: () => stop,
+                    onBatch: p => { if (!tracer.flags.json) process.stderr.write(`Re-embedded ${p.done}/${p.total}${p.failed ? ` (${p.failed} failed)` : ''}\n`); },
+                });
+            } finally {
+                process.removeListener('SIGINT', onSignal);
+                process.removeListener('SIGTERM', onSignal);
+            }
+            const result = { ...progress, embedder: provider.name, dimensions, backend: vectors.backend, durationMs: Date.now() - started };
+            if (tracer.flags.json) {
+                this.emitJson(result);
+            } else if (progress.status === 'done') {
+                console.log(chalk.green(`✅ Re-embedded ${progress.done} vector(s) with ${progress.model} (${dimensions}d, ${vectors.backend})`));
+            } else {
+                console.log(chalk.yellow(`⚠️ Re-embedding ${progress.status}: ${progress.done}/${progress.total} done${progress.failed ? `, ${progress.failed} failed (${progress.error})` : ''}. Run agm reembed again to continue.`));
+            }
+            if (progress.status === 'failed') process.exitCode = 1;
+            const receipt = tracer.writeReceipt('reembed', { model: progress.model, batchSize }, result, progress.status !== 'failed', progress.status === 'failed' ? progress.error : undefined);
+            tracer.appendJournal({ cmd: 'reembed', args: { model: progress.model, batchSize }, receipt });
+        } catch (e) {
+            const receipt = tracer.writeReceipt('reembed', { model: opts.model, batchSize }, {}, false, (e as Error).message);
+            tracer.appendJournal({ cmd: 'reembed', error: (e as Error).message, receipt });
+            console.error(chalk.red('❌ Re-embedding failed:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
+    /**
+     * models import: check a model pack and install it into .antigoldfishmode/models. Exit codes follow
+     * import-context: 4 for missing/altered/unlisted files, 3 for an invalid signature, 2 when policy.requireSignedModels
+     * blocks an unsigned pack.
+     */
+    private async handleModelsImport(source: string, opts: any): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const root = process.cwd();
+        const params = { source, use: !!opts.use, force: !!opts.force };
+        let pack: { dir: string; cleanup: () => void } | undefined;
+        const block = (code: number, reason: string, message: string, result: any = {}) => {
+            const receipt = tracer.writeReceipt('models', { action: 'import', ...params }, result, false, reason, { exitCode: code });
+            tracer.appendJournal({ cmd: 'models', args: { action: 'import', ...params }, receipt });
+            console.error(chalk.red(`❌ Model import blocked: ${message} (exit ${code})`));
+            process.exitCode = code;
+        };
+        try {
+            const mp = await import('./engine/embeddings/ModelPack.js');
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            tracer.plan('models', { action: 'import', ...params });
+            tracer.mirror(`agm models import ${source}${opts.use ? ' --use' : ''}${opts.force ? ' --force' : ''}`);
+            if (tracer.flags.explain) {
+                console.log(chalk.gray('Explanation: reads model-pack.json, checks the sha256 and size of every listed file (and that nothing unlisted is present), verifies the ED25519 signature over the manifest when there is one, then copies the files into .antigoldfishmode/models/<org>/<name> and records the pack in models.json.'));
+            }
+            pack = await mp.openModelPack(path.resolve(root, source), path.join(root, '.antigoldfishmode'));
+            const check = mp.checkModelPack(pack.dir);
+            const summary = { model: check.manifest.model, manifestSha256: check.manifestSha256, signature: check.signature, keyId: check.keyId, files: Object.keys(check.manifest.files).length, bytes: check.bytes };
+            if (check.problems.length) {
+                for (const p of check.problems.slice(0, 10)) console.error(chalk.red(`   ${p}`));
+                block(4, 'checksum_mismatch', `${check.problems.length} file problem(s) in the pack`, { ...summary, problems: check.problems });
+                return;
+            }
+            if (check.signature === 'invalid') {
+                block(3, 'invalid_signature', 'invalid signature', summary);
+                return;
+            }
+            const pol = this.policyBroker.getPolicy();
+            if (pol.requireSignedModels && check.signature !== 'valid' && !(opts.allowUnsigned && this.policyBroker.isTrusted('models'))) {
+                block(2, 'unsigned_blocked', 'policy requires a signed model pack (signature.bin/publickey.der)', summary);
+                console.error(chalk.gray('   Tip: agm policy trust models --minutes 15, then rerun with --allow-unsigned to bypass temporarily.'));
+                return;
+            }
+            if (tracer.flags.dryRun) {
+                if (tracer.flags.json) this.emitJson({ ...summary, dryRun: true });
+                else console.log(chalk.green(`✅ Model pack verified: ${summary.model} (${summary.files} files${check.signature === 'valid' ? `, signed keyId=${check.keyId}` : ', unsigned'}); not installed (--dry-run)`));
+                const receipt = tracer.writeReceipt('models', { action: 'import', ...params, dryRun: true }, summary, true);
+                tracer.appendJournal({ cmd: 'models', args: { action: 'import', ...params, dryRun: true }, receipt });
+                return;
+            }
+            const installed = mp.installModelPack(root, pack.dir, check, { force: !!opts.force, source: path.basename(source) });
+            if (opts.use) reg.setActiveModel(root, check.manifest.model);
+            const result = { ...summary, installed: installed.installed, path: path.relative(root, installed.path), active: reg.activeModelId(root) === check.manifest.model, packDimensions: check.manifest.dimensions ?? null };
+            if (tracer.flags.json) {
+                this.emitJson(result);
+            } else {
+                console.log(chalk.green(`✅ ${installed.installed ? 'Installed' : 'Already installed'} ${summary.model} (${summary.files} files, ${(summary.bytes / 1024 / 1024).toFixed(1)} MB) → ${result.path}`));
+                console.log(chalk.gray(`   manifest sha256=${check.manifestSha256.slice(0, 16)}… ${check.signature === 'valid' ? `signed keyId=${check.keyId}` : 'unsigned'}`));
+                if (result.active) console.log(chalk.gray('   Active model. Check it with agm models verify.'));
+                else console.log(chalk.gray(`   Activate it with agm models use ${summary.model}`));
+            }
+            const receipt = tracer.writeReceipt('models', { action: 'import', ...params }, result, true);
+            tracer.appendJournal({ cmd: 'models', args: { action: 'import', ...params }, receipt });
+        } catch (e) {
+            const receipt = tracer.writeReceipt('models', { action: 'import', ...params }, {}, false, (e as Error).message);
+            tracer.appendJournal({ cmd: 'models', error: (e as Error).message, receipt });
+            console.error(chalk.red('❌ Model import failed:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            pack?.cleanup();
+            await this.cleanup();
+        }
+    }
+
+    private async handleModelsExport(model: string | undefined, opts: any): Promise<void> {
+        const { Tracer } = await import('./utils/Trace.js');
+        const tracer = Tracer.create(process.cwd());
+        const root = process.cwd();
+        try {
+            const mp = await import('./engine/embeddings/ModelPack.js');
+            const reg = await import('./engine/embeddings/ModelRegistry.js');
+            const id = model || reg.activeModelId(root);
+            const outPath = path.resolve(root, opts.out);
+            const params = { model: id, out: opts.out, sign: !!opts.sign };
+            tracer.plan('models', { action: 'export', ...params });
+            tracer.mirror(`agm models export ${id} --out ${opts.out}${opts.sign ? ' --sign' : ''}`);
+            const { loadOrCreateSigningKey } = await import('./utils/SigningKey.js');
+            const key = opts.sign ? loadOrCreateSigningKey(root) : undefined;
+            const res = mp.exportModelPack(root, id, outPath, { key, exporterVersion: require('../package.json').version });
+            const result = { model: id, outPath: opts.out, format: res.format, files: res.files, bytes: res.bytes, manifestSha256: res.manifestSha256, signed: !!key, keyId: key?.keyId };
+            if (tracer.flags.json) {
+                this.emitJson(result);
+            } else {
+                console.log(chalk.green(`✅ Exported ${id} (${res.files} files, ${(res.bytes / 1024 / 1024).toFixed(1)} MB) → ${opts.out}`));
+                console.log(chalk.gray(`   manifest sha256=${res.manifestSha256.slice(0, 16)}… ${key ? `signed keyId=${key.keyId}` : 'unsigned'}; install with agm models import ${path.basename(opts.out)}`));
+            }
+            const receipt = tracer.writeReceipt('models', { action: 'export', ...params }, result, true);
+            tracer.appendJournal({ cmd: 'models', args: { action: 'export', ...params }, receipt });
+        } catch (e) {
+            const receipt = tracer.writeReceipt('models', { action: 'export', model, out: opts.out }, {}, false, (e as Error).message);
+            tracer.appendJournal({ cmd: 'models', error: (e as Error).message, receipt });
+            console.error(chalk.red('❌ Model export failed:'), (e as Error).message);
+            process.exitCode = 1;
+        } finally {
+            await this.cleanup();
+        }
+    }
+
     private async handlePolicyAllowCommand(cmd: string): Promise<void> {
         const added = this.policyBroker.allowCommand(cmd);
         if (added) console.log(chalk.green(`✅ Allowed command: ${cmd}`));
@@ -2724,7 +4416,7 @@ export function main(argv: string[]) {
     try {
         const cli = new CodeContextCLI(process.cwd(), false, false, false);
         // Basic hyphen command cleanup (user sometimes types -status, but preserve valid flags like -V, --version)
-        if (argv[2] && /^-+/.test(argv[2]) && !argv[2].match(/^(-V|--version|--help|-h|--trace|--dry-run|--json|--explain)$/)) {
+        if (argv[2] && /^-+/.test(argv[2]) && !argv[2].match(/^(-V|--version|--help|-h|--trace|--dry-run|--json|--explain|(--vector-backend|--ef-search|--embedder)(=.*)?)$/)) {
             const cleaned = argv[2].replace(/^-+/, '');
             argv[2] = cleaned;
         }
@@ -0,0 +1,125 @@
+import * as crypto from 'crypto';
+
+/**
+ * Compares the chunks of an incoming .agmctx bundle (map.csv rows) with local memories.
+ * Keys follow the export delta format: file:lineStart:lineEnd:chunk_sha256.
+ *
+ * - identical:   the exact key already exists locally
+ * - changed:     a local chunk covers the same file:lineStart:lineEnd with different content
+ * - conflicting: the range overlaps local chunk(s) of the same file with different boundaries and content
+ * - new:         nothing local overlaps the chunk
+ */
+export type ContextChunkStatus = 'new' | 'changed' | 'identical' | 'conflicting';
+
+export interface ContextMapRow {
+  id: number;
+  file: string;
+  lineStart: number | null;
+  lineEnd: number | null;
+  sha256: string;
+}
+
+export interface ContextDiffEntry extends ContextMapRow {
+  status: ContextChunkStatus;
+  localIds: number[]; // local memories that match (identical) or would be affected (changed/conflicting)
+}
+
+export interface ContextDiff {
+  entries: ContextDiffEntry[];
+  counts: Record<ContextChunkStatus, number>;
+}
+
+export interface LocalMemoryRow {
+  id: number;
+  content: string;
+  metadata: string;
+}
+
+/** CSV line parser for map.csv (handles quoted commas and doubled quotes). */
+export function parseCsvLine(l: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let q = false;
+  for (let i = 0; i < l.length; i++) {
+    const ch = l[i];
+    if (q) {
+      if (ch === '"') {
+        if (l[i + 1] === '"') { cur += '"'; i++; } else { q = false; }
+      } else cur += ch;
+    } else {
+      if (ch === ',') { out.push(cur); cur = ''; }
+      else if (ch === '"') { q = true; }
+      else cur += ch;
+    }
+  }
+  out.push(cur);
+  return out;
+}
+
+/** Parse map.csv text into rows (header skipped; rows without an id are dropped). */
+export function parseContextMap(csv: string): ContextMapRow[] {
+  const lines = csv.split(/\r?\n/).filter(Boolean).slice(1);
+  const rows: ContextMapRow[] = [];
+  for (const line of lines) {
+    const cols = parseCsvLine(line);
+    const id = parseInt(cols[0], 10);
+    if (!Number.isFinite(id)) continue;
+    const num = (v: string | undefined) => { const n = parseInt(String(v ?? ''), 10); return Number.isFinite(n) ? n : null; };
+    rows.push({ id, file: cols[1] || '', lineStart: num(cols[3]), lineEnd: num(cols[4]), sha256: cols[8] || '' });
+  }
+  return rows;
+}
+
+export function diffContextAgainstLocal(incoming: ContextMapRow[], local: LocalMemoryRow[]): ContextDiff {
+  // Index local chunks by file; chunks without a file (notes) are matched by content only
+  const byFile = new Map<string, Array<{ id: number; ls: number | null; le: number | null; sha: string }>>();
+  const byShaNoFile = new Map<string, number[]>();
+  for (const m of local) {
+    let meta: any = {};
+    try { meta = JSON.parse(m.metadata || '{}'); } catch {}
+    const sha = crypto.createHash('sha256').update(String(m.content || '')).digest('hex');
+    const file = typeof meta.file === 'string' ? meta.file : '';
+    if (!file) {
+      const ids = byShaNoFile.get(sha) || [];
+      ids.push(m.id);
+      byShaNoFile.set(sha, ids);
+      continue;
+    }
+    const ls = Number.isFinite(Number(meta.lineStart)) ? Number(meta.lineStart) : null;
+    const le = Number.isFinite(Number(meta.lineEnd)) ? Number(meta.lineEnd) : null;
+    const list = byFile.get(file) || [];
+    list.push({ id: m.id, ls, le, sha });
+    byFile.set(file, list);
+  }
+
+  const counts: Record<ContextChunkStatus, number> = { new: 0, changed: 0, identical: 0, conflicting: 0 };
+  const entries: ContextDiffEntry[] = [];
+  for (const row of incoming) {
+    let status: ContextChunkStatus = 'new';
+    let localIds: number[] = [];
+    if (!row.file) {
+      const same = byShaNoFile.get(row.sha256);
+      if (same?.length) { status = 'identical'; localIds = same.slice(); }
+    } else {
+      const candidates = byFile.get(row.file) || [];
+      const exact = candidates.filter(c => c.ls === row.lineStart && c.le === row.lineEnd);
+      const identical = exact.filter(c => c.sha === row.sha256);
+      if (identical.length) {
+        status = 'identical';
+        localIds = identical.map(c => c.id);
+      } else if (exact.length) {
+        status = 'changed';
+        localIds = exact.map(c => c.id);
+      } else if (row.lineStart !== null && row.lineEnd !== null) {
+        const overlapping = candidates.filter(c => c.ls !== null && c.le !== null && c.ls <= row.lineEnd! && row.lineStart! <= c.le && c.sha !== row.sha256);
+        if (overlapping.length) {
+          status = 'conflicting';
+          localIds = overlapping.map(c => c.id);
+        }
+      }
+    }
+    counts[status]++;
+    entries.push({ ...row, status, localIds });
+  }
+  return { entries, counts };
+}
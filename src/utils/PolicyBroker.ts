@@ -11,7 +11,12 @@ export interface Policy {
   // New: portability and integrity toggles
   signExports?: boolean;              // default false; if true, agm export-context signs by default
   requireSignedContext?: boolean;     // default false; if true, agm import-context requires a valid signature
+  requireSignedModels?: boolean;      // default false; if true, agm models import requires a valid signature
   forceSignedExports?: boolean;       // default false; if true, signing cannot be disabled (even with --no-sign)
+  vectorBackend?: 'auto' | 'local' | 'vss' | 'hnsw'; // default auto; overridden per command by --vector-backend
+  hnsw?: { m?: number; efConstruction?: number; efSearch?: number }; // HNSW tuning (defaults 16/200/64)
+  secretScanning?: 'block' | 'redact' | 'warn'; // default redact; applied to every indexed code chunk
+  embedder?: 'transformers' | 'local-hash' | 'auto'; // default transformers; overridden per command by --embedder
 }
 
 export class PolicyBroker {
@@ -171,6 +176,44 @@ export class PolicyBroker {
     return false;
   }
 
+  public setVectorBackend(mode: string): void {
+    if (!['auto', 'local', 'vss', 'hnsw'].includes(mode)) {
+      throw new Error(`Invalid vector backend: ${mode} (expected auto|local|vss|hnsw)`);
+    }
+    this.policy.vectorBackend = mode as Policy['vectorBackend'];
+    this.savePolicy();
+  }
+
+  public setEmbedder(mode: string): void {
+    if (!['transformers', 'local-hash', 'auto'].includes(mode)) {
+      throw new Error(`Invalid embedder: ${mode} (expected transformers|local-hash|auto)`);
+    }
+    this.policy.embedder = mode as Policy['embedder'];
+    this.savePolicy();
+  }
+
+  public setSecretScanning(mode: string): void {
+    if (!['block', 'redact', 'warn'].includes(mode)) {
+      throw new Error(`Invalid secret scanning mode: ${mode} (expected block|redact|warn)`);
+    }
+    this.policy.secretScanning = mode as Policy['secretScanning'];
+    this.savePolicy();
+  }
+
+  public setHnswParams(params: { m?: number; efConstruction?: number; efSearch?: number }): NonNullable<Policy['hnsw']> {
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      if (!Number.isInteger(value) || value < 2) throw new Error(`Invalid HNSW ${key}: ${value} (expected an integer >= 2)`);
+    }
+    const next = { ...(this.policy.hnsw || {}) };
+    if (params.m !== undefined) next.m = params.m;
+    if (params.efConstruction !== undefined) next.efConstruction = params.efConstruction;
+    if (params.efSearch !== undefined) next.efSearch = params.efSearch;
+    this.policy.hnsw = next;
+    this.savePolicy();
+    return next;
+  }
+
   public allowPath(glob: string): boolean {
     if (!this.policy.allowedGlobs.includes(glob)) {
       this.policy.allowedGlobs.push(glob);
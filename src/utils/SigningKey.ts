@@ -0,0 +1,88 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The project's ED25519 signing key (.antigoldfishmode/keys/agm_ed25519.{pub,key}, DER), shared by signed .agmctx
+ * exports and model packs. Signed artifacts carry the public key, so they stay verifiable after `agm key rotate`.
+ */
+
+export interface SigningKey {
+  publicKey: Buffer;
+  privateKey: Buffer;
+  keyId: string;
+}
+
+/** Fingerprint shown by `agm key status` and recorded in manifests: first 16 hex chars of sha256(public key). */
+export function keyIdOf(publicKey: Buffer): string {
+  return crypto.createHash('sha256').update(publicKey).digest('hex').slice(0, 16);
+}
+
+/** Where the current key pair and the keys archived by `agm key rotate` live. */
+export function signingKeyPaths(projectRoot: string): { keyDir: string; archiveDir: string; publicKeyPath: string; privateKeyPath: string } {
+  const keyDir = path.join(projectRoot, '.antigoldfishmode', 'keys');
+  return {
+    keyDir,
+    archiveDir: path.join(keyDir, 'archive'),
+    publicKeyPath: path.join(keyDir, 'agm_ed25519.pub'),
+    privateKeyPath: path.join(keyDir, 'agm_ed25519.key'),
+  };
+}
+
+/** The current key pair, or null when none has been generated yet. */
+export function loadSigningKey(projectRoot: string): SigningKey | null {
+  const { publicKeyPath, privateKeyPath } = signingKeyPaths(projectRoot);
+  if (!fs.existsSync(publicKeyPath) || !fs.existsSync(privateKeyPath)) return null;
+  const publicKey = fs.readFileSync(publicKeyPath);
+  return { publicKey, privateKey: fs.readFileSync(privateKeyPath), keyId: keyIdOf(publicKey) };
+}
+
+/** Load the current key pair, generating one on first use. */
+export function loadOrCreateSigningKey(projectRoot: string): SigningKey {
+  return loadSigningKey(projectRoot) ?? generateSigningKey(projectRoot);
+}
+
+/**
+ * Replace the current key pair with a new one, moving the old pair to keys/archive/<keyId>.<timestamp>.{pub,key}.
+ * A failed archive does not stop the rotation; its error is returned instead.
+ */
+export function rotateSigningKey(projectRoot: string): { key: SigningKey; archiveError?: string } {
+  const { archiveDir, publicKeyPath, privateKeyPath } = signingKeyPaths(projectRoot);
+  const previous = loadSigningKey(projectRoot);
+  let archiveError: string | undefined;
+  if (previous) {
+    try {
+      fs.mkdirSync(archiveDir, { recursive: true });
+      const ts = new Date().toISOString().replace(/[:.]/g, '-');
+      fs.renameSync(publicKeyPath, path.join(archiveDir, `${previous.keyId}.${ts}.pub`));
+      fs.renameSync(privateKeyPath, path.join(archiveDir, `${previous.keyId}.${ts}.key`));
+    } catch (e) {
+      archiveError = (e as Error).message;
+    }
+  }
+  return { key: generateSigningKey(projectRoot), ...(archiveError ? { archiveError } : {}) };
+}
+
+function generateSigningKey(projectRoot: string): SigningKey {
+  const { keyDir, publicKeyPath, privateKeyPath } = signingKeyPaths(projectRoot);
+  fs.mkdirSync(keyDir, { recursive: true });
+  const pair = crypto.generateKeyPairSync('ed25519');
+  const publicKey = pair.publicKey.export({ type: 'spki', format: 'der' }) as Buffer;
+  const privateKey = pair.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer;
+  fs.writeFileSync(publicKeyPath, publicKey);
+  fs.writeFileSync(privateKeyPath, privateKey);
+  return { publicKey, privateKey, keyId: keyIdOf(publicKey) };
+}
+
+export function signDigest(key: SigningKey, digest: Buffer): Buffer {
+  return crypto.sign(null, digest, crypto.createPrivateKey({ key: key.privateKey, format: 'der', type: 'pkcs8' }));
+}
+
+/** False for a bad signature or a malformed key. */
+export function verifyDigest(publicKeyDer: Buffer, digest: Buffer, signature: Buffer): boolean {
+  try {
+    return crypto.verify(null, digest, crypto.createPublicKey({ key: publicKeyDer, format: 'der', type: 'spki' }), signature);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,93 @@
+import * as zlib from 'zlib';
+
+/**
+ * Minimal ustar reader/writer for model packs (regular files and directories only; gzip detected by magic bytes).
+ * Archives are built and read in memory, like the fflate zips used for .agmctx.
+ */
+
+export interface TarEntry {
+  /** Relative path with `/` separators. */
+  name: string;
+  data: Buffer;
+}
+
+const BLOCK = 512;
+
+export function packTar(entries: TarEntry[], opts: { gzip?: boolean } = {}): Buffer {
+  const parts: Buffer[] = [];
+  const mtime = Math.floor(Date.now() / 1000);
+  for (const e of entries) {
+    const header = Buffer.alloc(BLOCK);
+    const [prefix, name] = splitName(e.name);
+    header.write(name, 0, 100, 'utf8');
+    header.write('0000644\0', 100, 'ascii');
+    header.write('0000000\0', 108, 'ascii');
+    header.write('0000000\0', 116, 'ascii');
+    header.write(octal(e.data.length, 12), 124, 'ascii');
+    header.write(octal(mtime, 12), 136, 'ascii');
+    header.write('        ', 148, 'ascii');
+    header.write('0', 156, 'ascii');
+    header.write('ustar\0' + '00', 257, 'ascii');
+    header.write(prefix, 345, 155, 'utf8');
+    let sum = 0;
+    for (const b of header) sum += b;
+    header.write(octal(sum, 7) + ' ', 148, 'ascii');
+    parts.push(header, e.data, Buffer.alloc((BLOCK - (e.data.length % BLOCK)) % BLOCK));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2));
+  const tar = Buffer.concat(parts);
+  return opts.gzip ? zlib.gzipSync(tar) : tar;
+}
+
+/**
+ * Regular files of a (possibly gzipped) tar. Directories are implied by paths; links and devices are rejected, as
+ * are paths that are absolute or climb out of the archive.
+ */
+export function unpackTar(buf: Buffer): TarEntry[] {
+  const tar = buf.length > 2 && buf[0] === 0x1f && buf[1] === 0x8b ? zlib.gunzipSync(buf) : buf;
+  const out: TarEntry[] = [];
+  let longName: string | undefined;
+  for (let off = 0; off + BLOCK <= tar.length;) {
+    const header = tar.subarray(off, off + BLOCK);
+    if (header.every(b => b === 0)) break;
+    const size = parseInt(field(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const data = tar.subarray(off + BLOCK, off + BLOCK + size);
+    off += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+    if (!Number.isFinite(size) || data.length !== size) throw new Error('Truncated tar archive');
+    const prefix = field(header, 345, 155);
+    let name = longName ?? (prefix ? `${prefix}/${field(header, 0, 100)}` : field(header, 0, 100));
+    longName = undefined;
+    if (type === 'L') { longName = data.toString('utf8').replace(/\0.*$/s, ''); continue; }
+    if (type === 'x') { const m = /\d+ path=([^\n]*)\n/.exec(data.toString('utf8')); if (m) longName = m[1]; continue; }
+    if (type === 'g' || type === '5') continue;
+    if (type !== '0' && type !== '\0') throw new Error(`Unsupported tar entry type '${type}' for ${name}`);
+    name = name.replace(/^(\.\/)+/, '');
+    if (!isSafeRelativePath(name)) throw new Error(`Unsafe path in archive: ${name}`);
+    out.push({ name, data: Buffer.from(data) });
+  }
+  return out;
+}
+
+/** Relative, normalized `/`-separated path that stays inside its root. */
+export function isSafeRelativePath(p: string): boolean {
+  return !!p && !p.startsWith('/') && !/^[a-zA-Z]:/.test(p) && !p.includes('\\') && !p.includes('\0')
+    && p.split('/').every(s => s !== '' && s !== '.' && s !== '..');
+}
+
+function field(header: Buffer, start: number, len: number): string {
+  return header.subarray(start, start + len).toString('utf8').replace(/\0.*$/s, '');
+}
+
+function octal(n: number, width: number): string {
+  return n.toString(8).padStart(width - 1, '0') + '\0';
+}
+
+function splitName(name: string): [string, string] {
+  if (Buffer.byteLength(name) <= 100) return ['', name];
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.slice(0, i), rest = name.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) return [prefix, rest];
+  }
+  throw new Error(`Path too long for tar: ${name}`);
+}
@@ -81,7 +81,7 @@ export class Tracer {
     }
   }
 
-  writeReceipt(command: string, params: any, results: any, success: boolean, error?: string, extra?: { resultSummary?: any; exitCode?: number; digests?: Record<string,string>; hybrid?: { backend: string; fusionWeights: { bm25: number; cosine: number }; rerankN: number }; verification?: any }): string {
+  writeReceipt(command: string, params: any, results: any, success: boolean, error?: string, extra?: { resultSummary?: any; exitCode?: number; digests?: Record<string,string>; hybrid?: { backend: string; fusionWeights?: { bm25: number; cosine: number }; rerankN: number; [k: string]: any }; verification?: any }): string {
     // Redaction / path escape guard: scrub any absolute or outside-root paths from params/results before persisting
     const redactions: { outsideRoot: Set<string> } = { outsideRoot: new Set() };
     const projectRootNorm = path.resolve(this.projectRoot);
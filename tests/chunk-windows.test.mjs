@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { lineWindows, braceDepths, fitChunkToTokens } = await import(pathToFileURL(path.resolve('dist/codeindex/ChunkWindows.js')).href);
+const { CodeIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/CodeIndexer.js')).href);
+
+const words = text => text.split(/\s+/).filter(Boolean).length;
+
+test('line windows cover every line, overlap by the requested amount and always advance', () => {
+  const lines = Array.from({ length: 25 }, (_, i) => `x${i}`);
+  assert.deepEqual(lineWindows(lines, { maxLines: 10 }), [{ start: 0, end: 10 }, { start: 10, end: 20 }, { start: 20, end: 25 }]);
+  assert.deepEqual(lineWindows(lines, { maxLines: 10, overlap: 3 }), [{ start: 0, end: 10 }, { start: 7, end: 17 }, { start: 14, end: 24 }, { start: 21, end: 25 }]);
+  // Overlap is clamped below the window size
+  const w = lineWindows(lines, { maxLines: 4, overlap: 9 });
+  assert.ok(w.every((x, i) => i === 0 || x.start > w[i - 1].start));
+  assert.equal(w[w.length - 1].end, 25);
+  assert.deepEqual(lineWindows([''], { maxLines: 10 }), [{ start: 0, end: 1 }]);
+});
+
+test('overlap of half a window or more still advances by whole blocks when cuts snap back', () => {
+  // 21-line functions: with maxLines 40 every cut snaps back to a function end, about half a window
+  const lines = Array.from({ length: 420 }, (_, i) => i % 21 === 0 ? `function f${i}() {` : i % 21 === 20 ? '}' : '  x();');
+  const w = lineWindows(lines, { maxLines: 40, overlap: 20 });
+  assert.ok(w.length <= 24, `${w.length} windows`);
+  assert.equal(w[0].start, 0);
+  assert.equal(w[w.length - 1].end, 420);
+  for (let i = 1; i < w.length; i++) {
+    assert.ok(w[i].start <= w[i - 1].end, 'no gap');
+    // Every window but the file's tail adds at least a quarter window of new lines
+    if (i < w.length - 1) assert.ok(w[i].end - w[i - 1].end >= 10, `window ${i} adds only ${w[i].end - w[i - 1].end} lines`);
+    assert.ok(w[i].end - w[i].start <= 40);
+  }
+});
+
+test('cuts snap back to the end of a block, then to a blank line', () => {
+  const lines = [
+    'function a() {', '  one();', '  two();', '}', '',
+    'function b() {', '  three();', '  four();', '  five();', '}',
+  ];
+  assert.deepEqual(braceDepths(lines).slice(0, 6), [0, 1, 1, 1, 0, 0]);
+  // A hard cut at 7 would land inside b(); the window ends after a() instead
+  assert.deepEqual(lineWindows(lines, { maxLines: 7 })[0], { start: 0, end: 5 });
+  const prose = ['a', 'b', 'c', '', 'd', 'e', 'f', 'g'];
+  assert.deepEqual(lineWindows(prose, { maxLines: 6 })[0], { start: 0, end: 4 });
+  // Braces in strings and comments don't count
+  assert.deepEqual(braceDepths(['const s = "{";', '// (', 'x']), [0, 0, 0, 0]);
+});
+
+test('oversize chunks are split by token count with adjusted line ranges', () => {
+  const text = ['alpha beta gamma', 'delta epsilon', '', 'zeta eta theta iota', 'kappa'].join('\n');
+  const chunk = { text, meta: { file: 'a.ts', lineStart: 11, lineEnd: 15 } };
+  assert.deepEqual(fitChunkToTokens(chunk, 100, words), [chunk]);
+  const parts = fitChunkToTokens(chunk, 6, words);
+  assert.ok(parts.length > 1);
+  assert.ok(parts.every(p => words(p.text) <= 6));
+  assert.deepEqual(parts.map(p => [p.meta.lineStart, p.meta.lineEnd, p.meta.part]), [[11, 13, 1], [14, 15, 2]]);
+  assert.equal(parts.map(p => p.text).join('\n'), text);
+  // A single line over the limit can't be split
+  assert.deepEqual(fitChunkToTokens({ text: 'a b c d', meta: {} }, 2, words).length, 1);
+});
+
+test('chunkFile overlaps line chunks', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  const file = path.join(dir, 'a.txt');
+  fs.writeFileSync(file, Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n'));
+  const chunks = new CodeIndexer(dir).chunkFile(file, 10, 2);
+  assert.deepEqual(chunks.map(c => [c.meta.lineStart, c.meta.lineEnd]), [[1, 10], [9, 18], [17, 26], [25, 30]]);
+  assert.ok(chunks[1].text.startsWith('line 9\nline 10\n'));
+});
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { TreeSitterIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/TreeSitterIndexer.js')).href);
+const { moduleResolvesTo } = await import(pathToFileURL(path.resolve('dist/codeindex/SymbolReferences.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['refs','callers','deps','search-code','index-code','reindex-file','reindex-folder','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'retry.ts'), [
+    "export function backoffDelay(attempt: number): number {",
+    "  return 2 ** attempt * 100;",
+    "}",
+  ].join('\n'));
+  fs.writeFileSync(path.join(dir, 'src', 'client.ts'), [
+    "import { backoffDelay } from './retry.js';",
+    "import * as http from 'node:http';",
+    "export async function fetchWithRetry(url: string) {",
+    "  const wait = backoffDelay(3);",
+    "  return new Promise(r => setTimeout(r, wait));",
+    "}",
+    "export function ping() { return http.get('x'); }",
+  ].join('\n'));
+  return dir;
+}
+
+function run(args, cwd) {
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd });
+}
+
+function json(stdout) {
+  return JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+}
+
+test('Tree-sitter chunks record references and the imports they use', async () => {
+  const dir = mkProject();
+  const chunks = new TreeSitterIndexer(dir).chunkFile(path.join(dir, 'src', 'client.ts'));
+  const fetch = chunks.find(c => c.meta.symbolName === 'fetchWithRetry');
+  assert.deepEqual(fetch.meta.references.filter(r => r.kind === 'call').map(r => r.name), ['Promise', 'backoffDelay', 'setTimeout']);
+  assert.ok(fetch.meta.references.some(r => r.name === 'wait' && r.kind === 'ref'));
+  assert.deepEqual(fetch.meta.imports, ['./retry.js']);
+  assert.deepEqual(chunks.find(c => c.meta.symbolName === 'ping').meta.imports, ['node:http']);
+
+  assert.ok(moduleResolvesTo('./retry.js', 'src/client.ts', 'src/retry.ts'));
+  assert.ok(moduleResolvesTo('../lib', 'src/a/b.js', 'src/lib/index.js'));
+  assert.ok(!moduleResolvesTo('retry', 'src/client.ts', 'src/retry.ts'));
+  assert.ok(moduleResolvesTo('.util', 'pkg/app.py', 'pkg/util.py'));
+  assert.ok(moduleResolvesTo('pkg.models', 'app.py', 'src/pkg/models/__init__.py'));
+  assert.ok(moduleResolvesTo('github.com/acme/proj/internal/util', 'cmd/main.go', 'internal/util/strings.go'));
+  assert.ok(moduleResolvesTo('crate::util::helper', 'src/main.rs', 'src/util.rs'));
+  assert.ok(moduleResolvesTo('com.acme.util.*', 'App.java', 'src/main/java/com/acme/util/Strings.java'));
+});
+
+test('refs, callers, deps and search-code --expand-neighbors read the stored graph', async () => {
+  const dir = mkProject();
+  // Store chunks the way index-code --symbols does (without embeddings)
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const indexer = new TreeSitterIndexer(dir);
+  for (const file of ['src/retry.ts', 'src/client.ts']) {
+    for (const c of indexer.chunkFile(path.join(dir, file))) {
+      const meta = { file: c.meta.file, language: c.meta.language, lineStart: c.meta.lineStart, lineEnd: c.meta.lineEnd, symbol: c.meta.symbolName, symbolType: c.meta.symbolType, tags: ['symbol', c.meta.symbolType] };
+      const id = await engine.database.storeMemory(c.text, 'code', 'code', ['code', 'typescript', 'symbol'], meta);
+      await engine.database.storeCodeGraph(id, { symbol: c.meta.symbolName, symbolType: c.meta.symbolType, references: c.meta.references, imports: c.meta.imports });
+    }
+  }
+  await engine.close();
+
+  let res = run(['--json', 'refs', 'backoffDelay'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  let out = json(res.stdout);
+  assert.deepEqual(out.definitions.map(d => d.file), ['src/retry.ts']);
+  assert.deepEqual(out.references.map(r => [r.symbol, r.kind]), [['fetchWithRetry', 'call']]);
+
+  res = run(['callers', 'backoffDelay'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /1 caller of backoffDelay/);
+  assert.match(res.stdout, /fetchWithRetry \(function\) src\/client\.ts:3-6/);
+
+  res = run(['--json', 'deps', 'src/retry.ts'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(json(res.stdout), { file: 'src/retry.ts', imports: [], importedBy: [{ file: 'src/client.ts', module: './retry.js' }] });
+  res = run(['--json', 'deps', 'client.ts'], dir);
+  assert.deepEqual(json(res.stdout).imports, [{ module: './retry.js', resolved: ['src/retry.ts'] }, { module: 'node:http', resolved: [] }]);
+  res = run(['deps', 'src/missing.ts'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /File not indexed: src\/missing\.ts/);
+
+  res = run(['--json', 'search-code', 'fetchWithRetry', '--expand-neighbors'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  out = json(res.stdout);
+  const hit = out.results.find(r => JSON.parse(r.metadata).symbol === 'fetchWithRetry');
+  assert.deepEqual(hit.neighbors.map(n => [n.symbol, n.file, n.via]), [['backoffDelay', 'src/retry.ts', 'backoffDelay']]);
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const receipt = JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+  assert.equal(receipt.results.neighbors, 1);
+
+  // Graph rows follow their chunk when it is deleted
+  const engine2 = new MemoryEngine(dir, true, false, false);
+  await engine2.initialize();
+  await engine2.database.deleteCodeByFile('src/client.ts');
+  assert.deepEqual(await engine2.database.findSymbolReferences('backoffDelay'), []);
+  await engine2.close();
+});
+
+test('reindex-folder and reindex-file --symbols rebuild the graph rows of the files they replace', () => {
+  const dir = mkProject();
+  let res = run(['reindex-folder', 'src', '--symbols'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Tree-sitter/);
+  res = run(['reindex-file', 'src/client.ts', '--symbols'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+
+  res = run(['--json', 'refs', 'backoffDelay'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const out = json(res.stdout);
+  assert.deepEqual(out.definitions.map(d => d.file), ['src/retry.ts']);
+  assert.deepEqual(out.references.map(r => [r.symbol, r.file, r.kind]), [['fetchWithRetry', 'src/client.ts', 'call']]);
+  res = run(['--json', 'deps', 'src/retry.ts'], dir);
+  assert.deepEqual(json(res.stdout).importedBy, [{ file: 'src/client.ts', module: './retry.js' }]);
+
+  // Recorded as Tree-sitter chunking, so index-code --symbols --diff leaves both files alone
+  res = run(['--json', 'index-code', '--path', '.', '--symbols', '--diff'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(json(res.stdout).saved, 0);
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { chunkDocument, documentLanguage, jsonOutline, yamlOutline } = await import(pathToFileURL(path.resolve('dist/codeindex/DocumentChunker.js')).href);
+const { runIndexTask } = await import(pathToFileURL(path.resolve('dist/codeindex/IndexWorkerPool.js')).href);
+
+function project(files) {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  for (const [file, text] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), text);
+  }
+  return dir;
+}
+
+const view = c => ({ lines: [c.meta.lineStart, c.meta.lineEnd], ...(c.meta.symbol ? { symbol: c.meta.symbol } : {}), type: c.meta.symbolType, ...(c.meta.headingPath ? { path: c.meta.headingPath } : {}), ...(c.meta.keys ? { keys: c.meta.keys } : {}) });
+
+test('Markdown is split by heading with the heading path; fenced code is not scanned', () => {
+  const dir = project({ 'docs/adr/0007-sqlite.md': [
+    '---', 'status: accepted', '---', 'Preamble.', '',
+    '# ADR 7: Use SQLite', '',
+    '## Context', 'Local storage.', '```bash', '# not a heading', '```', '',
+    '## Decision', '### Details', 'SQLite with FTS5.', '',
+    'Consequences', '------------', 'Faster.',
+  ].join('\n') });
+  const chunks = chunkDocument(path.join(dir, 'docs/adr/0007-sqlite.md'), dir, 200);
+  assert.deepEqual(chunks.map(view), [
+    { lines: [1, 4], type: 'section', path: [] },
+    { lines: [8, 12], type: 'section', path: ['ADR 7: Use SQLite', 'Context'] },
+    { lines: [15, 16], type: 'section', path: ['ADR 7: Use SQLite', 'Decision', 'Details'] },
+    { lines: [18, 20], type: 'section', path: ['ADR 7: Use SQLite', 'Consequences'] },
+  ]);
+  assert.equal(chunks[1].meta.file, 'docs/adr/0007-sqlite.md');
+  assert.equal(chunks[1].meta.language, 'markdown');
+  assert.deepEqual(chunks[1].meta.tags, ['section']);
+  assert.equal(chunks[2].text, '### Details\nSQLite with FTS5.');
+
+  // Long sections are split into parts
+  const long = project({ 'a.md': ['# Big', ...Array.from({ length: 9 }, (_, i) => `line ${i}`)].join('\n') });
+  assert.deepEqual(chunkDocument(path.join(long, 'a.md'), long, 4).map(c => [c.meta.lineStart, c.meta.lineEnd, c.meta.part]), [[1, 4, 1], [5, 8, 2], [9, 10, 3]]);
+});
+
+test('OpenAPI documents are chunked per operation and per schema (YAML and JSON)', () => {
+  const yaml = [
+    'openapi: 3.0.0', 'info:', '  title: Pets', '  version: "1.0"',
+    'paths:', '  /pets:', '    get:', '      operationId: listPets', '      description: |', '        List: all pets',
+    '    post:', '      summary: create',
+    "  '/pets/{id}':", '    delete:', '      summary: remove',
+    'components:', '  schemas:', '    Pet:', '      type: object', '  securitySchemes:', '    key: {}',
+  ].join('\n');
+  const json = JSON.stringify({ swagger: '2.0', paths: { '/pets': { get: { operationId: 'listPets' } } }, definitions: { Pet: { type: 'object' } } }, null, 2);
+  const dir = project({ 'api/openapi.yaml': yaml, 'api/swagger.json': json });
+  const chunks = chunkDocument(path.join(dir, 'api/openapi.yaml'), dir, 200);
+  assert.deepEqual(chunks.map(view), [
+    { lines: [1, 1], type: 'key', keys: ['openapi'] },
+    { lines: [2, 4], type: 'key', keys: ['info'] },
+    { lines: [7, 10], symbol: 'listPets', type: 'operation' },
+    { lines: [11, 12], symbol: 'POST /pets', type: 'operation' },
+    { lines: [14, 15], symbol: 'DELETE /pets/{id}', type: 'operation' },
+    { lines: [18, 19], symbol: 'Pet', type: 'schema' },
+    { lines: [20, 21], type: 'key', keys: ['components.securitySchemes'] },
+  ]);
+  assert.ok(chunks.every(c => c.meta.document === 'openapi' && c.meta.language === 'yaml'));
+  assert.equal(chunks[2].text.split('\n')[0], 'GET /pets');
+  assert.deepEqual([chunks[2].meta.httpMethod, chunks[2].meta.httpPath], ['GET', '/pets']);
+
+  const swagger = chunkDocument(path.join(dir, 'api/swagger.json'), dir, 200);
+  assert.deepEqual(swagger.map(c => [c.meta.symbolType, c.meta.symbol ?? c.meta.keys.join()]), [['key', 'swagger'], ['operation', 'listPets'], ['schema', 'Pet']]);
+});
+
+test('JSON Schema definitions and YAML/TOML/JSON config keys become chunks', () => {
+  const dir = project({
+    'schemas/user.json': JSON.stringify({ $schema: 'https://json-schema.org/draft/2020-12/schema', title: 'User', type: 'object', $defs: { Name: { type: 'string' }, Age: { type: 'integer' } } }, null, 2),
+    'deploy/compose.yml': ['# Compose file', 'version: "3"', 'services:', '  db:', '    image: postgres', '', '# volumes used by db', 'volumes:', '  data: {}'].join('\n'),
+    'pyproject.toml': ['name = "x"', 'version = "1"', '', '[tool.poetry]', 'a = 1', '[tool.black]', 'b = """', '[not.a.table]', '"""', '[project]', 'c = 2'].join('\n'),
+    'tsconfig.json': ['{', '  // comment', '  "compilerOptions": {', '    "strict": true,', '  },', '  "include": ["src"],', '}'].join('\n'),
+    'broken.json': '{ "a": ',
+    'list.json': '[1, 2]',
+  });
+  const at = f => chunkDocument(path.join(dir, f), dir, 200);
+  assert.deepEqual(at('schemas/user.json').map(view), [
+    { lines: [2, 4], type: 'key', keys: ['$schema', 'title', 'type'] },
+    { lines: [6, 8], symbol: 'Name', type: 'schema' },
+    { lines: [9, 11], symbol: 'Age', type: 'schema' },
+  ]);
+  assert.equal(at('schemas/user.json')[0].meta.document, 'json-schema');
+  assert.deepEqual(at('deploy/compose.yml').map(view), [
+    { lines: [1, 2], type: 'key', keys: ['version'] },
+    { lines: [3, 5], type: 'key', keys: ['services'] },
+    { lines: [7, 9], type: 'key', keys: ['volumes'] },
+  ]);
+  assert.deepEqual(at('pyproject.toml').map(view), [
+    { lines: [1, 2], type: 'key', keys: ['name', 'version'] },
+    { lines: [4, 9], type: 'key', keys: ['tool'] },
+    { lines: [10, 11], type: 'key', keys: ['project'] },
+  ]);
+  assert.deepEqual(at('tsconfig.json').map(view), [
+    { lines: [2, 5], type: 'key', keys: ['compilerOptions'] },
+    { lines: [6, 6], type: 'key', keys: ['include'] },
+  ]);
+  assert.equal(at('broken.json'), null);
+  assert.equal(at('list.json'), null);
+  assert.equal(chunkDocument(path.join(dir, 'src.ts'), dir, 200), null);
+  assert.deepEqual(['a.md', 'b.yml', 'c.toml', 'd.json', 'e.ts'].map(documentLanguage), ['markdown', 'yaml', 'toml', 'json', undefined]);
+});
+
+test('outlines record nested keys with their line spans', () => {
+  assert.deepEqual(yamlOutline(['a:', '  b: 1', '  c:', '    - x: 1', 'd: "q"']).map(n => [n.key, n.line, n.endLine, n.value, n.children.map(c => c.key)]),
+    [['a', 1, 4, undefined, ['b', 'c']], ['d', 5, 5, 'q', []]]);
+  assert.deepEqual(jsonOutline('{"a": {"b": [1,\n2]},\n"c": null /* x */}').map(n => [n.key, n.line, n.endLine, n.value]), [['a', 1, 2, undefined], ['c', 3, 3, 'null']]);
+});
+
+test('every indexing strategy uses the document chunker for docs and config', () => {
+  const dir = project({ 'docs/runbook.md': '# Runbook\n\n## Restart\nsystemctl restart agm\n' });
+  for (const strategy of ['lines', 'heuristic-symbols', 'treesitter-ast']) {
+    const res = runIndexTask({ root: dir, file: 'docs/runbook.md', strategy, maxChunkLines: 200 });
+    assert.deepEqual(res.chunks.map(c => c.meta.headingPath), [['Runbook', 'Restart']], strategy);
+  }
+});
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { parseEvalQueries, scoreQuery, aggregateScores, diffEvalRuns } = await import(pathToFileURL(path.resolve('dist/engine/RetrievalEval.js')).href);
+
+test('eval metrics: recall@k, reciprocal rank and nDCG with file/symbol targets', async () => {
+  const [q] = parseEvalQueries('{"query":"retry","expected":["src/retry.ts#backoff","lib/http.ts"]}\n');
+  assert.equal(q.id, 'q1');
+  assert.deepEqual(q.expected, [{ file: 'src/retry.ts', symbol: 'backoff' }, { file: 'lib/http.ts' }]);
+  const metas = [{ file: 'src/other.ts' }, { file: 'pkg/lib/http.ts' }, { file: 'src/retry.ts', symbol: 'Retry.backoff' }, { file: 'lib/http.ts' }];
+  const s = scoreQuery(metas, q.expected, 3);
+  assert.equal(s.firstRank, 2);
+  assert.equal(s.recall, 1);
+  assert.equal(s.reciprocalRank, 0.5);
+  const ideal = 1 + 1 / Math.log2(3);
+  assert.ok(Math.abs(s.ndcg - (1 / Math.log2(3) + 1 / Math.log2(4)) / ideal) < 1e-9);
+  // Repeated chunks of an already matched target earn nothing
+  assert.equal(scoreQuery([{ file: 'lib/http.ts' }, { file: 'lib/http.ts' }], q.expected, 2).recall, 0.5);
+  assert.deepEqual(aggregateScores([s, scoreQuery([], q.expected, 3)]), { queries: 2, recallAtK: 0.5, mrr: 0.25, ndcg: Math.round(s.ndcg / 2 * 1e4) / 1e4 });
+  assert.throws(() => parseEvalQueries('{"query":"x"}'), /queries:1: no expected/);
+
+  const run = (id, rank, digest) => ({ runId: id, queriesDigest: 'd', modes: ['fts'], metrics: { fts: { queries: 1, recallAtK: rank ? 1 : 0, mrr: rank ? 1 / rank : 0, ndcg: 0 } }, queries: [{ id: 'q1', query: 'retry', modes: { fts: { firstRank: rank, resultDigest: digest } } }] });
+  const diff = diffEvalRuns(run('a', null, 'x'), run('b', 2, 'y'));
+  assert.deepEqual(diff.metrics.fts, { recallAtK: 1, mrr: 0.5, ndcg: 0 });
+  assert.deepEqual(diff.improved, [{ id: 'q1', mode: 'fts', from: null, to: 2 }]);
+  assert.equal(diff.changedResults, 1);
+});
+
+function run(args, cwd) {
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd });
+}
+
+test('agm eval scores FTS, skips vector modes without a model, and diffs against the previous run', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['eval','import-context','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+
+  // Code chunks arrive through an import bundle (no embedding model needed)
+  const chunks = [
+    ['src/retry.ts', 'export function backoffDelay(attempt) { return 2 ** attempt * 100; } // retry backoff'],
+    ['src/cache.ts', 'export class LruCache { get(key) {} set(key, value) {} } // cache eviction'],
+    ['src/http.ts', 'export async function fetchJson(url) { /* retry on 503 */ }'],
+  ];
+  const bundle = path.join(dir, 'code.agmctx');
+  fs.mkdirSync(bundle);
+  const sha = (t) => crypto.createHash('sha256').update(t).digest('hex');
+  const map = ['id,file,lang,line_start,line_end,symbol,type,timestamp,chunk_sha256'];
+  const notes = [];
+  const buf = Buffer.alloc(chunks.length * 4 * 4);
+  chunks.forEach(([file, content], row) => {
+    map.push([row + 1, file, 'typescript', 1, 1, '', '', '', sha(content)].join(','));
+    notes.push(JSON.stringify({ id: row + 1, content, type: 'code', context: 'test', tags: [], metadata: { file, lineStart: 1, lineEnd: 1 }, vectorRow: row }));
+    buf.writeFloatLE(1, (row * 4 + row) * 4);
+  });
+  fs.writeFileSync(path.join(bundle, 'map.csv'), map.join('\n'));
+  fs.writeFileSync(path.join(bundle, 'notes.jsonl'), notes.join('\n') + '\n');
+  fs.writeFileSync(path.join(bundle, 'vectors.f32'), buf);
+  fs.writeFileSync(path.join(bundle, 'manifest.json'), JSON.stringify({ schemaVersion: 1, type: 'code', count: chunks.length, vectors: { dim: 4, count: chunks.length }, notes: { count: chunks.length, content: true } }));
+  let res = run(['import-context', bundle], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+
+  const queries = path.join(dir, 'eval.jsonl');
+  fs.writeFileSync(queries, [
+    JSON.stringify({ id: 'backoff', query: 'backoff', file: 'src/retry.ts' }),
+    JSON.stringify({ id: 'eviction', query: 'eviction', expected: ['src/cache.ts'] }),
+    JSON.stringify({ id: 'missing', query: 'tokenizer', file: 'src/tokenizer.ts' }),
+  ].join('\n'));
+
+  res = run(['eval', '--queries', queries, '-k', '5'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /fts\s+recall@5=0\.667/);
+  assert.match(res.stdout, /hybrid\s+skipped: embedding model not cached/);
+  assert.match(res.stdout, /No previous run/);
+
+  res = run(['--json', 'eval', '--queries', queries, '-k', '5', '--modes', 'fts'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const out = JSON.parse(res.stdout.slice(res.stdout.indexOf('{'), res.stdout.lastIndexOf('}') + 1));
+  assert.equal(out.metrics.fts.mrr, 0.6667);
+  assert.equal(out.diff.changedResults, 0);
+  assert.deepEqual(out.diff.metrics.fts, { recallAtK: 0, mrr: 0, ndcg: 0 });
+  assert.equal(out.queries.find(q => q.id === 'missing').modes.fts.firstRank, null);
+
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const receipt = JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+  assert.equal(receipt.command, 'eval');
+  assert.equal(receipt.results.diff.previousRunId, out.diff.previousRunId);
+  assert.match(receipt.digests.ftsResults, /^[0-9a-f]{64}$/);
+  assert.equal(fs.readdirSync(path.join(dir, '.antigoldfishmode', 'eval')).length, 2);
+
+  res = run(['eval', '--queries', queries, '--modes', 'fts,bogus'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /Invalid --modes/);
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { digestFile, chunkingOf, isUpToDate, describeChunking } = await import(pathToFileURL(path.resolve('dist/codeindex/FileDigest.js')).href);
+const { runIndexTask } = await import(pathToFileURL(path.resolve('dist/codeindex/IndexWorkerPool.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+test('one sha256 digest for workers and watchers; chunking changes force a reindex', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+  const digest = digestFile(path.join(dir, 'a.ts'));
+  assert.equal(digest, crypto.createHash('sha256').update('export const a = 1;\n').digest('hex'));
+  assert.equal(runIndexTask({ root: dir, file: 'a.ts', strategy: 'lines', maxChunkLines: 200 }).fileSha, digest);
+  assert.equal(digestFile(path.join(dir, 'missing.ts')), null);
+
+  assert.deepEqual(chunkingOf('lines', 120), { strategy: 'lines', maxChunk: 120, options: null });
+  assert.deepEqual(chunkingOf('treesitter-ast', 120), { strategy: 'treesitter-ast', maxChunk: null, options: null });
+  assert.deepEqual(chunkingOf('lines', 120, { overlap: 10, maxTokens: 512 }), { strategy: 'lines', maxChunk: 120, options: 'overlap=10,max-tokens=512' });
+  assert.deepEqual(chunkingOf('treesitter-ast', 120, { overlap: 10, maxTokens: 512 }), { strategy: 'treesitter-ast', maxChunk: null, options: 'max-tokens=512' });
+  const record = { file: 'a.ts', digest, strategy: 'lines', maxChunk: 200 };
+  assert.ok(isUpToDate(record, digest, chunkingOf('lines', 200)));
+  assert.ok(!isUpToDate(record, digest, chunkingOf('lines', 100)));
+  assert.ok(!isUpToDate(record, digest, chunkingOf('treesitter-ast', 200)));
+  assert.ok(!isUpToDate(record, 'other', chunkingOf('lines', 200)));
+  assert.ok(!isUpToDate({ ...record, strategy: null, maxChunk: null }, digest, chunkingOf('lines', 200)));
+  assert.ok(!isUpToDate(null, digest, chunkingOf('lines', 200)));
+  assert.ok(!isUpToDate(record, digest, chunkingOf('lines', 200, { maxTokens: 512 })));
+  assert.ok(isUpToDate({ ...record, options: 'max-tokens=512' }, digest, chunkingOf('lines', 200, { maxTokens: 512 })));
+  assert.equal(describeChunking({ strategy: 'lines', maxChunk: 200, options: 'overlap=20' }), 'lines/200 (overlap=20)');
+  assert.equal(describeChunking(record), 'lines/200');
+  assert.equal(describeChunking({ strategy: null, maxChunk: null }), 'unknown');
+});
+
+test('file_digests records strategy and max-chunk; digest-cache --list shows them', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['digest-cache', 'help', '--help', '-h', 'version', '--version', '-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const db = engine.database;
+  await db.setFileDigest('src/a.ts', 'a'.repeat(64), { strategy: 'lines', maxChunk: 200 });
+  await db.setFileDigest('src/b.ts', 'b'.repeat(64), { strategy: 'treesitter-ast', maxChunk: null, options: 'max-tokens=512' });
+  await db.setFileDigest('src/a.ts', 'c'.repeat(64), { strategy: 'heuristic-symbols', maxChunk: null });
+  const a = await db.getFileDigest('src/a.ts');
+  assert.deepEqual([a.digest, a.strategy, a.maxChunk], ['c'.repeat(64), 'heuristic-symbols', null]);
+  await db.moveFileDigest('src/b.ts', 'lib/b.ts');
+  assert.equal(await db.getFileDigest('src/b.ts'), null);
+  assert.equal((await db.getFileDigest('lib/b.ts')).options, 'max-tokens=512');
+  assert.deepEqual((await db.listAllFileDigests()).map(r => [r.file, r.strategy, r.maxChunk]), [['lib/b.ts', 'treesitter-ast', null], ['src/a.ts', 'heuristic-symbols', null]]);
+  await engine.close();
+
+  let res = spawnSync('node', [path.resolve('dist/cli.js'), 'digest-cache', '--list'], { encoding: 'utf8', cwd: dir });
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, new RegExp(`${'c'.repeat(64)}  heuristic-symbols  src/a\\.ts`));
+  assert.match(res.stdout, new RegExp(`${'b'.repeat(64)}  treesitter-ast \\(max-tokens=512\\)  lib/b\\.ts`));
+
+  res = spawnSync('node', [path.resolve('dist/cli.js'), '--json', 'digest-cache', '--list'], { encoding: 'utf8', cwd: dir });
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const rows = JSON.parse(res.stdout.slice(res.stdout.indexOf('['), res.stdout.lastIndexOf(']') + 1));
+  assert.deepEqual(rows.map(r => [r.file, r.strategy, r.maxChunk]).sort(), [['lib/b.ts', 'treesitter-ast', null], ['src/a.ts', 'heuristic-symbols', null]]);
+});
+
+test('reindex-file and reindex-folder record the chunking index-code --diff expects', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['index-code', 'reindex-file', 'reindex-folder', 'digest-cache', 'help', '--help', '-h', 'version', '--version', '-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'a.ts'), 'export const a = 1;\n'.repeat(30));
+  fs.writeFileSync(path.join(dir, 'src', 'b.ts'), 'export const b = 2;\n');
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  const run = args => spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd: dir, env });
+  const saved = args => {
+    const res = run(['--json', 'index-code', '--path', '.', '--diff', ...args]);
+    assert.equal(res.status, 0, res.stdout + res.stderr);
+    return JSON.parse(res.stdout.slice(res.stdout.indexOf('{'), res.stdout.lastIndexOf('}') + 1)).saved;
+  };
+
+  let res = run(['reindex-file', 'src/a.ts']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  res = run(['reindex-folder', 'src']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(saved([]), 0);
+
+  res = run(['reindex-folder', 'src', '--max-chunk', '10', '--chunk-overlap', '2']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /chunks added: 5,/);
+  assert.equal(saved(['--max-chunk', '10', '--chunk-overlap', '2']), 0);
+  res = run(['digest-cache', '--list']);
+  assert.match(res.stdout, /lines\/10 \(overlap=2\)  src\/a\.ts/);
+
+  // reindex-file chunks with the default --max-chunk, so a --max-chunk 10 run redoes that file only
+  res = run(['reindex-file', 'src/b.ts']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(saved(['--max-chunk', '10', '--chunk-overlap', '2']), 1);
+  assert.equal(run(['reindex-file', 'src/missing.ts']).status, 1);
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { classifyFile, classifyContent, parseByteSize } = await import(pathToFileURL(path.resolve('dist/codeindex/FileFilters.js')).href);
+const { CodeIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/CodeIndexer.js')).href);
+const { runIndexTask } = await import(pathToFileURL(path.resolve('dist/codeindex/IndexWorkerPool.js')).href);
+
+test('classifyContent detects binary, generated headers and minified lines', async () => {
+  assert.equal(classifyContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01])), 'binary');
+  assert.equal(classifyContent(Buffer.from('// Code generated by protoc-gen-go. DO NOT EDIT.\npackage pb\n')), 'generated');
+  assert.equal(classifyContent(Buffer.from('/**\n * @generated\n */\nexport {};\n')), 'generated');
+  assert.equal(classifyContent(Buffer.from('// Code generated by sqlc. DO NOT EDIT.\r\npackage db\r\n')), 'generated');
+  assert.equal(classifyContent(Buffer.from('# Generated by the protocol buffer compiler.  DO NOT EDIT!\nimport sys\n')), 'generated');
+  assert.equal(classifyContent(Buffer.from('// DO NOT EDIT without updating schema.sql\nexport const version = 3;\n')), null);
+  assert.equal(classifyContent(Buffer.from('var a=' + '1,'.repeat(800) + '2;\n')), 'minified');
+  assert.equal(classifyContent(Buffer.from('var a=1;\n//# sourceMappingURL=app.js.map\n')), 'minified');
+  assert.equal(classifyContent(Buffer.from('x'.repeat(50)), { maxLineLength: 40 }), 'minified');
+  // A single long line in ordinary source is not enough
+  const source = 'export const table = [' + '0,'.repeat(600) + '];\n' + 'export function f() {\n  return table.length;\n}\n'.repeat(60);
+  assert.equal(classifyContent(Buffer.from(source)), null);
+  assert.equal(classifyContent(Buffer.from('export function generatedId() { return 1; }\n')), null);
+  assert.equal(classifyContent(Buffer.from('')), null);
+
+  assert.equal(parseByteSize('2048'), 2048);
+  assert.equal(parseByteSize('512k'), 512 * 1024);
+  assert.equal(parseByteSize('2MB'), 2 * 1024 * 1024);
+  assert.throws(() => parseByteSize('lots'), /Invalid size/);
+});
+
+test('listFiles skips by name and size; runIndexTask skips binary, minified and generated content', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  const files = {
+    'src/app.ts': 'export const a = 1;\n',
+    'src/logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]),
+    'src/data.json': JSON.stringify({ rows: 'y'.repeat(3000) }),
+    'vendor.min.js': 'x',
+    'api.pb.go': 'package api\n',
+    'yarn.lock': 'x',
+    'gen/client.ts': '// @generated by openapi\nexport {};\n',
+  };
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    fs.writeFileSync(path.join(dir, rel), content);
+  }
+  fs.writeFileSync(path.join(dir, 'src', 'big.ts'), '// big\n'.repeat(400));
+
+  const skipped = [];
+  const list = new CodeIndexer(dir).listFiles({ maxFileBytes: 2048, onSkip: (p, reason) => skipped.push(`${p} ${reason}`) });
+  assert.deepEqual(list, ['gen/client.ts', 'src/app.ts', 'src/logo.png']);
+  assert.deepEqual(skipped.sort(), [
+    'api.pb.go generated',
+    'src/big.ts oversized',
+    'src/data.json oversized',
+    'vendor.min.js minified',
+    'yarn.lock generated',
+  ]);
+  const results = list.map(file => runIndexTask({ root: dir, file, strategy: 'lines', maxChunkLines: 200 }));
+  assert.deepEqual(results.map(r => r.skipped ?? null), ['generated', null, 'binary']);
+  assert.deepEqual([results[0].chunks, results[0].fileSha], [[], undefined]);
+  assert.equal(results[1].chunks.length, 1);
+  assert.equal(runIndexTask({ root: dir, file: 'src/data.json', strategy: 'lines', maxChunkLines: 200, filters: { maxLineLength: 5000 } }).skipped, undefined);
+  assert.equal(runIndexTask({ root: dir, file: 'src/data.json', strategy: 'lines', maxChunkLines: 200 }).skipped, 'minified');
+  assert.equal(classifyFile(path.join(dir, 'src', 'data.json'), { maxFileBytes: 1024 * 1024 }), 'minified');
+  assert.equal(classifyFile(path.join(dir, 'missing.ts')), null);
+});
+
+test('reindex-folder and reindex-file skip the same files and count them in the receipt', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['reindex-file', 'reindex-folder', 'help', '--help', '-h', 'version', '--version', '-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  fs.mkdirSync(path.join(dir, 'src', 'gen'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'src', 'app.ts'), 'export const a = 1;\n');
+  fs.writeFileSync(path.join(dir, 'src', 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]));
+  fs.writeFileSync(path.join(dir, 'src', 'vendor.min.js'), 'x');
+  fs.writeFileSync(path.join(dir, 'src', 'gen', 'client.ts'), '// @generated by openapi\nexport {};\n');
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  const run = args => spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd: dir, env });
+  const lastReceipt = () => {
+    const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+    return JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+  };
+
+  let res = run(['reindex-folder', 'src']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /chunks added: 1, errors: 0, skipped: 1 binary, 1 minified, 1 generated/);
+  assert.deepEqual(lastReceipt().results.skipped, { binary: 1, oversized: 0, minified: 1, generated: 1 });
+
+  res = run(['reindex-file', 'src/gen/client.ts']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Skipped src\/gen\/client\.ts \(generated\)/);
+  assert.deepEqual([lastReceipt().results.saved, lastReceipt().results.skipped.generated], [0, 1]);
+  res = run(['reindex-file', 'src/app.ts', '--max-file-size', '4']);
+  assert.match(res.stdout, /Skipped src\/app\.ts \(oversized\)/);
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function run(args, cwd) {
+  const cli = path.resolve('dist/cli.js');
+  return spawnSync('node', [cli, ...args], { encoding: 'utf8', cwd });
+}
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['remember','recall','forget','edit','receipt-show','policy','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const files = fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort();
+  return JSON.parse(fs.readFileSync(path.join(rdir, files[files.length - 1]), 'utf8'));
+}
+
+function rememberId(dir, content, extra = []) {
+  const res = run(['remember', content, ...extra], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  return Number(res.stdout.match(/ID: (\d+)/)[1]);
+}
+
+test('forget deletes by id and by selector, with dry-run preview', async () => {
+  const dir = mkProject();
+  const a = rememberId(dir, 'stale decision about walrus caching', ['--type', 'decision']);
+  rememberId(dir, 'scratch walrus note one', ['--context', 'scratch']);
+  rememberId(dir, 'scratch walrus note two', ['--context', 'scratch']);
+
+  let res = run(['forget', '--context', 'scratch', '--dry-run'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Would delete 2 memories/);
+  assert.equal(lastReceipt(dir).results.deleted, 0);
+
+  res = run(['forget', '--context', 'scratch'], dir);
+  assert.match(res.stdout, /Deleted 2 memories/);
+  res = run(['forget', String(a)], dir);
+  assert.match(res.stdout, /Deleted 1 memory/);
+  const receipt = lastReceipt(dir);
+  assert.equal(receipt.command, 'forget');
+  assert.deepEqual(receipt.results.ids, [a]);
+
+  res = run(['recall', 'walrus'], dir);
+  assert.match(res.stdout, /Found 0 memories/);
+
+  res = run(['forget'], dir);
+  assert.equal(res.status, 1);
+});
+
+test('edit updates content, tags and type', async () => {
+  const dir = mkProject();
+  const id = rememberId(dir, 'use port 8080 for the narwhal service');
+  let res = run(['edit', String(id), '--content', 'use port 9090 for the narwhal service', '--tags', 'ops,ports', '--type', 'decision'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Memory #\d+ updated/);
+  const receipt = lastReceipt(dir);
+  assert.equal(receipt.command, 'edit');
+  assert.equal(receipt.results.updated, true);
+
+  res = run(['recall', 'narwhal'], dir);
+  assert.match(res.stdout, /9090/);
+  assert.doesNotMatch(res.stdout, /8080/);
+
+  res = run(['edit', '99999', '--type', 'x'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /Memory not found/);
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { gitChangesSince, parseNameStatus, resolveRevision } = await import(pathToFileURL(path.resolve('dist/codeindex/GitChanges.js')).href);
+const { CodeIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/CodeIndexer.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+function git(dir, ...args) {
+  return execFileSync('git', ['-c', 'user.name=t', '-c', 'user.email=t@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd: dir, encoding: 'utf8' }).trim();
+}
+
+function write(dir, file, text) {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), text);
+}
+
+test('parseNameStatus reads -z output with renames and copies', () => {
+  const out = ['M', 'src/a.ts', 'R100', 'old.ts', 'new.ts', 'R087', 'x.ts', 'y.ts', 'C100', 'b.ts', 'c.ts', 'D', 'gone.ts', 'A', 'dir with space/n.ts', ''].join('\0');
+  assert.deepEqual(parseNameStatus(out), [
+    { status: 'modified', file: 'src/a.ts' },
+    { status: 'renamed', file: 'new.ts', oldFile: 'old.ts', similarity: 100 },
+    { status: 'renamed', file: 'y.ts', oldFile: 'x.ts', similarity: 87 },
+    { status: 'added', file: 'c.ts' },
+    { status: 'deleted', file: 'gone.ts' },
+    { status: 'added', file: 'dir with space/n.ts' },
+  ]);
+});
+
+test('gitChangesSince reports changes since a revision, renames and the dirty working tree', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  git(dir, 'init', '-q');
+  const body = Array.from({ length: 20 }, (_, i) => `export const v${i} = ${i};`).join('\n') + '\n';
+  write(dir, 'src/keep.ts', 'export const keep = 1;\n');
+  write(dir, 'src/move.ts', body);
+  write(dir, 'src/edit.ts', 'export const edit = 1;\n');
+  write(dir, 'src/gone.ts', 'export const gone = 1;\n');
+  write(dir, '.gitignore', 'ignored/\n');
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-qm', 'base');
+  const base = git(dir, 'rev-parse', 'HEAD');
+
+  fs.renameSync(path.join(dir, 'src/move.ts'), path.join(dir, 'src/lib-moved.ts'));
+  write(dir, 'src/edit.ts', 'export const edit = 2;\n');
+  fs.rmSync(path.join(dir, 'src/gone.ts'));
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-qm', 'change');
+  const head = git(dir, 'rev-parse', 'HEAD');
+  write(dir, 'src/new.ts', 'export const fresh = 1;\n'); // untracked
+  write(dir, 'src/keep.ts', 'export const keep = 2;\n'); // uncommitted edit
+  write(dir, 'ignored/x.ts', 'export const x = 1;\n');
+
+  assert.equal(resolveRevision(dir, 'HEAD~1'), base);
+  assert.throws(() => resolveRevision(dir, 'no-such-branch'), /Unknown git revision: no-such-branch/);
+  assert.throws(() => resolveRevision(dir, '--output=x'), /Invalid revision/);
+
+  const res = gitChangesSince(dir, base);
+  assert.equal(res.base, base);
+  assert.equal(res.head, head);
+  const byFile = Object.fromEntries(res.changes.map(c => [c.file, c]));
+  assert.deepEqual(byFile['src/lib-moved.ts'], { status: 'renamed', file: 'src/lib-moved.ts', oldFile: 'src/move.ts', similarity: 100 });
+  assert.equal(byFile['src/edit.ts'].status, 'modified');
+  assert.equal(byFile['src/gone.ts'].status, 'deleted');
+  assert.equal(byFile['src/keep.ts'].status, 'modified');
+  assert.equal(byFile['src/new.ts'].status, 'added');
+  assert.equal(byFile['ignored/x.ts'], undefined);
+  assert.deepEqual([...res.dirty].sort(), ['src/keep.ts', 'src/new.ts']);
+
+  // Paths are relative to the queried directory
+  const sub = gitChangesSince(path.join(dir, 'src'), 'HEAD');
+  assert.deepEqual(sub.changes.map(c => c.file).sort(), ['keep.ts', 'new.ts']);
+
+  // The changed paths go through the same include/ignore/content rules as a full walk
+  write(dir, 'src/app.min.js', 'x');
+  const skipped = [];
+  const files = new CodeIndexer(dir).selectFiles(['src/edit.ts', 'src/gone.ts', 'ignored/x.ts', 'src/app.min.js', 'src/new.ts'], { include: ['src/**'], onSkip: (p, r) => skipped.push([p, r]) });
+  assert.deepEqual(files, ['src/edit.ts', 'src/new.ts']);
+  assert.deepEqual(skipped, [['src/app.min.js', 'minified']]);
+});
+
+test('updateCodeFilePath moves exactly one file and records provenance', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const db = engine.database;
+  const a = await db.storeMemory('function a() {}', 'code', 'code', ['code'], { file: 'src/a.ts', lineStart: 1, lineEnd: 1 }, { quiet: true });
+  await db.storeMemory('function ax() {}', 'code', 'code', ['code'], { file: 'src/a.tsx', lineStart: 1, lineEnd: 1 }, { quiet: true });
+  assert.equal(await db.updateCodeFilePath('src/a.ts', 'lib/a.ts', { commit: 'abc123', commitDirty: false }), 1);
+  assert.deepEqual(await db.listCodeFiles(), ['lib/a.ts', 'src/a.tsx']);
+  const meta = JSON.parse((await db.getMemoryById(a)).metadata);
+  assert.deepEqual([meta.file, meta.commit, meta.commitDirty, meta.lineStart], ['lib/a.ts', 'abc123', false, 1]);
+  await assert.rejects(db.updateCodeFilePath('lib/a.ts', 'x.ts', { "a') --": 1 }), /Invalid metadata key/);
+  await engine.close();
+});
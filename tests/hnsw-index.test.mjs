@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { HnswGraph } = await import(pathToFileURL(path.resolve('dist/engine/vector/HnswIndex.js')).href);
+
+// Deterministic pseudo-random vectors
+function randomVectors(n, dim, seed = 1) {
+  let s = seed;
+  const rnd = () => { s = (s * 1103515245 + 12345) % 2147483648; return s / 2147483648 - 0.5; };
+  return Array.from({ length: n }, () => Float32Array.from({ length: dim }, rnd));
+}
+
+function recallAt(graph, queries, k) {
+  let hits = 0, total = 0;
+  for (const q of queries) {
+    const truth = new Set(graph.exact(q, k).map(r => r.id));
+    hits += graph.search(q, k).filter(r => truth.has(r.id)).length;
+    total += truth.size;
+  }
+  return hits / total;
+}
+
+test('HnswGraph finds near-exact neighbours and survives removals and persistence', async () => {
+  const vecs = randomVectors(600, 16);
+  const graph = new HnswGraph({ m: 8, efConstruction: 100, efSearch: 64 });
+  vecs.forEach((v, i) => graph.insert(i + 1, v));
+  assert.equal(graph.size(), 600);
+
+  const queries = randomVectors(40, 16, 99);
+  assert.ok(recallAt(graph, queries, 10) >= 0.9, 'recall@10 should be high');
+
+  for (let id = 1; id <= 150; id++) graph.remove(id);
+  assert.equal(graph.size(), 450);
+  for (const q of queries) {
+    for (const r of graph.search(q, 10)) assert.ok(r.id > 150, `removed id ${r.id} returned`);
+  }
+  assert.ok(recallAt(graph, queries, 10) >= 0.85, 'recall@10 should hold after removals');
+
+  const byId = new Map(vecs.map((v, i) => [i + 1, v]));
+  const restored = HnswGraph.fromJSON(JSON.parse(JSON.stringify(graph.toJSON())), { m: 8, efConstruction: 100 }, (id) => byId.get(id));
+  assert.equal(restored.size(), 450);
+  assert.deepEqual(restored.search(queries[0], 5).map(r => r.id), graph.search(queries[0], 5).map(r => r.id));
+  // Different build parameters invalidate the persisted graph
+  assert.equal(HnswGraph.fromJSON(graph.toJSON(), { m: 16, efConstruction: 100 }, (id) => byId.get(id)), null);
+});
+
+function run(args, cwd) {
+  const cli = path.resolve('dist/cli.js');
+  return spawnSync('node', [cli, ...args], { encoding: 'utf8', cwd });
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const files = fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort();
+  return JSON.parse(fs.readFileSync(path.join(rdir, files[files.length - 1]), 'utf8'));
+}
+
+test('vector-status builds the persisted HNSW index from stored vectors and reports recall@k', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['vector-status','import-context','forget','receipt-show','policy','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+
+  // Bundle with 80 chunks and 8-dim vectors (import stores vectors without needing an embedding model)
+  const dim = 8, n = 80;
+  const bundle = path.join(dir, 'vec.agmctx');
+  fs.mkdirSync(bundle);
+  const sha = (t) => crypto.createHash('sha256').update(t).digest('hex');
+  const map = ['id,file,lang,line_start,line_end,symbol,type,timestamp,chunk_sha256'];
+  const notes = [];
+  const buf = Buffer.alloc(n * dim * 4);
+  randomVectors(n, dim, 7).forEach((v, row) => {
+    const content = `chunk number ${row}`;
+    map.push([row + 1, `src/f${row}.ts`, 'typescript', 1, 2, '', '', '', sha(content)].join(','));
+    notes.push(JSON.stringify({ id: row + 1, content, type: 'code', context: 'test', tags: [], metadata: { file: `src/f${row}.ts`, lineStart: 1, lineEnd: 2 }, vectorRow: row }));
+    v.forEach((x, i) => buf.writeFloatLE(x, (row * dim + i) * 4));
+  });
+  fs.writeFileSync(path.join(bundle, 'map.csv'), map.join('\n'));
+  fs.writeFileSync(path.join(bundle, 'notes.jsonl'), notes.join('\n') + '\n');
+  fs.writeFileSync(path.join(bundle, 'vectors.f32'), buf);
+  fs.writeFileSync(path.join(bundle, 'manifest.json'), JSON.stringify({ schemaVersion: 1, type: 'code', count: n, vectors: { dim, count: n }, notes: { count: n, content: true } }));
+  let res = run(['import-context', bundle], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+
+  res = run(['vector-status', '--vector-backend', 'hnsw', '--recall-k', '5'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Recall@5: /);
+  let receipt = lastReceipt(dir);
+  assert.equal(receipt.results.backend, 'hnsw');
+  assert.equal(receipt.results.count, n);
+  assert.equal(receipt.results.hnsw.m, 16);
+  assert.ok(receipt.results.hnsw.recall.recall >= 0.9);
+  assert.ok(fs.existsSync(path.join(dir, '.antigoldfishmode', 'hnsw', 'index.json')));
+
+  // A built index is picked up by auto mode, and deletions outside the index are reconciled
+  res = run(['forget', '1', '2', '3'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  run(['vector-status'], dir);
+  receipt = lastReceipt(dir);
+  assert.equal(receipt.results.backend, 'hnsw');
+  assert.equal(receipt.results.mode, 'auto');
+  assert.equal(receipt.results.count, n - 3);
+});
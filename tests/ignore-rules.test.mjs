@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { IgnoreMatcher, parseIgnoreRules, describeRule } = await import(pathToFileURL(path.resolve('dist/codeindex/IgnoreRules.js')).href);
+const { CodeIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/CodeIndexer.js')).href);
+
+function write(dir, files) {
+  for (const [rel, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+    fs.writeFileSync(path.join(dir, rel), content);
+  }
+}
+
+test('gitignore patterns: anchoring, directory-only rules, ** and negation', async () => {
+  const match = (pattern, rel, isDir = false) => {
+    const [rule] = parseIgnoreRules(pattern, 't');
+    return rule.regex.test(rel) && (!rule.dirOnly || isDir);
+  };
+  assert.ok(match('*.log', 'a/b/debug.log'));
+  assert.ok(match('/todo.txt', 'todo.txt'));
+  assert.ok(!match('/todo.txt', 'docs/todo.txt'));
+  assert.ok(match('doc/*.txt', 'doc/notes.txt'));
+  assert.ok(!match('doc/*.txt', 'doc/server/arch.txt'));
+  assert.ok(match('**/fixtures', 'test/unit/fixtures', true));
+  assert.ok(match('a/**/b', 'a/b'));
+  assert.ok(match('a/**/b', 'a/x/y/b'));
+  assert.ok(match('gen/**', 'gen/x/y.ts'));
+  assert.ok(match('build/', 'pkg/build', true));
+  assert.ok(!match('build/', 'pkg/build'));
+  assert.ok(match('file[0-9].ts', 'file7.ts'));
+  assert.ok(match('\\#notes', '#notes'));
+  assert.deepEqual(parseIgnoreRules('# comment\n\n!keep.log\n', 't').map(r => [r.negated, r.line]), [[true, 3]]);
+});
+
+test('nested .gitignore and .agmignore: last match wins, excluded directories stay excluded', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  write(dir, {
+    '.gitignore': 'generated/\n*.snap\nvendor/\n!keep.snap\n',
+    '.agmignore': '!generated/\nfixtures/\n',
+    'src/.gitignore': '/local.ts\n',
+    'src/app.ts': 'export const a = 1;',
+    'src/local.ts': 'x',
+    'src/lib/local.ts': 'x',
+    'generated/api.ts': 'x',
+    'vendor/dep/index.js': 'x',
+    'test/fixtures/big.ts': 'x',
+    'test/a.snap': 'x',
+    'test/keep.snap': 'x',
+    'node_modules/pkg/index.js': 'x',
+  });
+  const m = new IgnoreMatcher(dir);
+  assert.equal(m.check('generated/api.ts', false).ignored, false); // re-included by .agmignore
+  assert.equal(describeRule(m.check('src/local.ts', false).rule), 'src/.gitignore:1 "/local.ts"');
+  assert.equal(m.check('src/lib/local.ts', false).ignored, false); // anchored to src/
+  assert.equal(describeRule(m.check('vendor/dep/index.js', false).rule), '.gitignore:3 "vendor/"');
+  assert.equal(m.check('test/keep.snap', false).ignored, false);
+  assert.equal(describeRule(m.check('node_modules/pkg/index.js', false).rule), 'default "node_modules/"');
+
+  const excluded = [];
+  const files = new CodeIndexer(dir).listFiles({ exclude: ['*.md', 'src/lib/'], onExclude: (p, rule, isDir) => excluded.push(`${p} ${describeRule(rule)}${isDir ? ' dir' : ''}`) });
+  assert.deepEqual(files, ['.agmignore', '.gitignore', 'generated/api.ts', 'src/.gitignore', 'src/app.ts', 'test/keep.snap']);
+  assert.deepEqual(excluded.sort(), [
+    'node_modules/ default "node_modules/" dir',
+    'src/lib/ --exclude "src/lib/" dir',
+    'src/local.ts src/.gitignore:1 "/local.ts"',
+    'test/a.snap .gitignore:2 "*.snap"',
+    'test/fixtures/ .agmignore:2 "fixtures/" dir',
+    'vendor/ .gitignore:3 "vendor/" dir',
+  ]);
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function run(args, cwd) {
+  const cli = path.resolve('dist/cli.js');
+  return spawnSync('node', [cli, ...args], { encoding: 'utf8', cwd });
+}
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['recall','import-context','receipt-show','policy','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+// Hand-built unsigned bundle: chunks = [{ id, file, ls, le, content }]
+function writeBundle(out, chunks) {
+  fs.mkdirSync(out, { recursive: true });
+  const sha = (t) => crypto.createHash('sha256').update(t).digest('hex');
+  const map = ['id,file,lang,line_start,line_end,symbol,type,timestamp,chunk_sha256'];
+  const notes = [];
+  for (const c of chunks) {
+    map.push([c.id, c.file, 'typescript', c.ls, c.le, '', '', '', sha(c.content)].join(','));
+    notes.push(JSON.stringify({ id: c.id, content: c.content, type: 'code', context: 'test', tags: [], metadata: { file: c.file, lineStart: c.ls, lineEnd: c.le }, vectorRow: null }));
+  }
+  fs.writeFileSync(path.join(out, 'map.csv'), map.join('\n'));
+  fs.writeFileSync(path.join(out, 'notes.jsonl'), notes.join('\n') + '\n');
+  fs.writeFileSync(path.join(out, 'vectors.f32'), Buffer.alloc(0));
+  fs.writeFileSync(path.join(out, 'manifest.json'), JSON.stringify({ schemaVersion: 1, type: 'code', count: chunks.length, vectors: { dim: 0, count: 0 }, notes: { count: chunks.length, content: true } }));
+}
+
+test('import-context --preview classifies chunks and --strategy controls the merge', async () => {
+  const dir = mkProject();
+  const base = path.join(dir, 'base.agmctx');
+  writeBundle(base, [
+    { id: 1, file: 'src/a.ts', ls: 1, le: 5, content: 'export const alpha = 1; // original' },
+    { id: 2, file: 'src/a.ts', ls: 10, le: 20, content: 'export function beta() { return 2; }' },
+  ]);
+  let res = run(['import-context', base], dir);
+  assert.equal(res.status, 0, `base import failed: ${res.stdout}\n${res.stderr}`);
+
+  const next = path.join(dir, 'next.agmctx');
+  writeBundle(next, [
+    { id: 7, file: 'src/a.ts', ls: 1, le: 5, content: 'export const alpha = 1; // revised' },
+    { id: 8, file: 'src/a.ts', ls: 8, le: 12, content: 'export function betaMoved() { return 2; }' },
+    { id: 9, file: 'src/b.ts', ls: 1, le: 3, content: 'export const gamma = 3;' },
+  ]);
+  res = run(['import-context', next, '--preview'], dir);
+  assert.equal(res.status, 0, `preview failed: ${res.stdout}\n${res.stderr}`);
+  assert.match(res.stdout, /new=1 changed=1 identical=0 conflicting=1/);
+  assert.match(res.stdout, /conflicting src\/a\.ts:8-12/);
+  // Preview must not touch the DB
+  res = run(['recall', 'gamma'], dir);
+  assert.doesNotMatch(res.stdout, /gamma = 3/);
+
+  res = run(['import-context', next, '--strategy', 'skip'], dir);
+  assert.equal(res.status, 0);
+  assert.match(res.stdout, /inserted=1 existing=0 skipped=2/);
+
+  res = run(['import-context', next, '--strategy', 'replace'], dir);
+  assert.equal(res.status, 0);
+  assert.match(res.stdout, /inserted=2 existing=1 replaced=2/);
+  res = run(['recall', 'alpha'], dir);
+  assert.match(res.stdout, /revised/);
+  assert.doesNotMatch(res.stdout, /original/);
+
+  res = run(['import-context', next, '--strategy', 'bogus'], dir);
+  assert.notEqual(res.status, 0);
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { IndexWorkerPool, runIndexTask } = await import(pathToFileURL(path.resolve('dist/codeindex/IndexWorkerPool.js')).href);
+const { IndexProgress, formatDuration } = await import(pathToFileURL(path.resolve('dist/codeindex/IndexProgress.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, 'src'));
+  for (let i = 0; i < 6; i++) {
+    fs.writeFileSync(path.join(dir, 'src', `m${i}.ts`), `export function f${i}(a: number) {\n  return a * ${i};\n}\nexport class C${i} {\n  run() { return f${i}(1); }\n}\n`);
+  }
+  return dir;
+}
+
+test('worker pool chunks files like the inline path and skips files with a known digest', async () => {
+  const dir = mkProject();
+  const files = fs.readdirSync(path.join(dir, 'src')).map(f => `src/${f}`);
+  const pool = new IndexWorkerPool(2);
+  try {
+    for (const strategy of ['treesitter-ast', 'heuristic-symbols', 'lines']) {
+      const tasks = files.map(file => ({ root: dir, file, strategy, maxChunkLines: 3 }));
+      const viaWorkers = await Promise.all(tasks.map(t => pool.run(t)));
+      assert.deepEqual(viaWorkers, tasks.map(t => runIndexTask(t)), strategy);
+      assert.ok(viaWorkers.every(r => r.chunks.length >= 2 && /^[0-9a-f]{64}$/.test(r.fileSha)), strategy);
+    }
+    const first = await pool.run({ root: dir, file: files[0], strategy: 'lines', maxChunkLines: 200 });
+    assert.deepEqual(await pool.run({ root: dir, file: files[0], strategy: 'lines', maxChunkLines: 200, knownDigest: first.fileSha }), { file: files[0], fileSha: first.fileSha, unchanged: true, chunks: [] });
+    const missing = await pool.run({ root: dir, file: 'src/gone.ts', strategy: 'lines', maxChunkLines: 200 });
+    assert.match(missing.error, /ENOENT/);
+  } finally {
+    await pool.close();
+  }
+  await assert.rejects(pool.run({ root: dir, file: files[0], strategy: 'lines', maxChunkLines: 200 }), /closed/);
+  // size 1 runs inline without threads
+  const inline = new IndexWorkerPool(1);
+  assert.equal((await inline.run({ root: dir, file: files[0], strategy: 'lines', maxChunkLines: 200 })).chunks.length, 1);
+  await inline.close();
+});
+
+test('a worker that exits without an error fails only its current file and is replaced', async () => {
+  const dir = mkProject();
+  const pool = new IndexWorkerPool(2);
+  try {
+    const task = { root: dir, file: 'src/m0.ts', strategy: 'lines', maxChunkLines: 200 };
+    const pending = pool.run(task);
+    // Ends the thread with an 'exit' event and no 'error'
+    await pool.workers[0].worker.terminate();
+    assert.match((await pending).error, /worker failed: exited with code/);
+    assert.equal(pool.workers.length, 2);
+    const again = await Promise.all(['src/m1.ts', 'src/m2.ts', 'src/m3.ts'].map(file => pool.run({ ...task, file })));
+    assert.ok(again.every(r => !r.error && r.chunks.length === 1));
+  } finally {
+    await pool.close();
+  }
+});
+
+test('withTransaction commits on success and rolls back on error', async () => {
+  const dir = mkProject();
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const db = engine.database;
+  await db.withTransaction(async () => {
+    await db.storeMemory('alpha chunk', 'code', 'code', ['code'], {}, { quiet: true });
+    await db.storeMemory('beta chunk', 'code', 'code', ['code'], {}, { quiet: true });
+  });
+  await assert.rejects(db.withTransaction(async () => {
+    await db.storeMemory('gamma chunk', 'code', 'code', ['code'], {}, { quiet: true });
+    throw new Error('boom');
+  }), /boom/);
+  const contents = (await db.searchMemories('chunk', { limit: 10 })).map(r => r.content).sort();
+  assert.deepEqual(contents, ['alpha chunk', 'beta chunk']);
+  await engine.close();
+});
+
+test('progress reports rates and ETA', async () => {
+  const lines = [];
+  const stream = { isTTY: false, write: (s) => { lines.push(s); return true; } };
+  const progress = new IndexProgress(4, { stream, intervalMs: 0 });
+  progress.update(1, 10);
+  progress.update(1, 5);
+  assert.equal(lines.length, 2);
+  assert.match(lines[1], /^Indexing 2\/4 files \([\d.]+ files\/s, [\d.]+ chunks\/s, ETA \d+s\)\n$/);
+  const done = progress.done();
+  assert.equal(done.files, 2);
+  assert.equal(done.chunks, 15);
+  assert.equal(formatDuration(42), '42s');
+  assert.equal(formatDuration(185), '3m 05s');
+  assert.equal(formatDuration(4380), '1h 13m');
+  assert.equal(formatDuration(NaN), '?');
+});
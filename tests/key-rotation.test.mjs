@@ -30,3 +30,21 @@ test('key rotate produces new keyId and export embeds keyId', async () => {
   const manifest = JSON.parse(fs.readFileSync(path.join(outDir,'manifest.json'),'utf8'));
   assert.equal(manifest.keyId, keyId, 'manifest keyId mismatch');
 });
+
+test('key status does not create a key; key rotate archives the previous one under its keyId', async () => {
+  const dir = mkTmp();
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['key','help','--help','-h','version','--version','-V'], allowedGlobs:['**/*'], envPassthrough:['PATH'], networkEgress:false, auditTrail:true };
+  fs.writeFileSync(path.join(dir,'.antigoldfishmode','policy.json'), JSON.stringify(policy,null,2));
+  const keyDir = path.join(dir, '.antigoldfishmode', 'keys');
+  assert.match(run(['key','status'], dir).stdout, /No signing key present/);
+  assert.equal(fs.existsSync(keyDir), false);
+
+  const first = run(['key','rotate'], dir).stdout.match(/New keyId=(\w{16})/)[1];
+  assert.equal(run(['key','status'], dir).stdout.match(/keyId: (\w{16})/)[1], first);
+  const second = run(['key','rotate'], dir).stdout.match(/New keyId=(\w{16})/)[1];
+  assert.notEqual(second, first);
+  const archived = fs.readdirSync(path.join(keyDir, 'archive')).sort();
+  assert.deepEqual(archived.map(f => [f.split('.')[0], path.extname(f)]), [[first, '.key'], [first, '.pub']]);
+  assert.deepEqual(fs.readdirSync(keyDir).sort(), ['agm_ed25519.key', 'agm_ed25519.pub', 'archive']);
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { LocalHashEmbedder } = await import(pathToFileURL(path.resolve('dist/engine/embeddings/LocalHashEmbedder.js')).href);
+const { createEmbedder } = await import(pathToFileURL(path.resolve('dist/engine/embeddings/Embedder.js')).href);
+
+function mkProject(policyExtra = {}) {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['index-code','reindex-file','reindex-folder','search-code','vector-status','export-context','prove-offline','policy','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true, ...policyExtra };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'auth.ts'), 'export function verifyPassword(hash: string, password: string) {\n  return hash === password;\n}\n');
+  fs.writeFileSync(path.join(dir, 'src', 'cache.ts'), 'export class LruCache {\n  evictOldest() { return null; }\n}\n');
+  return dir;
+}
+
+function run(args, cwd) {
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd, env });
+}
+
+function json(stdout) {
+  return JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  return JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+}
+
+test('local-hash embeds deterministically into unit vectors and auto falls back to it without a cached model', async () => {
+  const [a, b] = await new LocalHashEmbedder().embedBatch(['verify the password hash', 'verify the password hash']);
+  const again = await new LocalHashEmbedder().embed('verify the password hash');
+  assert.equal(a.length, 384);
+  assert.deepEqual(a, b);
+  assert.deepEqual(a, again);
+  assert.ok(Math.abs(a.reduce((n, x) => n + x * x, 0) - 1) < 1e-5);
+  assert.ok((await new LocalHashEmbedder().embed('')).every(Number.isFinite));
+
+  const dir = mkProject();
+  assert.equal(createEmbedder(dir).name, 'transformers');
+  assert.equal(createEmbedder(dir, 'local-hash').getModelId(), 'local-hash');
+  assert.equal(createEmbedder(dir, 'auto').name, 'local-hash');
+  assert.throws(() => createEmbedder(dir, 'openai'), /Invalid embedder: openai/);
+});
+
+test('search-code --hybrid uses the local-hash embedder and warns in --json when the model cannot load', () => {
+  const dir = mkProject();
+  let res = run(['--embedder', 'local-hash', 'index-code', '--path', '.'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(lastReceipt(dir).results.embedder, { name: 'local-hash', model: 'local-hash', embedded: true });
+
+  res = run(['--embedder', 'local-hash', '--json', 'search-code', 'password', '--hybrid'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  let out = json(res.stdout);
+  assert.deepEqual([out.embedded, out.embedder.name, out.warnings], [true, 'local-hash', []]);
+  assert.match(out.results[0].metadata, /auth\.ts/);
+  assert.ok(out.results[0]._cos > 0);
+  assert.deepEqual(lastReceipt(dir).extras.hybrid.embedder, { name: 'local-hash', model: 'local-hash' });
+
+  // The default transformers embedder has no model files here: FTS-only, but said so
+  res = run(['--json', 'search-code', 'password', '--hybrid'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  out = json(res.stdout);
+  assert.equal(out.embedded, false);
+  assert.equal(out.warnings.length, 1);
+  assert.match(out.warnings[0], /FTS-only/);
+  assert.match(res.stderr, /--embedder local-hash/);
+  assert.equal(lastReceipt(dir).extras.hybrid.embedded, false);
+
+  res = run(['policy', 'embedder', 'local-hash'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(run(['policy', 'embedder', 'openai'], dir).status, 1);
+  res = run(['--json', 'search-code', 'password', '--hybrid'], dir);
+  assert.equal(json(res.stdout).embedded, true);
+  run(['vector-status'], dir);
+  const status = lastReceipt(dir).results;
+  assert.deepEqual([status.embedder, status.model, status.count], [{ name: 'local-hash', source: 'policy' }, 'local-hash', 2]);
+});
+
+test('export manifests and prove-offline name the local-hash embedder', () => {
+  const dir = mkProject({ embedder: 'local-hash' });
+  assert.equal(run(['index-code', '--path', '.'], dir).status, 0);
+  let res = run(['export-context', '--out', 'ctx.agmctx', '--type', 'code'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const manifest = JSON.parse(fs.readFileSync(path.join(dir, 'ctx.agmctx', 'manifest.json'), 'utf8'));
+  assert.deepEqual([manifest.vectors.embedder, manifest.vectors.model, manifest.vectors.count, manifest.vectors.dim], ['local-hash', 'local-hash', 2, 384]);
+
+  res = run(['prove-offline', '--json'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(json(res.stdout).offlineProof.embedder, { name: 'local-hash', model: 'local-hash', source: 'policy' });
+  assert.match(res.stdout, /model=local-hash\(built-in\)/);
+});
+
+test('reindex-file and reindex-folder store chunks without vectors when the model is not cached', () => {
+  const dir = mkProject();
+  for (const args of [['reindex-file', 'src/auth.ts'], ['reindex-folder', 'src']]) {
+    const res = run(args, dir);
+    assert.equal(res.status, 0, res.stdout + res.stderr);
+    assert.match(res.stdout, /Xenova\/e5-small-v2 is not cached/);
+  }
+  assert.equal(run(['--embedder', 'local-hash', 'reindex-file', 'src/auth.ts'], dir).status, 0);
+  run(['--embedder', 'local-hash', 'vector-status'], dir);
+  assert.equal(lastReceipt(dir).results.count, 1);
+});
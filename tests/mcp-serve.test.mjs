@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function mkProject(extraCommands = []) {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['remember','recall','search-code','index-code','receipt-show','policy','help','--help','-h','version','--version','-V', ...extraCommands], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+// Send a batch of JSON-RPC messages on stdin, close it, and collect the responses by id
+function serve(dir, messages) {
+  const cli = path.resolve('dist/cli.js');
+  const input = messages.map(m => JSON.stringify({ jsonrpc: '2.0', ...m })).join('\n') + '\n';
+  const res = spawnSync('node', [cli, 'mcp', 'serve'], { encoding: 'utf8', cwd: dir, input, timeout: 60000 });
+  const responses = new Map();
+  for (const line of res.stdout.split('\n').filter(Boolean)) {
+    const msg = JSON.parse(line); // stdout must carry protocol messages only
+    responses.set(msg.id, msg);
+  }
+  return { res, responses };
+}
+
+test('mcp serve is blocked unless policy allows the mcp command', async () => {
+  const dir = mkProject();
+  const { res } = serve(dir, [{ id: 1, method: 'initialize', params: {} }]);
+  assert.equal(res.status, 2);
+  assert.match(res.stderr, /allow-command mcp/);
+});
+
+test('mcp serve exposes tools and returns structured results with receipts', async () => {
+  const dir = mkProject(['mcp']);
+  const { res, responses } = serve(dir, [
+    { id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0' } } },
+    { method: 'notifications/initialized' },
+    { id: 2, method: 'tools/list' },
+    { id: 3, method: 'tools/call', params: { name: 'remember', arguments: { content: 'mcp stores the lighthouse decision', type: 'decision' } } },
+    { id: 4, method: 'tools/call', params: { name: 'recall', arguments: { query: 'lighthouse' } } },
+    { id: 5, method: 'tools/call', params: { name: 'receipt-show', arguments: {} } },
+    { id: 6, method: 'tools/call', params: { name: 'recall', arguments: {} } },
+    { id: 7, method: 'bogus/method' },
+  ]);
+  assert.equal(res.status, 0, res.stderr);
+
+  assert.equal(responses.get(1).result.serverInfo.name, 'antigoldfishmode');
+  const names = responses.get(2).result.tools.map(t => t.name).sort();
+  assert.deepEqual(names, ['index-code', 'recall', 'receipt-show', 'remember', 'search-code']);
+
+  const remembered = responses.get(3).result.structuredContent;
+  assert.equal(remembered.success, true, JSON.stringify(remembered));
+  assert.ok(remembered.receipt.id, 'remember should report its receipt');
+  assert.ok(Number.isInteger(remembered.receipt.results.memoryId));
+
+  const recalled = responses.get(4).result.structuredContent;
+  assert.equal(recalled.success, true);
+  assert.equal(recalled.data.count, 1);
+  assert.match(recalled.data.results[0].content, /lighthouse/);
+  assert.equal(recalled.receipt.params.query, 'lighthouse');
+
+  const shown = responses.get(5).result.structuredContent;
+  assert.equal(shown.data.command, 'recall');
+
+  assert.equal(responses.get(6).error.code, -32602);
+  assert.equal(responses.get(7).error.code, -32601);
+});
+
+test('mcp tool failures report the handler exit code once, and index-code returns its --json payload', async () => {
+  const dir = mkProject(['mcp']);
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'a.ts'), 'export const a = 1;\n');
+  const receipts = () => fs.readdirSync(path.join(dir, '.antigoldfishmode', 'receipts')).filter(f => f.endsWith('.json')).length;
+  const { res, responses } = serve(dir, [
+    { id: 1, method: 'initialize', params: {} },
+    { id: 2, method: 'tools/call', params: { name: 'recall', arguments: { query: 'anything', limit: 0 } } },
+    { id: 3, method: 'tools/call', params: { name: 'remember', arguments: { content: '   ' } } },
+    { id: 4, method: 'tools/call', params: { name: 'index-code', arguments: { path: '.' } } },
+    { id: 5, method: 'tools/call', params: { name: 'recall', arguments: { query: 'anything' } } },
+  ]);
+  assert.equal(res.status, 0, res.stderr);
+
+  const badLimit = responses.get(2).result.structuredContent;
+  assert.deepEqual([badLimit.success, badLimit.exitCode, badLimit.error, badLimit.receipt], [false, 1, undefined, undefined]);
+  assert.match(badLimit.output, /Invalid limit/);
+  assert.doesNotMatch(badLimit.output, /exit 1/);
+
+  const empty = responses.get(3).result.structuredContent;
+  assert.deepEqual([empty.success, empty.exitCode], [false, 1]);
+  assert.match(empty.error, /empty/);
+  assert.equal((empty.output.match(/Failed to store memory/g) || []).length, 1);
+
+  const indexed = responses.get(4).result.structuredContent;
+  assert.equal(indexed.success, true, JSON.stringify(indexed));
+  assert.deepEqual([indexed.data.saved, indexed.data.fileCount], [1, 1]);
+  assert.equal(responses.get(5).result.structuredContent.exitCode, 0);
+  // remember (failed), index-code and recall: one receipt each
+  assert.equal(receipts(), 3);
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { packTar, unpackTar } = await import(pathToFileURL(path.resolve('dist/utils/Tar.js')).href);
+
+function mkProject(policyExtra = {}) {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['models','prove-offline','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true, ...policyExtra };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+function run(args, cwd) {
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd, env });
+}
+
+function json(stdout) {
+  return JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  return JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+}
+
+// A stand-in for a transformers.js model directory
+function cacheFakeModel(dir, id) {
+  const root = path.join(dir, '.antigoldfishmode', 'models', ...id.split('/'));
+  fs.mkdirSync(path.join(root, 'onnx'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'config.json'), JSON.stringify({ hidden_size: 384 }));
+  fs.writeFileSync(path.join(root, 'tokenizer.json'), JSON.stringify({ model: { vocab: { a: 0 } } }));
+  fs.writeFileSync(path.join(root, 'onnx', 'model_quantized.onnx'), Buffer.from(Array.from({ length: 3000 }, (_, i) => i % 251)));
+  return root;
+}
+
+test('tar round-trips files and rejects paths that escape the archive', () => {
+  const entries = [{ name: 'model-pack.json', data: Buffer.from('{}') }, { name: `model/${'d'.repeat(120)}/x.bin`, data: Buffer.alloc(700, 7) }];
+  for (const gzip of [false, true]) {
+    assert.deepEqual(unpackTar(packTar(entries, { gzip })), entries);
+  }
+  assert.throws(() => unpackTar(packTar([{ name: '../evil', data: Buffer.from('x') }])), /Unsafe path/);
+  assert.throws(() => unpackTar(packTar([{ name: '/etc/evil', data: Buffer.from('x') }])), /Unsafe path/);
+});
+
+test('models export/import move a verified model pack between projects and prove-offline records it', () => {
+  const src = mkProject();
+  const model = cacheFakeModel(src, 'test/tiny');
+  let res = run(['models', 'export', 'test/tiny', '--out', 'tiny.tgz', '--sign', '--json'], src);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const exported = json(res.stdout);
+  assert.deepEqual([exported.format, exported.files, exported.signed], ['tar.gz', 3, true]);
+
+  const dst = mkProject();
+  res = run(['models', 'import', path.join(src, 'tiny.tgz'), '--use', '--json'], dst);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const imported = json(res.stdout);
+  assert.deepEqual([imported.model, imported.installed, imported.signature, imported.keyId, imported.active], ['test/tiny', true, 'valid', exported.keyId, true]);
+  assert.equal(imported.manifestSha256, exported.manifestSha256);
+  const installed = path.join(dst, '.antigoldfishmode', 'models', 'test', 'tiny');
+  assert.deepEqual(fs.readFileSync(path.join(installed, 'onnx', 'model_quantized.onnx')), fs.readFileSync(path.join(model, 'onnx', 'model_quantized.onnx')));
+  assert.equal(fs.readdirSync(path.join(dst, '.antigoldfishmode')).filter(f => f.startsWith('tmp-model-pack-')).length, 0);
+
+  res = run(['prove-offline', '--json'], dst);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const proof = json(res.stdout).offlineProof;
+  assert.equal(proof.embeddingModel.id, 'test/tiny');
+  assert.equal(proof.embeddingModel.installed, true);
+  assert.deepEqual([proof.embeddingModel.pack.manifestSha256, proof.embeddingModel.pack.signed], [exported.manifestSha256, true]);
+  assert.equal(proof.installedModelPacks.length, 1);
+  assert.match(res.stdout, new RegExp(`model=test/tiny\\(pack:${exported.manifestSha256.slice(0, 12)},signed:${exported.keyId}\\)`));
+
+  // Importing the same pack again leaves the installed copy alone
+  res = run(['models', 'import', path.join(src, 'tiny.tgz'), '--json'], dst);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(json(res.stdout).installed, false);
+});
+
+test('models import rejects altered, extended or badly signed packs and honours requireSignedModels', () => {
+  const src = mkProject();
+  cacheFakeModel(src, 'test/tiny');
+  assert.equal(run(['models', 'export', '--out', 'plain'], src).status, 1); // the default model is not cached
+  assert.equal(run(['models', 'export', 'test/tiny', '--out', 'plain'], src).status, 0);
+  assert.equal(run(['models', 'export', 'test/tiny', '--out', 'signed', '--sign'], src).status, 0);
+  const copy = (name) => {
+    const to = path.join(src, `${name}-${Math.random().toString(36).slice(2)}`);
+    fs.cpSync(path.join(src, name), to, { recursive: true });
+    return to;
+  };
+  const dst = mkProject();
+
+  let pack = copy('plain');
+  fs.appendFileSync(path.join(pack, 'model', 'tokenizer.json'), ' ');
+  let res = run(['models', 'import', pack], dst);
+  assert.equal(res.status, 4, res.stdout + res.stderr);
+  assert.match(res.stderr, /checksum mismatch tokenizer\.json/);
+  assert.equal(lastReceipt(dst).results.problems.length, 1);
+
+  pack = copy('plain');
+  fs.writeFileSync(path.join(pack, 'model', 'onnx', 'extra.onnx'), 'x');
+  assert.equal(run(['models', 'import', pack], dst).status, 4);
+
+  pack = copy('signed');
+  const manifestPath = path.join(pack, 'model-pack.json');
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  manifest.createdAt = '2020-01-01T00:00:00.000Z';
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  assert.equal(run(['models', 'import', pack], dst).status, 3);
+  assert.equal(fs.existsSync(path.join(dst, '.antigoldfishmode', 'models', 'test', 'tiny')), false);
+
+  const strict = mkProject({ requireSignedModels: true });
+  res = run(['models', 'import', path.join(src, 'plain')], strict);
+  assert.equal(res.status, 2, res.stdout + res.stderr);
+  assert.equal(lastReceipt(strict).error, 'unsigned_blocked');
+  assert.equal(run(['models', 'import', path.join(src, 'signed')], strict).status, 0);
+});
@@ -0,0 +1,165 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const reg = await import(pathToFileURL(path.resolve('dist/engine/embeddings/ModelRegistry.js')).href);
+const { reembedCorpus, readReembedProgress } = await import(pathToFileURL(path.resolve('dist/engine/embeddings/Reembed.js')).href);
+const { LocalCosineIndex } = await import(pathToFileURL(path.resolve('dist/engine/vector/MemoryVectorIndex.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+delete process.env.AGM_EMBED_MODEL;
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['models','reembed','vector-status','import-context','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+function run(args, cwd) {
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd, env });
+}
+
+function json(stdout) {
+  return JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  return JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+}
+
+test('registry resolves the active model and records measured dimensions', () => {
+  const dir = mkProject();
+  assert.equal(reg.activeModelId(dir), reg.DEFAULT_EMBED_MODEL);
+  reg.setActiveModel(dir, 'acme/mini');
+  assert.equal(reg.activeModelId(dir), 'acme/mini');
+  assert.equal(reg.recordModelDimensions(dir, 'acme/mini', 256), undefined);
+  assert.equal(reg.recordModelDimensions(dir, 'acme/mini', 512), 256);
+  assert.equal(reg.loadModelRegistry(dir).models['acme/mini'].dimensions, 512);
+  assert.throws(() => reg.setActiveModel(dir, '../escape'), /Invalid model id/);
+  assert.throws(() => reg.validateModelId('a/b/c'), /Invalid model id/);
+
+  const cached = path.join(reg.modelCacheDir(dir), 'acme', 'mini');
+  fs.mkdirSync(cached, { recursive: true });
+  fs.writeFileSync(path.join(cached, 'config.json'), JSON.stringify({ hidden_size: 512 }));
+  assert.deepEqual(reg.listCachedModels(dir), ['acme/mini']);
+  assert.equal(reg.isModelCached(dir, 'acme/mini'), true);
+  assert.equal(reg.configuredDimensions(dir, 'acme/mini'), 512);
+
+  fs.writeFileSync(reg.modelRegistryPath(dir), '{oops');
+  assert.throws(() => reg.loadModelRegistry(dir), /Invalid model registry/);
+  assert.equal(reg.activeModelId(dir), reg.DEFAULT_EMBED_MODEL);
+});
+
+test('vector queries only compare vectors of the index model; reembed migrates the rest and resumes', async () => {
+  const dir = mkProject();
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const db = engine.database;
+  const ids = [];
+  for (let i = 0; i < 5; i++) ids.push(await db.storeMemory(`memory ${'x'.repeat(i + 1)}`, 'test', 'general', [], {}, { quiet: true }));
+  for (const id of ids.slice(0, 4)) await db.upsertVector(id, Float32Array.from([1, 0, 0]), 3, 'old/model');
+  await db.upsertVector(ids[4], Float32Array.from([1, 0]), 2, 'new/model');
+
+  assert.deepEqual(db.vectorModelStats(), [{ model: 'new/model', dim: 2, count: 1 }, { model: 'old/model', dim: 3, count: 4 }]);
+  const index = new LocalCosineIndex(db, 'new/model');
+  assert.equal(index.dimensions(), 2);
+  assert.deepEqual((await index.query(Float32Array.from([1, 0]), { k: 10 })).map(r => r.id), [ids[4]]);
+  assert.deepEqual(await new LocalCosineIndex(db, 'old/model').query(Float32Array.from([1, 0]), { k: 10 }), []);
+  assert.deepEqual(db.listVectorIdsNotFromModel('new/model', { afterId: ids[0], limit: 2 }), ids.slice(1, 3));
+  // A vector labelled with the model but of the wrong dimension is redone too
+  assert.equal(db.countVectorsNotFromModel('old/model'), 1);
+  assert.equal(db.countVectorsNotFromModel('old/model', 2), 5);
+
+  const embed = async (texts) => texts.map(t => Float32Array.from([t.length, 1]));
+  let batches = 0;
+  let progress = await reembedCorpus(db, index, embed, { projectRoot: dir, batchSize: 2, dimensions: 2, shouldStop: () => batches++ >= 1 });
+  assert.equal(progress.status, 'stopped');
+  assert.equal(progress.done, 2);
+  assert.equal(progress.total, 4);
+  assert.equal(readReembedProgress(dir).status, 'stopped');
+  assert.equal(db.countVectorsNotFromModel('new/model'), 2);
+
+  progress = await reembedCorpus(db, index, embed, { projectRoot: dir, batchSize: 2, dimensions: 2 });
+  assert.equal(progress.status, 'done');
+  assert.deepEqual([progress.done, progress.total, progress.failed], [4, 4, 0]);
+  assert.equal(readReembedProgress(dir).pid, undefined);
+  assert.deepEqual(db.vectorModelStats(), [{ model: 'new/model', dim: 2, count: 5 }]);
+
+  // A failing batch is counted and left for the next run
+  await db.upsertVector(ids[0], Float32Array.from([1, 0, 0]), 3, 'old/model');
+  progress = await reembedCorpus(db, index, async () => { throw new Error('model exploded'); }, { projectRoot: dir, dimensions: 2 });
+  assert.deepEqual([progress.status, progress.failed, progress.error], ['failed', 1, 'model exploded']);
+  assert.equal(db.countVectorsNotFromModel('new/model'), 1);
+
+  // So is a batch with missing vectors or vectors of another dimension; nothing from it is stored
+  progress = await reembedCorpus(db, index, async () => [], { projectRoot: dir, dimensions: 2 });
+  assert.deepEqual([progress.status, progress.done, progress.failed, progress.error], ['failed', 0, 1, 'Embedder returned 0 vectors for 1 texts']);
+  progress = await reembedCorpus(db, index, async (texts) => texts.map(() => Float32Array.from([1, 0, 0])), { projectRoot: dir, dimensions: 2 });
+  assert.deepEqual([progress.status, progress.failed, progress.error], ['failed', 1, 'Embedder returned a 3-dimensional vector, expected 2']);
+  assert.equal(db.countVectorsNotFromModel('new/model'), 1);
+  assert.deepEqual(db.vectorModelStats(), [{ model: 'new/model', dim: 2, count: 4 }, { model: 'old/model', dim: 3, count: 1 }]);
+  await engine.close();
+});
+
+test('models list/use and reembed --status report vectors from other models', () => {
+  const dir = mkProject();
+  // Bundle with 4-dim vectors made by another model
+  const dim = 4, n = 6;
+  const bundle = path.join(dir, 'vec.agmctx');
+  fs.mkdirSync(bundle);
+  const sha = (t) => crypto.createHash('sha256').update(t).digest('hex');
+  const map = ['id,file,lang,line_start,line_end,symbol,type,timestamp,chunk_sha256'];
+  const notes = [];
+  const buf = Buffer.alloc(n * dim * 4);
+  for (let row = 0; row < n; row++) {
+    const content = `chunk number ${row}`;
+    map.push([row + 1, `src/f${row}.ts`, 'typescript', 1, 2, '', '', '', sha(content)].join(','));
+    notes.push(JSON.stringify({ id: row + 1, content, type: 'code', context: 'test', tags: [], metadata: { file: `src/f${row}.ts`, lineStart: 1, lineEnd: 2 }, vectorRow: row }));
+    buf.writeFloatLE(1, (row * dim + (row % dim)) * 4);
+  }
+  fs.writeFileSync(path.join(bundle, 'map.csv'), map.join('\n'));
+  fs.writeFileSync(path.join(bundle, 'notes.jsonl'), notes.join('\n') + '\n');
+  fs.writeFileSync(path.join(bundle, 'vectors.f32'), buf);
+  fs.writeFileSync(path.join(bundle, 'manifest.json'), JSON.stringify({ schemaVersion: 1, type: 'code', count: n, vectors: { dim, count: n, model: 'test/old' }, notes: { count: n, content: true } }));
+  let res = run(['import-context', bundle], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+
+  res = run(['models', 'list', '--json'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const list = json(res.stdout);
+  assert.equal(list.source, 'default');
+  const old = list.models.find(m => m.id === 'test/old');
+  assert.deepEqual([old.active, old.cached, old.vectors, old.vectorDimensions], [false, false, n, [dim]]);
+  assert.ok(list.models.some(m => m.active && m.id === reg.DEFAULT_EMBED_MODEL));
+
+  res = run(['models', 'use', 'test/new', '--json'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(json(res.stdout), { model: 'test/new', previous: reg.DEFAULT_EMBED_MODEL, cached: false, staleVectors: n, dryRun: false });
+  assert.equal(reg.activeModelId(dir), 'test/new');
+  assert.equal(run(['models', 'use', '../x'], dir).status, 1);
+
+  // Search never compares the new model's queries with the imported vectors
+  run(['vector-status'], dir);
+  const receipt = lastReceipt(dir);
+  assert.equal(receipt.results.model, 'test/new');
+  assert.equal(receipt.results.count, 0);
+  assert.equal(receipt.results.otherModels, n);
+
+  res = run(['reembed', '--status', '--json'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(json(res.stdout), { model: 'test/new', remaining: n, progress: null });
+
+  // The model isn't in the local cache, so it can't be loaded or verified
+  res = run(['models', 'verify'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /Model verification failed/);
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { TreeSitterIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/TreeSitterIndexer.js')).href);
+const { SymbolIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/SymbolIndexer.js')).href);
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+const sources = {
+  'cache.ts': [
+    'export class LruCache<V> {',
+    '  private map = new Map<string, V>();',
+    '  get(key: string): V | undefined {',
+    '    return this.map.get(key);',
+    '  }',
+    '  evict(): void {',
+    '    this.map.clear();',
+    '  }',
+    '}',
+  ],
+  'repo.py': [
+    'class Repo(Base):',
+    '    table = "users"',
+    '    def find(self, id):',
+    '        return self.db.get(id)',
+    '    class Meta:',
+    '        def ordering(self):',
+    '            return "id"',
+  ],
+  'server.go': [
+    'package main',
+    'type Server struct{}',
+    'func (s *Server) Start() error { return nil }',
+  ],
+  'shape.rs': [
+    'struct Point { x: i32 }',
+    'impl Shape for Point {',
+    '    fn area(&self) -> f64 { 0.0 }',
+    '}',
+  ],
+};
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['search-code','refs','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  for (const [name, lines] of Object.entries(sources)) fs.writeFileSync(path.join(dir, name), lines.join('\n'));
+  return dir;
+}
+
+function run(args, cwd) {
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd });
+}
+
+const outline = (chunks) => chunks.map(c => `${c.meta.symbolType}:${c.meta.parentSymbol ? c.meta.parentSymbol + '.' : ''}${c.meta.symbolName}@${c.meta.lineStart}-${c.meta.lineEnd}`);
+
+test('Tree-sitter emits class summaries plus member chunks with parentSymbol and no duplicated bodies', async () => {
+  const dir = mkProject();
+  const indexer = new TreeSitterIndexer(dir);
+  const ts = indexer.chunkFile(path.join(dir, 'cache.ts'));
+  assert.deepEqual(outline(ts), ['class:LruCache@1-9', 'method:LruCache.get@3-5', 'method:LruCache.evict@6-8']);
+  assert.equal(ts[0].text, [
+    'class LruCache<V> {',
+    '  private map = new Map<string, V>();',
+    '  get(key: string): V | undefined { … }',
+    '  evict(): void { … }',
+    '}',
+  ].join('\n'));
+  // Each body is stored exactly once
+  assert.equal(ts.filter(c => c.text.includes('this.map.clear()')).length, 1);
+
+  const py = indexer.chunkFile(path.join(dir, 'repo.py'));
+  assert.deepEqual(outline(py), ['class:Repo@1-7', 'method:Repo.find@3-4', 'class:Repo.Meta@5-7', 'method:Repo.Meta.ordering@6-7']);
+  assert.match(py[0].text, /def find\(self, id\):\n\s+\.\.\.\n\s+class Meta:\n\s+\.\.\.$/);
+
+  assert.deepEqual(outline(indexer.chunkFile(path.join(dir, 'server.go'))), ['struct:Server@2-2', 'method:Server.Start@3-3']);
+  assert.deepEqual(outline(indexer.chunkFile(path.join(dir, 'shape.rs'))), ['struct:Point@1-1', 'impl:Shape for Point@2-4', 'method:Point.area@3-3']);
+});
+
+test('heuristic symbol indexer splits classes into a summary and methods', async () => {
+  const dir = mkProject();
+  const chunks = new SymbolIndexer(dir).chunkBySymbols(path.join(dir, 'cache.ts'));
+  assert.deepEqual(chunks.map(c => [c.meta.symbol, c.meta.parentSymbol, c.meta.lineStart, c.meta.lineEnd]), [
+    ['LruCache', undefined, 1, 9], ['get', 'LruCache', 3, 5], ['evict', 'LruCache', 6, 8],
+  ]);
+  assert.match(chunks[0].text, /get\(key: string\): V \| undefined \{ … \}\n {2}evict\(\): void \{ … \}\n\}$/);
+  assert.ok(!chunks[0].text.includes('this.map.get(key)'));
+});
+
+test('search-code and refs print Class.method paths', async () => {
+  const dir = mkProject();
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  for (const c of new TreeSitterIndexer(dir).chunkFile(path.join(dir, 'cache.ts'))) {
+    const meta = { file: c.meta.file, language: c.meta.language, lineStart: c.meta.lineStart, lineEnd: c.meta.lineEnd, symbol: c.meta.symbolName, symbolType: c.meta.symbolType, parentSymbol: c.meta.parentSymbol, tags: ['symbol', c.meta.symbolType] };
+    const id = await engine.database.storeMemory(c.text, 'code', 'code', ['code', 'typescript', 'symbol'], meta);
+    await engine.database.storeCodeGraph(id, { symbol: c.meta.symbolName, symbolType: c.meta.symbolType, references: c.meta.references });
+  }
+  await engine.close();
+
+  let res = run(['search-code', 'clear'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /cache\.ts:6-8 LruCache\.evict/);
+
+  res = run(['refs', 'LruCache.get'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /1 definition of LruCache\.get/);
+  assert.match(res.stdout, /LruCache\.get \(method\) cache\.ts:3-5/);
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { reciprocalRankFusion, RRF_K } = await import(pathToFileURL(path.resolve('dist/engine/RankFusion.js')).href);
+
+test('reciprocalRankFusion unions both lists and rewards agreement', async () => {
+  const fused = reciprocalRankFusion([{ ids: [1, 2, 3] }, { ids: [3, 9] }]);
+  assert.deepEqual(fused.map(f => f.id), [3, 1, 2, 9]); // 2 and 9 tie (rank 2 each); first seen wins
+  // 9 has no keyword hit at all but is still a candidate
+  const nine = fused.find(f => f.id === 9);
+  assert.deepEqual(nine.ranks, [null, 2]);
+  assert.equal(nine.score, 1 / (RRF_K + 2));
+  const three = fused.find(f => f.id === 3);
+  assert.equal(three.score, 1 / (RRF_K + 3) + 1 / (RRF_K + 1));
+  // Weights scale a list's contribution
+  assert.deepEqual(reciprocalRankFusion([{ ids: [1] }, { ids: [2], weight: 2 }]).map(f => f.id), [2, 1]);
+});
+
+test('search-code --vector-first records RRF union settings in the receipt', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['search-code','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  const res = spawnSync('node', [path.resolve('dist/cli.js'), 'search-code', 'where do we handle retries', '--vector-first', '--vector-k', '25', '--dry-run'], { encoding: 'utf8', cwd: dir });
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const receipt = JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).sort().pop()), 'utf8'));
+  assert.equal(receipt.params.vectorFirst, true);
+  assert.equal(receipt.extras.hybrid.retrieval, 'union');
+  assert.equal(receipt.extras.hybrid.fusion, 'rrf');
+  assert.equal(receipt.extras.hybrid.vectorK, 25);
+});
+
+test('search-code --vector-first returns a chunk with no keyword overlap through the vector side of the union', () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['index-code','search-code','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  fs.mkdirSync(path.join(dir, 'src'));
+  fs.writeFileSync(path.join(dir, 'src', 'headers.ts'), 'export function parseRetryHeader(value: string) {\n  // retry after header from the server\n  return Number(value);\n}\n');
+  // "scheduleRetries" shares character trigrams with "retry" but no FTS token
+  fs.writeFileSync(path.join(dir, 'src', 'backoff.ts'), 'export function scheduleRetries(attempt: number) {\n  return Math.min(30000, 2 ** attempt * 100);\n}\n');
+  fs.writeFileSync(path.join(dir, 'src', 'invoice.ts'), 'export function renderInvoice(total: number) {\n  return `Total: ${total}`;\n}\n');
+  const env = { ...process.env };
+  delete env.AGM_EMBED_MODEL;
+  const run = args => spawnSync('node', [path.resolve('dist/cli.js'), '--embedder', 'local-hash', ...args], { encoding: 'utf8', cwd: dir, env });
+  const files = stdout => {
+    const out = JSON.parse(stdout.slice(stdout.indexOf('{'), stdout.lastIndexOf('}') + 1));
+    return out.results.map(r => ({ file: JSON.parse(r.metadata).file, bm25: r._bm25, cos: r._cos }));
+  };
+  let res = run(['index-code', '--path', '.']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+
+  res = run(['--json', 'search-code', 'retry']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.deepEqual(files(res.stdout).map(r => r.file), ['src/headers.ts']);
+
+  res = run(['--json', 'search-code', 'retry', '--vector-first']);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const hits = files(res.stdout);
+  assert.equal(hits[0].file, 'src/headers.ts');
+  const backoff = hits.find(r => r.file === 'src/backoff.ts');
+  assert.ok(backoff, JSON.stringify(hits));
+  assert.equal(backoff.bm25, undefined);
+  assert.ok(backoff.cos > 0);
+  // Ranked by its cosine: ahead of the unrelated chunk the vector side also returns
+  assert.ok(hits.findIndex(r => r.file === 'src/backoff.ts') < hits.findIndex(r => r.file === 'src/invoice.ts'));
+});
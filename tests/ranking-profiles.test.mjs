@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { fuseCandidates } = await import(pathToFileURL(path.resolve('dist/engine/RankFusion.js')).href);
+const { resolveRankingParams, rankingBoost } = await import(pathToFileURL(path.resolve('dist/engine/RankingProfiles.js')).href);
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['search-code','ranking','receipt-show','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+function run(args, cwd) {
+  return spawnSync('node', [path.resolve('dist/cli.js'), ...args], { encoding: 'utf8', cwd });
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  return JSON.parse(fs.readFileSync(path.join(rdir, fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort().pop()), 'utf8'));
+}
+
+test('fuseCandidates supports weighted, max and rrf fusion', async () => {
+  const cands = [{ id: 1, bm25: 0.9, cosine: 0.1 }, { id: 2, bm25: 0.2, cosine: 0.8 }, { id: 3, cosine: 0.5 }];
+  const weighted = fuseCandidates(cands, { fusion: 'weighted', bm25Weight: 0.5, cosineWeight: 0.5 });
+  assert.equal(weighted.get(1), 0.5);
+  assert.equal(weighted.get(3), 0.25);
+  const keywordHeavy = fuseCandidates(cands, { fusion: 'weighted', bm25Weight: 1, cosineWeight: 0 });
+  assert.ok(keywordHeavy.get(1) > keywordHeavy.get(2));
+  const max = fuseCandidates(cands, { fusion: 'max', bm25Weight: 1, cosineWeight: 1 });
+  assert.equal(max.get(2), 0.8);
+  const rrf = fuseCandidates(cands, { fusion: 'rrf', bm25Weight: 1, cosineWeight: 1, rrfK: 60 });
+  assert.equal(rrf.get(3), 1 / 62); // no FTS rank, second by cosine
+  assert.equal(rrf.get(2), 1 / 62 + 1 / 61);
+});
+
+test('profiles resolve built-ins, project files and overrides; boosts compound', async () => {
+  const dir = mkProject();
+  assert.deepEqual(resolveRankingParams(dir).params, { bm25Weight: 0.5, cosineWeight: 0.5, symbolBoost: 1.05, recencyWeight: 0, recencyHalfLifeDays: 30, pathBoosts: {} });
+  assert.equal(resolveRankingParams(dir, { profile: 'identifier' }).params.bm25Weight, 0.8);
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'ranking-profiles.json'), JSON.stringify({ defaultProfile: 'conceptual', profiles: { conceptual: { pathBoosts: { 'src/**': 2 } } } }));
+  const resolved = resolveRankingParams(dir, { overrides: { fusion: 'max', recencyWeight: undefined } });
+  assert.equal(resolved.profile, 'conceptual');
+  assert.equal(resolved.source, 'project');
+  assert.equal(resolved.params.cosineWeight, 0.7); // shadowing profile extends the built-in
+  assert.equal(resolved.params.fusion, 'max');
+  assert.throws(() => resolveRankingParams(dir, { profile: 'nope' }), /Unknown ranking profile/);
+  assert.throws(() => resolveRankingParams(dir, { overrides: { bm25Weight: -1 } }), /bm25Weight/);
+
+  const params = { ...resolved.params, symbolBoost: 1.5, recencyWeight: 1, recencyHalfLifeDays: 10 };
+  const now = Date.parse('2026-01-11T00:00:00Z');
+  const meta = JSON.stringify({ file: 'src/a.ts', symbolType: 'function' });
+  assert.equal(rankingBoost(params, { metadata: meta, timestamp: '2026-01-01 00:00:00' }, { symbolBias: true, now }), 2 * 1.5 * 1.5);
+  assert.equal(rankingBoost(params, { metadata: JSON.stringify({ file: 'test/a.ts' }) }, { symbolBias: true, now }), 1);
+});
+
+test('ranking save + search-code record the effective parameters in the receipt', async () => {
+  const dir = mkProject();
+  let res = run(['ranking', 'save', 'team', '--from', 'identifier', '--fusion', 'max', '--path-boost', 'src/**=1.25', '--default'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  res = run(['ranking', 'list'], dir);
+  assert.match(res.stdout, /\* team/);
+
+  res = run(['search-code', 'retry policy', '--hybrid', '--cosine-weight', '0.4', '--recency-weight', '0.2', '--dry-run'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const hybrid = lastReceipt(dir).extras.hybrid;
+  assert.equal(hybrid.profile, 'team');
+  assert.equal(hybrid.fusion, 'max');
+  assert.deepEqual(hybrid.fusionWeights, { bm25: 0.8, cosine: 0.4 });
+  assert.equal(hybrid.symbolBoost, 1.1);
+  assert.deepEqual(hybrid.recency, { weight: 0.2, halfLifeDays: 30 });
+  assert.deepEqual(hybrid.pathBoosts, { 'src/**': 1.25 });
+
+  res = run(['search-code', 'retry policy', '--vector-first', '--profile', 'default', '--dry-run'], dir);
+  assert.equal(lastReceipt(dir).extras.hybrid.fusion, 'rrf');
+
+  res = run(['search-code', 'retry policy', '--hybrid', '--fusion', 'sum', '--dry-run'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /Invalid ranking fusion: sum/);
+});
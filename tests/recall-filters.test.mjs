@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function run(args, cwd) {
+  const cli = path.resolve('dist/cli.js');
+  return spawnSync('node', [cli, ...args], { encoding: 'utf8', cwd });
+}
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['remember','recall','receipt-show','policy','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+// --json recall prints its plan before the results payload
+function recallJson(stdout) {
+  return JSON.parse(stdout.slice(stdout.indexOf('{\n  "count"'), stdout.lastIndexOf('}') + 1));
+}
+
+function recallContents(dir, extra) {
+  const res = run(['recall', 'otter', ...extra], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  return [...res.stdout.matchAll(/Content: (.*)/g)].map(m => m[1].trim()).sort();
+}
+
+test('recall filters by type, context and tags', async () => {
+  const dir = mkProject();
+  for (const [content, extra] of [
+    ['otter cache decision', ['--type', 'decision', '--tags', 'cache,perf']],
+    ['otter deploy note', ['--context', 'ops', '--tags', 'deploy']],
+    ['otter general thought', []],
+  ]) {
+    const res = run(['remember', content, ...extra], dir);
+    assert.equal(res.status, 0, res.stdout + res.stderr);
+  }
+
+  assert.equal(recallContents(dir, []).length, 3);
+  assert.deepEqual(recallContents(dir, ['--type', 'decision']), ['otter cache decision']);
+  assert.deepEqual(recallContents(dir, ['--context', 'ops']), ['otter deploy note']);
+  assert.deepEqual(recallContents(dir, ['--tags', 'perf,cache']), ['otter cache decision']);
+  assert.deepEqual(recallContents(dir, ['--tags', 'perf,deploy']), []);
+
+  const receipt = JSON.parse(run(['receipt-show', '--last'], dir).stdout);
+  assert.equal(receipt.command, 'recall');
+  assert.deepEqual(receipt.params.tags, ['perf', 'deploy']);
+});
+
+test('recall --hybrid returns notes that share no words with the query through their vectors', async () => {
+  const dir = mkProject();
+  for (const [content, extra] of [
+    ['scheduleRetries waits with exponential backoff between uploads', ['--context', 'sync']],
+    ['otter habitat survey notes', []],
+  ]) {
+    const res = run(['--embedder', 'local-hash', 'remember', content, ...extra], dir);
+    assert.equal(res.status, 0, res.stdout + res.stderr);
+  }
+
+  const query = 'retrying scheduler uploader';
+  let res = run(['recall', query], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.match(res.stdout, /Found 0 memories/);
+
+  res = run(['--embedder', 'local-hash', '--json', 'recall', query, '--hybrid', '--limit', '1'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  const out = recallJson(res.stdout);
+  assert.equal(out.embedded, true);
+  assert.deepEqual(out.results.map(r => r.content), ['scheduleRetries waits with exponential backoff between uploads']);
+  assert.ok(out.results[0]._cos > 0);
+  const receipt = JSON.parse(run(['receipt-show', '--last'], dir).stdout);
+  assert.deepEqual(receipt.extras.hybrid.candidates, { fts: 0, vector: 2, union: 2 });
+
+  // Vector neighbours honour the recall filters too
+  res = run(['--embedder', 'local-hash', '--json', 'recall', query, '--hybrid', '--context', 'ops'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(recallJson(res.stdout).count, 0);
+});
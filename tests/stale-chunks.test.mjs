@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { MemoryEngine } = await import(pathToFileURL(path.resolve('dist/MemoryEngine.js')).href);
+
+test('deleteCodeByFile matches the exact file and removes vectors and graph rows', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  const engine = new MemoryEngine(dir, true, false, false);
+  await engine.initialize();
+  const db = engine.database;
+  const store = async (file, text) => {
+    const name = text.split(' ')[1].replace('()', '');
+    const id = await db.storeMemory(text, 'code', 'code', ['code'], { file, lineStart: 1, lineEnd: 1, symbol: name }, { quiet: true });
+    await db.storeCodeGraph(id, { symbol: name, symbolType: 'function', references: [{ name: 'helper', kind: 'call' }] });
+    await db.upsertVector(id, new Float32Array([1, 0, 0]), 3);
+    return id;
+  };
+  const a1 = await store('src/a.ts', 'function alpha() { helper(); }');
+  const a2 = await store('src/a.ts', 'function beta() { helper(); }');
+  const tsx = await store('src/a.tsx', 'function gamma() { helper(); }');
+  const bak = await store('src/a.ts.bak', 'function delta() { helper(); }');
+
+  assert.deepEqual(await db.listCodeIdsByFile('src/a.ts'), [a1, a2]);
+  assert.equal(await db.deleteCodeByFile('src/a.ts'), 2);
+  assert.deepEqual(await db.listCodeIdsByFile('src/a.ts'), []);
+  assert.deepEqual(await db.listCodeFiles(), ['src/a.ts.bak', 'src/a.tsx']);
+  assert.deepEqual([...(await db.getVectors([a1, a2, tsx, bak])).keys()].sort(), [tsx, bak].sort());
+  assert.deepEqual((await db.findSymbolReferences('helper')).map(h => h.symbol).sort(), ['delta', 'gamma']);
+  assert.deepEqual((await db.searchMemories('alpha', { limit: 5 })).length, 0);
+  await engine.close();
+});
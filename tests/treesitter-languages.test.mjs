@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { TreeSitterIndexer } = await import(pathToFileURL(path.resolve('dist/codeindex/TreeSitterIndexer.js')).href);
+
+const sources = {
+  'server.go': [
+    'package main',
+    'type Server struct {',
+    '  addr string',
+    '}',
+    'type Handler interface { Serve() error }',
+    'func (s *Server) Start() error { return nil }',
+    'func NewServer() *Server { return &Server{} }',
+  ],
+  'shape.rs': [
+    'pub struct Point { x: i32 }',
+    'pub trait Shape { fn area(&self) -> f64; }',
+    'impl Shape for Point {',
+    '    fn area(&self) -> f64 { 0.0 }',
+    '}',
+    'fn main() {}',
+  ],
+  'Server.java': [
+    'public class Server implements Runnable {',
+    '  public Server() {}',
+    '  public void run() {}',
+    '}',
+    'interface Handler { void handle(); }',
+  ],
+  'Server.cs': [
+    'namespace App {',
+    '  public class Server : IServer {',
+    '    public void Start() {}',
+    '  }',
+    '  public interface IServer { void Start(); }',
+    '  public struct Point { }',
+    '}',
+  ],
+};
+
+function symbols(chunks) {
+  return chunks.map(c => `${c.meta.symbolType}:${c.meta.symbolName}@${c.meta.lineStart}-${c.meta.lineEnd}`);
+}
+
+test('Tree-sitter extracts Go, Rust, Java and C# declarations with symbol metadata', async () => {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  for (const [name, lines] of Object.entries(sources)) fs.writeFileSync(path.join(dir, name), lines.join('\n'));
+  const indexer = new TreeSitterIndexer(dir);
+  assert.ok(indexer.isAvailable());
+  for (const lang of ['go', 'rust', 'java', 'csharp']) assert.ok(indexer.languages().includes(lang), `${lang} grammar loaded`);
+
+  const go = indexer.chunkFile(path.join(dir, 'server.go'));
+  assert.deepEqual(symbols(go), ['struct:Server@2-4', 'interface:Handler@5-5', 'method:Start@6-6', 'function:NewServer@7-7']);
+  assert.ok(go[0].text.startsWith('type Server struct'));
+  assert.equal(go[0].meta.language, 'go');
+  assert.equal(go[0].meta.strategy, 'treesitter-ast');
+
+  assert.deepEqual(symbols(indexer.chunkFile(path.join(dir, 'shape.rs'))), ['struct:Point@1-1', 'trait:Shape@2-2', 'impl:Shape for Point@3-5', 'method:area@4-4', 'function:main@6-6']);
+  assert.deepEqual(symbols(indexer.chunkFile(path.join(dir, 'Server.java'))), ['class:Server@1-4', 'constructor:Server@2-2', 'method:run@3-3', 'interface:Handler@5-5', 'method:handle@5-5']);
+  const cs = indexer.chunkFile(path.join(dir, 'Server.cs'));
+  assert.deepEqual(symbols(cs), ['class:Server@2-4', 'method:Start@3-3', 'interface:IServer@5-5', 'method:Start@5-5', 'struct:Point@6-6']);
+  assert.equal(cs[0].meta.language, 'csharp');
+
+  // A file without declarations is still indexed as a whole
+  fs.writeFileSync(path.join(dir, 'consts.go'), 'package main\nconst Port = 8080\n');
+  const whole = indexer.chunkFile(path.join(dir, 'consts.go'));
+  assert.equal(whole.length, 1);
+  assert.equal(whole[0].meta.strategy, 'treesitter-fallback');
+});
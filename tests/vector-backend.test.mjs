@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+
+function run(args, cwd) {
+  const cli = path.resolve('dist/cli.js');
+  return spawnSync('node', [cli, ...args], { encoding: 'utf8', cwd });
+}
+
+function mkProject() {
+  const dir = fs.mkdtempSync(path.join(process.cwd(), 'agm-test-'));
+  fs.mkdirSync(path.join(dir, '.antigoldfishmode'), { recursive: true });
+  const policy = { allowedCommands: ['vector-status','search-code','receipt-show','policy','help','--help','-h','version','--version','-V'], allowedGlobs: ['**/*'], envPassthrough: ['PATH'], networkEgress: false, auditTrail: true };
+  fs.writeFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), JSON.stringify(policy, null, 2));
+  return dir;
+}
+
+function lastReceipt(dir) {
+  const rdir = path.join(dir, '.antigoldfishmode', 'receipts');
+  const files = fs.readdirSync(rdir).filter(f => f.endsWith('.json')).sort();
+  return JSON.parse(fs.readFileSync(path.join(rdir, files[files.length - 1]), 'utf8'));
+}
+
+test('vector-status reports the backend selected by flag or policy', async () => {
+  const dir = mkProject();
+  let res = run(['vector-status'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  let receipt = lastReceipt(dir);
+  assert.equal(receipt.results.backend, 'local-js');
+  assert.equal(receipt.results.mode, 'auto');
+  assert.equal(receipt.results.source, 'default');
+
+  res = run(['policy', 'vector-backend', 'local'], dir);
+  assert.equal(res.status, 0, res.stdout + res.stderr);
+  assert.equal(JSON.parse(fs.readFileSync(path.join(dir, '.antigoldfishmode', 'policy.json'), 'utf8')).vectorBackend, 'local');
+  run(['vector-status'], dir);
+  receipt = lastReceipt(dir);
+  assert.equal(receipt.results.mode, 'local');
+  assert.equal(receipt.results.source, 'policy');
+
+  res = run(['policy', 'vector-backend', 'faiss'], dir);
+  assert.equal(res.status, 1);
+});
+
+test('explicit vss backend fails loudly when sqlite-vss is not loaded', async () => {
+  const dir = mkProject();
+  let res = run(['vector-status', '--vector-backend', 'vss'], dir);
+  assert.equal(res.status, 1);
+  assert.match(res.stderr, /sqlite-vss is not loaded/);
+
+  res = run(['search-code', 'anything', '--hybrid', '--vector-backend', 'vss'], dir);
+  const receipt = lastReceipt(dir);
+  assert.equal(receipt.command, 'search-code');
+  assert.equal(receipt.success, false);
+  assert.match(receipt.error, /sqlite-vss is not loaded/);
+});
@@ -346,9 +346,8 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (result === 'Delete') {
             try {
-                // Note: This would require implementing a delete command in the CLI
-                // await execAsync(`agm delete ${memory.id}`);
-                vscode.window.showInformationMessage('Memory deleted (delete command not yet implemented in CLI)');
+                await execAsync(`agm forget ${memory.id}`);
+                vscode.window.showInformationMessage('Memory deleted');
                 memoryProvider.refresh();
                 updateStatusBar();
             } catch (error) {